@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { NextActivityProvider } from "@/contexts/NextActivityContext";
+import { ActivityScopeProvider } from "@/contexts/ActivityScopeContext";
 import { AppLayout } from "@/components/layout/AppLayout";
 import Login from "./pages/Login";
 import Dashboard from "./pages/Dashboard";
@@ -12,6 +13,8 @@ import Pipeline from "./pages/Pipeline";
 import Gestion from "./pages/Gestion";
 import Equipo from "./pages/Equipo";
 import MiDia from "./pages/MiDia";
+import Configuracion from "./pages/Configuracion";
+import Papelera from "./pages/Papelera";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -23,18 +26,22 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
-          <NextActivityProvider>
-            <Routes>
-              <Route path="/login" element={<Login />} />
-              <Route path="/mi-dia" element={<AppLayout><MiDia /></AppLayout>} />
-              <Route path="/dashboard" element={<AppLayout><Dashboard /></AppLayout>} />
-              <Route path="/pipeline" element={<AppLayout><Pipeline /></AppLayout>} />
-              <Route path="/gestion" element={<AppLayout><Gestion /></AppLayout>} />
-              <Route path="/equipo" element={<AppLayout><Equipo /></AppLayout>} />
-              <Route path="/" element={<Navigate to="/mi-dia" replace />} />
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </NextActivityProvider>
+          <ActivityScopeProvider>
+            <NextActivityProvider>
+              <Routes>
+                <Route path="/login" element={<Login />} />
+                <Route path="/mi-dia" element={<AppLayout><MiDia /></AppLayout>} />
+                <Route path="/dashboard" element={<AppLayout><Dashboard /></AppLayout>} />
+                <Route path="/pipeline" element={<AppLayout><Pipeline /></AppLayout>} />
+                <Route path="/gestion" element={<AppLayout><Gestion /></AppLayout>} />
+                <Route path="/equipo" element={<AppLayout><Equipo /></AppLayout>} />
+                <Route path="/configuracion" element={<AppLayout><Configuracion /></AppLayout>} />
+                <Route path="/papelera" element={<AppLayout><Papelera /></AppLayout>} />
+                <Route path="/" element={<Navigate to="/mi-dia" replace />} />
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </NextActivityProvider>
+          </ActivityScopeProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
@@ -0,0 +1,64 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DURATION_OPTIONS } from '@/lib/activity-time';
+
+interface ActivityTimeFieldsProps {
+  time: string;
+  durationMinutes: number | null;
+  onTimeChange: (time: string) => void;
+  onDurationChange: (durationMinutes: number | null) => void;
+  disabled?: boolean;
+  contentClassName?: string;
+}
+
+// Optional start time + duration. An empty time means "any time that day".
+export function ActivityTimeFields({
+  time,
+  durationMinutes,
+  onTimeChange,
+  onDurationChange,
+  disabled,
+  contentClassName,
+}: ActivityTimeFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="space-y-2">
+        <Label>Hora (opcional)</Label>
+        <Input
+          type="time"
+          step={900}
+          value={time}
+          onChange={(e) => onTimeChange(e.target.value)}
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Duración</Label>
+        <Select
+          value={durationMinutes ? String(durationMinutes) : 'none'}
+          onValueChange={(v) => onDurationChange(v === 'none' ? null : Number(v))}
+          disabled={disabled || !time}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Sin duración" />
+          </SelectTrigger>
+          <SelectContent className={contentClassName}>
+            <SelectItem value="none">Sin duración</SelectItem>
+            {DURATION_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={String(option.value)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { useCancelActivity } from '@/hooks/useActivities';
+import { useToast } from '@/hooks/use-toast';
+
+interface CancelActivityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  activity: {
+    id: string;
+    activity_type: string;
+    prospects?: { company_name: string } | null;
+  } | null;
+  onCancelled?: () => void;
+}
+
+const MIN_REASON_LENGTH = 10;
+
+// For activities that no longer apply: unlike completing or blocking, they
+// drop out of every list and stat.
+export function CancelActivityDialog({ open, onOpenChange, activity, onCancelled }: CancelActivityDialogProps) {
+  const [reason, setReason] = useState('');
+  const cancelActivity = useCancelActivity();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) setReason('');
+  }, [open]);
+
+  const handleCancel = async () => {
+    if (!activity) return;
+    try {
+      await cancelActivity.mutateAsync({ activityId: activity.id, reason: reason.trim() });
+      toast({
+        title: 'Actividad cancelada',
+        description: 'Ya no aparecerá en las listas ni en las estadísticas.',
+      });
+      onOpenChange(false);
+      onCancelled?.();
+    } catch (error) {
+      console.error('Error cancelling activity:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo cancelar la actividad.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>Cancelar actividad</DialogTitle>
+          {activity && (
+            <DialogDescription>
+              <span className="font-medium">{activity.prospects?.company_name || 'TAREA GENERAL'}</span>
+              {' - '}
+              {activity.activity_type}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>¿Por qué ya no aplica? (obligatorio)</Label>
+          <Textarea
+            placeholder='Ej: "Cliente ya compró a otro proveedor"'
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            className="resize-none"
+          />
+          <p className="text-xs text-muted-foreground">
+            Mínimo {MIN_REASON_LENGTH} caracteres ({reason.trim().length}/{MIN_REASON_LENGTH})
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={cancelActivity.isPending}>
+            Volver
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleCancel}
+            disabled={cancelActivity.isPending || reason.trim().length < MIN_REASON_LENGTH}
+          >
+            {cancelActivity.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Cancelar actividad
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
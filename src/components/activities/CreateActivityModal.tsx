@@ -38,7 +38,12 @@ import {
 } from '@/components/ui/command';
 import { CalendarIcon, Loader2, Plus, Search, User } from 'lucide-react';
 import { useCreateActivity } from '@/hooks/useActivities';
+import { useCreateRecurringActivity } from '@/hooks/useActivitySeries';
 import { useProspectSearch } from '@/hooks/useProspects';
+import { ContactSelect } from '@/components/prospects/ContactSelect';
+import { ActivityTimeFields } from '@/components/activities/ActivityTimeFields';
+import { RecurrenceFields } from '@/components/activities/RecurrenceFields';
+import { defaultRecurrenceRule, describeRecurrence, validateRecurrenceRule, type RecurrenceRule } from '@/lib/recurrence';
 import { useAllUsers } from '@/hooks/useUsers';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
@@ -46,6 +51,7 @@ import { Constants, Database } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 
 type ActivityType = Database['public']['Enums']['activity_type'];
+type ActivityInsert = Database['public']['Tables']['activities']['Insert'];
 
 const ACTIVITY_TYPES = Constants.public.Enums.activity_type;
 
@@ -83,9 +89,15 @@ export function CreateActivityModal({ open, onOpenChange, isManager, preSelected
   const [isProspectPopoverOpen, setIsProspectPopoverOpen] = useState(false);
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
   const [assignedTo, setAssignedTo] = useState<string>('');
+  const [contactId, setContactId] = useState<string | null>(null);
+  const [scheduledTime, setScheduledTime] = useState('');
+  const [location, setLocation] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(defaultRecurrenceRule());
 
   const { toast } = useToast();
   const createActivity = useCreateActivity();
+  const createRecurringActivity = useCreateRecurringActivity();
   const { data: prospects, isLoading: isSearching } = useProspectSearch(searchTerm);
   const { data: allUsers } = useAllUsers();
 
@@ -146,13 +158,24 @@ export function CreateActivityModal({ open, onOpenChange, isManager, preSelected
       return;
     }
 
+    const isRecurring = !isUrgent && recurrence.frequency !== 'none';
+    const recurrenceError = isRecurring ? validateRecurrenceRule(recurrence, scheduledDate) : null;
+    if (recurrenceError) {
+      toast({
+        title: 'Error',
+        description: recurrenceError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     try {
       // If urgent, set the date to yesterday so it appears in urgent section
       const finalDate = isUrgent 
         ? format(new Date(Date.now() - 24 * 60 * 60 * 1000), 'yyyy-MM-dd')
         : format(scheduledDate, 'yyyy-MM-dd');
 
-      await createActivity.mutateAsync({
+      const activity: Omit<ActivityInsert, 'id' | 'created_at' | 'series_id'> = {
         prospect_id: activityCategory === 'prospect' ? selectedProspect!.id : null,
         activity_type: activityType,
         custom_type: activityType === 'Otro' ? customType.trim() || null : null,
@@ -161,7 +184,17 @@ export function CreateActivityModal({ open, onOpenChange, isManager, preSelected
         status: 'pending',
         created_by: isManager ? 'manager' : 'salesperson',
         assigned_to: isManager ? assignedTo || user?.id : user?.id,
-      });
+        contact_id: activityCategory === 'prospect' ? contactId : null,
+        scheduled_time: !isUrgent && scheduledTime ? scheduledTime : null,
+        duration_minutes: !isUrgent && scheduledTime ? durationMinutes : null,
+        location: activityType === 'Visita' ? location.trim() || null : null,
+      };
+
+      if (isRecurring) {
+        await createRecurringActivity.mutateAsync({ activity, rule: recurrence });
+      } else {
+        await createActivity.mutateAsync(activity);
+      }
 
       const description = activityCategory === 'prospect' 
         ? `${activityType} programada para ${selectedProspect!.company_name}`
@@ -169,7 +202,7 @@ export function CreateActivityModal({ open, onOpenChange, isManager, preSelected
 
       toast({
         title: 'Actividad creada',
-        description,
+        description: isRecurring ? `${description} · ${describeRecurrence(recurrence)}` : description,
       });
 
       onOpenChange(false);
@@ -192,6 +225,11 @@ export function CreateActivityModal({ open, onOpenChange, isManager, preSelected
     setNotes('');
     setIsUrgent(false);
     setAssignedTo('');
+    setContactId(null);
+    setScheduledTime('');
+    setDurationMinutes(null);
+    setLocation('');
+    setRecurrence(defaultRecurrenceRule());
   };
 
   const availableActivityTypes = activityCategory === 'prospect' 
@@ -268,6 +306,7 @@ export function CreateActivityModal({ open, onOpenChange, isManager, preSelected
                             value={prospect.company_name}
                             onSelect={() => {
                               setSelectedProspect(prospect);
+                              setContactId(null);
                               setIsProspectPopoverOpen(false);
                             }}
                           >
@@ -287,6 +326,18 @@ export function CreateActivityModal({ open, onOpenChange, isManager, preSelected
             </div>
           )}
 
+          {/* Contact - which person at the prospect */}
+          {activityCategory === 'prospect' && selectedProspect && (
+            <div className="space-y-2">
+              <Label>Contacto</Label>
+              <ContactSelect
+                prospectId={selectedProspect.id}
+                value={contactId}
+                onChange={setContactId}
+              />
+            </div>
+          )}
+
           {/* Activity type */}
           <div className="space-y-2">
             <Label>Tipo</Label>
@@ -316,6 +367,18 @@ export function CreateActivityModal({ open, onOpenChange, isManager, preSelected
             </div>
           )}
 
+          {/* Location for visits */}
+          {activityType === 'Visita' && (
+            <div className="space-y-2">
+              <Label>Lugar</Label>
+              <Input
+                placeholder="Dirección u oficina del cliente..."
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+              />
+            </div>
+          )}
+
           {/* Date picker */}
           <div className="space-y-2">
             <Label>Fecha Programada</Label>
@@ -348,6 +411,24 @@ export function CreateActivityModal({ open, onOpenChange, isManager, preSelected
             </Popover>
           </div>
 
+          {/* Optional time and duration */}
+          <ActivityTimeFields
+            time={scheduledTime}
+            durationMinutes={durationMinutes}
+            onTimeChange={setScheduledTime}
+            onDurationChange={setDurationMinutes}
+            disabled={isUrgent}
+          />
+
+          {/* Recurrence - urgent tasks are one-off */}
+          {!isUrgent && (
+            <RecurrenceFields
+              value={recurrence}
+              onChange={setRecurrence}
+              startDate={scheduledDate}
+            />
+          )}
+
           {/* Notes - now required */}
           <div className="space-y-2">
             <Label>Descripción de la actividad (obligatorio)</Label>
@@ -408,9 +489,9 @@ export function CreateActivityModal({ open, onOpenChange, isManager, preSelected
           </Button>
           <Button 
             onClick={handleSubmit} 
-            disabled={createActivity.isPending || notes.trim().length < minNotesLength}
+            disabled={createActivity.isPending || createRecurringActivity.isPending || notes.trim().length < minNotesLength}
           >
-            {createActivity.isPending ? (
+            {createActivity.isPending || createRecurringActivity.isPending ? (
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             ) : (
               <Plus className="mr-2 h-4 w-4" />
@@ -31,14 +31,22 @@ import {
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
 import { Calendar } from '@/components/ui/calendar';
-import { CalendarIcon, Edit, Building2 } from 'lucide-react';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { CalendarIcon, Edit, Building2, Repeat } from 'lucide-react';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/contexts/AuthContext';
 import { useAllUsers } from '@/hooks/useUsers';
+import { ContactSelect } from '@/components/prospects/ContactSelect';
+import { ActivityTimeFields } from '@/components/activities/ActivityTimeFields';
+import { RecurrenceFields } from '@/components/activities/RecurrenceFields';
+import { ChangeHistory } from '@/components/prospects/ChangeHistory';
+import { useActivitySeries, useUpdateActivitySeries } from '@/hooks/useActivitySeries';
+import { defaultRecurrenceRule, seriesToRule, validateRecurrenceRule, type RecurrenceRule } from '@/lib/recurrence';
+import { formatTime } from '@/lib/activity-time';
 import { useToast } from '@/hooks/use-toast';
 import { Database } from '@/integrations/supabase/types';
 
@@ -71,10 +79,15 @@ interface EditActivityModalProps {
     activity_type: ActivityType;
     custom_type?: string | null;
     scheduled_date: string;
+    scheduled_time?: string | null;
+    duration_minutes?: number | null;
+    location?: string | null;
     status: ActivityStatus | null;
     notes?: string | null;
     assigned_to?: string | null;
     prospect_id?: string | null;
+    contact_id?: string | null;
+    series_id?: string | null;
     prospects?: {
       company_name: string;
       contact_name: string;
@@ -83,7 +96,6 @@ interface EditActivityModalProps {
 }
 
 export function EditActivityModal({ open, onOpenChange, activity }: EditActivityModalProps) {
-  const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { data: users } = useAllUsers();
@@ -93,9 +105,19 @@ export function EditActivityModal({ open, onOpenChange, activity }: EditActivity
   const [scheduledDate, setScheduledDate] = useState<Date | undefined>(
     new Date(activity.scheduled_date + 'T12:00:00')
   );
+  const [scheduledTime, setScheduledTime] = useState(formatTime(activity.scheduled_time));
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(activity.duration_minutes ?? null);
+  const [location, setLocation] = useState(activity.location || '');
   const [status, setStatus] = useState<ActivityStatus>(activity.status || 'pending');
   const [assignedTo, setAssignedTo] = useState<string>(activity.assigned_to || '');
   const [notes, setNotes] = useState(activity.notes || '');
+  const [contactId, setContactId] = useState<string | null>(activity.contact_id || null);
+
+  // Recurring activities: apply to this occurrence only, or to the series from here on
+  const { data: series } = useActivitySeries(activity.series_id);
+  const updateSeries = useUpdateActivitySeries();
+  const [editScope, setEditScope] = useState<'single' | 'following'>('single');
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(defaultRecurrenceRule());
 
   // For status changes that require additional input
   const [completionComment, setCompletionComment] = useState('');
@@ -114,13 +136,24 @@ export function EditActivityModal({ open, onOpenChange, activity }: EditActivity
   useEffect(() => {
     setActivityType(activity.activity_type);
     setScheduledDate(new Date(activity.scheduled_date + 'T12:00:00'));
+    setScheduledTime(formatTime(activity.scheduled_time));
+    setDurationMinutes(activity.duration_minutes ?? null);
+    setLocation(activity.location || '');
     setStatus(activity.status || 'pending');
     setAssignedTo(activity.assigned_to || '');
     setNotes(activity.notes || '');
+    setContactId(activity.contact_id || null);
     setCompletionComment('');
     setBlockReason('');
+    setEditScope('single');
   }, [activity]);
 
+  useEffect(() => {
+    if (series) {
+      setRecurrence(seriesToRule(series));
+    }
+  }, [series]);
+
   const updateActivityMutation = useMutation({
     mutationFn: async () => {
       // Validate required fields for status changes
@@ -146,12 +179,42 @@ export function EditActivityModal({ open, onOpenChange, activity }: EditActivity
         }
       }
 
+      const newScheduledDate = scheduledDate ? format(scheduledDate, 'yyyy-MM-dd') : activity.scheduled_date;
+      const applyToSeries = !!activity.series_id && editScope === 'following';
+
+      if (applyToSeries) {
+        const recurrenceError = validateRecurrenceRule(recurrence, scheduledDate || new Date());
+        if (recurrenceError) throw new Error(recurrenceError);
+
+        // Before the activity update, so completing it here materializes the next one with the new template
+        await updateSeries.mutateAsync({
+          seriesId: activity.series_id!,
+          fromDate: newScheduledDate,
+          excludeActivityId: activity.id,
+          template: {
+            activity_type: activityType,
+            custom_type: activity.custom_type ?? null,
+            notes,
+            assigned_to: assignedTo || null,
+            contact_id: contactId,
+            scheduled_time: scheduledTime || null,
+            duration_minutes: scheduledTime ? durationMinutes : null,
+            location: activityType === 'Visita' ? location.trim() || null : null,
+          },
+          rule: recurrence,
+        });
+      }
+
       const updateData: Record<string, unknown> = {
         activity_type: activityType,
-        scheduled_date: scheduledDate ? format(scheduledDate, 'yyyy-MM-dd') : activity.scheduled_date,
+        scheduled_date: newScheduledDate,
+        scheduled_time: scheduledTime || null,
+        duration_minutes: scheduledTime ? durationMinutes : null,
+        location: activityType === 'Visita' ? location.trim() || null : null,
         status: status,
         assigned_to: assignedTo || null,
         notes: notes,
+        contact_id: contactId,
       };
 
       // Add completion fields if status changed to completed
@@ -177,26 +240,6 @@ export function EditActivityModal({ open, onOpenChange, activity }: EditActivity
         .eq('id', activity.id);
 
       if (error) throw error;
-
-      // Log the update (trigger handles it, but we add extra context)
-      await supabase.from('activity_logs').insert({
-        user_id: user!.id,
-        action_type: 'update',
-        entity_type: 'activity',
-        entity_id: activity.id,
-        details: {
-          changes: {
-            activity_type: activityType !== activity.activity_type ? { from: activity.activity_type, to: activityType } : undefined,
-            scheduled_date: scheduledDate && format(scheduledDate, 'yyyy-MM-dd') !== activity.scheduled_date
-              ? { from: activity.scheduled_date, to: format(scheduledDate, 'yyyy-MM-dd') }
-              : undefined,
-            status: status !== originalStatus ? { from: originalStatus, to: status } : undefined,
-            assigned_to: assignedTo !== originalAssignedTo ? { from: originalAssignedTo, to: assignedTo } : undefined,
-          },
-          updated_by: 'manager',
-          prospect_name: activity.prospects?.company_name,
-        },
-      });
     },
     onSuccess: () => {
       toast({
@@ -268,6 +311,18 @@ export function EditActivityModal({ open, onOpenChange, activity }: EditActivity
               </div>
             )}
 
+            {/* Contact */}
+            {activity.prospect_id && (
+              <div className="space-y-2">
+                <Label>Contacto</Label>
+                <ContactSelect
+                  prospectId={activity.prospect_id}
+                  value={contactId}
+                  onChange={setContactId}
+                />
+              </div>
+            )}
+
             {/* Activity Type */}
             <div className="space-y-2">
               <Label>Tipo de actividad</Label>
@@ -285,6 +340,18 @@ export function EditActivityModal({ open, onOpenChange, activity }: EditActivity
               </Select>
             </div>
 
+            {/* Location for visits */}
+            {activityType === 'Visita' && (
+              <div className="space-y-2">
+                <Label>Lugar</Label>
+                <Input
+                  placeholder="Dirección u oficina del cliente..."
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                />
+              </div>
+            )}
+
             {/* Scheduled Date */}
             <div className="space-y-2">
               <Label>Fecha programada</Label>
@@ -313,6 +380,15 @@ export function EditActivityModal({ open, onOpenChange, activity }: EditActivity
               </Popover>
             </div>
 
+            {/* Scheduled Time */}
+            <ActivityTimeFields
+              time={scheduledTime}
+              durationMinutes={durationMinutes}
+              onTimeChange={setScheduledTime}
+              onDurationChange={setDurationMinutes}
+              contentClassName="bg-background"
+            />
+
             {/* Status */}
             <div className="space-y-2">
               <Label>Estado</Label>
@@ -393,8 +469,47 @@ export function EditActivityModal({ open, onOpenChange, activity }: EditActivity
                 className="min-h-[80px]"
               />
             </div>
+
+            {/* Recurring: scope of the changes */}
+            {activity.series_id && (
+              <div className="space-y-3 rounded-lg border p-3">
+                <Label className="flex items-center gap-1.5">
+                  <Repeat className="h-3.5 w-3.5" />
+                  Actividad recurrente: aplicar cambios a
+                </Label>
+                <RadioGroup
+                  value={editScope}
+                  onValueChange={(v) => setEditScope(v as 'single' | 'following')}
+                  className="flex flex-col gap-2"
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="single" id="scope-single" />
+                    <Label htmlFor="scope-single" className="font-normal cursor-pointer">
+                      Solo esta
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="following" id="scope-following" />
+                    <Label htmlFor="scope-following" className="font-normal cursor-pointer">
+                      Esta y las siguientes
+                    </Label>
+                  </div>
+                </RadioGroup>
+
+                {editScope === 'following' && (
+                  <RecurrenceFields
+                    value={recurrence}
+                    onChange={setRecurrence}
+                    startDate={scheduledDate}
+                    contentClassName="bg-background"
+                  />
+                )}
+              </div>
+            )}
           </div>
 
+          <ChangeHistory table="activities" recordId={activity.id} className="pt-2 border-t" />
+
           {/* Actions */}
           <div className="flex justify-end gap-2">
             <Button variant="outline" onClick={() => onOpenChange(false)}>
@@ -0,0 +1,212 @@
+import { useState, useEffect } from 'react';
+import { format, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import { exportRows, type ExportColumn, type ExportFormat } from '@/lib/table-export';
+import { formatTime } from '@/lib/activity-time';
+import { Download, Loader2 } from 'lucide-react';
+
+type Activity = Database['public']['Tables']['activities']['Row'];
+
+interface ExportActivity extends Activity {
+  prospects: { company_name: string | null; contact_name: string | null } | null;
+  contacts: { full_name: string } | null;
+  assigned_user_name: string | null;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pendiente',
+  completed: 'Completada',
+  blocked: 'Bloqueada',
+  cancelled: 'Cancelada',
+};
+
+const CREATED_BY_LABELS: Record<string, string> = {
+  system: 'Sistema',
+  manager: 'Gerente',
+  salesperson: 'Vendedor',
+};
+
+const ACTIVITY_COLUMNS: ExportColumn<ExportActivity>[] = [
+  { header: 'Fecha', value: a => new Date(a.scheduled_date + 'T12:00:00'), width: 12 },
+  { header: 'Hora', value: a => formatTime(a.scheduled_time), width: 8 },
+  { header: 'Tipo', value: a => a.custom_type ? `${a.activity_type} - ${a.custom_type}` : a.activity_type, width: 16 },
+  { header: 'Empresa', value: a => a.prospects?.company_name || 'Tarea general', width: 30 },
+  { header: 'Contacto', value: a => a.contacts?.full_name || a.prospects?.contact_name, width: 22 },
+  { header: 'Estado', value: a => STATUS_LABELS[a.status || 'pending'], width: 12 },
+  { header: 'Asignado a', value: a => a.assigned_user_name, width: 20 },
+  { header: 'Creada por', value: a => a.created_by ? CREATED_BY_LABELS[a.created_by] : null, width: 12 },
+  { header: 'Notas', value: a => a.notes, width: 40 },
+  { header: 'Comentario de cierre', value: a => a.status === 'completed' ? a.completion_comment : null, width: 40 },
+  { header: 'Razón de bloqueo', value: a => a.block_reason, width: 30 },
+  { header: 'Razón de cancelación', value: a => a.status === 'cancelled' ? a.cancel_reason : null, width: 30 },
+  { header: 'Completada el', value: a => a.completed_at ? new Date(a.completed_at) : null, width: 14 },
+];
+
+const EXPORT_PAGE_SIZE = 1000;
+
+interface ExportActivitiesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// All activities in a date range, cancelled ones included with their reason,
+// for weekly reviews in a spreadsheet
+export function ExportActivitiesModal({ open, onOpenChange }: ExportActivitiesModalProps) {
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setFromDate(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+      setToDate(format(new Date(), 'yyyy-MM-dd'));
+    }
+  }, [open]);
+
+  const handleExport = async () => {
+    if (!fromDate || !toDate || fromDate > toDate) {
+      toast({
+        title: 'Rango inválido',
+        description: 'La fecha inicial debe ser anterior a la final.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      // PostgREST caps responses at 1000 rows, so page through long ranges
+      const rows: Record<string, unknown>[] = [];
+      for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('activities')
+          .select(`
+            *,
+            prospects (
+              company_name,
+              contact_name
+            ),
+            contacts (
+              full_name
+            )
+          `)
+          .gte('scheduled_date', fromDate)
+          .lte('scheduled_date', toDate)
+          .order('scheduled_date', { ascending: true })
+          .order('scheduled_time', { ascending: true, nullsFirst: true })
+          .order('id', { ascending: true })
+          .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < EXPORT_PAGE_SIZE) break;
+      }
+
+      const { data: userProfiles, error: usersError } = await supabase
+        .from('user_profiles')
+        .select('id, full_name');
+
+      if (usersError) throw usersError;
+
+      const userMap: Record<string, string> = {};
+      userProfiles?.forEach(u => {
+        userMap[u.id] = u.full_name;
+      });
+
+      const activities = rows.map(a => ({
+        ...a,
+        assigned_user_name: a.assigned_to ? userMap[a.assigned_to as string] || null : null,
+      })) as unknown as ExportActivity[];
+
+      if (activities.length === 0) {
+        toast({ title: 'Sin actividades en ese rango' });
+        return;
+      }
+
+      await exportRows(activities, ACTIVITY_COLUMNS, `actividades-${fromDate}-a-${toDate}`, exportFormat, 'Actividades');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error exporting activities:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo exportar las actividades.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            Exportar actividades
+          </DialogTitle>
+          <DialogDescription>
+            Todas las actividades del rango, con comentarios de cierre y razones de bloqueo o cancelación.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="export-from">Desde</Label>
+              <Input id="export-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-to">Hasta</Label>
+              <Input id="export-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Formato</Label>
+            <RadioGroup
+              value={exportFormat}
+              onValueChange={(v) => setExportFormat(v as ExportFormat)}
+              className="flex gap-4"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="xlsx" id="format-xlsx" />
+                <Label htmlFor="format-xlsx" className="font-normal cursor-pointer">Excel (.xlsx)</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="csv" id="format-csv" />
+                <Label htmlFor="format-csv" className="font-normal cursor-pointer">CSV</Label>
+              </div>
+            </RadioGroup>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Exportar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
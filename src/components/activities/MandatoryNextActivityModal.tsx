@@ -37,6 +37,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { CalendarIcon, Loader2, AlertTriangle } from 'lucide-react';
+import { ActivityTimeFields } from '@/components/activities/ActivityTimeFields';
 import { useCreateActivity } from '@/hooks/useActivities';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
@@ -65,6 +66,8 @@ export function MandatoryNextActivityModal({
 }: MandatoryNextActivityModalProps) {
   const [activityType, setActivityType] = useState<ActivityType | ''>('');
   const [scheduledDate, setScheduledDate] = useState<Date | undefined>(undefined);
+  const [scheduledTime, setScheduledTime] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
   const [description, setDescription] = useState('');
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
   const [showCloseWarning, setShowCloseWarning] = useState(false);
@@ -141,6 +144,8 @@ export function MandatoryNextActivityModal({
         prospect_id: prospectId,
         activity_type: activityType as ActivityType,
         scheduled_date: format(scheduledDate!, 'yyyy-MM-dd'),
+        scheduled_time: scheduledTime || null,
+        duration_minutes: scheduledTime ? durationMinutes : null,
         notes: description.trim() || null,
         status: 'pending',
         assigned_to: assignedTo || undefined,
@@ -262,6 +267,15 @@ export function MandatoryNextActivityModal({
               </Popover>
             </div>
 
+            {/* Scheduled Time */}
+            <ActivityTimeFields
+              time={scheduledTime}
+              durationMinutes={durationMinutes}
+              onTimeChange={setScheduledTime}
+              onDurationChange={setDurationMinutes}
+              contentClassName="z-[110]"
+            />
+
             {/* Description */}
             <div className="space-y-2">
               <Label htmlFor="description">
@@ -8,6 +8,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Calendar } from '@/components/ui/calendar';
 import { Input } from '@/components/ui/input';
 import { CalendarIcon, Loader2, Search } from 'lucide-react';
+import { ActivityTimeFields } from '@/components/activities/ActivityTimeFields';
 import { useCreateActivity } from '@/hooks/useActivities';
 import { useProspectSearch } from '@/hooks/useProspects';
 import { useAuth } from '@/contexts/AuthContext';
@@ -33,6 +34,8 @@ export function QuickAddModal({ open, onOpenChange }: QuickAddModalProps) {
   const [activityType, setActivityType] = useState<string>('Llamada');
   const [notes, setNotes] = useState('');
   const [date, setDate] = useState<Date>(new Date());
+  const [time, setTime] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [showProspectList, setShowProspectList] = useState(false);
 
@@ -45,6 +48,8 @@ export function QuickAddModal({ open, onOpenChange }: QuickAddModalProps) {
     setActivityType('Llamada');
     setNotes('');
     setDate(new Date());
+    setTime('');
+    setDurationMinutes(null);
     setSearchTerm('');
     setShowProspectList(false);
   };
@@ -58,6 +63,8 @@ export function QuickAddModal({ open, onOpenChange }: QuickAddModalProps) {
         activity_type: activityType as any,
         notes: notes || null,
         scheduled_date: format(date, 'yyyy-MM-dd'),
+        scheduled_time: time || null,
+        duration_minutes: time ? durationMinutes : null,
         assigned_to: user.id,
         status: 'pending',
         created_by: 'salesperson',
@@ -65,7 +72,7 @@ export function QuickAddModal({ open, onOpenChange }: QuickAddModalProps) {
 
       toast({
         title: '✅ Actividad guardada',
-        description: `${activityType} programada para ${format(date, 'dd/MM/yyyy')}`,
+        description: `${activityType} programada para ${format(date, 'dd/MM/yyyy')}${time ? ` a las ${time}` : ''}`,
       });
 
       resetForm();
@@ -176,6 +183,13 @@ export function QuickAddModal({ open, onOpenChange }: QuickAddModalProps) {
           </div>
         </div>
 
+        <ActivityTimeFields
+          time={time}
+          durationMinutes={durationMinutes}
+          onTimeChange={setTime}
+          onDurationChange={setDurationMinutes}
+        />
+
         {/* Notes */}
         <div className="space-y-1.5">
           <Label className="text-sm">Notas</Label>
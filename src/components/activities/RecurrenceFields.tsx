@@ -0,0 +1,181 @@
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Repeat } from 'lucide-react';
+import {
+  FREQUENCY_OPTIONS,
+  WEEKDAY_OPTIONS,
+  describeRecurrence,
+  getUpcomingOccurrences,
+  type RecurrenceEnd,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from '@/lib/recurrence';
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+  // Date of the first occurrence, for the preview
+  startDate: Date | undefined;
+  disabled?: boolean;
+  contentClassName?: string;
+}
+
+// "Repetir" section of the activity forms: rule, end condition and a preview of the next dates
+export function RecurrenceFields({ value, onChange, startDate, disabled, contentClassName }: RecurrenceFieldsProps) {
+  const update = (changes: Partial<RecurrenceRule>) => onChange({ ...value, ...changes });
+  const upcoming = startDate ? getUpcomingOccurrences(value, startDate, 4) : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label className="flex items-center gap-1.5">
+          <Repeat className="h-3.5 w-3.5" />
+          Repetir
+        </Label>
+        <Select
+          value={value.frequency}
+          onValueChange={(v) => update({
+            frequency: v as RecurrenceFrequency,
+            // Start from the chosen date's weekday / day of month
+            ...(startDate && v !== value.frequency
+              ? { weekdays: [startDate.getDay()], dayOfMonth: startDate.getDate() }
+              : {}),
+          })}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className={contentClassName}>
+            {FREQUENCY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.frequency === 'weekly' && (
+        <ToggleGroup
+          type="multiple"
+          value={value.weekdays.map(String)}
+          onValueChange={(days) => update({ weekdays: days.map(Number) })}
+          className="justify-start"
+          size="sm"
+          disabled={disabled}
+        >
+          {WEEKDAY_OPTIONS.map((day) => (
+            <ToggleGroupItem
+              key={day.value}
+              value={String(day.value)}
+              title={day.label}
+              className="h-8 w-8 p-0 text-xs data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+            >
+              {day.short}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {value.frequency === 'monthly' && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>El día</span>
+          <Input
+            type="number"
+            min={1}
+            max={31}
+            value={value.dayOfMonth || ''}
+            onChange={(e) => update({ dayOfMonth: Number(e.target.value) })}
+            className="w-20"
+            disabled={disabled}
+          />
+          <span>de cada mes</span>
+        </div>
+      )}
+
+      {value.frequency === 'interval' && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>Cada</span>
+          <Input
+            type="number"
+            min={1}
+            max={365}
+            value={value.intervalDays || ''}
+            onChange={(e) => update({ intervalDays: Number(e.target.value) })}
+            className="w-20"
+            disabled={disabled}
+          />
+          <span>días</span>
+        </div>
+      )}
+
+      {value.frequency !== 'none' && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Termina</Label>
+              <Select
+                value={value.end}
+                onValueChange={(v) => update({ end: v as RecurrenceEnd })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className={contentClassName}>
+                  <SelectItem value="never">Nunca</SelectItem>
+                  <SelectItem value="date">En una fecha</SelectItem>
+                  <SelectItem value="count">Después de N veces</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {value.end === 'date' && (
+              <div className="space-y-2">
+                <Label>Hasta</Label>
+                <Input
+                  type="date"
+                  value={value.endDate || ''}
+                  onChange={(e) => update({ endDate: e.target.value || null })}
+                  disabled={disabled}
+                />
+              </div>
+            )}
+            {value.end === 'count' && (
+              <div className="space-y-2">
+                <Label>Veces</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={value.count || ''}
+                  onChange={(e) => update({ count: Number(e.target.value) || null })}
+                  disabled={disabled}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-md bg-muted/50 p-2 text-xs text-muted-foreground">
+            <p className="font-medium text-foreground">{describeRecurrence(value)}</p>
+            {upcoming.length > 0 && (
+              <p>
+                Próximas: {upcoming.map(d => format(d, 'EEE d MMM', { locale: es })).join(' · ')}
+              </p>
+            )}
+            <p>La siguiente se crea al completar la anterior.</p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
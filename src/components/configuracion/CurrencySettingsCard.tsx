@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Coins, Loader2, Trash2 } from 'lucide-react';
+import {
+  useCurrencyContext,
+  useSaveReportingCurrency,
+  useSaveExchangeRate,
+  useDeleteExchangeRate,
+} from '@/hooks/useCurrency';
+import { useToast } from '@/hooks/use-toast';
+import { CURRENCY_CODES, CURRENCY_LABELS, formatMoney, type CurrencyCode } from '@/lib/currency';
+
+// CRC is the base: rates are colones per unit of the other currencies
+const RATE_CURRENCIES = CURRENCY_CODES.filter(c => c !== 'CRC');
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr + 'T12:00:00').toLocaleDateString('es-CR', { day: '2-digit', month: 'short', year: 'numeric' });
+
+export function CurrencySettingsCard() {
+  const { data, isLoading } = useCurrencyContext();
+  const saveReportingCurrency = useSaveReportingCurrency();
+  const saveRate = useSaveExchangeRate();
+  const deleteRate = useDeleteExchangeRate();
+  const { toast } = useToast();
+
+  const [rateCurrency, setRateCurrency] = useState<CurrencyCode>(RATE_CURRENCIES[0]);
+  const [rateDate, setRateDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [crcPerUnit, setCrcPerUnit] = useState('');
+
+  const handleReportingChange = async (currency: CurrencyCode) => {
+    try {
+      await saveReportingCurrency.mutateAsync(currency);
+      toast({
+        title: 'Moneda de reporte actualizada',
+        description: `Los totales se mostrarán en ${CURRENCY_LABELS[currency].toLowerCase()}.`,
+      });
+    } catch (error) {
+      console.error('Error saving reporting currency:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo guardar la moneda de reporte.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleAddRate = async () => {
+    const value = parseFloat(crcPerUnit);
+    if (!rateDate || isNaN(value) || value <= 0) {
+      toast({
+        title: 'Valores inválidos',
+        description: 'Indica la fecha y un tipo de cambio mayor a cero.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await saveRate.mutateAsync({ currency: rateCurrency, rate_date: rateDate, crc_per_unit: value });
+      setCrcPerUnit('');
+      toast({
+        title: 'Tipo de cambio guardado',
+        description: `${formatMoney(1, rateCurrency)} = ₡${value.toLocaleString('es-CR')} desde el ${formatDate(rateDate)}.`,
+      });
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo guardar el tipo de cambio.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDeleteRate = async (id: string) => {
+    try {
+      await deleteRate.mutateAsync(id);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo eliminar el tipo de cambio.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const rates = data?.rates || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Coins className="h-5 w-5 text-primary" />
+          Monedas y tipo de cambio
+        </CardTitle>
+        <CardDescription>
+          Los totales del pipeline y de licitaciones se convierten a la moneda de reporte con el tipo de cambio más reciente.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {/* Reporting currency */}
+            <div className="space-y-2">
+              <Label>Moneda de reporte</Label>
+              <Select
+                value={data?.reportingCurrency ?? 'USD'}
+                onValueChange={(v) => handleReportingChange(v as CurrencyCode)}
+                disabled={saveReportingCurrency.isPending}
+              >
+                <SelectTrigger className="w-full sm:w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCY_CODES.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {CURRENCY_LABELS[code]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* New rate */}
+            <div className="space-y-2">
+              <Label>Tipo de cambio (colones por unidad)</Label>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Select value={rateCurrency} onValueChange={(v) => setRateCurrency(v as CurrencyCode)}>
+                  <SelectTrigger className="w-full sm:w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RATE_CURRENCIES.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {CURRENCY_LABELS[code]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="date"
+                  className="w-full sm:w-44"
+                  value={rateDate}
+                  onChange={(e) => setRateDate(e.target.value)}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Ej: 505.50"
+                  className="w-full sm:w-36"
+                  value={crcPerUnit}
+                  onChange={(e) => setCrcPerUnit(e.target.value)}
+                />
+                <Button onClick={handleAddRate} disabled={saveRate.isPending}>
+                  {saveRate.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Guardar
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Guardar otra vez la misma fecha corrige el valor de ese día.
+              </p>
+            </div>
+
+            {/* Rate history */}
+            {rates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Sin tipos de cambio registrados: los montos en otra moneda no se suman a los totales.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Moneda</TableHead>
+                    <TableHead className="text-right">Colones por unidad</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rates.map((rate) => (
+                    <TableRow key={rate.id}>
+                      <TableCell>{formatDate(rate.rate_date)}</TableCell>
+                      <TableCell>{rate.currency}</TableCell>
+                      <TableCell className="text-right">
+                        ₡{rate.crc_per_unit.toLocaleString('es-CR', { maximumFractionDigits: 2 })}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          title="Eliminar"
+                          onClick={() => handleDeleteRate(rate.id)}
+                          disabled={deleteRate.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
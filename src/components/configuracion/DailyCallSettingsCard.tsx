@@ -0,0 +1,308 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Phone, Loader2 } from 'lucide-react';
+import { useSalespersons } from '@/hooks/useUsers';
+import {
+  useDailyCallSettings,
+  useSaveDailyCallSettings,
+  useDeleteDailyCallSettings,
+  type DailyCallSettings,
+} from '@/hooks/useDailyCallSettings';
+import { useToast } from '@/hooks/use-toast';
+import { B2B_PHASES } from '@/lib/licitacion-constants';
+import { Database } from '@/integrations/supabase/types';
+import { cn } from '@/lib/utils';
+
+type PhaseType = Database['public']['Enums']['phase_type'];
+
+// ISO weekday numbers, as stored in active_days
+const WEEKDAYS = [
+  { value: 1, label: 'Lun' },
+  { value: 2, label: 'Mar' },
+  { value: 3, label: 'Mié' },
+  { value: 4, label: 'Jue' },
+  { value: 5, label: 'Vie' },
+  { value: 6, label: 'Sáb' },
+  { value: 7, label: 'Dom' },
+];
+
+// 'Prospección' is always eligible
+const EXTRA_PHASE_OPTIONS = B2B_PHASES.filter(p => p !== 'Prospección');
+
+interface FormState {
+  active_days: number[];
+  calls_per_day: string;
+  extra_phases: PhaseType[];
+  pending_window_days: string;
+  completed_cooldown_days: string;
+  system_call_cooldown_days: string;
+}
+
+const DEFAULT_FORM: FormState = {
+  active_days: [1, 2, 3, 4],
+  calls_per_day: '3',
+  extra_phases: [],
+  pending_window_days: '7',
+  completed_cooldown_days: '3',
+  system_call_cooldown_days: '2',
+};
+
+function toForm(settings: DailyCallSettings | null | undefined): FormState {
+  if (!settings) return DEFAULT_FORM;
+  return {
+    active_days: settings.active_days,
+    calls_per_day: String(settings.calls_per_day),
+    extra_phases: settings.extra_phases,
+    pending_window_days: String(settings.pending_window_days),
+    completed_cooldown_days: String(settings.completed_cooldown_days),
+    system_call_cooldown_days: String(settings.system_call_cooldown_days),
+  };
+}
+
+export function DailyCallSettingsCard() {
+  const [target, setTarget] = useState<string>('team');
+  const [form, setForm] = useState<FormState>(DEFAULT_FORM);
+  const { data: settings, isLoading } = useDailyCallSettings();
+  const { data: salespersons } = useSalespersons();
+  const saveSettings = useSaveDailyCallSettings();
+  const deleteSettings = useDeleteDailyCallSettings();
+  const { toast } = useToast();
+
+  const override = target === 'team' ? null : settings?.overrides.find(o => o.user_id === target) || null;
+  const current = target === 'team' ? settings?.team : override;
+
+  useEffect(() => {
+    // Salespeople without an override start from the team values
+    setForm(toForm(current || settings?.team));
+  }, [current, settings?.team]);
+
+  const toggleDay = (day: number) => {
+    setForm(prev => ({
+      ...prev,
+      active_days: prev.active_days.includes(day)
+        ? prev.active_days.filter(d => d !== day)
+        : [...prev.active_days, day].sort(),
+    }));
+  };
+
+  const togglePhase = (phase: PhaseType) => {
+    setForm(prev => ({
+      ...prev,
+      extra_phases: prev.extra_phases.includes(phase)
+        ? prev.extra_phases.filter(p => p !== phase)
+        : [...prev.extra_phases, phase],
+    }));
+  };
+
+  const handleSave = async () => {
+    const numbers = [form.calls_per_day, form.pending_window_days, form.completed_cooldown_days, form.system_call_cooldown_days]
+      .map(v => parseInt(v, 10));
+    if (numbers.some(n => isNaN(n) || n < 0)) {
+      toast({
+        title: 'Valores inválidos',
+        description: 'Todos los valores deben ser números positivos.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await saveSettings.mutateAsync({
+        id: current?.id,
+        user_id: target === 'team' ? null : target,
+        active_days: form.active_days,
+        calls_per_day: numbers[0],
+        extra_phases: form.extra_phases,
+        pending_window_days: numbers[1],
+        completed_cooldown_days: numbers[2],
+        system_call_cooldown_days: numbers[3],
+      });
+      toast({
+        title: 'Configuración guardada',
+        description: 'Las reglas se aplicarán en la próxima generación de llamadas.',
+      });
+    } catch (error) {
+      console.error('Error saving daily call settings:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo guardar la configuración.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleResetOverride = async () => {
+    if (!override) return;
+    try {
+      await deleteSettings.mutateAsync(override.id);
+      toast({
+        title: 'Personalización eliminada',
+        description: 'El vendedor vuelve a usar la configuración del equipo.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo eliminar la personalización.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Phone className="h-5 w-5 text-primary" />
+          Llamadas diarias automáticas
+        </CardTitle>
+        <CardDescription>
+          Reglas para generar las llamadas nuevas obligatorias de cada vendedor.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger className="w-full sm:w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="team">Todo el equipo</SelectItem>
+                  {salespersons?.map((vendor) => (
+                    <SelectItem key={vendor.id} value={vendor.id}>
+                      {vendor.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {target !== 'team' && (
+                override ? (
+                  <Badge variant="secondary">Personalizado</Badge>
+                ) : (
+                  <Badge variant="outline">Usa configuración del equipo</Badge>
+                )
+              )}
+            </div>
+
+            {/* Active days */}
+            <div className="space-y-2">
+              <Label>Días activos</Label>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAYS.map((day) => {
+                  const active = form.active_days.includes(day.value);
+                  return (
+                    <Button
+                      key={day.value}
+                      type="button"
+                      size="sm"
+                      variant={active ? 'default' : 'outline'}
+                      className={cn('w-12', !active && 'text-muted-foreground')}
+                      onClick={() => toggleDay(day.value)}
+                    >
+                      {day.label}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Calls per day */}
+            <div className="space-y-2">
+              <Label htmlFor="calls_per_day">Llamadas por día</Label>
+              <Input
+                id="calls_per_day"
+                type="number"
+                min="0"
+                max="50"
+                className="w-32"
+                value={form.calls_per_day}
+                onChange={(e) => setForm({ ...form, calls_per_day: e.target.value })}
+              />
+            </div>
+
+            {/* Eligible phases */}
+            <div className="space-y-2">
+              <Label>Fases elegibles</Label>
+              <p className="text-xs text-muted-foreground">Prospección siempre es elegible.</p>
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                {EXTRA_PHASE_OPTIONS.map((phase) => (
+                  <div key={phase} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`phase-${phase}`}
+                      checked={form.extra_phases.includes(phase)}
+                      onCheckedChange={() => togglePhase(phase)}
+                    />
+                    <Label htmlFor={`phase-${phase}`} className="text-sm font-normal cursor-pointer">
+                      {phase}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Cooldowns */}
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="pending_window_days">Sin pendientes en (días)</Label>
+                <Input
+                  id="pending_window_days"
+                  type="number"
+                  min="0"
+                  value={form.pending_window_days}
+                  onChange={(e) => setForm({ ...form, pending_window_days: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="completed_cooldown_days">Sin completadas hace (días)</Label>
+                <Input
+                  id="completed_cooldown_days"
+                  type="number"
+                  min="0"
+                  value={form.completed_cooldown_days}
+                  onChange={(e) => setForm({ ...form, completed_cooldown_days: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="system_call_cooldown_days">Sin llamada automática hace (días)</Label>
+                <Input
+                  id="system_call_cooldown_days"
+                  type="number"
+                  min="0"
+                  value={form.system_call_cooldown_days}
+                  onChange={(e) => setForm({ ...form, system_call_cooldown_days: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {override && (
+                <Button
+                  variant="outline"
+                  onClick={handleResetOverride}
+                  disabled={deleteSettings.isPending}
+                >
+                  Usar configuración del equipo
+                </Button>
+              )}
+              <Button onClick={handleSave} disabled={saveSettings.isPending}>
+                {saveSettings.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Guardar
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Plus, ThumbsDown } from 'lucide-react';
+import { useLossReasons, useCreateLossReason, useUpdateLossReason } from '@/hooks/useLossReasons';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+export function LossReasonsCard() {
+  const { data: reasons, isLoading } = useLossReasons();
+  const createReason = useCreateLossReason();
+  const updateReason = useUpdateLossReason();
+  const { toast } = useToast();
+
+  const [newLabel, setNewLabel] = useState('');
+
+  const handleAdd = async () => {
+    const label = newLabel.trim();
+    if (!label) return;
+    if (reasons?.some(r => r.label.toLowerCase() === label.toLowerCase())) {
+      toast({
+        title: 'Razón duplicada',
+        description: `"${label}" ya existe.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const lastPosition = Math.max(0, ...(reasons || []).map(r => r.position));
+      await createReason.mutateAsync({ label, position: lastPosition + 1 });
+      setNewLabel('');
+    } catch (error) {
+      console.error('Error creating loss reason:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo agregar la razón.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleToggle = async (id: string, isActive: boolean) => {
+    try {
+      await updateReason.mutateAsync({ id, is_active: isActive });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo actualizar la razón.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <ThumbsDown className="h-5 w-5 text-primary" />
+          Razones de pérdida
+        </CardTitle>
+        <CardDescription>
+          Al mover un prospecto B2B a Perdida se debe elegir una de estas razones. Las desactivadas ya no se ofrecen, pero se conservan en los negocios que las usaron.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="divide-y rounded-lg border">
+              {reasons?.map((reason) => (
+                <div key={reason.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <span className={cn('text-sm', !reason.is_active && 'text-muted-foreground line-through')}>
+                    {reason.label}
+                  </span>
+                  <Switch
+                    checked={reason.is_active}
+                    onCheckedChange={(checked) => handleToggle(reason.id, checked)}
+                    disabled={updateReason.isPending}
+                    aria-label={`${reason.label} activa`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="Nueva razón, ej: Producto no cumple especificación"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              />
+              <Button onClick={handleAdd} disabled={!newLabel.trim() || createReason.isPending}>
+                {createReason.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="mr-2 h-4 w-4" />
+                )}
+                Agregar
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ListChecks, Loader2, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { usePhasePlaybooks, useSavePhasePlaybook, type PlaybookStepInput } from '@/hooks/usePhasePlaybooks';
+import { useToast } from '@/hooks/use-toast';
+import { Constants, Database } from '@/integrations/supabase/types';
+
+type PhaseType = Database['public']['Enums']['phase_type'];
+type ActivityType = Database['public']['Enums']['activity_type'];
+
+const PHASES = Constants.public.Enums.phase_type;
+const STEP_ACTIVITY_TYPES = Constants.public.Enums.activity_type.filter(t => t !== 'General');
+
+// Same minimum as activity descriptions
+const MIN_NOTES_LENGTH = 10;
+
+interface StepForm {
+  key: string;
+  activity_type: ActivityType;
+  custom_type: string;
+  day_offset: string;
+  notes: string;
+}
+
+let nextKey = 0;
+const newKey = () => `step-${nextKey++}`;
+
+export function PhasePlaybooksCard() {
+  const [phase, setPhase] = useState<PhaseType>('Cotización');
+  const [steps, setSteps] = useState<StepForm[]>([]);
+  const { data: playbooks, isLoading } = usePhasePlaybooks();
+  const savePlaybook = useSavePhasePlaybook();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setSteps((playbooks?.[phase] || []).map(step => ({
+      key: newKey(),
+      activity_type: step.activity_type,
+      custom_type: step.custom_type || '',
+      day_offset: String(step.day_offset),
+      notes: step.notes,
+    })));
+  }, [playbooks, phase]);
+
+  const updateStep = (key: string, changes: Partial<StepForm>) => {
+    setSteps(prev => prev.map(s => s.key === key ? { ...s, ...changes } : s));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    setSteps(prev => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const addStep = () => {
+    const lastOffset = steps.length > 0 ? parseInt(steps[steps.length - 1].day_offset, 10) || 0 : 0;
+    setSteps(prev => [
+      ...prev,
+      { key: newKey(), activity_type: 'Seguimiento', custom_type: '', day_offset: String(lastOffset), notes: '' },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const payload: PlaybookStepInput[] = steps.map(s => ({
+      activity_type: s.activity_type,
+      custom_type: s.activity_type === 'Otro' ? s.custom_type.trim() || null : null,
+      day_offset: parseInt(s.day_offset, 10),
+      notes: s.notes.trim(),
+    }));
+
+    if (payload.some(s => isNaN(s.day_offset) || s.day_offset < 0 || s.day_offset > 365)) {
+      toast({
+        title: 'Valores inválidos',
+        description: 'El día de cada paso debe estar entre 0 y 365.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (payload.some(s => s.notes.length < MIN_NOTES_LENGTH)) {
+      toast({
+        title: 'Valores inválidos',
+        description: `La descripción de cada paso debe tener al menos ${MIN_NOTES_LENGTH} caracteres.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await savePlaybook.mutateAsync({ phase, steps: payload });
+      toast({
+        title: 'Playbook guardado',
+        description: payload.length > 0
+          ? `Se aplicará al mover prospectos a ${phase}.`
+          : `${phase} ya no tiene playbook.`,
+      });
+    } catch (error) {
+      console.error('Error saving playbook:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo guardar el playbook.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <ListChecks className="h-5 w-5 text-primary" />
+          Playbooks por fase
+        </CardTitle>
+        <CardDescription>
+          Actividades que se crean al mover un prospecto a la fase. El día se cuenta desde la fecha del cambio.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <Select value={phase} onValueChange={(v) => setPhase(v as PhaseType)}>
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PHASES.map((p) => (
+                  <SelectItem key={p} value={p}>
+                    {p}
+                    {playbooks?.[p]?.length ? ` (${playbooks[p]!.length})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {steps.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Esta fase no tiene playbook.</p>
+            ) : (
+              <div className="space-y-3">
+                {steps.map((step, index) => (
+                  <div key={step.key} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex flex-wrap items-end gap-2">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Tipo</Label>
+                        <Select
+                          value={step.activity_type}
+                          onValueChange={(v) => updateStep(step.key, { activity_type: v as ActivityType })}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {STEP_ACTIVITY_TYPES.map((type) => (
+                              <SelectItem key={type} value={type}>
+                                {type}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {step.activity_type === 'Otro' && (
+                        <div className="space-y-1">
+                          <Label className="text-xs">Tipo personalizado</Label>
+                          <Input
+                            className="w-36"
+                            value={step.custom_type}
+                            onChange={(e) => updateStep(step.key, { custom_type: e.target.value })}
+                          />
+                        </div>
+                      )}
+                      <div className="space-y-1">
+                        <Label className="text-xs">Día</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="365"
+                          className="w-20"
+                          value={step.day_offset}
+                          onChange={(e) => updateStep(step.key, { day_offset: e.target.value })}
+                        />
+                      </div>
+                      <div className="ml-auto flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => moveStep(index, -1)}
+                          disabled={index === 0}
+                          title="Subir"
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => moveStep(index, 1)}
+                          disabled={index === steps.length - 1}
+                          title="Bajar"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => setSteps(prev => prev.filter(s => s.key !== step.key))}
+                          title="Eliminar paso"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <Input
+                      placeholder="Descripción de la actividad (ej: Enviar cotización formal)"
+                      value={step.notes}
+                      onChange={(e) => updateStep(step.key, { notes: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={addStep}>
+                <Plus className="mr-2 h-4 w-4" />
+                Agregar paso
+              </Button>
+              <Button onClick={handleSave} disabled={savePlaybook.isPending}>
+                {savePlaybook.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Guardar
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
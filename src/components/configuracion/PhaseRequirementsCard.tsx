@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import {
+  usePhaseRequirements,
+  useCreatePhaseRequirement,
+  useDeletePhaseRequirement,
+  type PhaseRequirement,
+} from '@/hooks/usePhaseRequirements';
+import { useToast } from '@/hooks/use-toast';
+import { Constants, Database } from '@/integrations/supabase/types';
+
+type PhaseType = Database['public']['Enums']['phase_type'];
+type ActivityType = Database['public']['Enums']['activity_type'];
+type RequirementType = 'estimated_value' | 'completed_activity' | 'prior_phase';
+
+const PHASES = Constants.public.Enums.phase_type;
+const GATE_ACTIVITY_TYPES = Constants.public.Enums.activity_type.filter(t => t !== 'General');
+
+const REQUIREMENT_TYPE_LABELS: Record<RequirementType, string> = {
+  estimated_value: 'Valor estimado registrado',
+  completed_activity: 'Actividad completada',
+  prior_phase: 'Haber pasado por otra fase',
+};
+
+const describeRequirement = (r: PhaseRequirement): string => {
+  switch (r.requirement_type) {
+    case 'estimated_value':
+      return 'Tener el valor estimado registrado';
+    case 'completed_activity':
+      return `Al menos una actividad completada de tipo ${(r.activity_types || []).join(' o ')}`;
+    case 'prior_phase':
+      return `Haber pasado antes por ${r.prior_phase}`;
+    default:
+      return r.requirement_type;
+  }
+};
+
+export function PhaseRequirementsCard() {
+  const [phase, setPhase] = useState<PhaseType>('Cotización');
+  const [requirementType, setRequirementType] = useState<RequirementType>('estimated_value');
+  const [activityTypes, setActivityTypes] = useState<ActivityType[]>([]);
+  const [priorPhase, setPriorPhase] = useState<PhaseType | ''>('');
+  const { data: requirements, isLoading } = usePhaseRequirements();
+  const createRequirement = useCreatePhaseRequirement();
+  const deleteRequirement = useDeletePhaseRequirement();
+  const { toast } = useToast();
+
+  const phaseRequirements = requirements?.[phase] || [];
+
+  const toggleActivityType = (type: ActivityType, checked: boolean) => {
+    setActivityTypes(prev => checked ? [...prev, type] : prev.filter(t => t !== type));
+  };
+
+  const handleAdd = async () => {
+    if (requirementType === 'completed_activity' && activityTypes.length === 0) {
+      toast({ title: 'Elige al menos un tipo de actividad', variant: 'destructive' });
+      return;
+    }
+    if (requirementType === 'prior_phase' && !priorPhase) {
+      toast({ title: 'Elige la fase previa', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      await createRequirement.mutateAsync({
+        phase,
+        requirement_type: requirementType,
+        activity_types: requirementType === 'completed_activity' ? activityTypes : null,
+        prior_phase: requirementType === 'prior_phase' ? priorPhase || null : null,
+      });
+      setActivityTypes([]);
+      setPriorPhase('');
+      toast({
+        title: 'Requisito agregado',
+        description: `Se aplicará al mover prospectos a ${phase}.`,
+      });
+    } catch (error) {
+      console.error('Error creating phase requirement:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo agregar el requisito.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteRequirement.mutateAsync(id);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo eliminar el requisito.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Requisitos para entrar a cada fase
+        </CardTitle>
+        <CardDescription>
+          Un prospecto solo puede moverse a la fase cuando cumple todos sus requisitos. No aplican al crear o importar prospectos.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Fase</Label>
+          <Select value={phase} onValueChange={(v) => setPhase(v as PhaseType)}>
+            <SelectTrigger className="w-full sm:w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PHASES.map((p) => (
+                <SelectItem key={p} value={p}>
+                  {p}
+                  {requirements?.[p]?.length ? ` (${requirements[p]!.length})` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : phaseRequirements.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Sin requisitos: cualquier prospecto puede moverse a {phase}.</p>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {phaseRequirements.map((requirement) => (
+              <div key={requirement.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                <span className="text-sm">{describeRequirement(requirement)}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+                  title="Eliminar"
+                  onClick={() => handleDelete(requirement.id)}
+                  disabled={deleteRequirement.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* New requirement */}
+        <div className="space-y-3 rounded-lg border bg-muted/30 p-3">
+          <div className="space-y-2">
+            <Label>Nuevo requisito</Label>
+            <Select value={requirementType} onValueChange={(v) => setRequirementType(v as RequirementType)}>
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REQUIREMENT_TYPE_LABELS) as RequirementType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {REQUIREMENT_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {requirementType === 'completed_activity' && (
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {GATE_ACTIVITY_TYPES.map((type) => (
+                <div key={type} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`gate-${type}`}
+                    checked={activityTypes.includes(type)}
+                    onCheckedChange={(checked) => toggleActivityType(type, checked === true)}
+                  />
+                  <Label htmlFor={`gate-${type}`} className="text-sm font-normal cursor-pointer">
+                    {type}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {requirementType === 'prior_phase' && (
+            <Select value={priorPhase} onValueChange={(v) => setPriorPhase(v as PhaseType)}>
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue placeholder="Fase previa" />
+              </SelectTrigger>
+              <SelectContent>
+                {PHASES.filter(p => p !== phase).map((p) => (
+                  <SelectItem key={p} value={p}>
+                    {p}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Button variant="outline" size="sm" onClick={handleAdd} disabled={createRequirement.isPending}>
+            {createRequirement.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Agregar requisito
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -50,10 +50,14 @@ import {
   AlertTriangle,
   Trash2,
   Users,
+  Repeat,
+  XCircle,
 } from 'lucide-react';
 import { ActivityModal } from '@/components/activities/ActivityModal';
 import { EditActivityModal } from '@/components/activities/EditActivityModal';
+import { CancelActivityDialog } from '@/components/activities/CancelActivityDialog';
 import { cn } from '@/lib/utils';
+import { formatTimeRange } from '@/lib/activity-time';
 import { Database } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNextActivity } from '@/contexts/NextActivityContext';
@@ -72,6 +76,9 @@ interface ActivityItemProps {
     activity_type: ActivityType;
     custom_type?: string | null;
     scheduled_date: string;
+    scheduled_time?: string | null;
+    duration_minutes?: number | null;
+    series_id?: string | null;
     status: ActivityStatus | null;
     notes?: string | null;
     block_reason?: string | null;
@@ -100,7 +107,7 @@ const activityIcons: Record<ActivityType, typeof Phone> = {
 };
 
 export function ActivityItem({ activity, variant = 'today', isManager: isManagerProp, onUnblock }: ActivityItemProps) {
-  const { isManager: isAuthManager, user } = useAuth();
+  const { isManager: isAuthManager } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { data: users } = useAllUsers();
@@ -111,6 +118,7 @@ export function ActivityItem({ activity, variant = 'today', isManager: isManager
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
   const [isUserSelectOpen, setIsUserSelectOpen] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
   const [showReassignConfirm, setShowReassignConfirm] = useState(false);
   const [pendingUserId, setPendingUserId] = useState<string | null>(null);
   const [isHoveringDate, setIsHoveringDate] = useState(false);
@@ -143,20 +151,6 @@ export function ActivityItem({ activity, variant = 'today', isManager: isManager
         .update({ scheduled_date: dateStr })
         .eq('id', activity.id);
       if (error) throw error;
-
-      // Log the change
-      await supabase.from('activity_logs').insert({
-        user_id: user!.id,
-        action_type: 'update',
-        entity_type: 'activity',
-        entity_id: activity.id,
-        details: {
-          quick_action: 'change_date',
-          from: activity.scheduled_date,
-          to: dateStr,
-          updated_by: 'manager',
-        },
-      });
     },
     onSuccess: () => {
       toast({ title: 'Fecha actualizada' });
@@ -178,21 +172,6 @@ export function ActivityItem({ activity, variant = 'today', isManager: isManager
       if (error) throw error;
 
       const newUserName = users?.find(u => u.id === newUserId)?.full_name;
-      
-      // Log the change
-      await supabase.from('activity_logs').insert({
-        user_id: user!.id,
-        action_type: 'update',
-        entity_type: 'activity',
-        entity_id: activity.id,
-        details: {
-          quick_action: 'reassign',
-          from: activity.assigned_to,
-          to: newUserId,
-          to_name: newUserName,
-          updated_by: 'manager',
-        },
-      });
     },
     onSuccess: () => {
       toast({ title: 'Actividad reasignada' });
@@ -218,20 +197,6 @@ export function ActivityItem({ activity, variant = 'today', isManager: isManager
         .update({ scheduled_date: dateStr })
         .eq('id', activity.id);
       if (error) throw error;
-
-      // Log the change
-      await supabase.from('activity_logs').insert({
-        user_id: user!.id,
-        action_type: 'update',
-        entity_type: 'activity',
-        entity_id: activity.id,
-        details: {
-          quick_action: 'mark_urgent',
-          from: activity.scheduled_date,
-          to: dateStr,
-          updated_by: 'manager',
-        },
-      });
     },
     onSuccess: () => {
       toast({ title: 'Marcada como urgente', description: 'La actividad aparecerá en "Urgente"' });
@@ -245,15 +210,13 @@ export function ActivityItem({ activity, variant = 'today', isManager: isManager
   // Delete mutation
   const deleteMutation = useMutation({
     mutationFn: async () => {
-      const { error } = await supabase
-        .from('activities')
-        .delete()
-        .eq('id', activity.id);
+      const { error } = await supabase.rpc('soft_delete_activity', { p_activity_id: activity.id });
       if (error) throw error;
     },
     onSuccess: () => {
-      toast({ title: 'Actividad eliminada' });
+      toast({ title: 'Actividad eliminada', description: 'Se envió a la papelera.' });
       queryClient.invalidateQueries({ queryKey: ['activities'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
       setShowDeleteConfirm(false);
     },
     onError: () => {
@@ -392,6 +355,19 @@ export function ActivityItem({ activity, variant = 'today', isManager: isManager
                 </span>
               )}
 
+              {activity.scheduled_time && (
+                <span className="flex items-center gap-1">
+                  <Clock className="h-3 w-3 opacity-50" />
+                  {formatTimeRange(activity.scheduled_time, activity.duration_minutes)}
+                </span>
+              )}
+
+              {activity.series_id && (
+                <span className="flex items-center" title="Actividad recurrente">
+                  <Repeat className="h-3 w-3 opacity-50" />
+                </span>
+              )}
+
               {/* Quick User Reassign */}
               {assignedUserName && (
                 isManager ? (
@@ -499,6 +475,21 @@ export function ActivityItem({ activity, variant = 'today', isManager: isManager
               Desbloquear
             </Button>
           )}
+
+          {variant === 'blocked' && isManager && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-destructive hover:text-destructive"
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowCancelDialog(true);
+              }}
+              title="Cancelar actividad"
+            >
+              <XCircle className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -534,6 +525,10 @@ export function ActivityItem({ activity, variant = 'today', isManager: isManager
               Editar completo
             </ContextMenuItem>
             <ContextMenuSeparator />
+            <ContextMenuItem onClick={() => setShowCancelDialog(true)}>
+              <XCircle className="h-4 w-4 mr-2" />
+              Cancelar actividad
+            </ContextMenuItem>
             <ContextMenuItem
               onClick={() => setShowDeleteConfirm(true)}
               className="text-destructive focus:text-destructive"
@@ -565,6 +560,12 @@ export function ActivityItem({ activity, variant = 'today', isManager: isManager
       )}
 
 
+      <CancelActivityDialog
+        open={showCancelDialog}
+        onOpenChange={setShowCancelDialog}
+        activity={activity}
+      />
+
       {/* Reassign Confirmation */}
       <AlertDialog open={showReassignConfirm} onOpenChange={setShowReassignConfirm}>
         <AlertDialogContent>
@@ -588,7 +589,7 @@ export function ActivityItem({ activity, variant = 'today', isManager: isManager
           <AlertDialogHeader>
             <AlertDialogTitle>¿Eliminar actividad?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta acción no se puede deshacer. La actividad será eliminada permanentemente.
+              La actividad irá a la papelera, desde donde un gerente puede restaurarla.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,35 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Users } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useActivityScope } from '@/contexts/ActivityScopeContext';
+import { useSalespersons } from '@/hooks/useUsers';
+import { cn } from '@/lib/utils';
+
+// Manager-only switch between own queue, whole team or a single salesperson
+export function ActivityScopeSelect({ className }: { className?: string }) {
+  const { user, isManager } = useAuth();
+  const { scope, setScope } = useActivityScope();
+  const { data: salespersons } = useSalespersons();
+
+  if (!isManager) return null;
+
+  return (
+    <Select value={scope} onValueChange={setScope}>
+      <SelectTrigger className={cn('w-full sm:w-56', className)}>
+        <Users className="h-4 w-4 mr-2 text-muted-foreground" />
+        <SelectValue placeholder="Ver actividades de..." />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="me">Mis actividades</SelectItem>
+        <SelectItem value="team">Ver equipo</SelectItem>
+        {salespersons
+          ?.filter((vendor) => vendor.id !== user?.id)
+          .map((vendor) => (
+            <SelectItem key={vendor.id} value={vendor.id}>
+              Ver {vendor.full_name}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+}
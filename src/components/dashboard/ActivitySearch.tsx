@@ -1,10 +1,10 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { useSearchActivities } from '@/hooks/useActivities';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Search, X, ChevronDown, ChevronUp } from 'lucide-react';
+import { Search, X, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface ActivitySearchProps {
@@ -13,7 +13,23 @@ interface ActivitySearchProps {
 
 export function ActivitySearch({ onActivityClick }: ActivitySearchProps) {
   const [searchTerm, setSearchTerm] = useState('');
-  const { data: searchResults = [], isLoading } = useSearchActivities(searchTerm);
+  const [debouncedTerm, setDebouncedTerm] = useState('');
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useSearchActivities(debouncedTerm);
+
+  // Esperar a que el usuario deje de escribir antes de consultar
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedTerm(searchTerm), 250);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const searchResults = useMemo(() => data?.pages.flatMap(page => page.activities) || [], [data]);
+  const totalResults = data?.pages[0]?.total || 0;
 
   // Agrupar por prospecto
   const groupedResults = useMemo(() => {
@@ -50,9 +66,8 @@ export function ActivitySearch({ onActivityClick }: ActivitySearchProps) {
       });
     });
 
-    return Object.values(groups).sort((a, b) => 
-      a.prospectName.localeCompare(b.prospectName)
-    );
+    // Los grupos conservan el orden de relevancia del primer resultado
+    return Object.values(groups);
   }, [searchResults]);
 
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
@@ -132,19 +147,19 @@ export function ActivitySearch({ onActivityClick }: ActivitySearchProps) {
       {searchTerm.length >= 2 && (
         <Card>
           <CardContent className="p-4">
-            {isLoading ? (
+            {isLoading || searchTerm !== debouncedTerm ? (
               <p className="text-sm text-muted-foreground text-center py-4">Buscando...</p>
             ) : groupedResults.length === 0 ? (
               <div className="text-center py-6">
                 <p className="text-muted-foreground mb-2">🤷 No se encontraron actividades</p>
                 <p className="text-xs text-muted-foreground">
-                  Intenta buscar parte del nombre del cliente
+                  Busca por cliente, contacto, número de licitación o notas
                 </p>
               </div>
             ) : (
               <div className="space-y-3">
                 <p className="text-sm font-medium text-muted-foreground">
-                  ✨ {searchResults.length} resultado{searchResults.length !== 1 ? 's' : ''}
+                  ✨ {totalResults} resultado{totalResults !== 1 ? 's' : ''}
                 </p>
 
                 {groupedResults.map(group => {
@@ -226,6 +241,19 @@ export function ActivitySearch({ onActivityClick }: ActivitySearchProps) {
                     </div>
                   );
                 })}
+
+                {hasNextPage && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                  >
+                    {isFetchingNextPage && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                    Cargar más resultados ({searchResults.length} de {totalResults})
+                  </Button>
+                )}
               </div>
             )}
           </CardContent>
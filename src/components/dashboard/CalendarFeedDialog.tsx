@@ -0,0 +1,106 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCalendarFeedToken, useRotateCalendarFeedToken, getCalendarFeedUrl } from '@/hooks/useCalendarFeed';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, Loader2, RefreshCw } from 'lucide-react';
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CalendarFeedDialog({ open, onOpenChange }: CalendarFeedDialogProps) {
+  const { data: token, isLoading } = useCalendarFeedToken();
+  const rotateToken = useRotateCalendarFeedToken();
+  const { toast } = useToast();
+
+  const feedUrl = token ? getCalendarFeedUrl(token) : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: 'Enlace copiado' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo copiar el enlace.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRotate = async () => {
+    try {
+      await rotateToken.mutateAsync();
+      if (token) {
+        toast({
+          title: 'Nuevo enlace generado',
+          description: 'El enlace anterior dejó de funcionar. Vuelve a suscribirte con el nuevo.',
+        });
+      }
+    } catch (error) {
+      console.error('Error rotating calendar feed token:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo generar el enlace.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Suscribirse desde el teléfono</DialogTitle>
+          <DialogDescription>
+            Agrega este enlace como calendario suscrito (Google Calendar, Apple Calendar, Outlook).
+            Tus actividades pendientes se actualizan solas cuando las reprogramas en el CRM.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : token ? (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={handleCopy} title="Copiar enlace">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Este enlace es personal: quien lo tenga puede ver tus actividades.
+            </p>
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" onClick={handleRotate} disabled={rotateToken.isPending}>
+                {rotateToken.isPending ? (
+                  <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-3 w-3" />
+                )}
+                Generar nuevo enlace
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-center py-4">
+            <Button onClick={handleRotate} disabled={rotateToken.isPending}>
+              {rotateToken.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Crear enlace de suscripción
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,17 @@
 import { useState, useEffect, useMemo } from 'react';
+import {
+  DndContext,
+  DragOverlay,
+  DragEndEvent,
+  DragStartEvent,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -7,12 +20,23 @@ import {
   ChevronRight, 
   CalendarDays,
   Phone, Mail, MapPin, FileText, Receipt, Clock, FileCheck, MoreHorizontal,
+  Download, Rss, CalendarPlus,
 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CalendarFeedDialog } from '@/components/dashboard/CalendarFeedDialog';
 import { ActivityModal } from '@/components/activities/ActivityModal';
 import { useNextActivity } from '@/contexts/NextActivityContext';
-import { useDateRangeActivities } from '@/hooks/useActivities';
+import { useDateRangeActivities, useRescheduleActivity } from '@/hooks/useActivities';
+import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
-import { format, startOfWeek, endOfWeek, addWeeks, addMonths, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isToday, isBefore, addDays } from 'date-fns';
+import { downloadIcsFile } from '@/lib/ics';
+import { DEFAULT_DURATION_MINUTES, formatTime, formatTimeRange, minutesToTime, timeToMinutes } from '@/lib/activity-time';
+import { format, startOfWeek, endOfWeek, addWeeks, addMonths, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isToday, isBefore, addDays, startOfDay } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { Database } from '@/integrations/supabase/types';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
@@ -24,6 +48,10 @@ type CalendarActivity = {
   activity_type: ActivityType;
   custom_type?: string | null;
   scheduled_date: string;
+  scheduled_time?: string | null;
+  duration_minutes?: number | null;
+  location?: string | null;
+  updated_at?: string | null;
   status: Database['public']['Enums']['activity_status'] | null;
   notes?: string | null;
   block_reason?: string | null;
@@ -36,6 +64,13 @@ type ViewMode = 'list' | 'week' | 'month';
 
 const STORAGE_KEY = 'crm-calendar-view-mode';
 
+// Hourly grid for the week view
+const GRID_START_HOUR = 7;
+const GRID_END_HOUR = 20;
+const HOUR_HEIGHT = 48;
+const SLOT_MINUTES = 30;
+const ALL_DAY_SLOT = 'allday';
+
 const activityIcons: Record<ActivityType, typeof Phone> = {
   'Llamada': Phone,
   'Correo': Mail,
@@ -71,7 +106,7 @@ function getActivityDotColor(activity: CalendarActivity): string {
 }
 
 // ── Mini Activity Card (for week view) ──
-function WeekActivityCard({ activity, onClick }: { activity: CalendarActivity; onClick: () => void }) {
+function WeekActivityCard({ activity, onClick, className }: { activity: CalendarActivity; onClick: () => void; className?: string }) {
   const Icon = activityIcons[activity.activity_type] || MoreHorizontal;
   const colorClass = getActivityColor(activity);
 
@@ -81,6 +116,7 @@ function WeekActivityCard({ activity, onClick }: { activity: CalendarActivity; o
       className={cn(
         'w-full text-left rounded-md border p-1.5 text-xs transition-all hover:shadow-sm',
         colorClass,
+        className,
       )}
     >
       <div className="flex items-center gap-1 min-w-0">
@@ -90,6 +126,9 @@ function WeekActivityCard({ activity, onClick }: { activity: CalendarActivity; o
         </span>
       </div>
       <div className="truncate opacity-75 mt-0.5">
+        {activity.scheduled_time && (
+          <span className="font-medium">{formatTimeRange(activity.scheduled_time, activity.duration_minutes)} · </span>
+        )}
         {activity.activity_type}
         {activity.custom_type ? ` - ${activity.custom_type}` : ''}
       </div>
@@ -97,9 +136,112 @@ function WeekActivityCard({ activity, onClick }: { activity: CalendarActivity; o
   );
 }
 
+// Only pending activities can be dragged; blocked ones have to be unblocked first
+function DraggableActivity({ activity, children, className, style }: {
+  activity: CalendarActivity;
+  children: React.ReactNode;
+  className?: string;
+  style?: React.CSSProperties;
+}) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: activity.id,
+    disabled: activity.status !== 'pending',
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      style={style}
+      className={cn(activity.status === 'pending' && 'touch-none', isDragging && 'opacity-40', className)}
+    >
+      {children}
+    </div>
+  );
+}
+
+// Drop target id is "<yyyy-MM-dd>|<HH:MM>" or "<yyyy-MM-dd>|allday"
+function SlotDropZone({ id, disabled, className, style, children }: {
+  id: string;
+  disabled: boolean;
+  className?: string;
+  style?: React.CSSProperties;
+  children?: React.ReactNode;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id, disabled });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={cn(className, isOver && 'bg-primary/10 ring-1 ring-inset ring-primary/40')}
+    >
+      {children}
+    </div>
+  );
+}
+
+interface PositionedActivity {
+  activity: CalendarActivity;
+  start: number;
+  end: number;
+  lane: number;
+  lanes: number;
+}
+
+// Places timed activities side by side when they overlap (greedy lanes per overlap group)
+function layoutTimedActivities(activities: CalendarActivity[]): PositionedActivity[] {
+  const items = activities
+    .map(activity => {
+      const start = timeToMinutes(activity.scheduled_time!);
+      return {
+        activity,
+        start,
+        end: Math.min(start + (activity.duration_minutes || DEFAULT_DURATION_MINUTES), 24 * 60),
+        lane: 0,
+        lanes: 1,
+      };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const result: PositionedActivity[] = [];
+  let group: PositionedActivity[] = [];
+  let laneEnds: number[] = [];
+  let groupEnd = -1;
+
+  const closeGroup = () => {
+    group.forEach(item => { item.lanes = laneEnds.length; });
+    result.push(...group);
+    group = [];
+    laneEnds = [];
+  };
+
+  items.forEach(item => {
+    if (item.start >= groupEnd && group.length > 0) closeGroup();
+    const freeLane = laneEnds.findIndex(end => end <= item.start);
+    item.lane = freeLane === -1 ? laneEnds.length : freeLane;
+    laneEnds[item.lane] = item.end;
+    groupEnd = Math.max(groupEnd, item.end);
+    group.push(item);
+  });
+  if (group.length > 0) closeGroup();
+
+  return result;
+}
+
 // ── Week View ──
 function WeekView({ activities, onSelectActivity }: { activities: CalendarActivity[]; onSelectActivity: (a: CalendarActivity) => void }) {
   const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [draggingActivity, setDraggingActivity] = useState<CalendarActivity | null>(null);
+  const rescheduleActivity = useRescheduleActivity();
+  const { toast } = useToast();
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 250, tolerance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
 
   const days = useMemo(() => {
     const end = endOfWeek(weekStart, { weekStartsOn: 1 });
@@ -107,15 +249,77 @@ function WeekView({ activities, onSelectActivity }: { activities: CalendarActivi
   }, [weekStart]);
 
   const activitiesByDay = useMemo(() => {
-    const map: Record<string, CalendarActivity[]> = {};
-    days.forEach(d => { map[format(d, 'yyyy-MM-dd')] = []; });
-    activities.forEach(a => {
-      const key = a.scheduled_date;
-      if (map[key]) map[key].push(a);
+    const map: Record<string, { allDay: CalendarActivity[]; timed: PositionedActivity[] }> = {};
+    days.forEach(d => {
+      const key = format(d, 'yyyy-MM-dd');
+      const dayActivities = activities.filter(a => a.scheduled_date === key);
+      map[key] = {
+        allDay: dayActivities.filter(a => !a.scheduled_time),
+        timed: layoutTimedActivities(dayActivities.filter(a => a.scheduled_time)),
+      };
     });
     return map;
   }, [activities, days]);
 
+  // Widen the default 7:00–20:00 grid if something is scheduled outside it
+  const { startHour, endHour } = useMemo(() => {
+    let start = GRID_START_HOUR;
+    let end = GRID_END_HOUR;
+    Object.values(activitiesByDay).forEach(({ timed }) => {
+      timed.forEach(item => {
+        start = Math.min(start, Math.floor(item.start / 60));
+        end = Math.max(end, Math.ceil(item.end / 60));
+      });
+    });
+    return { startHour: start, endHour: Math.min(end, 24) };
+  }, [activitiesByDay]);
+
+  const hours = useMemo(
+    () => Array.from({ length: endHour - startHour }, (_, i) => startHour + i),
+    [startHour, endHour]
+  );
+  const slotsPerHour = 60 / SLOT_MINUTES;
+  const slotHeight = HOUR_HEIGHT / slotsPerHour;
+  const todayStart = startOfDay(new Date());
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setDraggingActivity(activities.find(a => a.id === event.active.id) || null);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setDraggingActivity(null);
+    const { active, over } = event;
+    if (!over) return;
+
+    const activity = activities.find(a => a.id === active.id);
+    if (!activity) return;
+
+    const [scheduledDate, slot] = String(over.id).split('|');
+    const scheduledTime = slot === ALL_DAY_SLOT ? null : slot;
+    if (scheduledDate === activity.scheduled_date && scheduledTime === (formatTime(activity.scheduled_time) || null)) return;
+
+    const dayLabel = format(new Date(scheduledDate + 'T12:00:00'), "EEEE d 'de' MMMM", { locale: es });
+
+    rescheduleActivity.mutate(
+      { activityId: activity.id, scheduledDate, scheduledTime },
+      {
+        onSuccess: () => {
+          toast({
+            title: 'Actividad reprogramada',
+            description: `${activity.prospects?.company_name || 'Tarea general'}: ${dayLabel}${scheduledTime ? ` a las ${scheduledTime}` : ''}`,
+          });
+        },
+        onError: () => {
+          toast({
+            title: 'Error',
+            description: 'No se pudo reprogramar la actividad.',
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  };
+
   return (
     <div className="space-y-3">
       {/* Nav */}
@@ -136,44 +340,144 @@ function WeekView({ activities, onSelectActivity }: { activities: CalendarActivi
         </div>
       </div>
 
-      {/* Grid */}
-      <div className="overflow-x-auto -mx-4 px-4 pb-2">
-        <div className="grid grid-cols-7 gap-1 min-w-[640px]">
-          {days.map(day => {
-            const key = format(day, 'yyyy-MM-dd');
-            const dayActivities = activitiesByDay[key] || [];
-            const today = isToday(day);
-
-            return (
-              <div
-                key={key}
-                className={cn(
-                  'rounded-lg border p-2 min-h-[120px] flex flex-col',
-                  today ? 'border-primary border-2 bg-primary/5' : 'border-border bg-card',
-                )}
-              >
-                <div className={cn(
-                  'text-xs font-semibold mb-1.5 text-center',
-                  today ? 'text-primary' : 'text-muted-foreground',
-                )}>
-                  <div className="capitalize">{format(day, 'EEE', { locale: es })}</div>
-                  <div className={cn(
-                    'text-lg leading-none',
-                    today ? 'text-primary' : 'text-foreground',
-                  )}>
-                    {format(day, 'd')}
+      <DndContext
+        sensors={sensors}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => setDraggingActivity(null)}
+      >
+        {/* Grid */}
+        <div className="overflow-x-auto -mx-4 px-4 pb-2">
+          <div className="min-w-[720px]">
+            {/* Day headers + activities without a time */}
+            <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))] gap-1">
+              <div />
+              {days.map(day => {
+                const today = isToday(day);
+                return (
+                  <div
+                    key={format(day, 'yyyy-MM-dd')}
+                    className={cn(
+                      'text-xs font-semibold text-center rounded-md py-1',
+                      today ? 'text-primary bg-primary/5' : 'text-muted-foreground',
+                    )}
+                  >
+                    <div className="capitalize">{format(day, 'EEE', { locale: es })}</div>
+                    <div className={cn(
+                      'text-lg leading-none',
+                      today ? 'text-primary' : 'text-foreground',
+                    )}>
+                      {format(day, 'd')}
+                    </div>
                   </div>
-                </div>
-                <div className="space-y-1 flex-1">
-                  {dayActivities.map(a => (
-                    <WeekActivityCard key={a.id} activity={a} onClick={() => onSelectActivity(a)} />
+                );
+              })}
+
+              <div className="text-[10px] text-muted-foreground text-right pr-1 pt-1.5">Sin hora</div>
+              {days.map(day => {
+                const key = format(day, 'yyyy-MM-dd');
+                return (
+                  <SlotDropZone
+                    key={key}
+                    id={`${key}|${ALL_DAY_SLOT}`}
+                    disabled={isBefore(day, todayStart)}
+                    className={cn(
+                      'rounded-md border p-1 min-h-[44px] space-y-1',
+                      isToday(day) ? 'border-primary/60 bg-primary/5' : 'border-border bg-card',
+                    )}
+                  >
+                    {activitiesByDay[key]?.allDay.map(a => (
+                      <DraggableActivity key={a.id} activity={a}>
+                        <WeekActivityCard activity={a} onClick={() => onSelectActivity(a)} />
+                      </DraggableActivity>
+                    ))}
+                  </SlotDropZone>
+                );
+              })}
+            </div>
+
+            {/* Hourly grid */}
+            <div className="mt-2 max-h-[520px] overflow-y-auto rounded-lg border">
+              <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))]">
+                {/* Hour labels */}
+                <div>
+                  {hours.map(hour => (
+                    <div
+                      key={hour}
+                      style={{ height: HOUR_HEIGHT }}
+                      className="text-[10px] text-muted-foreground text-right pr-1 -mt-1.5 first:mt-0"
+                    >
+                      {String(hour).padStart(2, '0')}:00
+                    </div>
                   ))}
                 </div>
+
+                {days.map(day => {
+                  const key = format(day, 'yyyy-MM-dd');
+                  const isPast = isBefore(day, todayStart);
+
+                  return (
+                    <div
+                      key={key}
+                      className={cn('relative border-l', isToday(day) && 'bg-primary/5', isPast && 'bg-muted/40')}
+                      style={{ height: hours.length * HOUR_HEIGHT }}
+                    >
+                      {/* 30-minute drop slots */}
+                      {hours.flatMap(hour =>
+                        Array.from({ length: slotsPerHour }, (_, i) => {
+                          const minutes = hour * 60 + i * SLOT_MINUTES;
+                          return (
+                            <SlotDropZone
+                              key={minutes}
+                              id={`${key}|${minutesToTime(minutes)}`}
+                              disabled={isPast}
+                              className={cn('absolute inset-x-0', i === 0 ? 'border-t' : 'border-t border-dashed border-border/50')}
+                              style={{ top: (minutes - startHour * 60) / 60 * HOUR_HEIGHT, height: slotHeight }}
+                            />
+                          );
+                        })
+                      )}
+
+                      {/* Timed activities */}
+                      {activitiesByDay[key]?.timed.map(item => (
+                        <DraggableActivity
+                          key={item.activity.id}
+                          activity={item.activity}
+                          className="absolute z-10 px-0.5"
+                          style={{
+                            top: (item.start - startHour * 60) / 60 * HOUR_HEIGHT,
+                            height: Math.max((item.end - item.start) / 60 * HOUR_HEIGHT, slotHeight),
+                            left: `${(item.lane / item.lanes) * 100}%`,
+                            width: `${100 / item.lanes}%`,
+                          }}
+                        >
+                          <WeekActivityCard
+                            activity={item.activity}
+                            onClick={() => onSelectActivity(item.activity)}
+                            className="h-full overflow-hidden p-1"
+                          />
+                        </DraggableActivity>
+                      ))}
+                    </div>
+                  );
+                })}
               </div>
-            );
-          })}
+            </div>
+          </div>
         </div>
-      </div>
+
+        <p className="text-xs text-muted-foreground">
+          Arrastra una actividad pendiente a otra hora o día para reprogramarla
+        </p>
+
+        <DragOverlay>
+          {draggingActivity && (
+            <div className="w-40 shadow-lg">
+              <WeekActivityCard activity={draggingActivity} onClick={() => {}} />
+            </div>
+          )}
+        </DragOverlay>
+      </DndContext>
     </div>
   );
 }
@@ -303,7 +607,9 @@ export function CalendarView({ listContent }: { listContent: React.ReactNode })
     return (localStorage.getItem(STORAGE_KEY) as ViewMode) || 'list';
   });
   const [selectedActivity, setSelectedActivity] = useState<CalendarActivity | null>(null);
+  const [isFeedDialogOpen, setIsFeedDialogOpen] = useState(false);
   const { showNextActivity } = useNextActivity();
+  const { toast } = useToast();
 
   useEffect(() => {
     localStorage.setItem(STORAGE_KEY, viewMode);
@@ -321,6 +627,16 @@ export function CalendarView({ listContent }: { listContent: React.ReactNode })
     viewMode !== 'list' ? fetchEnd : '',
   );
 
+  // Same events the subscribed feed publishes: pending only
+  const handleExportIcs = () => {
+    const pending = (rangeActivities || []).filter(a => a.status === 'pending');
+    if (pending.length === 0) {
+      toast({ title: 'Sin actividades pendientes para exportar' });
+      return;
+    }
+    downloadIcsFile(pending, `actividades-${format(new Date(), 'yyyy-MM-dd')}.ics`);
+  };
+
   const handleActivityCompleted = (data: { prospectId: string; prospectName: string; assignedTo: string | null }) => {
     showNextActivity(data);
   };
@@ -333,11 +649,30 @@ export function CalendarView({ listContent }: { listContent: React.ReactNode })
             <CalendarDays className="h-5 w-5 text-primary" />
             <CardTitle className="text-base font-medium">Actividades</CardTitle>
           </div>
-          <ToggleGroup type="single" value={viewMode} onValueChange={(v) => v && setViewMode(v as ViewMode)} size="sm">
-            <ToggleGroupItem value="list" className="text-xs px-3">Lista</ToggleGroupItem>
-            <ToggleGroupItem value="week" className="text-xs px-3">Semana</ToggleGroupItem>
-            <ToggleGroupItem value="month" className="text-xs px-3">Mes</ToggleGroupItem>
-          </ToggleGroup>
+          <div className="flex items-center gap-1">
+            <ToggleGroup type="single" value={viewMode} onValueChange={(v) => v && setViewMode(v as ViewMode)} size="sm">
+              <ToggleGroupItem value="list" className="text-xs px-3">Lista</ToggleGroupItem>
+              <ToggleGroupItem value="week" className="text-xs px-3">Semana</ToggleGroupItem>
+              <ToggleGroupItem value="month" className="text-xs px-3">Mes</ToggleGroupItem>
+            </ToggleGroup>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Calendario externo">
+                  <CalendarPlus className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={handleExportIcs} disabled={viewMode === 'list' || isLoading}>
+                  <Download className="mr-2 h-4 w-4" />
+                  {viewMode === 'list' ? 'Exportar .ics (vista Semana o Mes)' : 'Exportar .ics'}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setIsFeedDialogOpen(true)}>
+                  <Rss className="mr-2 h-4 w-4" />
+                  Suscribirse desde el teléfono
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -366,6 +701,8 @@ export function CalendarView({ listContent }: { listContent: React.ReactNode })
         )}
       </CardContent>
 
+      <CalendarFeedDialog open={isFeedDialogOpen} onOpenChange={setIsFeedDialogOpen} />
+
       {/* Activity modal for calendar clicks */}
       {selectedActivity && (
         <ActivityModal
@@ -0,0 +1,66 @@
+import { Json } from '@/integrations/supabase/types';
+import { cn } from '@/lib/utils';
+import { formatMoney, type CurrencyCode } from '@/lib/currency';
+
+// Shape stored in activities.selection_score by generate_daily_calls
+interface CallScoreBreakdown {
+  recency: { days: number | null; points: number };
+  // currency is absent on scores stored before amounts had one (always dollars then)
+  value: { amount: number; currency?: CurrencyCode; points: number };
+  age: { days: number; points: number };
+  failed_attempts: { count: number; points: number };
+  total: number;
+}
+
+interface CallScoreExplanationProps {
+  score: Json | null | undefined;
+  className?: string;
+}
+
+export function CallScoreExplanation({ score, className }: CallScoreExplanationProps) {
+  if (!score || typeof score !== 'object' || Array.isArray(score)) return null;
+  const breakdown = score as unknown as CallScoreBreakdown;
+  if (!breakdown.recency || !breakdown.value || !breakdown.age || !breakdown.failed_attempts) return null;
+
+  const reasons = [
+    {
+      label: breakdown.recency.days === null
+        ? 'Nunca se ha contactado'
+        : `${breakdown.recency.days} día${breakdown.recency.days !== 1 ? 's' : ''} sin contacto`,
+      points: breakdown.recency.points,
+    },
+    {
+      label: breakdown.value.amount > 0
+        ? `Valor estimado ${formatMoney(breakdown.value.amount, breakdown.value.currency ?? 'USD')}`
+        : 'Sin valor estimado',
+      points: breakdown.value.points,
+    },
+    {
+      label: `Prospecto de hace ${breakdown.age.days} día${breakdown.age.days !== 1 ? 's' : ''}`,
+      points: breakdown.age.points,
+    },
+    {
+      label: `${breakdown.failed_attempts.count} intento${breakdown.failed_attempts.count !== 1 ? 's' : ''} sin respuesta`,
+      points: breakdown.failed_attempts.points,
+    },
+  ];
+
+  return (
+    <div className={cn('rounded-lg border border-primary/20 bg-primary/5 p-4 space-y-2', className)}>
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">💡 ¿Por qué esta empresa hoy?</p>
+        <span className="text-xs font-semibold text-primary">{Number(breakdown.total).toFixed(0)} pts</span>
+      </div>
+      <ul className="space-y-1">
+        {reasons.map((reason) => (
+          <li key={reason.label} className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{reason.label}</span>
+            <span className={cn(reason.points < 0 && 'text-destructive')}>
+              {reason.points > 0 ? '+' : ''}{Number(reason.points).toFixed(0)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -64,7 +64,7 @@ interface GeneralActivityItemProps {
 }
 
 export function GeneralActivityItem({ activity }: GeneralActivityItemProps) {
-  const { isManager, user } = useAuth();
+  const { isManager } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { data: users } = useAllUsers();
@@ -102,19 +102,6 @@ export function GeneralActivityItem({ activity }: GeneralActivityItemProps) {
         .update({ scheduled_date: dateStr })
         .eq('id', activity.id);
       if (error) throw error;
-
-      await supabase.from('activity_logs').insert({
-        user_id: user!.id,
-        action_type: 'update',
-        entity_type: 'activity',
-        entity_id: activity.id,
-        details: {
-          quick_action: 'change_date',
-          from: activity.scheduled_date,
-          to: dateStr,
-          updated_by: 'manager',
-        },
-      });
     },
     onSuccess: () => {
       toast({ title: 'Fecha actualizada' });
@@ -134,22 +121,6 @@ export function GeneralActivityItem({ activity }: GeneralActivityItemProps) {
         .update({ assigned_to: newUserId })
         .eq('id', activity.id);
       if (error) throw error;
-
-      const newUserName = users?.find(u => u.id === newUserId)?.full_name;
-      
-      await supabase.from('activity_logs').insert({
-        user_id: user!.id,
-        action_type: 'update',
-        entity_type: 'activity',
-        entity_id: activity.id,
-        details: {
-          quick_action: 'reassign',
-          from: activity.assigned_to,
-          to: newUserId,
-          to_name: newUserName,
-          updated_by: 'manager',
-        },
-      });
     },
     onSuccess: () => {
       toast({ title: 'Actividad reasignada' });
@@ -175,19 +146,6 @@ export function GeneralActivityItem({ activity }: GeneralActivityItemProps) {
         .update({ scheduled_date: dateStr })
         .eq('id', activity.id);
       if (error) throw error;
-
-      await supabase.from('activity_logs').insert({
-        user_id: user!.id,
-        action_type: 'update',
-        entity_type: 'activity',
-        entity_id: activity.id,
-        details: {
-          quick_action: 'mark_urgent',
-          from: activity.scheduled_date,
-          to: dateStr,
-          updated_by: 'manager',
-        },
-      });
     },
     onSuccess: () => {
       toast({ title: 'Marcada como urgente' });
@@ -201,15 +159,13 @@ export function GeneralActivityItem({ activity }: GeneralActivityItemProps) {
   // Delete mutation
   const deleteMutation = useMutation({
     mutationFn: async () => {
-      const { error } = await supabase
-        .from('activities')
-        .delete()
-        .eq('id', activity.id);
+      const { error } = await supabase.rpc('soft_delete_activity', { p_activity_id: activity.id });
       if (error) throw error;
     },
     onSuccess: () => {
-      toast({ title: 'Actividad eliminada' });
+      toast({ title: 'Actividad eliminada', description: 'Se envió a la papelera.' });
       queryClient.invalidateQueries({ queryKey: ['activities'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
       setShowDeleteConfirm(false);
     },
     onError: () => {
@@ -487,7 +443,7 @@ export function GeneralActivityItem({ activity }: GeneralActivityItemProps) {
           <AlertDialogHeader>
             <AlertDialogTitle>¿Eliminar actividad?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta acción no se puede deshacer. La actividad será eliminada permanentemente.
+              La actividad irá a la papelera, desde donde un gerente puede restaurarla.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -3,7 +3,11 @@ import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { daysUntil, formatColones } from '@/lib/licitacion-constants';
+import { daysUntil, summarizeChecklist } from '@/lib/licitacion-constants';
+import { formatCompactMoney } from '@/lib/currency';
+import { useReportingCurrency } from '@/hooks/useCurrency';
+import { MissingRateWarning } from '@/components/prospects/MissingRateWarning';
+import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
 
 export function LicitacionesWidget() {
@@ -12,7 +16,7 @@ export function LicitacionesWidget() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('prospects')
-        .select('id, company_name, licitacion_numero, licitacion_institucion, licitacion_fecha_cierre, licitacion_monto_estimado, current_phase')
+        .select('id, company_name, licitacion_numero, licitacion_institucion, licitacion_fecha_cierre, licitacion_monto_estimado, licitacion_monto_currency, current_phase, licitacion_checklist_items (completed_at, due_date)')
         .eq('prospect_type', 'licitacion')
         .not('current_phase', 'in', '("Adjudicada Ganada","Adjudicada Perdida")')
         .not('licitacion_fecha_cierre', 'is', null)
@@ -23,6 +27,7 @@ export function LicitacionesWidget() {
       return data;
     },
   });
+  const { toReporting, formatReporting, hasMissingRate } = useReportingCurrency();
 
   if (isLoading) {
     return <Skeleton className="h-48 w-full" />;
@@ -32,12 +37,26 @@ export function LicitacionesWidget() {
     return null;
   }
 
+  const totalMonto = licitaciones.reduce(
+    (sum, lic) => sum + toReporting(lic.licitacion_monto_estimado, lic.licitacion_monto_currency),
+    0,
+  );
+  const missingRate = hasMissingRate(
+    licitaciones.map(lic => ({ amount: lic.licitacion_monto_estimado, currency: lic.licitacion_monto_currency })),
+  );
+
   return (
     <Card>
       <CardHeader className="pb-3">
         <CardTitle className="text-base flex items-center gap-2">
           🏛️ Licitaciones Próximas a Vencer
           <Badge variant="secondary">{licitaciones.length}</Badge>
+          {(totalMonto > 0 || missingRate) && (
+            <span className="ml-auto flex items-center gap-2 text-sm font-normal text-muted-foreground">
+              💰 {formatReporting(totalMonto)}
+              {missingRate && <MissingRateWarning />}
+            </span>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-3">
@@ -45,6 +64,7 @@ export function LicitacionesWidget() {
           const days = daysUntil(lic.licitacion_fecha_cierre);
           const isUrgent = days !== null && days < 3;
           const isWarning = days !== null && days >= 3 && days <= 7;
+          const checklist = summarizeChecklist(lic.licitacion_checklist_items);
 
           return (
             <div
@@ -77,11 +97,26 @@ export function LicitacionesWidget() {
                   </p>
                   {lic.licitacion_monto_estimado && (
                     <p className="text-xs text-muted-foreground">
-                      {formatColones(lic.licitacion_monto_estimado)}
+                      {formatCompactMoney(lic.licitacion_monto_estimado, lic.licitacion_monto_currency)}
                     </p>
                   )}
                 </div>
               </div>
+              {checklist.total > 0 && (
+                <div className="mt-2 space-y-1">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>Documentos {checklist.done}/{checklist.total}</span>
+                    {checklist.overdue > 0 ? (
+                      <span className="font-medium text-destructive">{checklist.overdue} vencidos</span>
+                    ) : checklist.nextDue && (
+                      <span>
+                        Próximo: {new Date(checklist.nextDue + 'T12:00:00').toLocaleDateString('es-CR', { day: '2-digit', month: 'short' })}
+                      </span>
+                    )}
+                  </div>
+                  <Progress value={(checklist.done / checklist.total) * 100} className="h-1.5" />
+                </div>
+              )}
             </div>
           );
         })}
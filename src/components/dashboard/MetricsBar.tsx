@@ -2,6 +2,8 @@ import { useMetrics } from '@/hooks/useProspects';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Users, CalendarCheck, DollarSign, TrendingUp } from 'lucide-react';
+import { formatMoney } from '@/lib/currency';
+import { MissingRateWarning } from '@/components/prospects/MissingRateWarning';
 
 export function MetricsBar() {
   const { data: metrics, isLoading } = useMetrics();
@@ -21,15 +23,6 @@ export function MetricsBar() {
     );
   }
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('es-CR', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
-
   const metricsData = [
     {
       label: 'Total Prospectos',
@@ -47,7 +40,8 @@ export function MetricsBar() {
     },
     {
       label: 'Valor Pipeline',
-      value: formatCurrency(metrics?.pipelineValue || 0),
+      value: formatMoney(metrics?.pipelineValue, metrics?.reportingCurrency ?? 'USD'),
+      missingRate: metrics?.pipelineMissingRate,
       icon: DollarSign,
       color: 'text-warning',
       bgColor: 'bg-warning/10',
@@ -73,6 +67,7 @@ export function MetricsBar() {
               <div>
                 <p className="text-xs text-muted-foreground">{metric.label}</p>
                 <p className="text-xl font-bold">{metric.value}</p>
+                {metric.missingRate && <MissingRateWarning />}
               </div>
             </div>
           </CardContent>
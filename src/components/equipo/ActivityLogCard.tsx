@@ -2,6 +2,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Building2, Calendar, MessageSquare, AlertCircle, User, Clock } from 'lucide-react';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { auditFieldLabel, formatAuditValue, type AuditChanges } from '@/lib/audit';
 
 interface ActivityLogDetails {
   prospect_name?: string;
@@ -13,6 +14,7 @@ interface ActivityLogDetails {
   block_reason?: string;
   assigned_to_name?: string;
   company_name?: string;
+  // Activity edits store { field: { old, new } } instead
   changes?: {
     phase_from?: string;
     phase_to?: string;
@@ -23,6 +25,7 @@ interface ActivityLogDetails {
 interface ActivityLog {
   id: string;
   action_type: string;
+  entity_type?: string | null;
   details: ActivityLogDetails | null;
   created_at: string;
   user_agent?: string | null;
@@ -38,17 +41,19 @@ const actionConfig: Record<string, { icon: string; color: string; borderColor: s
   complete: { icon: '✅', color: 'text-green-500 bg-green-50', borderColor: 'border-l-green-500' },
   create: { icon: '➕', color: 'text-emerald-500 bg-emerald-50', borderColor: 'border-l-emerald-500' },
   block: { icon: '🚫', color: 'text-gray-500 bg-gray-100', borderColor: 'border-l-gray-500' },
+  cancel: { icon: '✖️', color: 'text-rose-500 bg-rose-50', borderColor: 'border-l-rose-500' },
   update: { icon: '✏️', color: 'text-orange-500 bg-orange-50', borderColor: 'border-l-orange-500' },
 };
 
-const getActionTitle = (actionType: string): string => {
+const getActionTitle = (actionType: string, entityType?: string | null): string => {
   switch (actionType) {
     case 'login': return 'LOGIN';
     case 'logout': return 'LOGOUT';
     case 'complete': return 'COMPLETÓ ACTIVIDAD';
     case 'create': return 'CREÓ ACTIVIDAD';
     case 'block': return 'BLOQUEÓ ACTIVIDAD';
-    case 'update': return 'ACTUALIZÓ PROSPECTO';
+    case 'cancel': return 'CANCELÓ ACTIVIDAD';
+    case 'update': return entityType === 'activity' ? 'ACTUALIZÓ ACTIVIDAD' : 'ACTUALIZÓ PROSPECTO';
     default: return actionType.toUpperCase();
   }
 };
@@ -108,7 +113,7 @@ export function ActivityLogCard({ log }: ActivityLogCardProps) {
               <span className="font-mono">{formatTime(log.created_at)}</span>
             </div>
             <h4 className="font-semibold text-lg">
-              {getActionTitle(log.action_type)}
+              {getActionTitle(log.action_type, log.entity_type)}
             </h4>
             
             {/* Expanded Details */}
@@ -147,6 +152,18 @@ export function ActivityLogCard({ log }: ActivityLogCardProps) {
                   </div>
                 )}
 
+                {/* Edited activity fields */}
+                {log.entity_type === 'activity' && log.action_type === 'update' && details.changes && (
+                  <ul className="space-y-0.5 text-sm">
+                    {Object.entries(details.changes as unknown as AuditChanges).map(([field, change]) => (
+                      <li key={field}>
+                        <span className="text-muted-foreground">{auditFieldLabel('activities', field)}:</span>{' '}
+                        {formatAuditValue(field, change.old)} → {formatAuditValue(field, change.new)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
                 {/* Scheduled Date */}
                 {details.scheduled_date && (
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
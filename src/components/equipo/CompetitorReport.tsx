@@ -0,0 +1,167 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Landmark, Loader2, Swords, Trophy } from 'lucide-react';
+import { useCompetitorReport } from '@/hooks/useLicitacionBids';
+import { buildCompetitorStats, buildInstitutionLosses } from '@/lib/licitacion-bids';
+import { cn } from '@/lib/utils';
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatGap = (gap: number) => `${gap > 0 ? '+' : ''}${(gap * 100).toFixed(1)}%`;
+
+// Win/loss against each competitor and loss reasons per institution, from adjudicated licitaciones
+export function CompetitorReport() {
+  const { data: licitaciones, isLoading } = useCompetitorReport();
+
+  const competitors = useMemo(() => buildCompetitorStats(licitaciones || []), [licitaciones]);
+  const institutions = useMemo(() => buildInstitutionLosses(licitaciones || []), [licitaciones]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const total = licitaciones?.length || 0;
+  const won = licitaciones?.filter(l => l.current_phase === 'Adjudicada Ganada').length || 0;
+
+  if (total === 0) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center">
+          <Landmark className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">Aún no hay licitaciones adjudicadas</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-2xl font-bold">{total}</p>
+            <p className="text-sm text-muted-foreground">Licitaciones adjudicadas</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-2xl font-bold">{won}</p>
+            <p className="text-sm text-muted-foreground">Ganadas</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-2xl font-bold">{formatPercent(won / total)}</p>
+            <p className="text-sm text-muted-foreground">Tasa de éxito</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Swords className="h-5 w-5" />
+            Contra cada competidor
+          </CardTitle>
+          <CardDescription>
+            Licitaciones donde ambos ofertamos. La brecha compara nuestra oferta con la del competidor: positiva si fuimos más caros.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {competitors.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No hay ofertas de competidores registradas.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Competidor</TableHead>
+                  <TableHead className="text-right">Coincidencias</TableHead>
+                  <TableHead className="text-right">Ganamos</TableHead>
+                  <TableHead className="text-right">Ganó él</TableHead>
+                  <TableHead className="text-right">Ganó otro</TableHead>
+                  <TableHead className="text-right">Tasa de éxito</TableHead>
+                  <TableHead className="text-right">Brecha de precio</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {competitors.map((c) => (
+                  <TableRow key={c.name}>
+                    <TableCell className="font-medium">{c.name}</TableCell>
+                    <TableCell className="text-right">{c.encounters}</TableCell>
+                    <TableCell className="text-right">{c.wins}</TableCell>
+                    <TableCell className="text-right">{c.losses}</TableCell>
+                    <TableCell className="text-right">{c.otherLosses}</TableCell>
+                    <TableCell className="text-right">{formatPercent(c.winRate)}</TableCell>
+                    <TableCell
+                      className={cn(
+                        'text-right',
+                        c.avgPriceGap !== null && c.avgPriceGap > 0 && 'text-destructive',
+                        c.avgPriceGap !== null && c.avgPriceGap < 0 && 'text-success',
+                      )}
+                    >
+                      {c.avgPriceGap !== null ? formatGap(c.avgPriceGap) : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Trophy className="h-5 w-5" />
+            Resultado por institución
+          </CardTitle>
+          <CardDescription>Por qué perdemos en cada institución, según la razón registrada al adjudicar.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Institución</TableHead>
+                <TableHead className="text-right">Adjudicadas</TableHead>
+                <TableHead className="text-right">Ganadas</TableHead>
+                <TableHead className="text-right">Perdidas</TableHead>
+                <TableHead className="text-right">Por precio</TableHead>
+                <TableHead className="text-right">Por calificación técnica</TableHead>
+                <TableHead className="text-right">Otras razones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {institutions.map((i) => (
+                <TableRow key={i.institucion}>
+                  <TableCell className="font-medium">{i.institucion}</TableCell>
+                  <TableCell className="text-right">{i.total}</TableCell>
+                  <TableCell className="text-right">{i.won}</TableCell>
+                  <TableCell className="text-right">{i.lost}</TableCell>
+                  <TableCell className={cn('text-right', i.precio > 0 && i.precio >= i.tecnica && 'font-semibold')}>
+                    {i.precio}
+                  </TableCell>
+                  <TableCell className={cn('text-right', i.tecnica > 0 && i.tecnica > i.precio && 'font-semibold')}>
+                    {i.tecnica}
+                  </TableCell>
+                  <TableCell className="text-right">{i.otros}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useCallback, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, Scale, ThumbsDown, Trophy, Users } from 'lucide-react';
+import { useWinLossReport } from '@/hooks/useLossReasons';
+import { useAllUsers } from '@/hooks/useUsers';
+import { useCurrencyContext, useReportingCurrency } from '@/hooks/useCurrency';
+import { convertAmount, type CurrencyCode } from '@/lib/currency';
+import {
+  buildLossReasonStats,
+  buildSalespersonStats,
+  buildValueBandStats,
+  isWonDeal,
+  type WinLossRow,
+} from '@/lib/win-loss';
+import { MissingRateWarning } from '@/components/prospects/MissingRateWarning';
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Won and lost B2B deals by loss reason, deal size and salesperson
+export function WinLossReport() {
+  const { data: deals, isLoading } = useWinLossReport();
+  const { data: users } = useAllUsers();
+  const { data: currency } = useCurrencyContext();
+  const { toReporting, hasMissingRate, formatReporting } = useReportingCurrency();
+
+  const toUsd = useCallback(
+    (amount: number, from: CurrencyCode) => convertAmount(amount, from, 'USD', currency?.rates || []),
+    [currency?.rates],
+  );
+
+  const userNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    users?.forEach(u => {
+      names[u.id] = u.full_name;
+    });
+    return names;
+  }, [users]);
+
+  const reasons = useMemo(() => buildLossReasonStats(deals || [], toReporting), [deals, toReporting]);
+  const bands = useMemo(() => buildValueBandStats(deals || [], toReporting, toUsd), [deals, toReporting, toUsd]);
+  const salespeople = useMemo(
+    () => buildSalespersonStats(deals || [], userNames, toReporting),
+    [deals, userNames, toReporting],
+  );
+  const missingRate = useMemo(
+    () => hasMissingRate((deals || []).map(d => ({ amount: d.estimated_value, currency: d.estimated_value_currency }))),
+    [deals, hasMissingRate],
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const total = deals?.length || 0;
+  const won = deals?.filter(isWonDeal).length || 0;
+
+  if (total === 0) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center">
+          <Scale className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">Aún no hay negocios B2B ganados ni perdidos</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const wonValue = (deals || [])
+    .filter(isWonDeal)
+    .reduce((sum, d) => sum + toReporting(d.estimated_value, d.estimated_value_currency), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-2xl font-bold">{total}</p>
+            <p className="text-sm text-muted-foreground">Negocios cerrados</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-2xl font-bold">{won}</p>
+            <p className="text-sm text-muted-foreground">Ganados</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-2xl font-bold">{formatPercent(won / total)}</p>
+            <p className="text-sm text-muted-foreground">Tasa de éxito</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-2xl font-bold">{formatReporting(wonValue)}</p>
+            <p className="text-sm text-muted-foreground">Valor ganado</p>
+            {missingRate && <MissingRateWarning />}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ThumbsDown className="h-5 w-5" />
+            Por qué perdemos
+            {missingRate && <MissingRateWarning className="ml-auto" />}
+          </CardTitle>
+          <CardDescription>Razón registrada al mover el prospecto a Perdida.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {reasons.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No hay negocios perdidos.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Razón</TableHead>
+                  <TableHead className="text-right">Perdidos</TableHead>
+                  <TableHead className="text-right">% de pérdidas</TableHead>
+                  <TableHead className="text-right">Valor perdido</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reasons.map((r) => (
+                  <TableRow key={r.key}>
+                    <TableCell className="font-medium">{r.label}</TableCell>
+                    <TableCell className="text-right">{r.count}</TableCell>
+                    <TableCell className="text-right">{formatPercent(r.share)}</TableCell>
+                    <TableCell className="text-right">{formatReporting(r.lostValue)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <WinLossTable
+        title="Por tamaño del negocio"
+        description="Valor estimado convertido a dólares."
+        icon={<Trophy className="h-5 w-5" />}
+        firstColumn="Rango"
+        rows={bands}
+        formatValue={formatReporting}
+        missingRate={missingRate}
+      />
+
+      <WinLossTable
+        title="Por vendedor"
+        description="Responsable actual del prospecto."
+        icon={<Users className="h-5 w-5" />}
+        firstColumn="Vendedor"
+        rows={salespeople}
+        formatValue={formatReporting}
+        missingRate={missingRate}
+      />
+    </div>
+  );
+}
+
+function WinLossTable({ title, description, icon, firstColumn, rows, formatValue, missingRate }: {
+  title: string;
+  description: string;
+  icon: React.ReactNode;
+  firstColumn: string;
+  rows: WinLossRow[];
+  formatValue: (amount: number) => string;
+  missingRate: boolean;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          {icon}
+          {title}
+          {missingRate && <MissingRateWarning className="ml-auto" />}
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{firstColumn}</TableHead>
+              <TableHead className="text-right">Ganados</TableHead>
+              <TableHead className="text-right">Perdidos</TableHead>
+              <TableHead className="text-right">Tasa de éxito</TableHead>
+              <TableHead className="text-right">Valor ganado</TableHead>
+              <TableHead className="text-right">Valor perdido</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.label}</TableCell>
+                <TableCell className="text-right">{row.won}</TableCell>
+                <TableCell className="text-right">{row.lost}</TableCell>
+                <TableCell className="text-right">{formatPercent(row.winRate)}</TableCell>
+                <TableCell className="text-right">{formatValue(row.wonValue)}</TableCell>
+                <TableCell className="text-right">{formatValue(row.lostValue)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
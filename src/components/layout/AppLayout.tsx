@@ -12,9 +12,13 @@ import {
   Loader2,
   Menu,
   X,
-  Sun
+  Sun,
+  Settings,
+  Trash2,
+  Search
 } from 'lucide-react';
 import { FloatingQuickAdd } from '@/components/activities/FloatingQuickAdd';
+import { CommandPalette } from '@/components/layout/CommandPalette';
 import { cn } from '@/lib/utils';
 
 interface AppLayoutProps {
@@ -26,6 +30,7 @@ export function AppLayout({ children }: AppLayoutProps) {
   const navigate = useNavigate();
   const location = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
 
   if (loading) {
     return (
@@ -44,6 +49,8 @@ export function AppLayout({ children }: AppLayoutProps) {
     if (location.pathname === '/pipeline') return 'pipeline';
     if (location.pathname === '/gestion') return 'gestion';
     if (location.pathname === '/equipo') return 'equipo';
+    if (location.pathname === '/configuracion') return 'configuracion';
+    if (location.pathname === '/papelera') return 'papelera';
     return 'dashboard';
   };
 
@@ -63,6 +70,12 @@ export function AppLayout({ children }: AppLayoutProps) {
       case 'equipo':
         navigate('/equipo');
         break;
+      case 'configuracion':
+        navigate('/configuracion');
+        break;
+      case 'papelera':
+        navigate('/papelera');
+        break;
       default:
         navigate('/dashboard');
     }
@@ -116,12 +129,45 @@ export function AppLayout({ children }: AppLayoutProps) {
                     Equipo
                   </TabsTrigger>
                 )}
+                {isManager && (
+                  <TabsTrigger value="configuracion" className="gap-2">
+                    <Settings className="h-4 w-4" />
+                    Ajustes
+                  </TabsTrigger>
+                )}
+                {isManager && (
+                  <TabsTrigger value="papelera" className="gap-2">
+                    <Trash2 className="h-4 w-4" />
+                    Papelera
+                  </TabsTrigger>
+                )}
               </TabsList>
             </Tabs>
           </div>
 
           {/* User info & actions */}
           <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="hidden gap-2 text-muted-foreground lg:flex"
+              onClick={() => setIsPaletteOpen(true)}
+            >
+              <Search className="h-4 w-4" />
+              Buscar...
+              <kbd className="pointer-events-none rounded border bg-muted px-1.5 font-mono text-[10px] font-medium">
+                Ctrl K
+              </kbd>
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="lg:hidden"
+              onClick={() => setIsPaletteOpen(true)}
+            >
+              <Search className="h-4 w-4" />
+            </Button>
+
             <div className="hidden text-right sm:block">
               <p className="text-sm font-medium">{profile?.full_name || 'Usuario'}</p>
               <p className="text-xs text-muted-foreground capitalize">
@@ -194,6 +240,26 @@ export function AppLayout({ children }: AppLayoutProps) {
                   Equipo
                 </Button>
               )}
+              {isManager && (
+                <Button
+                  variant={currentTab === 'configuracion' ? 'default' : 'ghost'}
+                  className="justify-start gap-2"
+                  onClick={() => handleTabChange('configuracion')}
+                >
+                  <Settings className="h-4 w-4" />
+                  Ajustes
+                </Button>
+              )}
+              {isManager && (
+                <Button
+                  variant={currentTab === 'papelera' ? 'default' : 'ghost'}
+                  className="justify-start gap-2"
+                  onClick={() => handleTabChange('papelera')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Papelera
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -206,6 +272,9 @@ export function AppLayout({ children }: AppLayoutProps) {
 
       {/* Floating Quick Add */}
       <FloatingQuickAdd />
+
+      {/* Global command palette (Ctrl+K) */}
+      <CommandPalette open={isPaletteOpen} onOpenChange={setIsPaletteOpen} />
     </div>
   );
 }
@@ -0,0 +1,339 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNextActivity } from '@/contexts/NextActivityContext';
+import { useProspectSearch } from '@/hooks/useProspects';
+import { useSearchActivities, useTodayActivities, useUrgentActivities } from '@/hooks/useActivities';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { ActivityModal } from '@/components/activities/ActivityModal';
+import { CreateActivityModal } from '@/components/activities/CreateActivityModal';
+import CreateProspectModal from '@/components/prospects/CreateProspectModal';
+import ProspectActivitiesModal from '@/components/prospects/ProspectActivitiesModal';
+import {
+  Sun,
+  LayoutDashboard,
+  Kanban,
+  TableProperties,
+  Users,
+  Settings,
+  Trash2,
+  Building2,
+  CalendarPlus,
+  CheckCircle2,
+  UserPlus,
+  Loader2,
+} from 'lucide-react';
+
+interface PaletteProspect {
+  id: string;
+  company_name: string;
+  contact_name: string;
+}
+
+// Same shape the search and dashboard hooks return
+type PaletteActivity = NonNullable<ReturnType<typeof useTodayActivities>['data']>[number];
+
+// Typing "nueva actividad para coca" or "completar coca" narrows the palette to that action
+const NEW_ACTIVITY_PREFIX = /^nueva actividad(?:\s+para)?\s*/i;
+const COMPLETE_PREFIX = /^completar(?:\s+actividad)?\s*/i;
+
+// Items coming from the server are already filtered; the rest match on label/keywords
+const REMOTE_PREFIX = 'remote:';
+
+function paletteFilter(value: string, search: string, keywords?: string[]) {
+  if (value.startsWith(REMOTE_PREFIX)) return 1;
+  const haystack = `${value} ${(keywords || []).join(' ')}`.toLowerCase();
+  return haystack.includes(search.trim().toLowerCase()) ? 1 : 0;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const { isManager } = useAuth();
+  const { showNextActivity } = useNextActivity();
+  const [viewingProspect, setViewingProspect] = useState<PaletteProspect | null>(null);
+  const [activityProspect, setActivityProspect] = useState<PaletteProspect | null>(null);
+  const [showCreateActivity, setShowCreateActivity] = useState(false);
+  const [showCreateProspect, setShowCreateProspect] = useState(false);
+  const [completingActivity, setCompletingActivity] = useState<PaletteActivity | null>(null);
+
+  // Ctrl+K / Cmd+K from anywhere in the app
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  const runAction = (action: () => void) => {
+    onOpenChange(false);
+    action();
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <Command
+            filter={paletteFilter}
+            className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]:not([hidden])_~[cmdk-group]]:pt-0 [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3 [&_[cmdk-item]_svg]:h-5 [&_[cmdk-item]_svg]:w-5"
+          >
+            <PaletteResults
+              isManager={isManager}
+              onRun={runAction}
+              onViewProspect={setViewingProspect}
+              onNewActivity={(prospect) => {
+                setActivityProspect(prospect);
+                setShowCreateActivity(true);
+              }}
+              onCreateProspect={() => setShowCreateProspect(true)}
+              onCompleteActivity={setCompletingActivity}
+            />
+          </Command>
+        </DialogContent>
+      </Dialog>
+
+      <ProspectActivitiesModal
+        prospect={viewingProspect}
+        open={!!viewingProspect}
+        onOpenChange={(isOpen) => !isOpen && setViewingProspect(null)}
+        onCreateActivity={() => {
+          setActivityProspect(viewingProspect);
+          setViewingProspect(null);
+          setShowCreateActivity(true);
+        }}
+      />
+
+      <CreateActivityModal
+        open={showCreateActivity}
+        onOpenChange={(isOpen) => {
+          setShowCreateActivity(isOpen);
+          if (!isOpen) setActivityProspect(null);
+        }}
+        isManager={isManager}
+        preSelectedProspect={activityProspect}
+      />
+
+      <CreateProspectModal open={showCreateProspect} onOpenChange={setShowCreateProspect} />
+
+      {completingActivity && (
+        <ActivityModal
+          open={!!completingActivity}
+          onOpenChange={(isOpen) => !isOpen && setCompletingActivity(null)}
+          activity={completingActivity}
+          onActivityCompleted={(data) => {
+            setCompletingActivity(null);
+            if (data?.prospectId) showNextActivity(data);
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+interface PaletteResultsProps {
+  isManager: boolean;
+  onRun: (action: () => void) => void;
+  onViewProspect: (prospect: PaletteProspect) => void;
+  onNewActivity: (prospect: PaletteProspect | null) => void;
+  onCreateProspect: () => void;
+  onCompleteActivity: (activity: PaletteActivity) => void;
+}
+
+// Mounted only while the palette is open, so its queries don't run in the background
+function PaletteResults({
+  isManager,
+  onRun,
+  onViewProspect,
+  onNewActivity,
+  onCreateProspect,
+  onCompleteActivity,
+}: PaletteResultsProps) {
+  const navigate = useNavigate();
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search), 200);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const term = debouncedSearch.trim();
+  const isNewActivityCommand = NEW_ACTIVITY_PREFIX.test(term);
+  const isCompleteCommand = COMPLETE_PREFIX.test(term);
+  const prospectTerm = isNewActivityCommand ? term.replace(NEW_ACTIVITY_PREFIX, '') : term;
+  const activityTerm = isCompleteCommand ? term.replace(COMPLETE_PREFIX, '') : term;
+
+  const { data: prospects = [], isFetching: loadingProspects } = useProspectSearch(
+    isCompleteCommand ? '' : prospectTerm
+  );
+  const { data: searchedActivities, isFetching: loadingActivities } = useSearchActivities(
+    isNewActivityCommand ? '' : activityTerm
+  );
+  const { data: todayActivities = [] } = useTodayActivities();
+  const { data: urgentActivities = [] } = useUrgentActivities();
+
+  const showProspects = prospectTerm.length >= 2 && !isCompleteCommand;
+  const visibleProspects = showProspects ? prospects.slice(0, 5) : [];
+
+  // Pending activities to complete: search hits, or overdue + today's when there is no search
+  const pendingActivities = useMemo(() => {
+    if (isNewActivityCommand) return [];
+    if (activityTerm.length >= 2) {
+      return (searchedActivities?.pages[0]?.activities || [])
+        .filter(a => a.status === 'pending')
+        .slice(0, 5);
+    }
+    if (term && !isCompleteCommand) return [];
+    return [...urgentActivities, ...todayActivities].slice(0, 5);
+  }, [isNewActivityCommand, isCompleteCommand, activityTerm, term, searchedActivities, urgentActivities, todayActivities]);
+
+  const routes = [
+    { path: '/mi-dia', label: 'Mi Día', icon: Sun },
+    { path: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
+    { path: '/pipeline', label: 'Pipeline', icon: Kanban },
+    { path: '/gestion', label: 'Gestión', icon: TableProperties },
+    ...(isManager
+      ? [
+          { path: '/equipo', label: 'Equipo', icon: Users },
+          { path: '/configuracion', label: 'Ajustes', icon: Settings },
+          { path: '/papelera', label: 'Papelera', icon: Trash2 },
+        ]
+      : []),
+  ];
+
+  const isSearching = search !== debouncedSearch || loadingProspects || loadingActivities;
+
+  return (
+    <>
+      <CommandInput
+        placeholder="Buscar prospecto, ir a una página o ejecutar una acción..."
+        value={search}
+        onValueChange={setSearch}
+      />
+      <CommandList>
+        <CommandEmpty>
+          {isSearching ? (
+            <span className="inline-flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" /> Buscando...
+            </span>
+          ) : (
+            'No se encontraron resultados.'
+          )}
+        </CommandEmpty>
+
+        {visibleProspects.length > 0 && !isNewActivityCommand && (
+          <CommandGroup heading="Prospectos">
+            {visibleProspects.map((prospect) => (
+              <CommandItem
+                key={prospect.id}
+                value={`${REMOTE_PREFIX}prospect:${prospect.id}`}
+                onSelect={() => onRun(() => onViewProspect(prospect))}
+              >
+                <Building2 className="mr-2" />
+                <span className="truncate">{prospect.company_name}</span>
+                {prospect.contact_name && (
+                  <span className="ml-2 truncate text-xs text-muted-foreground">{prospect.contact_name}</span>
+                )}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {visibleProspects.length > 0 && (
+          <CommandGroup heading="Nueva actividad">
+            {visibleProspects.map((prospect) => (
+              <CommandItem
+                key={prospect.id}
+                value={`${REMOTE_PREFIX}new-activity:${prospect.id}`}
+                onSelect={() => onRun(() => onNewActivity(prospect))}
+              >
+                <CalendarPlus className="mr-2" />
+                Nueva actividad para {prospect.company_name}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {pendingActivities.length > 0 && (
+          <CommandGroup heading="Completar actividad">
+            {pendingActivities.map((activity) => (
+              <CommandItem
+                key={activity.id}
+                value={`${REMOTE_PREFIX}complete:${activity.id}`}
+                onSelect={() => onRun(() => onCompleteActivity(activity))}
+              >
+                <CheckCircle2 className="mr-2" />
+                <span className="truncate">
+                  {activity.activity_type === 'General' && activity.custom_type
+                    ? activity.custom_type
+                    : activity.activity_type}
+                  {' — '}
+                  {activity.prospects?.company_name || 'Tarea general'}
+                </span>
+                <CommandShortcut>
+                  {new Date(activity.scheduled_date + 'T00:00:00').toLocaleDateString('es-CR', {
+                    day: 'numeric',
+                    month: 'short',
+                  })}
+                </CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        <CommandSeparator />
+
+        <CommandGroup heading="Acciones">
+          <CommandItem
+            value="Nueva actividad"
+            keywords={['crear', 'actividad', 'tarea']}
+            onSelect={() => onRun(() => onNewActivity(null))}
+          >
+            <CalendarPlus className="mr-2" />
+            Nueva actividad
+          </CommandItem>
+          <CommandItem
+            value="Crear prospecto"
+            keywords={['nuevo', 'cliente', 'empresa']}
+            onSelect={() => onRun(onCreateProspect)}
+          >
+            <UserPlus className="mr-2" />
+            Crear prospecto
+          </CommandItem>
+        </CommandGroup>
+
+        <CommandGroup heading="Ir a">
+          {routes.map((route) => (
+            <CommandItem
+              key={route.path}
+              value={route.label}
+              keywords={['ir', route.path.slice(1)]}
+              onSelect={() => onRun(() => navigate(route.path))}
+            >
+              <route.icon className="mr-2" />
+              {route.label}
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      </CommandList>
+    </>
+  );
+}
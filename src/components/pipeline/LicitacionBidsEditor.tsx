@@ -0,0 +1,117 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Plus, Trash2, Trophy } from 'lucide-react';
+import { newBidKey, type BidsForm, type CompetitorBidForm } from '@/lib/licitacion-bids';
+import { CURRENCY_SYMBOLS, type CurrencyCode } from '@/lib/currency';
+
+interface LicitacionBidsEditorProps {
+  value: BidsForm;
+  onChange: (form: BidsForm) => void;
+  // Adjudicada Ganada: we are the winner and only competitors' offers are asked
+  won: boolean;
+  // Currency of the licitación's amounts
+  currency: CurrencyCode;
+}
+
+// Bidders section of the adjudication dialog
+export function LicitacionBidsEditor({ value, onChange, won, currency }: LicitacionBidsEditorProps) {
+  const symbol = CURRENCY_SYMBOLS[currency];
+  const update = (changes: Partial<BidsForm>) => onChange({ ...value, ...changes });
+
+  const updateCompetitor = (key: string, changes: Partial<CompetitorBidForm>) => {
+    update({ competitors: value.competitors.map(c => c.key === key ? { ...c, ...changes } : c) });
+  };
+
+  const removeCompetitor = (key: string) => {
+    update({
+      competitors: value.competitors.filter(c => c.key !== key),
+      winnerKey: value.winnerKey === key ? null : value.winnerKey,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Nuestra oferta ({symbol})</Label>
+        <Input
+          inputMode="decimal"
+          placeholder="Ej: 12500000"
+          value={value.ownAmount}
+          onChange={(e) => update({ ownAmount: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Otros oferentes</Label>
+          {!won && value.competitors.length > 0 && (
+            <span className="text-xs text-muted-foreground flex items-center gap-1">
+              <Trophy className="h-3 w-3" />
+              Ganador
+            </span>
+          )}
+        </div>
+        {value.competitors.length === 0 && (
+          <p className="text-xs text-muted-foreground">Sin competidores registrados.</p>
+        )}
+        <RadioGroup
+          value={value.winnerKey ?? ''}
+          onValueChange={(key) => update({ winnerKey: key })}
+          className="gap-2"
+        >
+          {value.competitors.map((competitor) => (
+            <div key={competitor.key} className="flex items-center gap-2">
+              <Input
+                placeholder="Empresa"
+                value={competitor.name}
+                onChange={(e) => updateCompetitor(competitor.key, { name: e.target.value })}
+                className="flex-1"
+              />
+              <Input
+                inputMode="decimal"
+                placeholder={`Oferta ${symbol}`}
+                value={competitor.amount}
+                onChange={(e) => updateCompetitor(competitor.key, { amount: e.target.value })}
+                className="w-32"
+              />
+              {!won && (
+                <RadioGroupItem value={competitor.key} aria-label={`${competitor.name || 'Competidor'} ganó`} />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+                title="Quitar"
+                onClick={() => removeCompetitor(competitor.key)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </RadioGroup>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => update({ competitors: [...value.competitors, { key: newBidKey(), name: '', amount: '' }] })}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Agregar competidor
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Monto adjudicado ({symbol})</Label>
+        <Input
+          inputMode="decimal"
+          placeholder="Si se deja vacío, la oferta ganadora"
+          value={value.montoAdjudicado}
+          onChange={(e) => update({ montoAdjudicado: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
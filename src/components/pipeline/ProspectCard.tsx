@@ -1,13 +1,21 @@
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
-import { daysUntil, formatColones } from '@/lib/licitacion-constants';
+import { daysUntil, type ChecklistProgress } from '@/lib/licitacion-constants';
+import {
+  formatCompactMoney,
+  formatMoney,
+  DEFAULT_LICITACION_CURRENCY,
+  DEFAULT_VALUE_CURRENCY,
+  type CurrencyCode,
+} from '@/lib/currency';
 
 interface ProspectWithStats {
   id: string;
   company_name: string;
   contact_name: string;
   estimated_value: number | null;
+  estimated_value_currency?: CurrencyCode;
   pending_activities: number;
   days_in_phase: number;
   prospect_type?: string | null;
@@ -15,6 +23,8 @@ interface ProspectWithStats {
   licitacion_institucion?: string | null;
   licitacion_fecha_cierre?: string | null;
   licitacion_monto_estimado?: number | null;
+  licitacion_monto_currency?: CurrencyCode;
+  checklist?: ChecklistProgress | null;
 }
 
 interface ProspectCardProps {
@@ -26,15 +36,6 @@ export function ProspectCard({ prospect, onClick }: ProspectCardProps) {
   const isLicitacion = prospect.prospect_type === 'licitacion';
   const closingDays = daysUntil(prospect.licitacion_fecha_cierre);
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('es-CR', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
-
   const formatClosingDate = (dateStr: string) => {
     return new Date(dateStr + 'T12:00:00').toLocaleDateString('es-CR', {
       day: '2-digit',
@@ -92,7 +93,20 @@ export function ProspectCard({ prospect, onClick }: ProspectCardProps) {
               )}
               {prospect.licitacion_monto_estimado && prospect.licitacion_monto_estimado > 0 && (
                 <Badge variant="outline" className="text-xs">
-                  {formatColones(prospect.licitacion_monto_estimado)}
+                  {formatCompactMoney(prospect.licitacion_monto_estimado, prospect.licitacion_monto_currency ?? DEFAULT_LICITACION_CURRENCY)}
+                </Badge>
+              )}
+              {prospect.checklist && prospect.checklist.total > 0 && (
+                <Badge
+                  variant="outline"
+                  className={cn(
+                    'text-xs ml-1',
+                    prospect.checklist.done === prospect.checklist.total && 'border-success text-success',
+                    prospect.checklist.overdue > 0 && 'border-destructive text-destructive',
+                  )}
+                  title={prospect.checklist.overdue > 0 ? `${prospect.checklist.overdue} documentos vencidos` : 'Documentos listos'}
+                >
+                  📄 {prospect.checklist.done}/{prospect.checklist.total}
                 </Badge>
               )}
             </div>
@@ -101,7 +115,7 @@ export function ProspectCard({ prospect, onClick }: ProspectCardProps) {
           <div className="flex flex-wrap gap-1">
             {prospect.estimated_value && prospect.estimated_value > 0 && (
               <Badge variant="outline" className="text-xs">
-                💰 {formatCurrency(prospect.estimated_value)}
+                💰 {formatMoney(prospect.estimated_value, prospect.estimated_value_currency ?? DEFAULT_VALUE_CURRENCY)}
               </Badge>
             )}
             {prospect.pending_activities > 0 && (
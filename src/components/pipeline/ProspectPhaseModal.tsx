@@ -1,11 +1,12 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { Database } from '@/integrations/supabase/types';
+import { Database, Json } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import {
   Dialog,
@@ -22,8 +23,26 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { CheckCircle, Clock, Ban, Loader2 } from 'lucide-react';
-import { getPhasesForType, LICITACION_CATEGORIAS, CLOSED_LICITACION_PHASES, isLicitacionPhase, formatColones, daysUntil } from '@/lib/licitacion-constants';
+import { usePhaseHistory } from '@/hooks/useProspects';
+import { LicitacionChecklist } from '@/components/prospects/LicitacionChecklist';
+import { ProspectOutcomeFields } from '@/components/prospects/ProspectOutcomeFields';
+import { usePhasePlaybooks, formatPlaybookCount } from '@/hooks/usePhasePlaybooks';
+import { useLicitacionBids } from '@/hooks/useLicitacionBids';
+import { useLossReasons } from '@/hooks/useLossReasons';
+import { useUnmetPhaseRequirements, phaseChangeErrorMessage } from '@/hooks/usePhaseRequirements';
+import { LicitacionBidsEditor } from '@/components/pipeline/LicitacionBidsEditor';
+import { bidsToForm, emptyBidsForm, formToBids, type BidInput, type BidsForm } from '@/lib/licitacion-bids';
+import { CheckCircle, Clock, Ban, Loader2, ListChecks, ShieldAlert } from 'lucide-react';
+import { daysSince } from '@/lib/phase-history';
+import { LOST_PHASE } from '@/lib/win-loss';
+import { getPhasesForType, LICITACION_CATEGORIAS, CLOSED_LICITACION_PHASES, isLicitacionPhase, daysUntil } from '@/lib/licitacion-constants';
+import {
+  formatCompactMoney,
+  formatMoney,
+  DEFAULT_LICITACION_CURRENCY,
+  DEFAULT_VALUE_CURRENCY,
+  type CurrencyCode,
+} from '@/lib/currency';
 
 type PhaseType = Database['public']['Enums']['phase_type'];
 type ActivityStatus = Database['public']['Enums']['activity_status'];
@@ -34,19 +53,24 @@ interface ProspectWithStats {
   contact_name: string;
   current_phase: PhaseType | null;
   estimated_value: number | null;
+  estimated_value_currency?: CurrencyCode;
   pending_activities: number;
   days_in_phase: number;
   prospect_type?: string | null;
   licitacion_numero?: string | null;
   licitacion_institucion?: string | null;
+  licitacion_clasificacion?: string | null;
   licitacion_fecha_cierre?: string | null;
   licitacion_monto_estimado?: number | null;
+  licitacion_monto_currency?: CurrencyCode;
 }
 
 interface ProspectPhaseModalProps {
   prospect: ProspectWithStats | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  /** Phase preselected when the modal opens (e.g. a card dropped on a closing column) */
+  initialPhase?: string | null;
 }
 
 interface Activity {
@@ -58,7 +82,7 @@ interface Activity {
   notes: string | null;
 }
 
-export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPhaseModalProps) {
+export function ProspectPhaseModal({ prospect, open, onOpenChange, initialPhase }: ProspectPhaseModalProps) {
   const [newPhase, setNewPhase] = useState<string | null>(null);
   const [reason, setReason] = useState('');
   const [showHistory, setShowHistory] = useState(false);
@@ -67,13 +91,36 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
   const [adjCategoria, setAdjCategoria] = useState('');
   const [adjDetalles, setAdjDetalles] = useState('');
   const [cancelPending, setCancelPending] = useState(false);
+  const [applyPlaybook, setApplyPlaybook] = useState(true);
+  const [bidsForm, setBidsForm] = useState<BidsForm>(emptyBidsForm(false));
+  // B2B outcome: loss reason for Perdida, notes for either
+  const [lossReasonId, setLossReasonId] = useState('');
+  const [outcomeNotes, setOutcomeNotes] = useState('');
 
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
   const isLicitacion = prospect?.prospect_type === 'licitacion';
+  const licitacionCurrency = prospect?.licitacion_monto_currency ?? DEFAULT_LICITACION_CURRENCY;
   const availablePhases = getPhasesForType(prospect?.prospect_type);
 
+  // Dropping on an adjudication column goes straight to the result dialog
+  useEffect(() => {
+    if (!open || !initialPhase) return;
+    setNewPhase(initialPhase);
+    if (isLicitacion && (CLOSED_LICITACION_PHASES as readonly string[]).includes(initialPhase)) {
+      setShowAdjudicacion(true);
+    }
+  }, [open, initialPhase, isLicitacion]);
+
+  // Bids already recorded (when re-adjudicating) prefill the form
+  const isWon = newPhase === 'Adjudicada Ganada';
+  const { data: existingBids } = useLicitacionBids(showAdjudicacion ? prospect?.id : undefined);
+  useEffect(() => {
+    if (!showAdjudicacion || !existingBids) return;
+    setBidsForm(bidsToForm(existingBids.bids, existingBids.montoAdjudicado, isWon));
+  }, [showAdjudicacion, existingBids, isWon]);
+
   // Fetch activity history
   const { data: activities, isLoading: loadingActivities } = useQuery({
     queryKey: ['prospect-activities', prospect?.id],
@@ -83,6 +130,7 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
         .from('activities')
         .select('id, activity_type, scheduled_date, status, completion_comment, notes')
         .eq('prospect_id', prospect.id)
+        .neq('status', 'cancelled')
         .order('scheduled_date', { ascending: false })
         .limit(20);
 
@@ -92,6 +140,27 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
     enabled: !!prospect?.id && showHistory,
   });
 
+  const { data: phaseHistory } = usePhaseHistory(showHistory ? prospect?.id : undefined);
+
+  const { data: playbooks } = usePhasePlaybooks();
+  const playbookSteps = newPhase && newPhase !== prospect?.current_phase
+    ? playbooks?.[newPhase as PhaseType] || []
+    : [];
+
+  // Stage gate: what the prospect still lacks to enter the selected phase
+  const { data: unmetRequirements } = useUnmetPhaseRequirements(
+    prospect?.id,
+    newPhase && newPhase !== prospect?.current_phase ? newPhase as PhaseType : null,
+  );
+  const isGated = (unmetRequirements?.length ?? 0) > 0;
+
+  // Closing a B2B deal records why it was won or lost
+  const capturesOutcome = !isLicitacion && (newPhase === LOST_PHASE || newPhase === 'Ganada') && newPhase !== prospect?.current_phase;
+  const { data: lossReasons } = useLossReasons();
+
+  // A lost B2B deal leaves its pending activities pointless, like an adjudicated licitación
+  const offersCancelOnMove = !isLicitacion && newPhase === LOST_PHASE && newPhase !== prospect?.current_phase;
+
   // Count pending activities
   const { data: pendingCount } = useQuery({
     queryKey: ['prospect-pending-count', prospect?.id],
@@ -101,68 +170,65 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
         .from('activities')
         .select('id', { count: 'exact', head: true })
         .eq('prospect_id', prospect.id)
-        .eq('status', 'pending');
+        .in('status', ['pending', 'blocked']);
       if (error) throw error;
       return count || 0;
     },
-    enabled: !!prospect?.id && showAdjudicacion,
+    enabled: !!prospect?.id && (showAdjudicacion || offersCancelOnMove),
   });
 
   const updatePhase = useMutation({
-    mutationFn: async ({ prospectId, phase, categoria, detalles, shouldCancelPending }: {
+    mutationFn: async ({ prospectId, phase, reason: changeReason, lossReasonId: lossReason, outcomeNotes: notes, categoria, detalles, bids, shouldCancelPending, shouldApplyPlaybook }: {
       prospectId: string;
       phase: string;
+      reason?: string;
+      lossReasonId?: string;
+      outcomeNotes?: string;
       categoria?: string;
       detalles?: string;
+      bids?: { bids: BidInput[]; montoAdjudicado: number | null };
       shouldCancelPending?: boolean;
+      shouldApplyPlaybook?: boolean;
     }) => {
-      const updateData: Record<string, any> = {
-        current_phase: phase,
-        updated_at: new Date().toISOString(),
-      };
-
-      if (categoria) {
-        updateData.licitacion_categoria = categoria;
-      }
-      if (detalles) {
-        updateData.licitacion_razon_resultado = detalles;
-      }
-
-      const { error } = await supabase
-        .from('prospects')
-        .update(updateData)
-        .eq('id', prospectId);
+      // Phase change goes through the RPC so it lands in prospect_phase_history with the reason.
+      // The adjudication result and bids, cancelling open activities and the playbook
+      // commit or fail together with it.
+      const { data: playbookCount, error } = await supabase.rpc('change_prospect_phase', {
+        p_prospect_id: prospectId,
+        p_phase: phase as PhaseType,
+        p_reason: changeReason?.trim() || undefined,
+        p_loss_reason_id: lossReason || undefined,
+        p_outcome_notes: notes?.trim() || undefined,
+        p_licitacion_categoria: categoria || undefined,
+        p_licitacion_razon_resultado: detalles || undefined,
+        p_bids: bids ? bids.bids as unknown as Json : undefined,
+        p_monto_adjudicado: bids?.montoAdjudicado ?? undefined,
+        p_cancel_pending: shouldCancelPending,
+        p_apply_playbook: shouldApplyPlaybook,
+      });
 
       if (error) throw error;
-
-      // Cancel pending activities if requested
-      if (shouldCancelPending) {
-        const { error: cancelError } = await supabase
-          .from('activities')
-          .update({
-            status: 'completed' as any,
-            completion_comment: 'Cancelada automáticamente - Licitación adjudicada',
-            completed_at: new Date().toISOString(),
-          })
-          .eq('prospect_id', prospectId)
-          .eq('status', 'pending');
-
-        if (cancelError) throw cancelError;
-      }
+      return playbookCount ?? 0;
     },
-    onSuccess: () => {
+    onSuccess: (playbookCount) => {
       queryClient.invalidateQueries({ queryKey: ['prospects'] });
       queryClient.invalidateQueries({ queryKey: ['activities'] });
+      queryClient.invalidateQueries({ queryKey: ['prospect-activities'] });
+      queryClient.invalidateQueries({ queryKey: ['phase-history', prospect?.id] });
+      queryClient.invalidateQueries({ queryKey: ['phase-cycle-times'] });
+      queryClient.invalidateQueries({ queryKey: ['licitacion-bids', prospect?.id] });
+      queryClient.invalidateQueries({ queryKey: ['competitor-report'] });
+      queryClient.invalidateQueries({ queryKey: ['win-loss-report'] });
       toast({
         title: 'Fase actualizada',
-        description: `${prospect?.company_name} movido a ${newPhase}`,
+        description: `${prospect?.company_name} movido a ${newPhase}${formatPlaybookCount(playbookCount)}`,
       });
       handleClose();
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: 'Error',
-        description: 'No se pudo actualizar la fase.',
+        description: phaseChangeErrorMessage(error),
         variant: 'destructive',
       });
     },
@@ -176,6 +242,10 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
     setAdjCategoria('');
     setAdjDetalles('');
     setCancelPending(false);
+    setApplyPlaybook(true);
+    setBidsForm(emptyBidsForm(false));
+    setLossReasonId('');
+    setOutcomeNotes('');
     onOpenChange(false);
   };
 
@@ -188,7 +258,35 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
       return;
     }
 
-    updatePhase.mutate({ prospectId: prospect.id, phase: newPhase });
+    if (capturesOutcome) {
+      if (newPhase === LOST_PHASE && !lossReasonId) {
+        toast({ title: 'Selecciona la razón de la pérdida', variant: 'destructive' });
+        return;
+      }
+
+      // The phase history keeps the outcome too, as the reason of the change
+      const lossLabel = lossReasons?.find(r => r.id === lossReasonId)?.label;
+      updatePhase.mutate({
+        prospectId: prospect.id,
+        phase: newPhase,
+        reason: newPhase === LOST_PHASE
+          ? [lossLabel, outcomeNotes.trim()].filter(Boolean).join(': ')
+          : outcomeNotes,
+        lossReasonId: newPhase === LOST_PHASE ? lossReasonId : undefined,
+        outcomeNotes,
+        shouldCancelPending: offersCancelOnMove && cancelPending,
+        shouldApplyPlaybook: applyPlaybook && playbookSteps.length > 0,
+      });
+      return;
+    }
+
+    updatePhase.mutate({
+      prospectId: prospect.id,
+      phase: newPhase,
+      reason,
+      shouldCancelPending: offersCancelOnMove && cancelPending,
+      shouldApplyPlaybook: applyPlaybook && playbookSteps.length > 0,
+    });
   };
 
   const handleAdjudicacion = () => {
@@ -197,24 +295,57 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
       toast({ title: 'Selecciona una razón', variant: 'destructive' });
       return;
     }
+    const bids = formToBids(bidsForm);
+    if ('error' in bids) {
+      toast({ title: 'Revisa las ofertas', description: bids.error, variant: 'destructive' });
+      return;
+    }
 
     updatePhase.mutate({
       prospectId: prospect.id,
       phase: newPhase,
+      reason: reason || (adjCategoria === 'otros' ? adjDetalles : adjCategoria),
       categoria: adjCategoria,
       detalles: adjCategoria === 'otros' ? adjDetalles : adjCategoria,
+      bids,
       shouldCancelPending: cancelPending,
+      shouldApplyPlaybook: applyPlaybook && playbookSteps.length > 0,
     });
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('es-CR', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
+  const requirementsWarning = isGated && (
+    <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/30 space-y-1">
+      <p className="text-sm font-medium flex items-center gap-1.5">
+        <ShieldAlert className="h-4 w-4 text-destructive" />
+        Para mover a {newPhase} falta:
+      </p>
+      <ul className="list-disc pl-6 text-sm text-muted-foreground">
+        {unmetRequirements!.map((requirement) => (
+          <li key={requirement}>{requirement}</li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  const cancelPendingOption = (pendingCount ?? 0) > 0 && (
+    <div className="p-3 rounded-lg bg-warning/10 border border-warning/30 space-y-2">
+      <p className="text-sm font-medium">
+        Tienes {pendingCount} actividades pendientes o bloqueadas.
+      </p>
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="cancel-pending"
+          checked={cancelPending}
+          onChange={(e) => setCancelPending(e.target.checked)}
+          className="rounded"
+        />
+        <Label htmlFor="cancel-pending" className="text-sm font-normal cursor-pointer">
+          ¿Cancelarlas automáticamente?
+        </Label>
+      </div>
+    </div>
+  );
 
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString('es-CR', {
@@ -248,13 +379,15 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
   if (showAdjudicacion) {
     return (
       <Dialog open={open} onOpenChange={handleClose}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>🏛️ Licitación Adjudicada</DialogTitle>
             <p className="text-sm text-muted-foreground">{prospect.company_name}</p>
           </DialogHeader>
 
           <div className="space-y-4">
+            {requirementsWarning}
+
             <div className="space-y-2">
               <Label className="font-medium">Razón del resultado:</Label>
               <RadioGroup value={adjCategoria} onValueChange={setAdjCategoria}>
@@ -281,24 +414,19 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
               </div>
             )}
 
-            {(pendingCount ?? 0) > 0 && (
-              <div className="p-3 rounded-lg bg-warning/10 border border-warning/30 space-y-2">
-                <p className="text-sm font-medium">
-                  Tienes {pendingCount} actividades pendientes.
-                </p>
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="checkbox"
-                    id="cancel-pending"
-                    checked={cancelPending}
-                    onChange={(e) => setCancelPending(e.target.checked)}
-                    className="rounded"
-                  />
-                  <Label htmlFor="cancel-pending" className="text-sm font-normal cursor-pointer">
-                    ¿Cancelarlas automáticamente?
-                  </Label>
-                </div>
-              </div>
+            <div className="pt-2 border-t">
+              <LicitacionBidsEditor value={bidsForm} onChange={setBidsForm} won={isWon} currency={licitacionCurrency} />
+            </div>
+
+            {cancelPendingOption}
+
+            {playbookSteps.length > 0 && (
+              <PlaybookOption
+                phase={newPhase!}
+                steps={playbookSteps}
+                checked={applyPlaybook}
+                onCheckedChange={setApplyPlaybook}
+              />
             )}
           </div>
 
@@ -308,7 +436,7 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
             </Button>
             <Button
               onClick={handleAdjudicacion}
-              disabled={!adjCategoria || updatePhase.isPending}
+              disabled={!adjCategoria || isGated || updatePhase.isPending}
             >
               {updatePhase.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Confirmar Adjudicación
@@ -342,6 +470,9 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
               {prospect.licitacion_institucion && (
                 <p><span className="font-medium">Institución:</span> {prospect.licitacion_institucion}</p>
               )}
+              {prospect.licitacion_clasificacion && (
+                <p><span className="font-medium">Categoría:</span> {prospect.licitacion_clasificacion}</p>
+              )}
               {prospect.licitacion_fecha_cierre && (
                 <p>
                   <span className="font-medium">Cierre:</span>{' '}
@@ -354,15 +485,22 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
                 </p>
               )}
               {prospect.licitacion_monto_estimado && (
-                <p><span className="font-medium">Monto:</span> {formatColones(prospect.licitacion_monto_estimado)}</p>
+                <p><span className="font-medium">Monto:</span> {formatCompactMoney(prospect.licitacion_monto_estimado, licitacionCurrency)}</p>
               )}
             </div>
           )}
 
+          {isLicitacion && (
+            <LicitacionChecklist
+              prospectId={prospect.id}
+              fechaCierre={prospect.licitacion_fecha_cierre}
+            />
+          )}
+
           {/* Stats */}
           <div className="flex flex-wrap gap-2">
             {prospect.estimated_value && prospect.estimated_value > 0 && (
-              <Badge variant="outline">💰 {formatCurrency(prospect.estimated_value)}</Badge>
+              <Badge variant="outline">💰 {formatMoney(prospect.estimated_value, prospect.estimated_value_currency ?? DEFAULT_VALUE_CURRENCY)}</Badge>
             )}
             {prospect.pending_activities > 0 && (
               <Badge variant="secondary">📋 {prospect.pending_activities} pendientes</Badge>
@@ -394,15 +532,38 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
               </Select>
             </div>
 
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Razón del cambio: (opcional)</label>
-              <Textarea
-                value={reason}
-                onChange={(e) => setReason(e.target.value)}
-                placeholder="Ej: Cliente solicitó cotización formal"
-                rows={2}
+            {requirementsWarning}
+
+            {capturesOutcome ? (
+              <ProspectOutcomeFields
+                phase={newPhase}
+                lossReasonId={lossReasonId}
+                onLossReasonChange={setLossReasonId}
+                notes={outcomeNotes}
+                onNotesChange={setOutcomeNotes}
               />
-            </div>
+            ) : (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Razón del cambio: (opcional)</label>
+                <Textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Ej: Cliente solicitó cotización formal"
+                  rows={2}
+                />
+              </div>
+            )}
+
+            {playbookSteps.length > 0 && (
+              <PlaybookOption
+                phase={newPhase!}
+                steps={playbookSteps}
+                checked={applyPlaybook}
+                onCheckedChange={setApplyPlaybook}
+              />
+            )}
+
+            {offersCancelOnMove && cancelPendingOption}
           </div>
 
           {/* Activity History Toggle */}
@@ -416,6 +577,25 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
               {showHistory ? 'Ocultar Historial' : 'Ver Actividades'}
             </Button>
 
+            {showHistory && phaseHistory && phaseHistory.length > 0 && (
+              <div className="mt-3 space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">Historial de fases</p>
+                {phaseHistory.map((h) => (
+                  <div key={h.id} className="flex items-start justify-between gap-2 text-xs p-2 rounded-lg bg-muted/30">
+                    <div className="min-w-0">
+                      <span className="font-medium">{h.phase}</span>
+                      {h.reason && (
+                        <p className="text-muted-foreground truncate">"{h.reason}"</p>
+                      )}
+                    </div>
+                    <span className="text-muted-foreground shrink-0">
+                      {formatDate(h.entered_at)} · {daysSince(h.entered_at, h.exited_at ? new Date(h.exited_at) : new Date())}d
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {showHistory && (
               <div className="mt-3 space-y-2 max-h-48 overflow-y-auto">
                 {loadingActivities ? (
@@ -463,7 +643,13 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
           </Button>
           <Button
             onClick={handleMove}
-            disabled={!newPhase || newPhase === prospect.current_phase || updatePhase.isPending}
+            disabled={
+              !newPhase ||
+              newPhase === prospect.current_phase ||
+              (capturesOutcome && newPhase === LOST_PHASE && !lossReasonId) ||
+              isGated ||
+              updatePhase.isPending
+            }
             className="w-full sm:w-auto"
           >
             {updatePhase.isPending ? (
@@ -480,3 +666,34 @@ export function ProspectPhaseModal({ prospect, open, onOpenChange }: ProspectPha
     </Dialog>
   );
 }
+
+// Opt-out for the activities the target phase's playbook will create
+function PlaybookOption({ phase, steps, checked, onCheckedChange }: {
+  phase: string;
+  steps: { id: string; activity_type: string; day_offset: number; notes: string }[];
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}) {
+  return (
+    <div className="p-3 rounded-lg border bg-muted/30 space-y-2">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="apply-playbook"
+          checked={checked}
+          onCheckedChange={(value) => onCheckedChange(value === true)}
+        />
+        <Label htmlFor="apply-playbook" className="text-sm font-normal cursor-pointer flex items-center gap-1.5">
+          <ListChecks className="h-4 w-4" />
+          Crear actividades del playbook de {phase}
+        </Label>
+      </div>
+      <ul className="space-y-0.5 pl-6 text-xs text-muted-foreground">
+        {steps.map((step) => (
+          <li key={step.id} className="truncate">
+            {step.day_offset === 0 ? 'Hoy' : `Día ${step.day_offset}`} · {step.activity_type}: {step.notes}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
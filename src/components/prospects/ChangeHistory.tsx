@@ -0,0 +1,99 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { History, Loader2 } from 'lucide-react';
+import { useChangeHistory } from '@/hooks/useAuditLog';
+import { useAllUsers } from '@/hooks/useUsers';
+import { useLossReasons } from '@/hooks/useLossReasons';
+import {
+  AUDIT_OPERATION_LABELS,
+  auditFieldLabel,
+  formatAuditValue,
+  isVisibleAuditField,
+  type AuditLookups,
+  type AuditTable,
+} from '@/lib/audit';
+import { cn } from '@/lib/utils';
+
+interface ChangeHistoryProps {
+  table: AuditTable;
+  recordId: string;
+  className?: string;
+}
+
+// "Historial de cambios": who changed which field, from what to what
+export function ChangeHistory({ table, recordId, className }: ChangeHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const { data: entries, isLoading } = useChangeHistory(table, open ? recordId : undefined);
+  const { data: users } = useAllUsers();
+  const { data: lossReasons } = useLossReasons();
+
+  const lookups = useMemo<AuditLookups>(() => ({
+    users: Object.fromEntries((users || []).map(u => [u.id, u.full_name])),
+    lossReasons: Object.fromEntries((lossReasons || []).map(r => [r.id, r.label])),
+  }), [users, lossReasons]);
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="w-full"
+        onClick={() => setOpen(!open)}
+      >
+        <History className="h-4 w-4 mr-2" />
+        {open ? 'Ocultar historial de cambios' : 'Historial de cambios'}
+      </Button>
+
+      {open && (
+        isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !entries || entries.length === 0 ? (
+          <p className="text-sm text-center text-muted-foreground py-2">Sin cambios registrados</p>
+        ) : (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {entries.map((entry) => {
+              const fields = Object.keys(entry.changes).filter(isVisibleAuditField);
+              if (entry.operation === 'UPDATE' && fields.length === 0) return null;
+
+              return (
+                <div key={entry.id} className="p-2 rounded-lg bg-muted/30 text-xs space-y-1">
+                  <div className="flex items-center justify-between gap-2 text-muted-foreground">
+                    <span>
+                      <span className="font-medium text-foreground">
+                        {entry.user_profiles?.full_name ?? 'Sistema'}
+                      </span>
+                      {' · '}
+                      {AUDIT_OPERATION_LABELS[entry.operation]}
+                    </span>
+                    <span className="shrink-0">
+                      {format(new Date(entry.changed_at), "dd MMM yyyy HH:mm", { locale: es })}
+                    </span>
+                  </div>
+                  {entry.operation === 'UPDATE' && (
+                    <ul className="space-y-0.5">
+                      {fields.map((field) => (
+                        <li key={field} className="break-words">
+                          <span className="font-medium">{auditFieldLabel(table, field)}:</span>{' '}
+                          <span className="text-muted-foreground line-through">
+                            {formatAuditValue(field, entry.changes[field].old, lookups)}
+                          </span>
+                          {' → '}
+                          <span>{formatAuditValue(field, entry.changes[field].new, lookups)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useContacts } from '@/hooks/useContacts';
+import { getContactRoleLabel } from '@/lib/contact-constants';
+
+interface ContactSelectProps {
+  prospectId: string;
+  value: string | null;
+  onChange: (contactId: string | null) => void;
+}
+
+// Picks which of the prospect's contacts an activity is with
+export function ContactSelect({ prospectId, value, onChange }: ContactSelectProps) {
+  const { data: contacts } = useContacts(prospectId);
+
+  return (
+    <Select
+      value={value || 'none'}
+      onValueChange={(v) => onChange(v === 'none' ? null : v)}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder="Sin contacto específico" />
+      </SelectTrigger>
+      <SelectContent className="bg-background z-50">
+        <SelectItem value="none">Sin contacto específico</SelectItem>
+        {contacts?.map((contact) => (
+          <SelectItem key={contact.id} value={contact.id}>
+            {contact.full_name} ({getContactRoleLabel(contact.role)}){contact.is_primary ? ' ★' : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useContacts, useSaveContact, useDeleteContact, type Contact } from '@/hooks/useContacts';
+import { useToast } from '@/hooks/use-toast';
+import { CONTACT_ROLES, getContactRoleLabel } from '@/lib/contact-constants';
+import { Edit, Loader2, Mail, Phone, Plus, Star, Trash2, UserRound } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ContactsManagerProps {
+  prospectId: string;
+  className?: string;
+}
+
+interface ContactForm {
+  id?: string;
+  full_name: string;
+  role: string;
+  phone: string;
+  email: string;
+}
+
+const EMPTY_FORM: ContactForm = { full_name: '', role: 'compras', phone: '', email: '' };
+
+export function ContactsManager({ prospectId, className }: ContactsManagerProps) {
+  const { data: contacts, isLoading } = useContacts(prospectId);
+  const saveContact = useSaveContact();
+  const deleteContact = useDeleteContact();
+  const { toast } = useToast();
+
+  const [form, setForm] = useState<ContactForm | null>(null);
+  const [deletingContact, setDeletingContact] = useState<Contact | null>(null);
+
+  const startEdit = (contact: Contact) => {
+    setForm({
+      id: contact.id,
+      full_name: contact.full_name,
+      role: contact.role,
+      phone: contact.phone || '',
+      email: contact.email || '',
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.full_name.trim()) {
+      toast({ title: 'El nombre del contacto es requerido', variant: 'destructive' });
+      return;
+    }
+    if (form.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(form.email)) {
+      toast({ title: 'Email inválido', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      await saveContact.mutateAsync({
+        id: form.id,
+        prospect_id: prospectId,
+        full_name: form.full_name.trim(),
+        role: form.role,
+        phone: form.phone.trim() || null,
+        email: form.email.trim() || null,
+      });
+      setForm(null);
+    } catch (error) {
+      console.error('Error saving contact:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo guardar el contacto.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleMakePrimary = async (contact: Contact) => {
+    try {
+      await saveContact.mutateAsync({ id: contact.id, prospect_id: prospectId, full_name: contact.full_name, is_primary: true });
+      toast({
+        title: 'Contacto principal actualizado',
+        description: `${contact.full_name} es ahora el contacto principal.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo cambiar el contacto principal.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingContact) return;
+    try {
+      await deleteContact.mutateAsync({ id: deletingContact.id, prospectId });
+      setDeletingContact(null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo eliminar el contacto.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Contactos</p>
+        {!form && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => setForm(EMPTY_FORM)}>
+            <Plus className="h-3 w-3 mr-1" />
+            Agregar
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-3">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : contacts?.length === 0 && !form ? (
+        <p className="text-xs text-muted-foreground">Sin contactos registrados.</p>
+      ) : (
+        <div className="space-y-2">
+          {contacts?.map((contact) => (
+            <div
+              key={contact.id}
+              className={cn(
+                'flex items-start justify-between gap-2 rounded-lg border p-2 text-sm',
+                contact.is_primary && 'border-primary/40 bg-primary/5'
+              )}
+            >
+              <div className="min-w-0 space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <UserRound className="h-3 w-3 shrink-0 text-muted-foreground" />
+                  <span className="font-medium truncate">{contact.full_name}</span>
+                  <Badge variant="outline" className="text-[10px]">{getContactRoleLabel(contact.role)}</Badge>
+                  {contact.is_primary && (
+                    <Badge className="bg-primary/10 text-primary text-[10px]">Principal</Badge>
+                  )}
+                </div>
+                {contact.phone && (
+                  <a href={`tel:${contact.phone}`} className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+                    <Phone className="h-3 w-3" /> {contact.phone}
+                  </a>
+                )}
+                {contact.email && (
+                  <a href={`mailto:${contact.email}`} className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground truncate">
+                    <Mail className="h-3 w-3" /> {contact.email}
+                  </a>
+                )}
+              </div>
+              <div className="flex shrink-0 items-center">
+                {!contact.is_primary && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Marcar como principal"
+                    onClick={() => handleMakePrimary(contact)}
+                    disabled={saveContact.isPending}
+                  >
+                    <Star className="h-3 w-3" />
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Editar"
+                  onClick={() => startEdit(contact)}
+                >
+                  <Edit className="h-3 w-3" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive hover:text-destructive"
+                  title="Eliminar"
+                  onClick={() => setDeletingContact(contact)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add / edit form. Not a <form>: this lives inside EditProspectModal's form */}
+      {form && (
+        <div
+          className="space-y-2 rounded-lg border border-dashed p-3"
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSave();
+            }
+          }}
+        >
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              placeholder="Nombre completo*"
+              value={form.full_name}
+              onChange={(e) => setForm({ ...form, full_name: e.target.value })}
+            />
+            <Select value={form.role} onValueChange={(value) => setForm({ ...form, role: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background z-50">
+                {CONTACT_ROLES.map((role) => (
+                  <SelectItem key={role.value} value={role.value}>
+                    {role.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="+506 8888-8888"
+              value={form.phone}
+              onChange={(e) => setForm({ ...form, phone: e.target.value })}
+            />
+            <Input
+              type="email"
+              placeholder="contacto@empresa.com"
+              value={form.email}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setForm(null)}>
+              Cancelar
+            </Button>
+            <Button type="button" size="sm" onClick={handleSave} disabled={saveContact.isPending}>
+              {saveContact.isPending && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+              {form.id ? 'Guardar' : 'Agregar'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={!!deletingContact} onOpenChange={(open) => !open && setDeletingContact(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar contacto?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingContact?.full_name} se eliminará de este prospecto. Las actividades que lo referencian se conservan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleDelete}
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -21,8 +21,13 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAllUsers } from '@/hooks/useUsers';
 import { Plus } from 'lucide-react';
 import { B2B_PHASES, LICITACION_PHASES, type ProspectType } from '@/lib/licitacion-constants';
+import { validateProspectFields } from '@/lib/prospect-validation';
+import { DEFAULT_LICITACION_CURRENCY, DEFAULT_VALUE_CURRENCY, type CurrencyCode } from '@/lib/currency';
+import { CurrencySelect } from './CurrencySelect';
 
 type PhaseType = Database['public']['Enums']['phase_type'];
 
@@ -39,7 +44,9 @@ interface FormData {
   email: string;
   current_phase: string;
   estimated_value: string;
+  estimated_value_currency: CurrencyCode;
   notes: string;
+  owner_id: string;
   // Licitacion fields
   licitacion_numero: string;
   licitacion_institucion: string;
@@ -47,6 +54,7 @@ interface FormData {
   licitacion_fecha_publicacion: string;
   licitacion_fecha_apertura: string;
   licitacion_monto_estimado: string;
+  licitacion_monto_currency: CurrencyCode;
 }
 
 const initialFormData: FormData = {
@@ -57,13 +65,16 @@ const initialFormData: FormData = {
   email: '',
   current_phase: '',
   estimated_value: '0',
+  estimated_value_currency: DEFAULT_VALUE_CURRENCY,
   notes: '',
+  owner_id: '',
   licitacion_numero: '',
   licitacion_institucion: '',
   licitacion_fecha_cierre: '',
   licitacion_fecha_publicacion: '',
   licitacion_fecha_apertura: '',
   licitacion_monto_estimado: '',
+  licitacion_monto_currency: DEFAULT_LICITACION_CURRENCY,
 };
 
 export default function CreateProspectModal({
@@ -74,6 +85,8 @@ export default function CreateProspectModal({
   const [errors, setErrors] = useState<Record<string, string>>({});
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user, isManager } = useAuth();
+  const { data: users } = useAllUsers();
 
   const isLicitacion = formData.prospect_type === 'licitacion';
   const availablePhases = isLicitacion ? LICITACION_PHASES : B2B_PHASES;
@@ -90,8 +103,11 @@ export default function CreateProspectModal({
         email: data.email.trim() || null,
         current_phase: phase,
         estimated_value: parseFloat(data.estimated_value) || 0,
+        estimated_value_currency: data.estimated_value_currency,
         notes: data.notes.trim() || null,
         prospect_type: data.prospect_type,
+        // Salespeople own what they create; managers may pick another owner
+        owner_id: (isManager && data.owner_id) || user?.id || null,
       };
 
       if (data.prospect_type === 'licitacion') {
@@ -101,6 +117,7 @@ export default function CreateProspectModal({
         insertData.licitacion_fecha_publicacion = data.licitacion_fecha_publicacion || null;
         insertData.licitacion_fecha_apertura = data.licitacion_fecha_apertura || null;
         insertData.licitacion_monto_estimado = parseFloat(data.licitacion_monto_estimado) || null;
+        insertData.licitacion_monto_currency = data.licitacion_monto_currency;
       }
 
       const { error } = await supabase.from('prospects').insert(insertData as any);
@@ -125,34 +142,7 @@ export default function CreateProspectModal({
   });
 
   const validateForm = (): boolean => {
-    const newErrors: Record<string, string> = {};
-
-    if (!formData.company_name.trim()) {
-      newErrors.company_name = 'El nombre de empresa es obligatorio';
-    }
-
-    if (formData.email.trim()) {
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(formData.email.trim())) {
-        newErrors.email = 'El formato de email no es válido';
-      }
-    }
-
-    const value = parseFloat(formData.estimated_value);
-    if (isNaN(value) || value < 0) {
-      newErrors.estimated_value = 'El valor debe ser un número positivo';
-    }
-
-    // Licitacion validation
-    if (isLicitacion) {
-      if (!formData.licitacion_institucion.trim()) {
-        newErrors.licitacion_institucion = 'La institución es obligatoria para licitaciones';
-      }
-      if (!formData.licitacion_fecha_cierre) {
-        newErrors.licitacion_fecha_cierre = 'La fecha de cierre es obligatoria para licitaciones';
-      }
-    }
-
+    const newErrors = validateProspectFields(formData);
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -304,15 +294,21 @@ export default function CreateProspectModal({
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="licitacion_monto_estimado">Monto Estimado (₡)</Label>
-                <Input
-                  id="licitacion_monto_estimado"
-                  type="number"
-                  min="0"
-                  placeholder="Ej: 45000000"
-                  value={formData.licitacion_monto_estimado}
-                  onChange={(e) => updateField('licitacion_monto_estimado', e.target.value)}
-                />
+                <Label htmlFor="licitacion_monto_estimado">Monto Estimado</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="licitacion_monto_estimado"
+                    type="number"
+                    min="0"
+                    placeholder="Ej: 45000000"
+                    value={formData.licitacion_monto_estimado}
+                    onChange={(e) => updateField('licitacion_monto_estimado', e.target.value)}
+                  />
+                  <CurrencySelect
+                    value={formData.licitacion_monto_currency}
+                    onChange={(value) => updateField('licitacion_monto_currency', value)}
+                  />
+                </div>
               </div>
             </div>
           )}
@@ -378,22 +374,51 @@ export default function CreateProspectModal({
 
           {/* Estimated Value */}
           <div className="space-y-2">
-            <Label htmlFor="estimated_value">Valor estimado (USD)</Label>
-            <Input
-              id="estimated_value"
-              type="number"
-              min="0"
-              step="0.01"
-              placeholder="0"
-              value={formData.estimated_value}
-              onChange={(e) => updateField('estimated_value', e.target.value)}
-              className={errors.estimated_value ? 'border-destructive' : ''}
-            />
+            <Label htmlFor="estimated_value">Valor estimado</Label>
+            <div className="flex gap-2">
+              <Input
+                id="estimated_value"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0"
+                value={formData.estimated_value}
+                onChange={(e) => updateField('estimated_value', e.target.value)}
+                className={errors.estimated_value ? 'border-destructive' : ''}
+              />
+              <CurrencySelect
+                value={formData.estimated_value_currency}
+                onChange={(value) => updateField('estimated_value_currency', value)}
+              />
+            </div>
             {errors.estimated_value && (
               <p className="text-sm text-destructive">{errors.estimated_value}</p>
             )}
           </div>
 
+          {/* Owner - only managers can assign to someone else */}
+          {isManager && (
+            <div className="space-y-2">
+              <Label>Responsable</Label>
+              <Select
+                value={formData.owner_id || user?.id || ''}
+                onValueChange={(value) => updateField('owner_id', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Seleccionar responsable" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users?.map((u) => (
+                    <SelectItem key={u.id} value={u.id}>
+                      {u.full_name} ({u.role === 'manager' ? 'Manager' : 'Vendedor'})
+                      {u.id === user?.id && ' - Yo'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Notes */}
           <div className="space-y-2">
             <Label htmlFor="notes">Notas</Label>
@@ -0,0 +1,27 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CURRENCY_CODES, CURRENCY_SYMBOLS, type CurrencyCode } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+
+interface CurrencySelectProps {
+  value: CurrencyCode;
+  onChange: (value: CurrencyCode) => void;
+  className?: string;
+}
+
+// Compact picker shown next to an amount input
+export function CurrencySelect({ value, onChange, className }: CurrencySelectProps) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as CurrencyCode)}>
+      <SelectTrigger className={cn('w-24 shrink-0', className)} aria-label="Moneda">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {CURRENCY_CODES.map((code) => (
+          <SelectItem key={code} value={code}>
+            {CURRENCY_SYMBOLS[code]} {code}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
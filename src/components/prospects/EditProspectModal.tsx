@@ -21,8 +21,16 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAllUsers } from '@/hooks/useUsers';
+import { phaseChangeErrorMessage } from '@/hooks/usePhaseRequirements';
+import { ContactsManager } from '@/components/prospects/ContactsManager';
 import { Loader2, Plus } from 'lucide-react';
-import { B2B_PHASES, LICITACION_PHASES, formatColones, daysUntil } from '@/lib/licitacion-constants';
+import { B2B_PHASES, LICITACION_PHASES, daysUntil } from '@/lib/licitacion-constants';
+import { DEFAULT_LICITACION_CURRENCY, DEFAULT_VALUE_CURRENCY, type CurrencyCode } from '@/lib/currency';
+import { LOST_PHASE } from '@/lib/win-loss';
+import { CurrencySelect } from './CurrencySelect';
+import { ProspectOutcomeFields } from './ProspectOutcomeFields';
 
 type PhaseType = Database['public']['Enums']['phase_type'];
 
@@ -34,8 +42,10 @@ interface Prospect {
   email: string | null;
   current_phase: PhaseType | null;
   estimated_value: number | null;
+  estimated_value_currency?: CurrencyCode;
   notes?: string | null;
   prospect_type?: string | null;
+  owner_id?: string | null;
 }
 
 interface EditProspectModalProps {
@@ -52,12 +62,11 @@ export default function EditProspectModal({
   onCreateActivity,
 }: EditProspectModalProps) {
   const [formData, setFormData] = useState({
-    contact_name: '',
-    phone: '',
-    email: '',
     current_phase: '' as string,
     estimated_value: '',
+    estimated_value_currency: DEFAULT_VALUE_CURRENCY,
     notes: '',
+    owner_id: '',
     // Licitacion fields
     licitacion_numero: '',
     licitacion_institucion: '',
@@ -65,33 +74,44 @@ export default function EditProspectModal({
     licitacion_fecha_publicacion: '',
     licitacion_fecha_apertura: '',
     licitacion_monto_estimado: '',
+    licitacion_monto_currency: DEFAULT_LICITACION_CURRENCY,
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [prospectType, setProspectType] = useState<string>('regular');
+  const [lossReasonId, setLossReasonId] = useState('');
+  const [outcomeNotes, setOutcomeNotes] = useState('');
 
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { isManager } = useAuth();
+  const { data: users } = useAllUsers();
 
   const isLicitacion = prospectType === 'licitacion';
   const availablePhases = isLicitacion ? LICITACION_PHASES : B2B_PHASES;
+  // Closing a B2B deal here records the outcome, as in the phase dialog
+  const closesDeal = !isLicitacion &&
+    formData.current_phase !== (prospect?.current_phase || '') &&
+    (formData.current_phase === LOST_PHASE || formData.current_phase === 'Ganada');
 
   useEffect(() => {
     if (prospect) {
       setFormData({
-        contact_name: prospect.contact_name || '',
-        phone: prospect.phone || '',
-        email: prospect.email || '',
         current_phase: prospect.current_phase || '',
         estimated_value: prospect.estimated_value?.toString() || '',
+        estimated_value_currency: prospect.estimated_value_currency ?? DEFAULT_VALUE_CURRENCY,
         notes: '',
+        owner_id: prospect.owner_id || '',
         licitacion_numero: '',
         licitacion_institucion: '',
         licitacion_fecha_cierre: '',
         licitacion_fecha_publicacion: '',
         licitacion_fecha_apertura: '',
         licitacion_monto_estimado: '',
+        licitacion_monto_currency: DEFAULT_LICITACION_CURRENCY,
       });
       setProspectType(prospect.prospect_type || 'regular');
+      setLossReasonId('');
+      setOutcomeNotes('');
       setErrors({});
     }
   }, [prospect]);
@@ -101,7 +121,7 @@ export default function EditProspectModal({
     if (prospect?.id && open) {
       supabase
         .from('prospects')
-        .select('notes, prospect_type, licitacion_numero, licitacion_institucion, licitacion_fecha_cierre, licitacion_fecha_publicacion, licitacion_fecha_apertura, licitacion_monto_estimado')
+        .select('notes, prospect_type, owner_id, licitacion_numero, licitacion_institucion, licitacion_fecha_cierre, licitacion_fecha_publicacion, licitacion_fecha_apertura, licitacion_monto_estimado, licitacion_monto_currency, estimated_value_currency')
         .eq('id', prospect.id)
         .single()
         .then(({ data }) => {
@@ -110,12 +130,15 @@ export default function EditProspectModal({
             setFormData(prev => ({
               ...prev,
               notes: data.notes || '',
+              owner_id: data.owner_id || '',
+              estimated_value_currency: data.estimated_value_currency,
               licitacion_numero: data.licitacion_numero || '',
               licitacion_institucion: data.licitacion_institucion || '',
               licitacion_fecha_cierre: data.licitacion_fecha_cierre || '',
               licitacion_fecha_publicacion: data.licitacion_fecha_publicacion || '',
               licitacion_fecha_apertura: data.licitacion_fecha_apertura || '',
               licitacion_monto_estimado: data.licitacion_monto_estimado?.toString() || '',
+              licitacion_monto_currency: data.licitacion_monto_currency,
             }));
           }
         });
@@ -126,16 +149,26 @@ export default function EditProspectModal({
     mutationFn: async () => {
       if (!prospect) throw new Error('No prospect selected');
 
+      // contact_name/phone/email follow the primary contact (managed in ContactsManager)
       const updateData: Record<string, any> = {
-        contact_name: formData.contact_name.trim(),
-        phone: formData.phone.trim() || null,
-        email: formData.email.trim() || null,
         current_phase: formData.current_phase || null,
         estimated_value: formData.estimated_value ? parseFloat(formData.estimated_value) : null,
+        estimated_value_currency: formData.estimated_value_currency,
         notes: formData.notes.trim() || null,
         updated_at: new Date().toISOString(),
       };
 
+      if (isManager) {
+        updateData.owner_id = formData.owner_id || null;
+      }
+
+      if (closesDeal && formData.current_phase === LOST_PHASE) {
+        updateData.loss_reason_id = lossReasonId;
+        updateData.loss_notes = outcomeNotes.trim() || null;
+      } else if (closesDeal) {
+        updateData.win_notes = outcomeNotes.trim() || null;
+      }
+
       if (isLicitacion) {
         updateData.licitacion_numero = formData.licitacion_numero.trim() || null;
         updateData.licitacion_institucion = formData.licitacion_institucion.trim() || null;
@@ -143,6 +176,7 @@ export default function EditProspectModal({
         updateData.licitacion_fecha_publicacion = formData.licitacion_fecha_publicacion || null;
         updateData.licitacion_fecha_apertura = formData.licitacion_fecha_apertura || null;
         updateData.licitacion_monto_estimado = formData.licitacion_monto_estimado ? parseFloat(formData.licitacion_monto_estimado) : null;
+        updateData.licitacion_monto_currency = formData.licitacion_monto_currency;
       }
 
       const { error } = await supabase
@@ -154,16 +188,17 @@ export default function EditProspectModal({
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['prospects'] });
+      queryClient.invalidateQueries({ queryKey: ['win-loss-report'] });
       toast({
         title: 'Prospecto actualizado',
         description: `${prospect?.company_name} ha sido actualizado correctamente.`,
       });
       onOpenChange(false);
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: 'Error',
-        description: 'No se pudo actualizar el prospecto.',
+        description: phaseChangeErrorMessage(error, 'No se pudo actualizar el prospecto.'),
         variant: 'destructive',
       });
     },
@@ -172,18 +207,14 @@ export default function EditProspectModal({
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
-    if (!formData.contact_name.trim()) {
-      newErrors.contact_name = 'El nombre de contacto es requerido';
-    }
-
-    if (formData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Email inválido';
-    }
-
     if (formData.estimated_value && parseFloat(formData.estimated_value) < 0) {
       newErrors.estimated_value = 'El valor debe ser positivo';
     }
 
+    if (closesDeal && formData.current_phase === LOST_PHASE && !lossReasonId) {
+      newErrors.loss_reason = 'Selecciona la razón de la pérdida';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -272,57 +303,26 @@ export default function EditProspectModal({
               </div>
 
               <div className="space-y-2">
-                <Label>Monto Estimado (₡)</Label>
-                <Input
-                  type="number"
-                  min="0"
-                  placeholder="Ej: 45000000"
-                  value={formData.licitacion_monto_estimado}
-                  onChange={(e) => setFormData({ ...formData, licitacion_monto_estimado: e.target.value })}
-                />
+                <Label>Monto Estimado</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Ej: 45000000"
+                    value={formData.licitacion_monto_estimado}
+                    onChange={(e) => setFormData({ ...formData, licitacion_monto_estimado: e.target.value })}
+                  />
+                  <CurrencySelect
+                    value={formData.licitacion_monto_currency}
+                    onChange={(value) => setFormData({ ...formData, licitacion_monto_currency: value })}
+                  />
+                </div>
               </div>
             </div>
           )}
 
-          {/* Contact Name */}
-          <div className="space-y-2">
-            <Label htmlFor="contact_name">Nombre de contacto*</Label>
-            <Input
-              id="contact_name"
-              value={formData.contact_name}
-              onChange={(e) => setFormData({ ...formData, contact_name: e.target.value })}
-              placeholder="Nombre del contacto principal"
-            />
-            {errors.contact_name && (
-              <p className="text-xs text-destructive">{errors.contact_name}</p>
-            )}
-          </div>
-
-          {/* Phone */}
-          <div className="space-y-2">
-            <Label htmlFor="phone">Teléfono</Label>
-            <Input
-              id="phone"
-              value={formData.phone}
-              onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
-              placeholder="+506 8888-8888"
-            />
-          </div>
-
-          {/* Email */}
-          <div className="space-y-2">
-            <Label htmlFor="email">Email</Label>
-            <Input
-              id="email"
-              type="email"
-              value={formData.email}
-              onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-              placeholder="contacto@empresa.com"
-            />
-            {errors.email && (
-              <p className="text-xs text-destructive">{errors.email}</p>
-            )}
-          </div>
+          {/* Contacts */}
+          <ContactsManager prospectId={prospect.id} className="pt-2 border-t" />
 
           {/* Phase */}
           <div className="space-y-2">
@@ -344,23 +344,71 @@ export default function EditProspectModal({
             </Select>
           </div>
 
+          {closesDeal && (
+            <div className="space-y-1">
+              <ProspectOutcomeFields
+                phase={formData.current_phase}
+                lossReasonId={lossReasonId}
+                onLossReasonChange={setLossReasonId}
+                notes={outcomeNotes}
+                onNotesChange={setOutcomeNotes}
+              />
+              {errors.loss_reason && (
+                <p className="text-xs text-destructive">{errors.loss_reason}</p>
+              )}
+            </div>
+          )}
+
           {/* Estimated Value */}
           <div className="space-y-2">
-            <Label htmlFor="estimated_value">Valor estimado (USD)</Label>
-            <Input
-              id="estimated_value"
-              type="number"
-              min="0"
-              step="0.01"
-              value={formData.estimated_value}
-              onChange={(e) => setFormData({ ...formData, estimated_value: e.target.value })}
-              placeholder="0.00"
-            />
+            <Label htmlFor="estimated_value">Valor estimado</Label>
+            <div className="flex gap-2">
+              <Input
+                id="estimated_value"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.estimated_value}
+                onChange={(e) => setFormData({ ...formData, estimated_value: e.target.value })}
+                placeholder="0.00"
+              />
+              <CurrencySelect
+                value={formData.estimated_value_currency}
+                onChange={(value) => setFormData({ ...formData, estimated_value_currency: value })}
+              />
+            </div>
             {errors.estimated_value && (
               <p className="text-xs text-destructive">{errors.estimated_value}</p>
             )}
           </div>
 
+          {/* Owner */}
+          <div className="space-y-2">
+            <Label>Responsable</Label>
+            <Select
+              value={formData.owner_id || 'none'}
+              onValueChange={(value) => setFormData({ ...formData, owner_id: value === 'none' ? '' : value })}
+              disabled={!isManager}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Sin responsable" />
+              </SelectTrigger>
+              <SelectContent className="bg-background z-50">
+                <SelectItem value="none">Sin responsable</SelectItem>
+                {users?.map((u) => (
+                  <SelectItem key={u.id} value={u.id}>
+                    {u.full_name} ({u.role === 'manager' ? 'Manager' : 'Vendedor'})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isManager && (
+              <p className="text-xs text-muted-foreground">
+                Solo un manager puede reasignar el prospecto
+              </p>
+            )}
+          </div>
+
           {/* Notes */}
           <div className="space-y-2">
             <Label htmlFor="notes">Notas</Label>
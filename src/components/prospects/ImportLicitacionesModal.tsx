@@ -0,0 +1,419 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAllUsers } from '@/hooks/useUsers';
+import { useImportLicitaciones, type ProspectImportFailure } from '@/hooks/useProspects';
+import { useToast } from '@/hooks/use-toast';
+import {
+  noticeToProspectInsert,
+  noticeToProspectUpdate,
+  parseNoticeFile,
+  planLicitacionImport,
+  type LicitacionNotice,
+  type NoticeChange,
+  type PlannedNotice,
+} from '@/lib/licitacion-import';
+import { formatMoney, type CurrencyCode } from '@/lib/currency';
+import { exportRows, type ExportColumn } from '@/lib/table-export';
+import { CheckCircle2, Download, FileCode, Landmark, Loader2, MinusCircle, PlusCircle, RefreshCw, Upload, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type Step = 'upload' | 'review' | 'result';
+
+interface ImportLicitacionesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STEP_LABELS: Record<Step, string> = {
+  upload: '1. Archivo',
+  review: '2. Revisión',
+  result: '3. Resultado',
+};
+
+const REPORT_COLUMNS: ExportColumn<ProspectImportFailure>[] = [
+  { header: 'Fila', value: f => f.rowNumber },
+  { header: 'Licitación', value: f => f.company_name },
+  { header: 'Error', value: f => f.error },
+];
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr + 'T12:00:00').toLocaleDateString('es-CR', { day: '2-digit', month: 'short', year: 'numeric' });
+
+function formatChangeValue(change: NoticeChange, value: string | null, currency: CurrencyCode): string {
+  if (!value) return '—';
+  if (change.kind === 'date') return formatDate(value);
+  if (change.kind === 'money') return formatMoney(parseFloat(value), currency);
+  return value;
+}
+
+const noticeName = (notice: LicitacionNotice) => notice.descripcion || notice.institucion || notice.numero;
+
+export default function ImportLicitacionesModal({ open, onOpenChange }: ImportLicitacionesModalProps) {
+  const { user, isManager } = useAuth();
+  const { data: users } = useAllUsers();
+  const importLicitaciones = useImportLicitaciones();
+  const { toast } = useToast();
+
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [notices, setNotices] = useState<LicitacionNotice[]>([]);
+  const [isParsing, setIsParsing] = useState(false);
+  const [ownerId, setOwnerId] = useState('');
+  const [result, setResult] = useState<{ inserted: number; updated: number; failed: ProspectImportFailure[]; skipped: PlannedNotice[] } | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setStep('upload');
+      setFileName('');
+      setNotices([]);
+      setOwnerId('');
+      setResult(null);
+    }
+  }, [open]);
+
+  const { data: existingLicitaciones, isLoading: loadingExisting } = useQuery({
+    queryKey: ['prospects', 'licitacion-import'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('prospects')
+        .select('id, company_name, licitacion_numero, licitacion_institucion, licitacion_fecha_publicacion, licitacion_fecha_apertura, licitacion_fecha_cierre, licitacion_monto_estimado, licitacion_monto_currency, licitacion_clasificacion')
+        .not('licitacion_numero', 'is', null);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open && step === 'review',
+  });
+
+  const planned = useMemo<PlannedNotice[]>(() => {
+    if (step !== 'review' || !existingLicitaciones) return [];
+    return planLicitacionImport(notices, existingLicitaciones);
+  }, [notices, step, existingLicitaciones]);
+
+  const creates = planned.filter(p => p.action === 'create');
+  const updates = planned.filter(p => p.action === 'update');
+  const unchanged = planned.filter(p => p.action === 'unchanged');
+  const invalid = planned.filter(p => p.action === 'invalid');
+  const pendingCount = creates.length + updates.length;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!/\.(xml|csv|xlsx)$/i.test(file.name)) {
+      toast({
+        title: 'Formato no soportado',
+        description: 'Sube la exportación de SICOP en .xml, .csv o .xlsx.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsParsing(true);
+    try {
+      const parsed = await parseNoticeFile(file);
+      if (parsed.length === 0) {
+        toast({
+          title: 'Sin licitaciones',
+          description: 'No se encontró el número de procedimiento en el archivo.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      setFileName(file.name);
+      setNotices(parsed);
+      setStep('review');
+    } catch (error) {
+      console.error('Error parsing SICOP file:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo leer el archivo.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (pendingCount === 0) return;
+    // Same ownership rule as the prospect import wizard
+    const owner = (isManager && ownerId) || user?.id || null;
+
+    try {
+      const outcome = await importLicitaciones.mutateAsync({
+        creates: creates.map(p => ({ rowNumber: p.notice.rowNumber, prospect: noticeToProspectInsert(p.notice, owner) })),
+        updates: updates.map(p => ({
+          rowNumber: p.notice.rowNumber,
+          id: p.existing!.id,
+          company_name: p.existing!.company_name || p.notice.numero,
+          changes: noticeToProspectUpdate(p.notice),
+        })),
+      });
+      setResult({ ...outcome, skipped: invalid });
+      setStep('result');
+      toast({
+        title: 'Importación completada',
+        description: `${outcome.inserted} nueva${outcome.inserted !== 1 ? 's' : ''}, ${outcome.updated} actualizada${outcome.updated !== 1 ? 's' : ''}.`,
+      });
+    } catch (error) {
+      console.error('Error importing licitaciones:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo completar la importación.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Invalid notices are part of the downloadable report too
+  const reportRows: ProspectImportFailure[] = result
+    ? [
+        ...result.failed,
+        ...result.skipped.map(p => ({
+          rowNumber: p.notice.rowNumber,
+          company_name: noticeName(p.notice),
+          error: p.notice.errors.join('; '),
+        })),
+      ].sort((a, b) => a.rowNumber - b.rowNumber)
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Landmark className="h-5 w-5" />
+            Importar licitaciones de SICOP
+          </DialogTitle>
+          <DialogDescription className="flex flex-wrap gap-2 pt-1">
+            {(Object.keys(STEP_LABELS) as Step[]).map(s => (
+              <span key={s} className={cn('text-xs', s === step ? 'font-semibold text-foreground' : 'text-muted-foreground')}>
+                {STEP_LABELS[s]}
+              </span>
+            ))}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: upload */}
+        {step === 'upload' && (
+          <label
+            className="flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-10 text-center cursor-pointer hover:border-primary/50"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleFile(e.dataTransfer.files[0]);
+            }}
+          >
+            {isParsing ? (
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            ) : (
+              <Upload className="h-8 w-8 text-muted-foreground" />
+            )}
+            <span className="text-sm font-medium">Arrastra la exportación de SICOP o haz clic para seleccionarla</span>
+            <span className="text-xs text-muted-foreground">
+              XML, CSV o Excel (.xlsx). Las licitaciones que ya existen se actualizan por número de procedimiento.
+            </span>
+            <Input
+              type="file"
+              accept=".xml,.csv,.xlsx"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {/* Step 2: what will be created / updated */}
+        {step === 'review' && (
+          loadingExisting ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="flex-1 min-h-0 space-y-3">
+              <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+                <FileCode className="h-4 w-4" />
+                {fileName}: {notices.length} licitacion{notices.length !== 1 ? 'es' : ''}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Badge className="bg-success/20 text-success">{creates.length} nuevas</Badge>
+                <Badge className="bg-primary/10 text-primary">{updates.length} con cambios</Badge>
+                <Badge variant="secondary">{unchanged.length} sin cambios</Badge>
+                <Badge className="bg-destructive/10 text-destructive">{invalid.length} con errores</Badge>
+              </div>
+
+              {isManager && creates.length > 0 && (
+                <div className="space-y-2 sm:w-1/2">
+                  <Label>Vendedor asignado a las nuevas</Label>
+                  <Select value={ownerId || user?.id || ''} onValueChange={setOwnerId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {users?.map(u => (
+                        <SelectItem key={u.id} value={u.id}>
+                          {u.full_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <ScrollArea className="h-[45vh] rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Licitación</TableHead>
+                      <TableHead>Cierre</TableHead>
+                      <TableHead>Resultado</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {planned.map(({ notice, action, existing, changes }) => (
+                      <TableRow key={notice.rowNumber}>
+                        <TableCell>
+                          <p className="font-medium">{existing?.company_name || noticeName(notice)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {[notice.numero, notice.institucion, notice.clasificacion].filter(Boolean).join(' · ')}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-xs whitespace-nowrap">
+                          {notice.fecha_cierre ? formatDate(notice.fecha_cierre) : '—'}
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {action === 'invalid' ? (
+                            <div className="flex items-start gap-1 text-destructive">
+                              <XCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                              <span>{notice.errors.join('; ')}</span>
+                            </div>
+                          ) : action === 'create' ? (
+                            <div className="flex items-center gap-1 text-success">
+                              <PlusCircle className="h-3 w-3" />
+                              <span>Nueva licitación</span>
+                            </div>
+                          ) : action === 'update' ? (
+                            <div className="space-y-0.5 text-primary">
+                              <div className="flex items-center gap-1">
+                                <RefreshCw className="h-3 w-3" />
+                                <span>Actualiza</span>
+                              </div>
+                              {changes.map(change => (
+                                <p key={change.label} className="text-muted-foreground">
+                                  {change.label}: {formatChangeValue(change, change.from, existing!.licitacion_monto_currency)}
+                                  {' → '}
+                                  {formatChangeValue(change, change.to, notice.moneda || existing!.licitacion_monto_currency)}
+                                </p>
+                              ))}
+                            </div>
+                          ) : (
+                            <div className="flex items-center gap-1 text-muted-foreground">
+                              <MinusCircle className="h-3 w-3" />
+                              <span>Sin cambios</span>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </div>
+          )
+        )}
+
+        {/* Step 3: result */}
+        {step === 'result' && result && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm">
+              <CheckCircle2 className="h-5 w-5 text-success" />
+              {result.inserted} licitacion{result.inserted !== 1 ? 'es' : ''} creada{result.inserted !== 1 ? 's' : ''},{' '}
+              {result.updated} actualizada{result.updated !== 1 ? 's' : ''}.
+            </div>
+            {reportRows.length > 0 && (
+              <>
+                <div className="flex items-center gap-2 text-sm">
+                  <XCircle className="h-5 w-5 text-destructive" />
+                  {reportRows.length} fila{reportRows.length !== 1 ? 's' : ''} no se importaron.
+                </div>
+                <ScrollArea className="h-[35vh] rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Fila</TableHead>
+                        <TableHead>Licitación</TableHead>
+                        <TableHead>Motivo</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {reportRows.map(row => (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                          <TableCell>{row.company_name || '—'}</TableCell>
+                          <TableCell className="text-xs">{row.error}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')} disabled={importLicitaciones.isPending}>
+                Atrás
+              </Button>
+              <Button onClick={handleImport} disabled={pendingCount === 0 || importLicitaciones.isPending}>
+                {importLicitaciones.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {pendingCount === 0 ? 'Nada que importar' : `Importar ${pendingCount} licitacion${pendingCount !== 1 ? 'es' : ''}`}
+              </Button>
+            </>
+          )}
+          {step === 'result' && (
+            <>
+              {reportRows.length > 0 && (
+                <Button variant="outline" onClick={() => exportRows(reportRows, REPORT_COLUMNS, 'errores-importacion-sicop', 'csv')}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Descargar reporte
+                </Button>
+              )}
+              <Button onClick={() => onOpenChange(false)}>Cerrar</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,486 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAllUsers } from '@/hooks/useUsers';
+import { useImportProspects, type ProspectImportFailure } from '@/hooks/useProspects';
+import { useToast } from '@/hooks/use-toast';
+import {
+  IMPORT_FIELDS,
+  autoMapColumns,
+  buildImportRecord,
+  findDuplicates,
+  parseImportFile,
+  toProspectInsert,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRow,
+  type ParsedSheet,
+} from '@/lib/prospect-import';
+import type { ProspectType } from '@/lib/licitacion-constants';
+import { exportRows, type ExportColumn } from '@/lib/table-export';
+import { AlertTriangle, CheckCircle2, Download, FileSpreadsheet, Loader2, Upload, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type Step = 'upload' | 'map' | 'review' | 'result';
+
+interface ImportProspectsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STEP_LABELS: Record<Step, string> = {
+  upload: '1. Archivo',
+  map: '2. Columnas',
+  review: '3. Revisión',
+  result: '4. Resultado',
+};
+
+const REPORT_COLUMNS: ExportColumn<ProspectImportFailure>[] = [
+  { header: 'Fila', value: f => f.rowNumber },
+  { header: 'Empresa', value: f => f.company_name },
+  { header: 'Error', value: f => f.error },
+];
+
+export default function ImportProspectsModal({ open, onOpenChange }: ImportProspectsModalProps) {
+  const { user, isManager } = useAuth();
+  const { data: users } = useAllUsers();
+  const importProspects = useImportProspects();
+  const { toast } = useToast();
+
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaultType, setDefaultType] = useState<ProspectType>('regular');
+  const [ownerId, setOwnerId] = useState('');
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [result, setResult] = useState<{ inserted: number; failed: ProspectImportFailure[]; skipped: ImportRow[] } | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setStep('upload');
+      setFileName('');
+      setSheet(null);
+      setMapping({});
+      setDefaultType('regular');
+      setOwnerId('');
+      setIncludeDuplicates(false);
+      setResult(null);
+    }
+  }, [open]);
+
+  // Only loaded for the review step, to compare against what is already in the CRM
+  const { data: existingProspects, isLoading: loadingExisting } = useQuery({
+    queryKey: ['prospects', 'import-dedupe'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('prospects')
+        .select('id, company_name, email, phone');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open && step === 'review',
+  });
+
+  const mappedFields = Object.values(mapping).filter(Boolean) as ImportField[];
+  const hasCompanyColumn = mappedFields.includes('company_name');
+
+  const rows = useMemo<ImportRow[]>(() => {
+    if (!sheet || step !== 'review' || !existingProspects) return [];
+    const built = sheet.rows.map((row, index) => {
+      const { record, errors } = buildImportRecord(row, mapping, defaultType);
+      return { rowNumber: index + 2, record, errors, duplicateOf: null, duplicateReason: null };
+    });
+    return findDuplicates(built, existingProspects);
+  }, [sheet, step, mapping, defaultType, existingProspects]);
+
+  const invalidRows = rows.filter(r => r.errors.length > 0);
+  const duplicateRows = rows.filter(r => r.errors.length === 0 && r.duplicateOf);
+  const rowsToImport = rows.filter(r => r.errors.length === 0 && (!r.duplicateOf || includeDuplicates));
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      toast({
+        title: 'Formato no soportado',
+        description: 'Sube un archivo .csv o .xlsx.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsParsing(true);
+    try {
+      const parsed = await parseImportFile(file);
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        toast({
+          title: 'Archivo vacío',
+          description: 'La primera fila debe tener los encabezados y al menos una fila de datos.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(autoMapColumns(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error parsing import file:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo leer el archivo.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const setColumnField = (index: number, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      // A field can only come from one column
+      if (value !== 'ignore') {
+        Object.keys(next).forEach(key => {
+          if (next[Number(key)] === value) next[Number(key)] = null;
+        });
+      }
+      next[index] = value === 'ignore' ? null : (value as ImportField);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (rowsToImport.length === 0) return;
+    // Salespeople own what they import; managers may pick another owner
+    const owner = (isManager && ownerId) || user?.id || null;
+
+    try {
+      const { inserted, failed } = await importProspects.mutateAsync(
+        rowsToImport.map(r => ({ rowNumber: r.rowNumber, prospect: toProspectInsert(r.record, owner) }))
+      );
+      const skipped = rows.filter(r => !rowsToImport.includes(r));
+      setResult({ inserted, failed, skipped });
+      setStep('result');
+      toast({
+        title: 'Importación completada',
+        description: `${inserted} prospecto${inserted !== 1 ? 's' : ''} importado${inserted !== 1 ? 's' : ''}.`,
+      });
+    } catch (error) {
+      console.error('Error importing prospects:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo completar la importación.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Skipped rows (invalid or duplicates) are part of the downloadable report too
+  const reportRows: ProspectImportFailure[] = result
+    ? [
+        ...result.failed,
+        ...result.skipped.map(r => ({
+          rowNumber: r.rowNumber,
+          company_name: r.record.company_name,
+          error: r.errors.length > 0
+            ? r.errors.join('; ')
+            : `Duplicado: ${r.duplicateReason} (${r.duplicateOf})`,
+        })),
+      ].sort((a, b) => a.rowNumber - b.rowNumber)
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Importar prospectos
+          </DialogTitle>
+          <DialogDescription className="flex flex-wrap gap-2 pt-1">
+            {(Object.keys(STEP_LABELS) as Step[]).map(s => (
+              <span key={s} className={cn('text-xs', s === step ? 'font-semibold text-foreground' : 'text-muted-foreground')}>
+                {STEP_LABELS[s]}
+              </span>
+            ))}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: upload */}
+        {step === 'upload' && (
+          <label
+            className="flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-10 text-center cursor-pointer hover:border-primary/50"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleFile(e.dataTransfer.files[0]);
+            }}
+          >
+            {isParsing ? (
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            ) : (
+              <Upload className="h-8 w-8 text-muted-foreground" />
+            )}
+            <span className="text-sm font-medium">Arrastra un archivo o haz clic para seleccionarlo</span>
+            <span className="text-xs text-muted-foreground">CSV o Excel (.xlsx). La primera fila debe tener los encabezados.</span>
+            <Input
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {/* Step 2: column mapping */}
+        {step === 'map' && sheet && (
+          <div className="flex-1 min-h-0 space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {sheet.rows.length} fila{sheet.rows.length !== 1 ? 's' : ''}. Indica a qué campo corresponde cada columna.
+            </p>
+            <ScrollArea className="h-[45vh] pr-3">
+              <div className="space-y-2">
+                {sheet.headers.map((header, index) => (
+                  <div key={index} className="grid grid-cols-2 items-center gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{header || `Columna ${index + 1}`}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {sheet.rows.slice(0, 3).map(r => r[index]).filter(Boolean).join(' · ') || 'Sin datos'}
+                      </p>
+                    </div>
+                    <Select value={mapping[index] || 'ignore'} onValueChange={(v) => setColumnField(index, v)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="ignore">No importar</SelectItem>
+                        {IMPORT_FIELDS.map(field => (
+                          <SelectItem key={field.value} value={field.value}>
+                            {field.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="grid gap-3 sm:grid-cols-2 border-t pt-3">
+              {!mappedFields.includes('prospect_type') && (
+                <div className="space-y-2">
+                  <Label>Tipo de prospecto</Label>
+                  <Select value={defaultType} onValueChange={(v) => setDefaultType(v as ProspectType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="regular">Regular (B2B)</SelectItem>
+                      <SelectItem value="licitacion">Licitación</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {isManager && (
+                <div className="space-y-2">
+                  <Label>Vendedor asignado</Label>
+                  <Select value={ownerId || user?.id || ''} onValueChange={setOwnerId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {users?.map(u => (
+                        <SelectItem key={u.id} value={u.id}>
+                          {u.full_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: validation + duplicates */}
+        {step === 'review' && (
+          loadingExisting ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="flex-1 min-h-0 space-y-3">
+              <div className="flex flex-wrap gap-2">
+                <Badge className="bg-success/20 text-success">
+                  {rows.length - invalidRows.length - duplicateRows.length} válidos
+                </Badge>
+                <Badge className="bg-warning/20 text-warning">{duplicateRows.length} posibles duplicados</Badge>
+                <Badge className="bg-destructive/10 text-destructive">{invalidRows.length} con errores</Badge>
+              </div>
+
+              {duplicateRows.length > 0 && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="include-duplicates"
+                    checked={includeDuplicates}
+                    onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                  />
+                  <Label htmlFor="include-duplicates" className="text-sm font-normal cursor-pointer">
+                    Importar también los posibles duplicados
+                  </Label>
+                </div>
+              )}
+
+              <ScrollArea className="h-[45vh] rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Fila</TableHead>
+                      <TableHead>Empresa</TableHead>
+                      <TableHead>Estado</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map(row => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                        <TableCell>
+                          <p className="font-medium">{row.record.company_name || '—'}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {[row.record.contact_name, row.record.email, row.record.phone].filter(Boolean).join(' · ')}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {row.errors.length > 0 ? (
+                            <div className="flex items-start gap-1 text-destructive">
+                              <XCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                              <span>{row.errors.join('; ')}</span>
+                            </div>
+                          ) : row.duplicateOf ? (
+                            <div className="flex items-start gap-1 text-warning">
+                              <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                              <span>{row.duplicateReason}: {row.duplicateOf}</span>
+                            </div>
+                          ) : (
+                            <div className="flex items-center gap-1 text-success">
+                              <CheckCircle2 className="h-3 w-3" />
+                              <span>Listo</span>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </div>
+          )
+        )}
+
+        {/* Step 4: result */}
+        {step === 'result' && result && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm">
+              <CheckCircle2 className="h-5 w-5 text-success" />
+              {result.inserted} prospecto{result.inserted !== 1 ? 's' : ''} importado{result.inserted !== 1 ? 's' : ''}.
+            </div>
+            {reportRows.length > 0 && (
+              <>
+                <div className="flex items-center gap-2 text-sm">
+                  <AlertTriangle className="h-5 w-5 text-warning" />
+                  {reportRows.length} fila{reportRows.length !== 1 ? 's' : ''} no se importaron.
+                </div>
+                <ScrollArea className="h-[35vh] rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Fila</TableHead>
+                        <TableHead>Empresa</TableHead>
+                        <TableHead>Motivo</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {reportRows.map(row => (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                          <TableCell>{row.company_name || '—'}</TableCell>
+                          <TableCell className="text-xs">{row.error}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')}>Atrás</Button>
+              <Button onClick={() => setStep('review')} disabled={!hasCompanyColumn}>
+                {hasCompanyColumn ? 'Revisar' : 'Asigna la columna Empresa'}
+              </Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')} disabled={importProspects.isPending}>
+                Atrás
+              </Button>
+              <Button onClick={handleImport} disabled={rowsToImport.length === 0 || importProspects.isPending}>
+                {importProspects.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Importar {rowsToImport.length} prospecto{rowsToImport.length !== 1 ? 's' : ''}
+              </Button>
+            </>
+          )}
+          {step === 'result' && (
+            <>
+              {reportRows.length > 0 && (
+                <Button variant="outline" onClick={() => exportRows(reportRows, REPORT_COLUMNS, 'errores-importacion', 'csv')}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Descargar reporte
+                </Button>
+              )}
+              <Button onClick={() => onOpenChange(false)}>Cerrar</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
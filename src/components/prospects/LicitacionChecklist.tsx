@@ -0,0 +1,259 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  useLicitacionChecklist,
+  useSaveChecklistItem,
+  useToggleChecklistItem,
+  useDeleteChecklistItem,
+  type ChecklistItem,
+} from '@/hooks/useLicitacionChecklist';
+import { useAllUsers } from '@/hooks/useUsers';
+import { useToast } from '@/hooks/use-toast';
+import { summarizeChecklist, daysUntil } from '@/lib/licitacion-constants';
+import { ClipboardCheck, Loader2, Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface LicitacionChecklistProps {
+  prospectId: string;
+  // Closing date; new items can be scheduled relative to it
+  fechaCierre?: string | null;
+  className?: string;
+}
+
+const formatDueDate = (dateStr: string) =>
+  new Date(dateStr + 'T12:00:00').toLocaleDateString('es-CR', { day: '2-digit', month: 'short' });
+
+export function LicitacionChecklist({ prospectId, fechaCierre, className }: LicitacionChecklistProps) {
+  const { data: items, isLoading } = useLicitacionChecklist(prospectId);
+  const { data: users } = useAllUsers();
+  const saveItem = useSaveChecklistItem();
+  const toggleItem = useToggleChecklistItem();
+  const deleteItem = useDeleteChecklistItem();
+  const { toast } = useToast();
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [newLabel, setNewLabel] = useState('');
+  const [newDaysBefore, setNewDaysBefore] = useState('3');
+  const [newDueDate, setNewDueDate] = useState('');
+
+  const progress = summarizeChecklist(items);
+
+  const showError = (description: string) => {
+    toast({ title: 'Error', description, variant: 'destructive' });
+  };
+
+  const handleToggle = async (item: ChecklistItem, done: boolean) => {
+    try {
+      await toggleItem.mutateAsync({ id: item.id, prospectId, done });
+    } catch (error) {
+      showError('No se pudo actualizar el documento.');
+    }
+  };
+
+  const handleOwnerChange = async (item: ChecklistItem, ownerId: string) => {
+    try {
+      await saveItem.mutateAsync({
+        id: item.id,
+        prospect_id: prospectId,
+        label: item.label,
+        owner_id: ownerId === 'none' ? null : ownerId,
+      });
+    } catch (error) {
+      showError('No se pudo asignar el responsable.');
+    }
+  };
+
+  const handleDelete = async (item: ChecklistItem) => {
+    try {
+      await deleteItem.mutateAsync({ id: item.id, prospectId });
+    } catch (error) {
+      showError('No se pudo eliminar el documento.');
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newLabel.trim()) {
+      toast({ title: 'Indica el nombre del documento', variant: 'destructive' });
+      return;
+    }
+    const daysBefore = parseInt(newDaysBefore, 10);
+    if (fechaCierre && (isNaN(daysBefore) || daysBefore < 0 || daysBefore > 90)) {
+      toast({ title: 'Los días antes del cierre deben estar entre 0 y 90', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      await saveItem.mutateAsync({
+        prospect_id: prospectId,
+        label: newLabel.trim(),
+        position: (items?.length ?? 0),
+        // With a closing date the due date follows it; otherwise it's fixed
+        days_before_cierre: fechaCierre ? daysBefore : null,
+        due_date: fechaCierre ? null : newDueDate || null,
+      });
+      setNewLabel('');
+      setNewDueDate('');
+      setIsAdding(false);
+    } catch (error) {
+      showError('No se pudo agregar el documento.');
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium flex items-center gap-1.5">
+          <ClipboardCheck className="h-4 w-4" />
+          Checklist de documentos
+          {progress.total > 0 && (
+            <span className="text-xs text-muted-foreground font-normal">
+              {progress.done}/{progress.total}
+            </span>
+          )}
+        </p>
+        {!isAdding && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => setIsAdding(true)}>
+            <Plus className="h-3 w-3 mr-1" />
+            Agregar
+          </Button>
+        )}
+      </div>
+
+      {progress.total > 0 && (
+        <Progress value={(progress.done / progress.total) * 100} className="h-1.5" />
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-3">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : items?.length === 0 && !isAdding ? (
+        <p className="text-xs text-muted-foreground">Sin documentos en el checklist.</p>
+      ) : (
+        <div className="space-y-1">
+          {items?.map((item) => {
+            const done = !!item.completed_at;
+            const days = daysUntil(item.due_date);
+            const isOverdue = !done && days !== null && days < 0;
+            const isSoon = !done && days !== null && days >= 0 && days <= 2;
+
+            return (
+              <div
+                key={item.id}
+                className={cn(
+                  'flex items-center gap-2 rounded-md border p-2 text-sm',
+                  isOverdue && 'border-destructive/50 bg-destructive/5',
+                  isSoon && 'border-amber-500/50 bg-amber-50',
+                )}
+              >
+                <Checkbox
+                  checked={done}
+                  onCheckedChange={(checked) => handleToggle(item, checked === true)}
+                  disabled={toggleItem.isPending}
+                />
+                <div className="min-w-0 flex-1">
+                  <p className={cn('truncate', done && 'line-through text-muted-foreground')}>
+                    {item.label}
+                  </p>
+                  {item.due_date && (
+                    <p className={cn(
+                      'text-xs text-muted-foreground',
+                      isOverdue && 'text-destructive font-medium',
+                      isSoon && 'text-amber-600 font-medium',
+                    )}>
+                      Vence {formatDueDate(item.due_date)}
+                      {item.days_before_cierre !== null && ` · ${item.days_before_cierre}d antes del cierre`}
+                    </p>
+                  )}
+                </div>
+                <Select
+                  value={item.owner_id || 'none'}
+                  onValueChange={(value) => handleOwnerChange(item, value)}
+                >
+                  <SelectTrigger className="h-7 w-32 text-xs">
+                    <SelectValue placeholder="Responsable" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background z-50">
+                    <SelectItem value="none">Sin responsable</SelectItem>
+                    {users?.map((u) => (
+                      <SelectItem key={u.id} value={u.id}>
+                        {u.full_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0 text-destructive hover:text-destructive"
+                  title="Eliminar"
+                  onClick={() => handleDelete(item)}
+                  disabled={deleteItem.isPending}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isAdding && (
+        <div
+          className="space-y-2 rounded-lg border border-dashed p-3"
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+        >
+          <Input
+            placeholder="Documento (ej: Declaración jurada)"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+          />
+          {fechaCierre ? (
+            <div className="flex items-center gap-2 text-sm">
+              <Input
+                type="number"
+                min="0"
+                max="90"
+                className="w-20"
+                value={newDaysBefore}
+                onChange={(e) => setNewDaysBefore(e.target.value)}
+              />
+              <span className="text-muted-foreground">días antes del cierre</span>
+            </div>
+          ) : (
+            <Input
+              type="date"
+              value={newDueDate}
+              onChange={(e) => setNewDueDate(e.target.value)}
+            />
+          )}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setIsAdding(false)}>
+              Cancelar
+            </Button>
+            <Button type="button" size="sm" onClick={handleAdd} disabled={saveItem.isPending}>
+              {saveItem.isPending && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+              Agregar
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// Next to a total in the reporting currency that leaves out amounts whose
+// currency has no exchange rate yet
+export function MissingRateWarning({ className }: { className?: string }) {
+  return (
+    <span
+      className={cn('inline-flex items-center gap-1 text-xs font-normal text-amber-600', className)}
+      title="Hay montos en una moneda sin tipo de cambio registrado: cuentan como 0 en totales y orden. Regístralo en Configuración."
+    >
+      <AlertTriangle className="h-3 w-3 shrink-0" />
+      Falta tipo de cambio
+    </span>
+  );
+}
@@ -0,0 +1,33 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAllUsers } from '@/hooks/useUsers';
+import { cn } from '@/lib/utils';
+
+// 'all' = no filter, 'none' = prospects without owner, otherwise a user id
+export type OwnerFilter = 'all' | 'none' | string;
+
+interface OwnerFilterSelectProps {
+  value: OwnerFilter;
+  onChange: (value: OwnerFilter) => void;
+  className?: string;
+}
+
+export function OwnerFilterSelect({ value, onChange, className }: OwnerFilterSelectProps) {
+  const { data: users } = useAllUsers();
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={cn('w-full sm:w-48', className)}>
+        <SelectValue placeholder="Todos los responsables" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">Todos los responsables</SelectItem>
+        <SelectItem value="none">Sin responsable</SelectItem>
+        {users?.map((u) => (
+          <SelectItem key={u.id} value={u.id}>
+            {u.full_name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
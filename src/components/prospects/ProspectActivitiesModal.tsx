@@ -23,6 +23,13 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -46,19 +53,27 @@ import {
   Unlock,
   Eye,
   MessageSquare,
+  ListChecks,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { EditActivityModal } from '@/components/activities/EditActivityModal';
+import { CancelActivityDialog } from '@/components/activities/CancelActivityDialog';
+import { ContactsManager } from '@/components/prospects/ContactsManager';
+import { ChangeHistory } from '@/components/prospects/ChangeHistory';
+import { useContacts } from '@/hooks/useContacts';
+import { usePhasePlaybooks, useApplyPhasePlaybook } from '@/hooks/usePhasePlaybooks';
 import { Database } from '@/integrations/supabase/types';
 
 type ActivityStatus = Database['public']['Enums']['activity_status'];
+type PhaseType = Database['public']['Enums']['phase_type'];
 
 interface ProspectActivitiesModalProps {
   prospect: {
     id: string;
     company_name: string;
+    current_phase?: PhaseType | null;
   } | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -89,8 +104,41 @@ export default function ProspectActivitiesModal({
   // State for actions
   const [editingActivity, setEditingActivity] = useState<any | null>(null);
   const [deletingActivityId, setDeletingActivityId] = useState<string | null>(null);
+  const [cancellingActivity, setCancellingActivity] = useState<{ id: string; activity_type: string } | null>(null);
   const [viewingActivity, setViewingActivity] = useState<any | null>(null);
 
+  const { data: contacts } = useContacts(open ? prospect?.id : undefined);
+
+  // Playbooks that can be applied on demand, current phase first
+  const { data: playbooks } = usePhasePlaybooks();
+  const applyPlaybook = useApplyPhasePlaybook();
+  const playbookPhases = (Object.keys(playbooks || {}) as PhaseType[])
+    .sort((a, b) => Number(b === prospect?.current_phase) - Number(a === prospect?.current_phase));
+
+  const handleApplyPlaybook = async (phase: PhaseType) => {
+    if (!prospect) return;
+    try {
+      const created = await applyPlaybook.mutateAsync({ prospectId: prospect.id, phase });
+      toast({
+        title: created > 0 ? 'Playbook aplicado' : 'Sin actividades nuevas',
+        description: created > 0
+          ? `${created} ${created === 1 ? 'actividad creada' : 'actividades creadas'} del playbook de ${phase}.`
+          : `Las actividades del playbook de ${phase} ya están pendientes.`,
+      });
+    } catch (error) {
+      console.error('Error applying playbook:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo aplicar el playbook.',
+        variant: 'destructive',
+      });
+    }
+  };
+  const contactNames: Record<string, string> = {};
+  contacts?.forEach(c => {
+    contactNames[c.id] = c.full_name;
+  });
+
   const { data: activities, isLoading } = useQuery({
     queryKey: ['prospect-activities', prospect?.id],
     queryFn: async () => {
@@ -101,6 +149,7 @@ export default function ProspectActivitiesModal({
         .from('activities')
         .select('*')
         .eq('prospect_id', prospect.id)
+        .neq('status', 'cancelled')
         .order('scheduled_date', { ascending: false });
 
       if (activitiesError) throw activitiesError;
@@ -129,19 +178,17 @@ export default function ProspectActivitiesModal({
 
   const deleteActivityMutation = useMutation({
     mutationFn: async (activityId: string) => {
-      const { error } = await supabase
-        .from('activities')
-        .delete()
-        .eq('id', activityId);
+      const { error } = await supabase.rpc('soft_delete_activity', { p_activity_id: activityId });
       if (error) throw error;
     },
     onSuccess: () => {
       toast({
         title: 'Actividad eliminada',
-        description: 'La actividad ha sido eliminada correctamente.',
+        description: 'La actividad se envió a la papelera.',
       });
       queryClient.invalidateQueries({ queryKey: ['prospect-activities', prospect?.id] });
       queryClient.invalidateQueries({ queryKey: ['activities'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
       setDeletingActivityId(null);
     },
     onError: () => {
@@ -235,6 +282,10 @@ export default function ProspectActivitiesModal({
 
         <div className="mt-6 flex flex-col h-[calc(100vh-140px)]">
           <ScrollArea className="flex-1 pr-4">
+            <ContactsManager prospectId={prospect.id} className="mb-4 pb-4 border-b" />
+
+            <ChangeHistory table="prospects" recordId={prospect.id} className="mb-4 pb-4 border-b" />
+
             {isLoading ? (
               <div className="space-y-4">
                 {[1, 2, 3].map((i) => (
@@ -299,6 +350,15 @@ export default function ProspectActivitiesModal({
                       </p>
                     )}
 
+                    {/* Contact */}
+                    {activity.contact_id && contactNames[activity.contact_id] && (
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground pl-7">
+                        <Phone className="h-3 w-3" />
+                        Contacto:
+                        <span className="font-medium">{contactNames[activity.contact_id]}</span>
+                      </div>
+                    )}
+
                     {/* Assigned User */}
                     {activity.assigned_user_name && (
                       <div className="flex items-center gap-1 text-xs text-muted-foreground pl-7">
@@ -317,7 +377,7 @@ export default function ProspectActivitiesModal({
 
                     {/* Action Buttons based on status */}
                     <div className="flex items-center gap-2 pl-7 pt-2">
-                      {/* PENDING: Edit & Delete */}
+                      {/* PENDING: Edit, Cancel & Delete */}
                       {activity.status === 'pending' && (
                         <>
                           <Button
@@ -328,6 +388,14 @@ export default function ProspectActivitiesModal({
                             <Edit className="h-3 w-3 mr-1" />
                             Editar
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setCancellingActivity(activity)}
+                          >
+                            <XCircle className="h-3 w-3 mr-1" />
+                            Cancelar
+                          </Button>
                           <Button
                             variant="outline"
                             size="sm"
@@ -353,6 +421,18 @@ export default function ProspectActivitiesModal({
                         </Button>
                       )}
 
+                      {/* BLOCKED: Cancel */}
+                      {activity.status === 'blocked' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setCancellingActivity(activity)}
+                        >
+                          <XCircle className="h-3 w-3 mr-1" />
+                          Cancelar
+                        </Button>
+                      )}
+
                       {/* COMPLETED: View detail */}
                       {activity.status === 'completed' && (
                         <Button
@@ -379,6 +459,29 @@ export default function ProspectActivitiesModal({
                 Nueva Actividad
               </Button>
             )}
+            {playbookPhases.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="icon" title="Aplicar playbook" disabled={applyPlaybook.isPending}>
+                    <ListChecks className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                    Aplicar playbook
+                  </DropdownMenuLabel>
+                  {playbookPhases.map((phase) => (
+                    <DropdownMenuItem key={phase} onClick={() => handleApplyPlaybook(phase)}>
+                      {phase}
+                      {phase === prospect.current_phase && ' (fase actual)'}
+                      <span className="ml-auto pl-3 text-xs text-muted-foreground">
+                        {playbooks?.[phase]?.length}
+                      </span>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
             <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
               Cerrar
             </Button>
@@ -400,13 +503,19 @@ export default function ProspectActivitiesModal({
         />
       )}
 
+      <CancelActivityDialog
+        open={!!cancellingActivity}
+        onOpenChange={(open) => !open && setCancellingActivity(null)}
+        activity={cancellingActivity && { ...cancellingActivity, prospects: prospect }}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deletingActivityId} onOpenChange={(open) => !open && setDeletingActivityId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>¿Eliminar actividad?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta acción no se puede deshacer. La actividad será eliminada permanentemente.
+              La actividad irá a la papelera, desde donde un gerente puede restaurarla.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -467,6 +576,8 @@ export default function ProspectActivitiesModal({
                   <p className="mt-1 font-medium text-primary">{viewingActivity.completion_comment}</p>
                 </div>
               )}
+
+              <ChangeHistory table="activities" recordId={viewingActivity.id} />
               
               <div className="flex justify-end">
                 <Button variant="outline" onClick={() => setViewingActivity(null)}>
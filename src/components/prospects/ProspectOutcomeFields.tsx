@@ -0,0 +1,65 @@
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLossReasons } from '@/hooks/useLossReasons';
+import { LOST_PHASE } from '@/lib/win-loss';
+
+interface ProspectOutcomeFieldsProps {
+  phase: string | null;
+  lossReasonId: string;
+  onLossReasonChange: (id: string) => void;
+  notes: string;
+  onNotesChange: (notes: string) => void;
+}
+
+// Loss reason (required) or win notes when a B2B prospect closes
+export function ProspectOutcomeFields({ phase, lossReasonId, onLossReasonChange, notes, onNotesChange }: ProspectOutcomeFieldsProps) {
+  const { data: lossReasons } = useLossReasons();
+
+  if (phase === LOST_PHASE) {
+    return (
+      <div className="space-y-3 p-3 rounded-lg border border-destructive/30 bg-destructive/5">
+        <div className="space-y-2">
+          <Label>Razón de la pérdida *</Label>
+          <Select value={lossReasonId} onValueChange={onLossReasonChange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Selecciona una razón" />
+            </SelectTrigger>
+            <SelectContent>
+              {lossReasons?.filter(r => r.is_active).map((r) => (
+                <SelectItem key={r.id} value={r.id}>
+                  {r.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Detalles (opcional)</Label>
+          <Textarea
+            value={notes}
+            onChange={(e) => onNotesChange(e.target.value)}
+            placeholder="Ej: Nos ganó Distribuidora XYZ con 12% menos"
+            rows={2}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'Ganada') {
+    return (
+      <div className="space-y-2 p-3 rounded-lg border border-success/30 bg-success/5">
+        <Label>¿Por qué ganamos? (opcional)</Label>
+        <Textarea
+          value={notes}
+          onChange={(e) => onNotesChange(e.target.value)}
+          placeholder="Ej: Mejor tiempo de entrega y soporte local"
+          rows={2}
+        />
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAllUsers } from '@/hooks/useUsers';
+import { useReassignPortfolio } from '@/hooks/useProspects';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, ArrowRightLeft } from 'lucide-react';
+
+interface ReassignPortfolioModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Owner counts keyed by user id, to preview how many prospects will move */
+  ownerCounts?: Record<string, number>;
+}
+
+export default function ReassignPortfolioModal({
+  open,
+  onOpenChange,
+  ownerCounts = {},
+}: ReassignPortfolioModalProps) {
+  const [fromUserId, setFromUserId] = useState('');
+  const [toUserId, setToUserId] = useState('');
+  const [includeActivities, setIncludeActivities] = useState(true);
+  const { data: users } = useAllUsers();
+  const reassign = useReassignPortfolio();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setFromUserId('');
+      setToUserId('');
+      setIncludeActivities(true);
+    }
+  }, [open]);
+
+  const fromUser = users?.find(u => u.id === fromUserId);
+  const toUser = users?.find(u => u.id === toUserId);
+  const affectedCount = fromUserId ? ownerCounts[fromUserId] || 0 : 0;
+
+  const handleSubmit = async () => {
+    if (!fromUserId || !toUserId || fromUserId === toUserId) return;
+
+    try {
+      const moved = await reassign.mutateAsync({ fromUserId, toUserId, includeActivities });
+      toast({
+        title: 'Cartera reasignada',
+        description: `${moved} prospecto${moved !== 1 ? 's' : ''} de ${fromUser?.full_name} ahora pertenece${moved !== 1 ? 'n' : ''} a ${toUser?.full_name}.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error reassigning portfolio:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo reasignar la cartera.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5" />
+            Reasignar cartera
+          </DialogTitle>
+          <DialogDescription>
+            Transfiere todos los prospectos de un vendedor a otro.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Responsable actual</Label>
+            <Select value={fromUserId} onValueChange={setFromUserId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccionar usuario" />
+              </SelectTrigger>
+              <SelectContent>
+                {users?.map((u) => (
+                  <SelectItem key={u.id} value={u.id}>
+                    {u.full_name} ({ownerCounts[u.id] || 0})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Nuevo responsable</Label>
+            <Select value={toUserId} onValueChange={setToUserId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccionar usuario" />
+              </SelectTrigger>
+              <SelectContent>
+                {users?.filter(u => u.id !== fromUserId).map((u) => (
+                  <SelectItem key={u.id} value={u.id}>
+                    {u.full_name} ({u.role === 'manager' ? 'Manager' : 'Vendedor'})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="include-activities"
+              checked={includeActivities}
+              onCheckedChange={(checked) => setIncludeActivities(checked === true)}
+            />
+            <Label htmlFor="include-activities" className="text-sm font-normal cursor-pointer">
+              Reasignar también sus actividades pendientes y bloqueadas
+            </Label>
+          </div>
+
+          {fromUserId && (
+            <p className="text-sm text-muted-foreground">
+              Se moverán {affectedCount} prospecto{affectedCount !== 1 ? 's' : ''}.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!fromUserId || !toUserId || reassign.isPending}
+          >
+            {reassign.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Reasignar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,53 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+
+// 'me' = signed-in user, 'team' = everyone (managers only), otherwise a salesperson id
+export type ActivityScope = 'me' | 'team' | string;
+
+interface ActivityScopeContextType {
+  scope: ActivityScope;
+  setScope: (scope: ActivityScope) => void;
+  /** User id to filter `assigned_to` by, or null when viewing the whole team */
+  assignedTo: string | null;
+}
+
+const STORAGE_KEY = 'crm-activity-scope';
+
+const ActivityScopeContext = createContext<ActivityScopeContextType | null>(null);
+
+export function ActivityScopeProvider({ children }: { children: ReactNode }) {
+  const { user, isManager } = useAuth();
+  const [scope, setScope] = useState<ActivityScope>(() => {
+    return localStorage.getItem(STORAGE_KEY) || 'me';
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, scope);
+  }, [scope]);
+
+  // Salespeople always see their own queue, whatever is stored
+  const effectiveScope: ActivityScope = isManager ? scope : 'me';
+
+  let assignedTo: string | null;
+  if (effectiveScope === 'team') {
+    assignedTo = null;
+  } else if (effectiveScope === 'me') {
+    assignedTo = user?.id ?? null;
+  } else {
+    assignedTo = effectiveScope;
+  }
+
+  return (
+    <ActivityScopeContext.Provider value={{ scope: effectiveScope, setScope, assignedTo }}>
+      {children}
+    </ActivityScopeContext.Provider>
+  );
+}
+
+export function useActivityScope() {
+  const context = useContext(ActivityScopeContext);
+  if (!context) {
+    throw new Error('useActivityScope must be used within ActivityScopeProvider');
+  }
+  return context;
+}
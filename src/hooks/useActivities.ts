@@ -1,7 +1,8 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Database } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
+import { useActivityScope } from '@/contexts/ActivityScopeContext';
 
 type Activity = Database['public']['Tables']['activities']['Row'];
 type ActivityInsert = Database['public']['Tables']['activities']['Insert'];
@@ -24,13 +25,14 @@ interface ActivityWithProspect extends Activity {
 
 export function useUrgentActivities() {
   const { user } = useAuth();
+  const { assignedTo } = useActivityScope();
   
   return useQuery({
-    queryKey: ['activities', 'urgent', user?.id],
+    queryKey: ['activities', 'urgent', user?.id, assignedTo],
     queryFn: async () => {
       const today = new Date().toISOString().split('T')[0];
       
-      const { data, error } = await supabase
+      let query = supabase
         .from('activities')
         .select(`
           *,
@@ -41,7 +43,13 @@ export function useUrgentActivities() {
         `)
         .eq('status', 'pending')
         .lt('scheduled_date', today)
-        .not('prospect_id', 'is', null)
+        .not('prospect_id', 'is', null);
+
+      if (assignedTo) {
+        query = query.eq('assigned_to', assignedTo);
+      }
+
+      const { data, error } = await query
         .order('scheduled_date', { ascending: true });
 
       if (error) {
@@ -58,13 +66,14 @@ export function useUrgentActivities() {
 
 export function useTodayActivities() {
   const { user } = useAuth();
+  const { assignedTo } = useActivityScope();
   
   return useQuery({
-    queryKey: ['activities', 'today', user?.id],
+    queryKey: ['activities', 'today', user?.id, assignedTo],
     queryFn: async () => {
       const today = new Date().toISOString().split('T')[0];
       
-      const { data, error } = await supabase
+      let query = supabase
         .from('activities')
         .select(`
           *,
@@ -75,7 +84,13 @@ export function useTodayActivities() {
         `)
         .eq('status', 'pending')
         .eq('scheduled_date', today)
-        .not('prospect_id', 'is', null)
+        .not('prospect_id', 'is', null);
+
+      if (assignedTo) {
+        query = query.eq('assigned_to', assignedTo);
+      }
+
+      const { data, error } = await query
         .order('created_at', { ascending: true });
 
       if (error) {
@@ -92,9 +107,10 @@ export function useTodayActivities() {
 
 export function useWeekActivities() {
   const { user } = useAuth();
+  const { assignedTo } = useActivityScope();
   
   return useQuery({
-    queryKey: ['activities', 'week', user?.id],
+    queryKey: ['activities', 'week', user?.id, assignedTo],
     queryFn: async () => {
       const today = new Date();
       const nextWeek = new Date();
@@ -103,7 +119,7 @@ export function useWeekActivities() {
       const todayStr = today.toISOString().split('T')[0];
       const nextWeekStr = nextWeek.toISOString().split('T')[0];
       
-      const { data, error } = await supabase
+      let query = supabase
         .from('activities')
         .select(`
           *,
@@ -115,7 +131,13 @@ export function useWeekActivities() {
         .eq('status', 'pending')
         .gt('scheduled_date', todayStr)
         .lte('scheduled_date', nextWeekStr)
-        .not('prospect_id', 'is', null)
+        .not('prospect_id', 'is', null);
+
+      if (assignedTo) {
+        query = query.eq('assigned_to', assignedTo);
+      }
+
+      const { data, error } = await query
         .order('scheduled_date', { ascending: true });
 
       if (error) {
@@ -132,11 +154,12 @@ export function useWeekActivities() {
 
 export function useDateRangeActivities(startDate: string, endDate: string) {
   const { user } = useAuth();
+  const { assignedTo } = useActivityScope();
   
   return useQuery({
-    queryKey: ['activities', 'date-range', startDate, endDate, user?.id],
+    queryKey: ['activities', 'date-range', startDate, endDate, user?.id, assignedTo],
     queryFn: async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from('activities')
         .select(`
           *,
@@ -147,8 +170,15 @@ export function useDateRangeActivities(startDate: string, endDate: string) {
         `)
         .in('status', ['pending', 'blocked'])
         .gte('scheduled_date', startDate)
-        .lte('scheduled_date', endDate)
-        .order('scheduled_date', { ascending: true });
+        .lte('scheduled_date', endDate);
+
+      if (assignedTo) {
+        query = query.eq('assigned_to', assignedTo);
+      }
+
+      const { data, error } = await query
+        .order('scheduled_date', { ascending: true })
+        .order('scheduled_time', { ascending: true, nullsFirst: true });
 
       if (error) throw error;
       return (data || []) as unknown as ActivityWithProspect[];
@@ -159,11 +189,12 @@ export function useDateRangeActivities(startDate: string, endDate: string) {
 
 export function useBlockedActivities() {
   const { user } = useAuth();
+  const { assignedTo } = useActivityScope();
   
   return useQuery({
-    queryKey: ['activities', 'blocked', user?.id],
+    queryKey: ['activities', 'blocked', user?.id, assignedTo],
     queryFn: async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from('activities')
         .select(`
           *,
@@ -172,7 +203,13 @@ export function useBlockedActivities() {
             contact_name
           )
         `)
-        .eq('status', 'blocked')
+        .eq('status', 'blocked');
+
+      if (assignedTo) {
+        query = query.eq('assigned_to', assignedTo);
+      }
+
+      const { data, error } = await query
         .order('scheduled_date', { ascending: true });
 
       if (error) {
@@ -189,13 +226,14 @@ export function useBlockedActivities() {
 
 export function useNewCallsActivities() {
   const { user } = useAuth();
+  const { assignedTo } = useActivityScope();
   
   return useQuery({
-    queryKey: ['activities', 'new-calls', user?.id],
+    queryKey: ['activities', 'new-calls', user?.id, assignedTo],
     queryFn: async () => {
       const today = new Date().toISOString().split('T')[0];
       
-      const { data, error } = await supabase
+      let query = supabase
         .from('activities')
         .select(`
           *,
@@ -207,7 +245,13 @@ export function useNewCallsActivities() {
         .eq('status', 'pending')
         .eq('activity_type', 'Llamada')
         .eq('scheduled_date', today)
-        .eq('created_by', 'system')
+        .eq('created_by', 'system');
+
+      if (assignedTo) {
+        query = query.eq('assigned_to', assignedTo);
+      }
+
+      const { data, error } = await query
         .order('created_at', { ascending: true })
         .limit(3);
 
@@ -225,15 +269,22 @@ export function useNewCallsActivities() {
 
 export function useGeneralActivities() {
   const { user } = useAuth();
+  const { assignedTo } = useActivityScope();
   
   return useQuery({
-    queryKey: ['activities', 'general', user?.id],
+    queryKey: ['activities', 'general', user?.id, assignedTo],
     queryFn: async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from('activities')
         .select('*')
         .eq('status', 'pending')
-        .is('prospect_id', null)
+        .is('prospect_id', null);
+
+      if (assignedTo) {
+        query = query.eq('assigned_to', assignedTo);
+      }
+
+      const { data, error } = await query
         .order('scheduled_date', { ascending: true });
 
       if (error) {
@@ -342,6 +393,79 @@ export function useUnblockActivity() {
   });
 }
 
+// Pending or blocked activities that no longer apply. The database stamps
+// cancelled_at / cancelled_by, and stats and lists leave them out.
+export function useCancelActivity() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ activityId, reason }: { activityId: string; reason: string }) => {
+      const { error } = await supabase
+        .from('activities')
+        .update({
+          status: 'cancelled' as ActivityStatus,
+          cancel_reason: reason,
+        })
+        .eq('id', activityId);
+
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['activities'], refetchType: 'all' });
+      await queryClient.invalidateQueries({ queryKey: ['prospect-activities'], refetchType: 'all' });
+    },
+  });
+}
+
+// Moves an activity to another day and/or time. A null time means "any time that day".
+export function useRescheduleActivity() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      activityId,
+      scheduledDate,
+      scheduledTime,
+    }: {
+      activityId: string;
+      scheduledDate: string;
+      scheduledTime: string | null;
+    }) => {
+      const { error } = await supabase
+        .from('activities')
+        .update({
+          scheduled_date: scheduledDate,
+          scheduled_time: scheduledTime,
+        })
+        .eq('id', activityId);
+
+      if (error) throw error;
+    },
+    // Move the card right away in the calendar; the refetch confirms it
+    onMutate: async ({ activityId, scheduledDate, scheduledTime }) => {
+      await queryClient.cancelQueries({ queryKey: ['activities', 'date-range'] });
+      const previous = queryClient.getQueriesData<ActivityWithProspect[]>({ queryKey: ['activities', 'date-range'] });
+
+      queryClient.setQueriesData<ActivityWithProspect[]>({ queryKey: ['activities', 'date-range'] }, (old) =>
+        old?.map(a => a.id === activityId
+          ? { ...a, scheduled_date: scheduledDate, scheduled_time: scheduledTime }
+          : a)
+      );
+
+      return { previous };
+    },
+    onError: (_, __, context) => {
+      context?.previous.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+    },
+    onSettled: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['activities'], refetchType: 'all' });
+      await queryClient.invalidateQueries({ queryKey: ['prospect-activities'], refetchType: 'all' });
+    },
+  });
+}
+
 export function useCreateActivity() {
   const queryClient = useQueryClient();
 
@@ -379,147 +503,40 @@ export function useCreateActivity() {
   });
 }
 
-export function useGenerateDailyCalls() {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: async () => {
-      const today = new Date();
-      const dayOfWeek = today.getDay();
-      const todayStr = today.toISOString().split('T')[0];
-      
-      console.log('generateDailyCalls: Starting...', { dayOfWeek, todayStr });
-      
-      if (dayOfWeek < 1 || dayOfWeek > 4) {
-        console.log('generateDailyCalls: Not a workday (Mon-Thu), skipping');
-        return { generated: 0, message: 'Solo se generan llamadas de Lunes a Jueves' };
-      }
-      
-      const { count, error: checkError } = await supabase
-        .from('activities')
-        .select('*', { count: 'exact', head: true })
-        .eq('activity_type', 'Llamada')
-        .eq('created_by', 'system')
-        .gte('created_at', todayStr);
-
-      if (checkError) {
-        console.error('generateDailyCalls: Error checking existing calls:', checkError);
-        throw checkError;
-      }
-      
-      if (count && count > 0) {
-        console.log('generateDailyCalls: Calls already generated today, count:', count);
-        return { generated: 0, message: 'Llamadas ya generadas hoy' };
-      }
-
-      const { data: salesperson, error: vendorError } = await supabase
-        .from('user_profiles')
-        .select('id')
-        .eq('role', 'salesperson')
-        .limit(1)
-        .maybeSingle();
-
-      if (vendorError) {
-        console.error('generateDailyCalls: Error finding salesperson:', vendorError);
-        throw vendorError;
-      }
-
-      if (!salesperson) {
-        console.log('generateDailyCalls: No salesperson found');
-        return { generated: 0, message: 'No se encontró vendedor' };
-      }
-
-      console.log('generateDailyCalls: Salesperson found:', salesperson.id);
-
-      const { data: prospects, error: prospectsError } = await supabase
-        .rpc('get_prospects_for_daily_calls');
-
-      if (prospectsError) {
-        console.error('generateDailyCalls: Error getting eligible prospects:', prospectsError);
-        throw prospectsError;
-      }
-
-      console.log('generateDailyCalls: Eligible prospects:', prospects);
-
-      if (!prospects || prospects.length === 0) {
-        console.log('generateDailyCalls: No eligible prospects found');
-        return { 
-          generated: 0, 
-          message: 'No hay prospectos elegibles (sin contacto reciente)' 
-        };
-      }
-
-      const newActivities = prospects.slice(0, 3).map((p: { id: string; company_name: string }) => ({
-        prospect_id: p.id,
-        activity_type: 'Llamada' as ActivityType,
-        scheduled_date: todayStr,
-        status: 'pending' as ActivityStatus,
-        created_by: 'system' as const,
-        notes: `Primera llamada de calificación - ${p.company_name}`,
-        assigned_to: salesperson.id,
-      }));
-
-      console.log('generateDailyCalls: Creating activities:', newActivities.length);
-
-      const { error: insertError } = await supabase
-        .from('activities')
-        .insert(newActivities);
-
-      if (insertError) {
-        console.error('generateDailyCalls: Error inserting activities:', insertError);
-        throw insertError;
-      }
-
-      console.log(`generateDailyCalls: Successfully created ${newActivities.length} calls`);
-      
-      return { 
-        generated: newActivities.length,
-        message: newActivities.length < 3 
-          ? `${newActivities.length} llamadas generadas (no hay más prospectos disponibles)`
-          : `${newActivities.length} llamadas generadas`
-      };
-    },
-    onSuccess: async (result) => {
-      console.log('generateDailyCalls: Success callback', result);
-      await queryClient.invalidateQueries({ queryKey: ['activities'], refetchType: 'all' });
-      await queryClient.invalidateQueries({ queryKey: ['prospect-activities'], refetchType: 'all' });
-    },
-  });
-}
+const SEARCH_PAGE_SIZE = 20;
 
+// Ranked server-side search (notes, comments, company, contact, licitación number)
 export function useSearchActivities(searchTerm: string) {
   const { user } = useAuth();
-  
-  return useQuery({
-    queryKey: ['activities', 'search', searchTerm, user?.id],
-    queryFn: async () => {
-      if (!searchTerm || searchTerm.length < 2) return [];
-      
-      const { data, error } = await supabase
-        .from('activities')
-        .select(`
-          *,
-          prospects (
-            company_name,
-            contact_name
-          )
-        `)
-        .not('prospect_id', 'is', null)
-        .order('scheduled_date', { ascending: false });
+  const term = searchTerm.trim();
+
+  return useInfiniteQuery({
+    queryKey: ['activities', 'search', term, user?.id],
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase.rpc('search_activities', {
+        p_query: term,
+        p_limit: SEARCH_PAGE_SIZE,
+        p_offset: pageParam,
+      });
 
       if (error) {
         console.error('Search activities error:', error);
         throw error;
       }
-      
-      const filtered = (data || []).filter(activity => {
-        const companyName = (activity as any).prospects?.company_name?.toLowerCase() || '';
-        const search = searchTerm.toLowerCase();
-        return companyName.includes(search);
-      });
-      
-      return filtered as unknown as ActivityWithProspect[];
+
+      const rows = data || [];
+      return {
+        activities: rows.map(({ company_name, contact_name, rank, total_count, ...activity }) => ({
+          ...activity,
+          prospects: activity.prospect_id ? { company_name, contact_name } : null,
+        })) as unknown as ActivityWithProspect[],
+        total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+        nextOffset: pageParam + rows.length,
+      };
     },
-    enabled: !!user && searchTerm.length >= 2,
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) =>
+      lastPage.nextOffset < lastPage.total ? lastPage.nextOffset : undefined,
+    enabled: !!user && term.length >= 2,
   });
 }
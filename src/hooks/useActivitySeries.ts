@@ -0,0 +1,141 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { getFirstOccurrenceDate, ruleToSeriesFields, type RecurrenceRule } from '@/lib/recurrence';
+
+type ActivityInsert = Database['public']['Tables']['activities']['Insert'];
+
+// Fields copied from the series onto every occurrence
+export type SeriesTemplate = Pick<
+  ActivityInsert,
+  'activity_type' | 'custom_type' | 'notes' | 'assigned_to' | 'contact_id' | 'scheduled_time' | 'duration_minutes' | 'location'
+>;
+
+export function useActivitySeries(seriesId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['activity-series', seriesId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('activity_series')
+        .select('*')
+        .eq('id', seriesId!)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!seriesId,
+  });
+}
+
+// Creates the series and its first occurrence; the rest are created as each one is completed
+export function useCreateRecurringActivity() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      activity,
+      rule,
+    }: {
+      activity: Omit<ActivityInsert, 'id' | 'created_at' | 'series_id'>;
+      rule: RecurrenceRule;
+    }) => {
+      const { data: series, error: seriesError } = await supabase
+        .from('activity_series')
+        .insert({
+          ...ruleToSeriesFields(rule),
+          prospect_id: activity.prospect_id ?? null,
+          activity_type: activity.activity_type,
+          custom_type: activity.custom_type ?? null,
+          notes: activity.notes ?? null,
+          assigned_to: activity.assigned_to ?? null,
+          contact_id: activity.contact_id ?? null,
+          scheduled_time: activity.scheduled_time ?? null,
+          duration_minutes: activity.duration_minutes ?? null,
+          location: activity.location ?? null,
+          created_by: activity.created_by ?? null,
+        })
+        .select()
+        .single();
+
+      if (seriesError) throw seriesError;
+
+      const firstDate = getFirstOccurrenceDate(rule, new Date(activity.scheduled_date + 'T12:00:00'));
+
+      const { data, error } = await supabase
+        .from('activities')
+        .insert({
+          ...activity,
+          scheduled_date: format(firstDate, 'yyyy-MM-dd'),
+          series_id: series.id,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // Don't leave an empty series behind
+        await supabase.from('activity_series').delete().eq('id', series.id);
+        throw error;
+      }
+
+      return data;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['activities'], refetchType: 'all' });
+      await queryClient.invalidateQueries({ queryKey: ['prospect-activities'], refetchType: 'all' });
+    },
+  });
+}
+
+// "Esta y siguientes": new template/rule for the series and its other pending occurrences.
+// A 'none' rule ends the series; existing occurrences are kept.
+export function useUpdateActivitySeries() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      seriesId,
+      fromDate,
+      excludeActivityId,
+      template,
+      rule,
+    }: {
+      seriesId: string;
+      fromDate: string;
+      excludeActivityId: string;
+      template: SeriesTemplate;
+      rule: RecurrenceRule;
+    }) => {
+      const ruleFields = rule.frequency === 'none'
+        ? { is_active: false }
+        : { ...ruleToSeriesFields(rule), is_active: true };
+
+      const { error: seriesError } = await supabase
+        .from('activity_series')
+        .update({
+          ...template,
+          ...ruleFields,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', seriesId);
+
+      if (seriesError) throw seriesError;
+
+      const { error } = await supabase
+        .from('activities')
+        .update(template)
+        .eq('series_id', seriesId)
+        .eq('status', 'pending')
+        .gte('scheduled_date', fromDate)
+        .neq('id', excludeActivityId);
+
+      if (error) throw error;
+    },
+    onSuccess: async (_, { seriesId }) => {
+      await queryClient.invalidateQueries({ queryKey: ['activity-series', seriesId] });
+      await queryClient.invalidateQueries({ queryKey: ['activities'], refetchType: 'all' });
+      await queryClient.invalidateQueries({ queryKey: ['prospect-activities'], refetchType: 'all' });
+    },
+  });
+}
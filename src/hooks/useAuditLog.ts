@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { AuditChanges, AuditOperation, AuditTable } from '@/lib/audit';
+
+export interface AuditEntry {
+  id: string;
+  operation: AuditOperation;
+  changes: AuditChanges;
+  changed_at: string;
+  user_profiles: { full_name: string } | null;
+}
+
+// Field-level history of one prospect or activity, newest first
+export function useChangeHistory(table: AuditTable, recordId: string | undefined) {
+  return useQuery({
+    queryKey: ['audit-log', table, recordId],
+    queryFn: async () => {
+      if (!recordId) return [];
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('id, operation, changes, changed_at, user_profiles (full_name)')
+        .eq('table_name', table)
+        .eq('record_id', recordId)
+        .order('changed_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return (data || []) as unknown as AuditEntry[];
+    },
+    enabled: !!recordId,
+  });
+}
@@ -0,0 +1,45 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+const FEED_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed`;
+
+export function getCalendarFeedUrl(token: string): string {
+  return `${FEED_FUNCTION_URL}?token=${token}`;
+}
+
+// Current user's feed token, or null if they never subscribed
+export function useCalendarFeedToken() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['calendar-feed-token', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .select('token')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.token ?? null;
+    },
+    enabled: !!user,
+  });
+}
+
+// Creates the token the first time; afterwards replaces it (old feed URL stops working)
+export function useRotateCalendarFeedToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('rotate_calendar_feed_token');
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed-token'] });
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type Contact = Database['public']['Tables']['contacts']['Row'];
+type ContactInsert = Database['public']['Tables']['contacts']['Insert'];
+
+// Primary contact first, then by creation
+export function useContacts(prospectId: string | undefined) {
+  return useQuery({
+    queryKey: ['contacts', prospectId],
+    queryFn: async () => {
+      if (!prospectId) return [];
+      const { data, error } = await supabase
+        .from('contacts')
+        .select('*')
+        .eq('prospect_id', prospectId)
+        .order('is_primary', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as Contact[];
+    },
+    enabled: !!prospectId,
+  });
+}
+
+export function useSaveContact() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (contact: Omit<ContactInsert, 'created_at' | 'updated_at' | 'created_by'>) => {
+      const { error } = contact.id
+        ? await supabase.from('contacts').update(contact).eq('id', contact.id)
+        : await supabase.from('contacts').insert({ ...contact, created_by: user?.id ?? null });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { prospect_id }) => {
+      queryClient.invalidateQueries({ queryKey: ['contacts', prospect_id] });
+      // The primary contact is mirrored onto the prospect
+      queryClient.invalidateQueries({ queryKey: ['prospects'] });
+    },
+  });
+}
+
+export function useDeleteContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; prospectId: string }) => {
+      const { error } = await supabase
+        .from('contacts')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { prospectId }) => {
+      queryClient.invalidateQueries({ queryKey: ['contacts', prospectId] });
+      queryClient.invalidateQueries({ queryKey: ['prospects'] });
+    },
+  });
+}
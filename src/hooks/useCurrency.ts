@@ -0,0 +1,128 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { anyMissingRate, formatMoney, toReportingAmount, type CurrencyCode, type ExchangeRate } from '@/lib/currency';
+
+export interface CurrencyContext {
+  reportingCurrency: CurrencyCode;
+  rates: ExchangeRate[];
+}
+
+// Rates and reporting currency; also used inside other queries (e.g. metrics)
+export async function fetchCurrencyContext(): Promise<CurrencyContext> {
+  const [{ data: settings, error: settingsError }, { data: rates, error: ratesError }] = await Promise.all([
+    supabase.from('currency_settings').select('reporting_currency').limit(1).maybeSingle(),
+    supabase.from('exchange_rates').select('*').order('rate_date', { ascending: false }),
+  ]);
+
+  if (settingsError) throw settingsError;
+  if (ratesError) throw ratesError;
+  return {
+    reportingCurrency: settings?.reporting_currency ?? 'USD',
+    rates: (rates || []) as ExchangeRate[],
+  };
+}
+
+export function useCurrencyContext() {
+  return useQuery({
+    queryKey: ['currency'],
+    queryFn: fetchCurrencyContext,
+  });
+}
+
+// Converts amounts to the reporting currency. Amounts in a currency without
+// any rate count as 0; hasMissingRate tells which totals leave some out, and
+// those show a MissingRateWarning.
+export function useReportingCurrency() {
+  const { data, isLoading } = useCurrencyContext();
+  const reportingCurrency = data?.reportingCurrency ?? 'USD';
+  const rates = data?.rates;
+
+  const toReporting = useCallback(
+    (amount: number | null | undefined, currency: CurrencyCode | null | undefined) =>
+      toReportingAmount(amount, currency, reportingCurrency, rates || []),
+    [reportingCurrency, rates],
+  );
+
+  const hasMissingRate = useCallback(
+    (amounts: { amount: number | null | undefined; currency: CurrencyCode | null | undefined }[]) =>
+      anyMissingRate(amounts, reportingCurrency, rates || []),
+    [reportingCurrency, rates],
+  );
+
+  const formatReporting = useCallback(
+    (amount: number | null | undefined) => formatMoney(amount, reportingCurrency),
+    [reportingCurrency],
+  );
+
+  return { reportingCurrency, toReporting, hasMissingRate, formatReporting, isLoading };
+}
+
+// Totals depend on the rates, so everything that converts is refreshed
+function invalidateCurrency(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: ['currency'] });
+  queryClient.invalidateQueries({ queryKey: ['metrics'] });
+}
+
+export function useSaveReportingCurrency() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (currency: CurrencyCode) => {
+      const { data: existing, error: fetchError } = await supabase
+        .from('currency_settings')
+        .select('id')
+        .limit(1)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+
+      const payload = {
+        reporting_currency: currency,
+        updated_at: new Date().toISOString(),
+        updated_by: user?.id ?? null,
+      };
+      const { error } = existing
+        ? await supabase.from('currency_settings').update(payload).eq('id', existing.id)
+        : await supabase.from('currency_settings').insert(payload);
+
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateCurrency(queryClient),
+  });
+}
+
+export function useSaveExchangeRate() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (rate: { currency: CurrencyCode; rate_date: string; crc_per_unit: number }) => {
+      // One rate per currency and day: saving the same day again corrects it
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert({ ...rate, created_by: user?.id ?? null }, { onConflict: 'currency,rate_date' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateCurrency(queryClient),
+  });
+}
+
+export function useDeleteExchangeRate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateCurrency(queryClient),
+  });
+}
@@ -0,0 +1,69 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type DailyCallSettings = Database['public']['Tables']['daily_call_settings']['Row'];
+type DailyCallSettingsInsert = Database['public']['Tables']['daily_call_settings']['Insert'];
+
+// Team row has user_id = null; the rest are per-salesperson overrides
+export function useDailyCallSettings() {
+  return useQuery({
+    queryKey: ['daily-call-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('daily_call_settings')
+        .select('*');
+
+      if (error) throw error;
+
+      const rows = (data || []) as DailyCallSettings[];
+      return {
+        team: rows.find(r => r.user_id === null) || null,
+        overrides: rows.filter(r => r.user_id !== null),
+      };
+    },
+  });
+}
+
+export function useSaveDailyCallSettings() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (settings: Omit<DailyCallSettingsInsert, 'updated_at' | 'updated_by'>) => {
+      const payload = {
+        ...settings,
+        updated_at: new Date().toISOString(),
+        updated_by: user?.id ?? null,
+      };
+
+      const { error } = settings.id
+        ? await supabase.from('daily_call_settings').update(payload).eq('id', settings.id)
+        : await supabase.from('daily_call_settings').insert(payload);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['daily-call-settings'] });
+    },
+  });
+}
+
+export function useDeleteDailyCallSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('daily_call_settings')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['daily-call-settings'] });
+    },
+  });
+}
@@ -1,4 +1,5 @@
 import { useMemo } from 'react';
+import { Json } from '@/integrations/supabase/types';
 
 interface Activity {
   id: string;
@@ -7,6 +8,7 @@ interface Activity {
   notes: string | null;
   scheduled_date: string;
   created_by: string | null;
+  selection_score?: Json | null;
   prospects?: {
     company_name: string;
     contact_name: string;
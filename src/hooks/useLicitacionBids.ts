@@ -0,0 +1,48 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { CLOSED_LICITACION_PHASES } from '@/lib/licitacion-constants';
+import type { AdjudicatedLicitacion, BidInput } from '@/lib/licitacion-bids';
+
+export function useLicitacionBids(prospectId: string | undefined) {
+  return useQuery({
+    queryKey: ['licitacion-bids', prospectId],
+    queryFn: async () => {
+      if (!prospectId) return { bids: [] as BidInput[], montoAdjudicado: null as number | null };
+      const [{ data: bids, error }, { data: prospect, error: prospectError }] = await Promise.all([
+        supabase
+          .from('licitacion_bids')
+          .select('competitor_name, is_own, offered_amount, is_winner')
+          .eq('prospect_id', prospectId)
+          .order('is_own', { ascending: false })
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('prospects')
+          .select('licitacion_monto_adjudicado')
+          .eq('id', prospectId)
+          .maybeSingle(),
+      ]);
+
+      if (error) throw error;
+      if (prospectError) throw prospectError;
+      return { bids: (bids || []) as BidInput[], montoAdjudicado: prospect?.licitacion_monto_adjudicado ?? null };
+    },
+    enabled: !!prospectId,
+  });
+}
+
+// Adjudicated licitaciones with their bids, for the competitor report
+export function useCompetitorReport() {
+  return useQuery({
+    queryKey: ['competitor-report'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('prospects')
+        .select('id, company_name, current_phase, licitacion_institucion, licitacion_categoria, licitacion_bids (competitor_name, is_own, offered_amount, is_winner)')
+        .eq('prospect_type', 'licitacion')
+        .in('current_phase', [...CLOSED_LICITACION_PHASES]);
+
+      if (error) throw error;
+      return (data || []) as AdjudicatedLicitacion[];
+    },
+  });
+}
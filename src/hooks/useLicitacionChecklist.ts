@@ -0,0 +1,84 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type ChecklistItem = Database['public']['Tables']['licitacion_checklist_items']['Row'];
+type ChecklistItemInsert = Database['public']['Tables']['licitacion_checklist_items']['Insert'];
+
+export function useLicitacionChecklist(prospectId: string | undefined) {
+  return useQuery({
+    queryKey: ['licitacion-checklist', prospectId],
+    queryFn: async () => {
+      if (!prospectId) return [];
+      const { data, error } = await supabase
+        .from('licitacion_checklist_items')
+        .select('*')
+        .eq('prospect_id', prospectId)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as ChecklistItem[];
+    },
+    enabled: !!prospectId,
+  });
+}
+
+// Progress shows on pipeline cards and the licitaciones widget
+function invalidateChecklist(queryClient: ReturnType<typeof useQueryClient>, prospectId: string) {
+  queryClient.invalidateQueries({ queryKey: ['licitacion-checklist', prospectId] });
+  queryClient.invalidateQueries({ queryKey: ['prospects', 'with-stats'] });
+  queryClient.invalidateQueries({ queryKey: ['licitaciones-proximas'] });
+}
+
+export function useSaveChecklistItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (item: Omit<ChecklistItemInsert, 'created_at'>) => {
+      const { error } = item.id
+        ? await supabase.from('licitacion_checklist_items').update(item).eq('id', item.id)
+        : await supabase.from('licitacion_checklist_items').insert(item);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { prospect_id }) => invalidateChecklist(queryClient, prospect_id),
+  });
+}
+
+export function useToggleChecklistItem() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ id, done }: { id: string; prospectId: string; done: boolean }) => {
+      const { error } = await supabase
+        .from('licitacion_checklist_items')
+        .update({
+          completed_at: done ? new Date().toISOString() : null,
+          completed_by: done ? user?.id ?? null : null,
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { prospectId }) => invalidateChecklist(queryClient, prospectId),
+  });
+}
+
+export function useDeleteChecklistItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; prospectId: string }) => {
+      const { error } = await supabase
+        .from('licitacion_checklist_items')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { prospectId }) => invalidateChecklist(queryClient, prospectId),
+  });
+}
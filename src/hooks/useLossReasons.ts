@@ -0,0 +1,76 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { LOST_PHASE, WON_PHASES, type ClosedDeal } from '@/lib/win-loss';
+
+export type LossReason = Database['public']['Tables']['loss_reasons']['Row'];
+
+// Every reason, inactive ones included (past losses still show their label)
+export function useLossReasons() {
+  return useQuery({
+    queryKey: ['loss-reasons'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('loss_reasons')
+        .select('*')
+        .order('position')
+        .order('label');
+
+      if (error) throw error;
+      return data as LossReason[];
+    },
+  });
+}
+
+export function useCreateLossReason() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ label, position }: { label: string; position: number }) => {
+      const { error } = await supabase
+        .from('loss_reasons')
+        .insert({ label: label.trim(), position });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['loss-reasons'] });
+    },
+  });
+}
+
+export function useUpdateLossReason() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; label?: string; is_active?: boolean }) => {
+      const { error } = await supabase
+        .from('loss_reasons')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['loss-reasons'] });
+      queryClient.invalidateQueries({ queryKey: ['win-loss-report'] });
+    },
+  });
+}
+
+// Closed B2B deals with their outcome, for the win/loss report (licitaciones
+// close in their own phases)
+export function useWinLossReport() {
+  return useQuery({
+    queryKey: ['win-loss-report'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('prospects')
+        .select('id, company_name, current_phase, estimated_value, estimated_value_currency, owner_id, loss_reason_id, loss_notes, win_notes, loss_reasons (label)')
+        .in('current_phase', [...WON_PHASES, LOST_PHASE]);
+
+      if (error) throw error;
+      return (data || []) as ClosedDeal[];
+    },
+  });
+}
@@ -0,0 +1,16 @@
+import { describe, it, expect, vi } from 'vitest';
+import { formatPlaybookCount } from '@/hooks/usePhasePlaybooks';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+describe('formatPlaybookCount', () => {
+  it('adds the number of playbook activities to the toast', () => {
+    expect(formatPlaybookCount(1)).toBe(' · 1 actividad del playbook creada');
+    expect(formatPlaybookCount(3)).toBe(' · 3 actividades del playbook creadas');
+  });
+
+  it('adds nothing when the playbook created no activities', () => {
+    expect(formatPlaybookCount(0)).toBe('');
+    expect(formatPlaybookCount(undefined)).toBe('');
+  });
+});
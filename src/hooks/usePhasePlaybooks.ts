@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Json } from '@/integrations/supabase/types';
+
+export type PlaybookStep = Database['public']['Tables']['phase_playbook_steps']['Row'];
+type PhaseType = Database['public']['Enums']['phase_type'];
+type ActivityType = Database['public']['Enums']['activity_type'];
+
+export interface PlaybookStepInput {
+  activity_type: ActivityType;
+  custom_type: string | null;
+  day_offset: number;
+  notes: string;
+}
+
+// All steps, grouped by phase and in order
+export function usePhasePlaybooks() {
+  return useQuery({
+    queryKey: ['phase-playbooks'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('phase_playbook_steps')
+        .select('*')
+        .order('phase')
+        .order('position');
+
+      if (error) throw error;
+
+      const byPhase: Partial<Record<PhaseType, PlaybookStep[]>> = {};
+      (data || []).forEach(step => {
+        (byPhase[step.phase] ||= []).push(step);
+      });
+      return byPhase;
+    },
+  });
+}
+
+export function useSavePhasePlaybook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ phase, steps }: { phase: PhaseType; steps: PlaybookStepInput[] }) => {
+      const { error } = await supabase.rpc('save_phase_playbook', {
+        p_phase: phase,
+        p_steps: steps as unknown as Json,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['phase-playbooks'] });
+    },
+  });
+}
+
+// Toast suffix after a phase change: " · 3 actividades del playbook creadas"
+export function formatPlaybookCount(count: number | undefined): string {
+  if (!count) return '';
+  return ` · ${count} ${count === 1 ? 'actividad del playbook creada' : 'actividades del playbook creadas'}`;
+}
+
+// Creates the phase's playbook activities for a prospect; returns how many were created
+export async function applyPhasePlaybook(prospectId: string, phase?: PhaseType): Promise<number> {
+  const { data, error } = await supabase.rpc('apply_phase_playbook', {
+    p_prospect_id: prospectId,
+    p_phase: phase,
+  });
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+export function useApplyPhasePlaybook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ prospectId, phase }: { prospectId: string; phase?: PhaseType }) =>
+      applyPhasePlaybook(prospectId, phase),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['activities'], refetchType: 'all' });
+      await queryClient.invalidateQueries({ queryKey: ['prospect-activities'], refetchType: 'all' });
+      queryClient.invalidateQueries({ queryKey: ['prospects'] });
+    },
+  });
+}
@@ -0,0 +1,20 @@
+import { describe, it, expect, vi } from 'vitest';
+import { phaseChangeErrorMessage } from '@/hooks/usePhaseRequirements';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+describe('phaseChangeErrorMessage', () => {
+  it('shows the messages the phase triggers raise', () => {
+    const error = { code: 'P0001', message: 'Falta completar: Enviar cotización' };
+    expect(phaseChangeErrorMessage(error)).toBe('Falta completar: Enviar cotización');
+  });
+
+  it('falls back for any other failure', () => {
+    expect(phaseChangeErrorMessage({ code: '42501', message: 'permission denied for table prospects' }))
+      .toBe('No se pudo actualizar la fase.');
+    expect(phaseChangeErrorMessage(new Error('Failed to fetch'), 'No se pudo mover el prospecto.'))
+      .toBe('No se pudo mover el prospecto.');
+    expect(phaseChangeErrorMessage({ code: 'P0001' })).toBe('No se pudo actualizar la fase.');
+    expect(phaseChangeErrorMessage(null)).toBe('No se pudo actualizar la fase.');
+  });
+});
@@ -0,0 +1,91 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type PhaseRequirement = Database['public']['Tables']['phase_requirements']['Row'];
+export type PhaseRequirementInput = Database['public']['Tables']['phase_requirements']['Insert'];
+type PhaseType = Database['public']['Enums']['phase_type'];
+
+// Every requirement, grouped by the phase it gates
+export function usePhaseRequirements() {
+  return useQuery({
+    queryKey: ['phase-requirements'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('phase_requirements')
+        .select('*')
+        .order('phase')
+        .order('created_at');
+
+      if (error) throw error;
+
+      const byPhase: Partial<Record<PhaseType, PhaseRequirement[]>> = {};
+      (data || []).forEach(requirement => {
+        (byPhase[requirement.phase] ||= []).push(requirement);
+      });
+      return byPhase;
+    },
+  });
+}
+
+export function useCreatePhaseRequirement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (requirement: PhaseRequirementInput) => {
+      const { error } = await supabase
+        .from('phase_requirements')
+        .insert(requirement);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['phase-requirements'] });
+      queryClient.invalidateQueries({ queryKey: ['unmet-phase-requirements'] });
+    },
+  });
+}
+
+export function useDeletePhaseRequirement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('phase_requirements')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['phase-requirements'] });
+      queryClient.invalidateQueries({ queryKey: ['unmet-phase-requirements'] });
+    },
+  });
+}
+
+// What the prospect still lacks to enter the phase; empty when the move is allowed
+export function useUnmetPhaseRequirements(prospectId: string | undefined, phase: PhaseType | null | undefined) {
+  return useQuery({
+    queryKey: ['unmet-phase-requirements', prospectId, phase],
+    queryFn: async () => {
+      if (!prospectId || !phase) return [];
+      const { data, error } = await supabase.rpc('get_unmet_phase_requirements', {
+        p_prospect_id: prospectId,
+        p_phase: phase,
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!prospectId && !!phase,
+  });
+}
+
+// The phase triggers (stage gates, loss reason) raise messages meant for the
+// user; any other failure gets the fallback
+export function phaseChangeErrorMessage(error: unknown, fallback = 'No se pudo actualizar la fase.'): string {
+  const { code, message } = (error || {}) as { code?: string; message?: string };
+  return code === 'P0001' && message ? message : fallback;
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ReactNode } from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useUpdateProspectPhase } from '@/hooks/useProspects';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { rpc },
+}));
+
+const BOARD_KEY = ['prospects', 'with-stats'];
+
+function setup() {
+  const queryClient = new QueryClient({ defaultOptions: { mutations: { retry: false } } });
+  queryClient.setQueryData(BOARD_KEY, [
+    { id: 'p1', company_name: 'Textiles del Sur', current_phase: 'Lead', days_in_phase: 12 },
+  ]);
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  const { result } = renderHook(() => useUpdateProspectPhase(), { wrapper });
+  const board = () => queryClient.getQueryData<{ current_phase: string; days_in_phase: number }[]>(BOARD_KEY)![0];
+  return { result, board };
+}
+
+describe('useUpdateProspectPhase', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('applies the playbook inside the phase change and returns how many activities it created', async () => {
+    rpc.mockResolvedValue({ data: 3, error: null });
+    const { result, board } = setup();
+
+    result.current.mutate({ prospectId: 'p1', phase: 'Cotización', reason: '  Pidió precios ' });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data).toBe(3);
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith('change_prospect_phase', {
+      p_prospect_id: 'p1',
+      p_phase: 'Cotización',
+      p_reason: 'Pidió precios',
+      p_apply_playbook: true,
+    });
+    expect(board()).toMatchObject({ current_phase: 'Cotización', days_in_phase: 0 });
+  });
+
+  it('can skip the playbook', async () => {
+    rpc.mockResolvedValue({ data: 0, error: null });
+    const { result } = setup();
+
+    result.current.mutate({ prospectId: 'p1', phase: 'Cotización', applyPlaybook: false });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(rpc).toHaveBeenCalledWith('change_prospect_phase', expect.objectContaining({ p_apply_playbook: false }));
+  });
+
+  it('rolls the board back when the phase change or its playbook fails', async () => {
+    rpc.mockResolvedValue({
+      data: null,
+      error: { code: 'P0001', message: 'Solo el responsable o un gerente puede aplicar el playbook de este prospecto' },
+    });
+    const { result, board } = setup();
+
+    result.current.mutate({ prospectId: 'p1', phase: 'Cotización' });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(board()).toMatchObject({ current_phase: 'Lead', days_in_phase: 12 });
+  });
+});
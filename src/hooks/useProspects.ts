@@ -1,10 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Database } from '@/integrations/supabase/types';
+import { fetchPhaseEntryDates, daysSince } from '@/lib/phase-history';
+import { summarizeChecklist, type ChecklistProgress } from '@/lib/licitacion-constants';
+import { fetchCurrencyContext } from '@/hooks/useCurrency';
+import { anyMissingRate, toReportingAmount } from '@/lib/currency';
 
 type Prospect = Database['public']['Tables']['prospects']['Row'];
 type ProspectUpdate = Database['public']['Tables']['prospects']['Update'];
+type ProspectInsert = Database['public']['Tables']['prospects']['Insert'];
 type PhaseType = Database['public']['Enums']['phase_type'];
+type PhaseHistory = Database['public']['Tables']['prospect_phase_history']['Row'];
 
 interface ProspectWithStats extends Prospect {
   pending_activities: number;
@@ -14,6 +20,7 @@ interface ProspectWithStats extends Prospect {
   licitacion_institucion: string | null;
   licitacion_fecha_cierre: string | null;
   licitacion_monto_estimado: number | null;
+  checklist: ChecklistProgress | null;
 }
 
 export function useProspects() {
@@ -51,6 +58,21 @@ export function useProspectsWithStats() {
 
       if (activitiesError) throw activitiesError;
 
+      // When each prospect entered its current phase
+      const phaseEntries = await fetchPhaseEntryDates();
+
+      // Licitación document checklists
+      const { data: checklistItems, error: checklistError } = await supabase
+        .from('licitacion_checklist_items')
+        .select('prospect_id, completed_at, due_date');
+
+      if (checklistError) throw checklistError;
+
+      const checklistByProspect: Record<string, { completed_at: string | null; due_date: string | null }[]> = {};
+      checklistItems?.forEach(item => {
+        (checklistByProspect[item.prospect_id] ||= []).push(item);
+      });
+
       // Count pending activities per prospect
       const pendingCounts: Record<string, number> = {};
       activities?.forEach(a => {
@@ -60,13 +82,11 @@ export function useProspectsWithStats() {
       // Calculate days in phase and add stats
       const now = new Date();
       const prospectsWithStats: ProspectWithStats[] = prospects?.map(p => {
-        const updatedAt = new Date(p.updated_at || p.created_at || now);
-        const daysInPhase = Math.floor((now.getTime() - updatedAt.getTime()) / (1000 * 60 * 60 * 24));
-        
         return {
           ...p,
           pending_activities: pendingCounts[p.id] || 0,
-          days_in_phase: daysInPhase,
+          days_in_phase: daysSince(phaseEntries[p.id] || p.created_at, now),
+          checklist: checklistByProspect[p.id] ? summarizeChecklist(checklistByProspect[p.id]) : null,
         };
       }) || [];
 
@@ -79,19 +99,218 @@ export function useUpdateProspectPhase() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ prospectId, phase }: { prospectId: string; phase: PhaseType }) => {
-      const { error } = await supabase
-        .from('prospects')
-        .update({ 
-          current_phase: phase,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', prospectId);
+    mutationFn: async ({
+      prospectId,
+      phase,
+      reason,
+      applyPlaybook = true,
+    }: {
+      prospectId: string;
+      phase: PhaseType;
+      reason?: string;
+      applyPlaybook?: boolean;
+    }) => {
+      // Goes through the RPC so the phase history row gets the reason. The
+      // playbook is applied in the same transaction, so a failure leaves the
+      // phase unchanged and the rollback below stays right.
+      const { data, error } = await supabase.rpc('change_prospect_phase', {
+        p_prospect_id: prospectId,
+        p_phase: phase,
+        p_reason: reason?.trim() || undefined,
+        p_apply_playbook: applyPlaybook,
+      });
 
       if (error) throw error;
+
+      // Number of playbook activities created for the new phase
+      return data ?? 0;
+    },
+    // Move the card right away on the board; rolled back if the RPC fails
+    onMutate: async ({ prospectId, phase }) => {
+      await queryClient.cancelQueries({ queryKey: ['prospects', 'with-stats'] });
+      const previous = queryClient.getQueryData<ProspectWithStats[]>(['prospects', 'with-stats']);
+
+      queryClient.setQueryData<ProspectWithStats[]>(['prospects', 'with-stats'], (old) =>
+        old?.map(p => p.id === prospectId ? { ...p, current_phase: phase, days_in_phase: 0 } : p)
+      );
+
+      return { previous };
+    },
+    onError: (_, __, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['prospects', 'with-stats'], context.previous);
+      }
+    },
+    onSettled: (_, __, { prospectId }) => {
+      queryClient.invalidateQueries({ queryKey: ['prospects'] });
+      queryClient.invalidateQueries({ queryKey: ['phase-history', prospectId] });
+      queryClient.invalidateQueries({ queryKey: ['phase-cycle-times'] });
+      queryClient.invalidateQueries({ queryKey: ['activities'], refetchType: 'all' });
+      queryClient.invalidateQueries({ queryKey: ['prospect-activities'], refetchType: 'all' });
+    },
+  });
+}
+
+export function usePhaseHistory(prospectId: string | undefined) {
+  return useQuery({
+    queryKey: ['phase-history', prospectId],
+    queryFn: async () => {
+      if (!prospectId) return [];
+      const { data, error } = await supabase
+        .from('prospect_phase_history')
+        .select('*')
+        .eq('prospect_id', prospectId)
+        .order('entered_at', { ascending: false });
+
+      if (error) throw error;
+      return data as PhaseHistory[];
+    },
+    enabled: !!prospectId,
+  });
+}
+
+export function usePhaseCycleTimes() {
+  return useQuery({
+    queryKey: ['phase-cycle-times'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_phase_cycle_times');
+
+      if (error) throw error;
+
+      // Average days per phase, keyed by phase name
+      const cycleTimes: Record<string, { avgDays: number; transitions: number }> = {};
+      data?.forEach(row => {
+        cycleTimes[row.phase] = { avgDays: Number(row.avg_days), transitions: Number(row.transitions) };
+      });
+      return cycleTimes;
+    },
+  });
+}
+
+export function useReassignPortfolio() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ fromUserId, toUserId, includeActivities }: {
+      fromUserId: string;
+      toUserId: string;
+      includeActivities: boolean;
+    }) => {
+      const { data, error } = await supabase.rpc('reassign_prospect_owner', {
+        p_from_user: fromUserId,
+        p_to_user: toUserId,
+        p_include_activities: includeActivities,
+      });
+
+      if (error) throw error;
+      return data as number;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['prospects'] });
+      await queryClient.invalidateQueries({ queryKey: ['activities'], refetchType: 'all' });
+      await queryClient.invalidateQueries({ queryKey: ['prospect-activities'], refetchType: 'all' });
+    },
+  });
+}
+
+// Sends the prospect and its activities to the papelera
+export function useDeleteProspect() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (prospectId: string) => {
+      const { error } = await supabase.rpc('soft_delete_prospect', { p_prospect_id: prospectId });
+
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['prospects'] });
+      await queryClient.invalidateQueries({ queryKey: ['activities'], refetchType: 'all' });
+      await queryClient.invalidateQueries({ queryKey: ['trash'] });
+    },
+  });
+}
+
+const IMPORT_CHUNK_SIZE = 100;
+
+export interface ProspectImportFailure {
+  rowNumber: number;
+  company_name: string;
+  error: string;
+}
+
+// Bulk insert for the import wizards. A failing chunk is retried row by row so
+// the report can say exactly which rows were rejected and why.
+async function insertProspectRows(rows: { rowNumber: number; prospect: ProspectInsert }[]) {
+  let inserted = 0;
+  const failed: ProspectImportFailure[] = [];
+
+  for (let i = 0; i < rows.length; i += IMPORT_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + IMPORT_CHUNK_SIZE);
+    const { error } = await supabase.from('prospects').insert(chunk.map(r => r.prospect));
+
+    if (!error) {
+      inserted += chunk.length;
+      continue;
+    }
+
+    for (const row of chunk) {
+      const { error: rowError } = await supabase.from('prospects').insert(row.prospect);
+      if (rowError) {
+        failed.push({
+          rowNumber: row.rowNumber,
+          company_name: row.prospect.company_name || '',
+          error: rowError.message,
+        });
+      } else {
+        inserted++;
+      }
+    }
+  }
+
+  return { inserted, failed };
+}
+
+export function useImportProspects() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rows: { rowNumber: number; prospect: ProspectInsert }[]) => insertProspectRows(rows),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['prospects'] });
+    },
+  });
+}
+
+// SICOP import: new notices are inserted, known ones (same licitacion_numero) updated.
+// Each update is its own request since every row changes different fields.
+export function useImportLicitaciones() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ creates, updates }: {
+      creates: { rowNumber: number; prospect: ProspectInsert }[];
+      updates: { rowNumber: number; id: string; company_name: string; changes: ProspectUpdate }[];
+    }) => {
+      const { inserted, failed } = await insertProspectRows(creates);
+      let updated = 0;
+
+      for (const row of updates) {
+        const { error } = await supabase.from('prospects').update(row.changes).eq('id', row.id);
+        if (error) {
+          failed.push({ rowNumber: row.rowNumber, company_name: row.company_name, error: error.message });
+        } else {
+          updated++;
+        }
+      }
+
+      return { inserted, updated, failed };
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['prospects'] });
+      // Closing date changes move the checklist due dates
+      queryClient.invalidateQueries({ queryKey: ['licitacion-checklist'] });
+      queryClient.invalidateQueries({ queryKey: ['licitaciones-proximas'] });
     },
   });
 }
@@ -111,15 +330,13 @@ export function useProspectSearch(searchTerm: string) {
         return data;
       }
 
-      const { data, error } = await supabase
-        .from('prospects')
-        .select('id, company_name, contact_name')
-        .or(`company_name.ilike.%${searchTerm}%,contact_name.ilike.%${searchTerm}%`)
-        .order('company_name')
-        .limit(10);
+      const { data, error } = await supabase.rpc('search_prospects', {
+        p_query: searchTerm,
+        p_limit: 10,
+      });
 
       if (error) throw error;
-      return data;
+      return data.map(({ id, company_name, contact_name }) => ({ id, company_name, contact_name }));
     },
     enabled: true,
   });
@@ -132,7 +349,7 @@ export function useMetrics() {
       // Get all prospects
       const { data: prospects, error: prospectsError } = await supabase
         .from('prospects')
-        .select('id, current_phase, estimated_value');
+        .select('id, current_phase, estimated_value, estimated_value_currency');
 
       if (prospectsError) throw prospectsError;
 
@@ -150,10 +367,17 @@ export function useMetrics() {
       const totalProspects = prospects?.length || 0;
       const todayActivities = todayCount || 0;
 
-      // Pipeline value (Cotización + Negociación)
-      const pipelineValue = prospects
-        ?.filter(p => p.current_phase === 'Cotización' || p.current_phase === 'Negociación')
-        .reduce((sum, p) => sum + (p.estimated_value || 0), 0) || 0;
+      // Pipeline value (Cotización + Negociación), in the reporting currency
+      const { reportingCurrency, rates } = await fetchCurrencyContext();
+      const pipelineProspects = prospects
+        ?.filter(p => p.current_phase === 'Cotización' || p.current_phase === 'Negociación') || [];
+      const pipelineValue = pipelineProspects
+        .reduce((sum, p) => sum + toReportingAmount(p.estimated_value, p.estimated_value_currency, reportingCurrency, rates), 0);
+      const pipelineMissingRate = anyMissingRate(
+        pipelineProspects.map(p => ({ amount: p.estimated_value, currency: p.estimated_value_currency })),
+        reportingCurrency,
+        rates,
+      );
 
       // Conversion rate (Lead → Cotización)
       const leadCount = prospects?.filter(p => p.current_phase === 'Lead').length || 0;
@@ -169,6 +393,8 @@ export function useMetrics() {
         totalProspects,
         todayActivities,
         pipelineValue,
+        pipelineMissingRate,
+        reportingCurrency,
         conversionRate,
       };
     },
@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type TrashItem = Database['public']['Functions']['get_trash']['Returns'][number];
+export type TrashItemType = 'prospect' | 'activity';
+
+// Deleted prospects and activities, most recent first (managers only)
+export function useTrash() {
+  return useQuery({
+    queryKey: ['trash'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_trash');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+export function useRestoreTrashItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ itemType, id }: { itemType: TrashItemType; id: string }) => {
+      const { error } = await supabase.rpc('restore_deleted', {
+        p_item_type: itemType,
+        p_id: id,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['trash'] });
+      await queryClient.invalidateQueries({ queryKey: ['prospects'] });
+      await queryClient.invalidateQueries({ queryKey: ['activities'], refetchType: 'all' });
+      await queryClient.invalidateQueries({ queryKey: ['prospect-activities'], refetchType: 'all' });
+    },
+  });
+}
+
+// Permanently deletes what has been in the papelera longer than the given days
+export function usePurgeTrash() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (olderThanDays: number) => {
+      const { data, error } = await supabase.rpc('purge_deleted', {
+        p_older_than_days: olderThanDays,
+      });
+
+      if (error) throw error;
+      return data as number;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+    },
+  });
+}
@@ -19,48 +19,105 @@ export type Database = {
           activity_type: Database["public"]["Enums"]["activity_type"]
           assigned_to: string | null
           block_reason: string | null
+          cancel_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           completed_at: string | null
           completion_comment: string | null
+          contact_id: string | null
           created_at: string | null
           created_by: Database["public"]["Enums"]["created_by_type"] | null
           custom_type: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          duration_minutes: number | null
           id: string
+          location: string | null
           notes: string | null
           prospect_id: string | null
           scheduled_date: string
+          scheduled_time: string | null
+          series_id: string | null
+          selection_score: Json | null
           status: Database["public"]["Enums"]["activity_status"] | null
+          updated_at: string
         }
         Insert: {
           activity_type: Database["public"]["Enums"]["activity_type"]
           assigned_to?: string | null
           block_reason?: string | null
+          cancel_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           completed_at?: string | null
           completion_comment?: string | null
+          contact_id?: string | null
           created_at?: string | null
           created_by?: Database["public"]["Enums"]["created_by_type"] | null
           custom_type?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          duration_minutes?: number | null
           id?: string
+          location?: string | null
           notes?: string | null
           prospect_id?: string | null
           scheduled_date: string
+          scheduled_time?: string | null
+          series_id?: string | null
+          selection_score?: Json | null
           status?: Database["public"]["Enums"]["activity_status"] | null
+          updated_at?: string
         }
         Update: {
           activity_type?: Database["public"]["Enums"]["activity_type"]
           assigned_to?: string | null
           block_reason?: string | null
+          cancel_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           completed_at?: string | null
           completion_comment?: string | null
+          contact_id?: string | null
           created_at?: string | null
           created_by?: Database["public"]["Enums"]["created_by_type"] | null
           custom_type?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          duration_minutes?: number | null
           id?: string
+          location?: string | null
           notes?: string | null
           prospect_id?: string | null
           scheduled_date?: string
+          scheduled_time?: string | null
+          series_id?: string | null
+          selection_score?: Json | null
           status?: Database["public"]["Enums"]["activity_status"] | null
+          updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "activities_cancelled_by_fkey"
+            columns: ["cancelled_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activities_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activities_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "activities_prospect_id_fkey"
             columns: ["prospect_id"]
@@ -68,6 +125,13 @@ export type Database = {
             referencedRelation: "prospects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "activities_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "activity_series"
+            referencedColumns: ["id"]
+          },
         ]
       }
       activity_logs: {
@@ -106,71 +170,732 @@ export type Database = {
         }
         Relationships: []
       }
+      activity_series: {
+        Row: {
+          activity_type: Database["public"]["Enums"]["activity_type"]
+          assigned_to: string | null
+          contact_id: string | null
+          created_at: string
+          created_by: Database["public"]["Enums"]["created_by_type"] | null
+          custom_type: string | null
+          day_of_month: number | null
+          duration_minutes: number | null
+          end_date: string | null
+          frequency: string
+          id: string
+          interval_days: number | null
+          is_active: boolean
+          location: string | null
+          max_occurrences: number | null
+          notes: string | null
+          occurrence_count: number
+          prospect_id: string | null
+          scheduled_time: string | null
+          updated_at: string
+          weekdays: number[] | null
+        }
+        Insert: {
+          activity_type: Database["public"]["Enums"]["activity_type"]
+          assigned_to?: string | null
+          contact_id?: string | null
+          created_at?: string
+          created_by?: Database["public"]["Enums"]["created_by_type"] | null
+          custom_type?: string | null
+          day_of_month?: number | null
+          duration_minutes?: number | null
+          end_date?: string | null
+          frequency: string
+          id?: string
+          interval_days?: number | null
+          is_active?: boolean
+          location?: string | null
+          max_occurrences?: number | null
+          notes?: string | null
+          occurrence_count?: number
+          prospect_id?: string | null
+          scheduled_time?: string | null
+          updated_at?: string
+          weekdays?: number[] | null
+        }
+        Update: {
+          activity_type?: Database["public"]["Enums"]["activity_type"]
+          assigned_to?: string | null
+          contact_id?: string | null
+          created_at?: string
+          created_by?: Database["public"]["Enums"]["created_by_type"] | null
+          custom_type?: string | null
+          day_of_month?: number | null
+          duration_minutes?: number | null
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          interval_days?: number | null
+          is_active?: boolean
+          location?: string | null
+          max_occurrences?: number | null
+          notes?: string | null
+          occurrence_count?: number
+          prospect_id?: string | null
+          scheduled_time?: string | null
+          updated_at?: string
+          weekdays?: number[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "activity_series_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activity_series_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activity_series_prospect_id_fkey"
+            columns: ["prospect_id"]
+            isOneToOne: false
+            referencedRelation: "prospects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          changes: Json
+          id: string
+          operation: string
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          changes?: Json
+          id?: string
+          operation: string
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          changes?: Json
+          id?: string
+          operation?: string
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contacts: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          email: string | null
+          full_name: string
+          id: string
+          is_primary: boolean
+          notes: string | null
+          phone: string | null
+          prospect_id: string
+          role: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          full_name: string
+          id?: string
+          is_primary?: boolean
+          notes?: string | null
+          phone?: string | null
+          prospect_id: string
+          role?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          full_name?: string
+          id?: string
+          is_primary?: boolean
+          notes?: string | null
+          phone?: string | null
+          prospect_id?: string
+          role?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contacts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contacts_prospect_id_fkey"
+            columns: ["prospect_id"]
+            isOneToOne: false
+            referencedRelation: "prospects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      currency_settings: {
+        Row: {
+          id: string
+          reporting_currency: Database["public"]["Enums"]["currency_code"]
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: string
+          reporting_currency?: Database["public"]["Enums"]["currency_code"]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: string
+          reporting_currency?: Database["public"]["Enums"]["currency_code"]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "currency_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      daily_call_runs: {
+        Row: {
+          created_at: string | null
+          generated_count: number
+          run_date: string
+        }
+        Insert: {
+          created_at?: string | null
+          generated_count?: number
+          run_date: string
+        }
+        Update: {
+          created_at?: string | null
+          generated_count?: number
+          run_date?: string
+        }
+        Relationships: []
+      }
+      daily_call_settings: {
+        Row: {
+          active_days: number[]
+          calls_per_day: number
+          completed_cooldown_days: number
+          extra_phases: Database["public"]["Enums"]["phase_type"][]
+          id: string
+          pending_window_days: number
+          system_call_cooldown_days: number
+          updated_at: string | null
+          updated_by: string | null
+          user_id: string | null
+        }
+        Insert: {
+          active_days?: number[]
+          calls_per_day?: number
+          completed_cooldown_days?: number
+          extra_phases?: Database["public"]["Enums"]["phase_type"][]
+          id?: string
+          pending_window_days?: number
+          system_call_cooldown_days?: number
+          updated_at?: string | null
+          updated_by?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          active_days?: number[]
+          calls_per_day?: number
+          completed_cooldown_days?: number
+          extra_phases?: Database["public"]["Enums"]["phase_type"][]
+          id?: string
+          pending_window_days?: number
+          system_call_cooldown_days?: number
+          updated_at?: string | null
+          updated_by?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "daily_call_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "daily_call_settings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          crc_per_unit: number
+          created_at: string
+          created_by: string | null
+          currency: Database["public"]["Enums"]["currency_code"]
+          id: string
+          rate_date: string
+        }
+        Insert: {
+          crc_per_unit: number
+          created_at?: string
+          created_by?: string | null
+          currency: Database["public"]["Enums"]["currency_code"]
+          id?: string
+          rate_date: string
+        }
+        Update: {
+          crc_per_unit?: number
+          created_at?: string
+          created_by?: string | null
+          currency?: Database["public"]["Enums"]["currency_code"]
+          id?: string
+          rate_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      licitacion_bids: {
+        Row: {
+          competitor_name: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          is_own: boolean
+          is_winner: boolean
+          offered_amount: number | null
+          prospect_id: string
+        }
+        Insert: {
+          competitor_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_own?: boolean
+          is_winner?: boolean
+          offered_amount?: number | null
+          prospect_id: string
+        }
+        Update: {
+          competitor_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_own?: boolean
+          is_winner?: boolean
+          offered_amount?: number | null
+          prospect_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "licitacion_bids_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "licitacion_bids_prospect_id_fkey"
+            columns: ["prospect_id"]
+            isOneToOne: false
+            referencedRelation: "prospects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      licitacion_checklist_items: {
+        Row: {
+          completed_at: string | null
+          completed_by: string | null
+          created_at: string
+          days_before_cierre: number | null
+          due_date: string | null
+          id: string
+          item_key: string | null
+          label: string
+          owner_id: string | null
+          position: number
+          prospect_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          days_before_cierre?: number | null
+          due_date?: string | null
+          id?: string
+          item_key?: string | null
+          label: string
+          owner_id?: string | null
+          position?: number
+          prospect_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          days_before_cierre?: number | null
+          due_date?: string | null
+          id?: string
+          item_key?: string | null
+          label?: string
+          owner_id?: string | null
+          position?: number
+          prospect_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "licitacion_checklist_items_completed_by_fkey"
+            columns: ["completed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "licitacion_checklist_items_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "licitacion_checklist_items_prospect_id_fkey"
+            columns: ["prospect_id"]
+            isOneToOne: false
+            referencedRelation: "prospects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loss_reasons: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          label: string
+          position: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          label: string
+          position?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          label?: string
+          position?: number
+        }
+        Relationships: []
+      }
+      phase_playbook_steps: {
+        Row: {
+          activity_type: Database["public"]["Enums"]["activity_type"]
+          created_at: string
+          custom_type: string | null
+          day_offset: number
+          id: string
+          notes: string
+          phase: Database["public"]["Enums"]["phase_type"]
+          position: number
+          updated_by: string | null
+        }
+        Insert: {
+          activity_type: Database["public"]["Enums"]["activity_type"]
+          created_at?: string
+          custom_type?: string | null
+          day_offset?: number
+          id?: string
+          notes: string
+          phase: Database["public"]["Enums"]["phase_type"]
+          position?: number
+          updated_by?: string | null
+        }
+        Update: {
+          activity_type?: Database["public"]["Enums"]["activity_type"]
+          created_at?: string
+          custom_type?: string | null
+          day_offset?: number
+          id?: string
+          notes?: string
+          phase?: Database["public"]["Enums"]["phase_type"]
+          position?: number
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phase_playbook_steps_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phase_requirements: {
+        Row: {
+          activity_types: Database["public"]["Enums"]["activity_type"][] | null
+          created_at: string
+          id: string
+          phase: Database["public"]["Enums"]["phase_type"]
+          prior_phase: Database["public"]["Enums"]["phase_type"] | null
+          requirement_type: string
+        }
+        Insert: {
+          activity_types?: Database["public"]["Enums"]["activity_type"][] | null
+          created_at?: string
+          id?: string
+          phase: Database["public"]["Enums"]["phase_type"]
+          prior_phase?: Database["public"]["Enums"]["phase_type"] | null
+          requirement_type: string
+        }
+        Update: {
+          activity_types?: Database["public"]["Enums"]["activity_type"][] | null
+          created_at?: string
+          id?: string
+          phase?: Database["public"]["Enums"]["phase_type"]
+          prior_phase?: Database["public"]["Enums"]["phase_type"] | null
+          requirement_type?: string
+        }
+        Relationships: []
+      }
+      prospect_phase_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string | null
+          entered_at: string
+          exited_at: string | null
+          id: string
+          phase: Database["public"]["Enums"]["phase_type"]
+          previous_phase: Database["public"]["Enums"]["phase_type"] | null
+          prospect_id: string
+          reason: string | null
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string | null
+          entered_at?: string
+          exited_at?: string | null
+          id?: string
+          phase: Database["public"]["Enums"]["phase_type"]
+          previous_phase?: Database["public"]["Enums"]["phase_type"] | null
+          prospect_id: string
+          reason?: string | null
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string | null
+          entered_at?: string
+          exited_at?: string | null
+          id?: string
+          phase?: Database["public"]["Enums"]["phase_type"]
+          previous_phase?: Database["public"]["Enums"]["phase_type"] | null
+          prospect_id?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prospect_phase_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prospect_phase_history_prospect_id_fkey"
+            columns: ["prospect_id"]
+            isOneToOne: false
+            referencedRelation: "prospects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       prospects: {
         Row: {
           company_name: string | null
           contact_name: string | null
           created_at: string | null
           current_phase: Database["public"]["Enums"]["phase_type"] | null
+          deleted_at: string | null
+          deleted_by: string | null
           email: string | null
           estimated_value: number | null
+          estimated_value_currency: Database["public"]["Enums"]["currency_code"]
           id: string
           licitacion_categoria: string | null
+          licitacion_clasificacion: string | null
           licitacion_fecha_apertura: string | null
           licitacion_fecha_cierre: string | null
           licitacion_fecha_publicacion: string | null
           licitacion_institucion: string | null
+          licitacion_monto_adjudicado: number | null
+          licitacion_monto_currency: Database["public"]["Enums"]["currency_code"]
           licitacion_monto_estimado: number | null
           licitacion_numero: string | null
           licitacion_razon_resultado: string | null
+          loss_notes: string | null
+          loss_reason_id: string | null
           notes: string | null
+          owner_id: string | null
           phone: string | null
           prospect_type: string | null
           updated_at: string | null
+          win_notes: string | null
         }
         Insert: {
           company_name?: string | null
           contact_name?: string | null
           created_at?: string | null
           current_phase?: Database["public"]["Enums"]["phase_type"] | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           email?: string | null
           estimated_value?: number | null
+          estimated_value_currency?: Database["public"]["Enums"]["currency_code"]
           id?: string
           licitacion_categoria?: string | null
+          licitacion_clasificacion?: string | null
           licitacion_fecha_apertura?: string | null
           licitacion_fecha_cierre?: string | null
           licitacion_fecha_publicacion?: string | null
           licitacion_institucion?: string | null
+          licitacion_monto_adjudicado?: number | null
+          licitacion_monto_currency?: Database["public"]["Enums"]["currency_code"]
           licitacion_monto_estimado?: number | null
           licitacion_numero?: string | null
           licitacion_razon_resultado?: string | null
+          loss_notes?: string | null
+          loss_reason_id?: string | null
           notes?: string | null
+          owner_id?: string | null
           phone?: string | null
           prospect_type?: string | null
           updated_at?: string | null
+          win_notes?: string | null
         }
         Update: {
           company_name?: string | null
           contact_name?: string | null
           created_at?: string | null
           current_phase?: Database["public"]["Enums"]["phase_type"] | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           email?: string | null
           estimated_value?: number | null
+          estimated_value_currency?: Database["public"]["Enums"]["currency_code"]
           id?: string
           licitacion_categoria?: string | null
+          licitacion_clasificacion?: string | null
           licitacion_fecha_apertura?: string | null
           licitacion_fecha_cierre?: string | null
           licitacion_fecha_publicacion?: string | null
           licitacion_institucion?: string | null
+          licitacion_monto_adjudicado?: number | null
+          licitacion_monto_currency?: Database["public"]["Enums"]["currency_code"]
           licitacion_monto_estimado?: number | null
           licitacion_numero?: string | null
           licitacion_razon_resultado?: string | null
+          loss_notes?: string | null
+          loss_reason_id?: string | null
           notes?: string | null
+          owner_id?: string | null
           phone?: string | null
           prospect_type?: string | null
           updated_at?: string | null
+          win_notes?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "prospects_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prospects_loss_reason_id_fkey"
+            columns: ["loss_reason_id"]
+            isOneToOne: false
+            referencedRelation: "loss_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prospects_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_profiles: {
         Row: {
@@ -201,13 +926,102 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      get_prospects_for_daily_calls: {
+      activity_search_document: {
+        Args: { p_completion_comment: string; p_notes: string }
+        Returns: unknown
+      }
+      apply_phase_playbook: {
+        Args: {
+          p_phase?: Database["public"]["Enums"]["phase_type"]
+          p_prospect_id: string
+        }
+        Returns: number
+      }
+      change_prospect_phase: {
+        Args: {
+          p_apply_playbook?: boolean
+          p_bids?: Json
+          p_cancel_pending?: boolean
+          p_licitacion_categoria?: string
+          p_licitacion_razon_resultado?: string
+          p_loss_reason_id?: string
+          p_monto_adjudicado?: number
+          p_outcome_notes?: string
+          p_phase: Database["public"]["Enums"]["phase_type"]
+          p_prospect_id: string
+          p_reason?: string
+        }
+        Returns: number
+      }
+      convert_amount: {
+        Args: {
+          p_amount: number
+          p_date?: string
+          p_from: Database["public"]["Enums"]["currency_code"]
+          p_to?: Database["public"]["Enums"]["currency_code"]
+        }
+        Returns: number
+      }
+      crc_rate_on: {
+        Args: {
+          p_currency: Database["public"]["Enums"]["currency_code"]
+          p_date?: string
+        }
+        Returns: number
+      }
+      generate_daily_calls: { Args: { p_date?: string }; Returns: number }
+      get_daily_call_settings: {
+        Args: { p_user_id?: string }
+        Returns: {
+          active_days: number[]
+          calls_per_day: number
+          completed_cooldown_days: number
+          extra_phases: Database["public"]["Enums"]["phase_type"][]
+          id: string
+          pending_window_days: number
+          system_call_cooldown_days: number
+          updated_at: string | null
+          updated_by: string | null
+          user_id: string | null
+        }
+      }
+      get_phase_cycle_times: {
         Args: never
+        Returns: {
+          avg_days: number
+          phase: Database["public"]["Enums"]["phase_type"]
+          transitions: number
+        }[]
+      }
+      get_prospects_for_daily_calls: {
+        Args: { p_limit?: number; p_user_id?: string }
         Returns: {
           company_name: string
           id: string
+          owner_id: string
+          score: number
+          score_breakdown: Json
         }[]
       }
+      get_trash: {
+        Args: never
+        Returns: {
+          activity_count: number
+          deleted_at: string
+          deleted_by_name: string
+          detail: string
+          id: string
+          item_type: string
+          title: string
+        }[]
+      }
+      get_unmet_phase_requirements: {
+        Args: {
+          p_phase: Database["public"]["Enums"]["phase_type"]
+          p_prospect_id: string
+        }
+        Returns: string[]
+      }
       get_user_activity_stats: {
         Args: { p_user_id: string }
         Returns: {
@@ -218,10 +1032,125 @@ export type Database = {
           total_activities: number
         }[]
       }
+      is_failed_call_attempt: {
+        Args: { p_activity: Database["public"]["Tables"]["activities"]["Row"] }
+        Returns: boolean
+      }
       is_manager: { Args: never; Returns: boolean }
+      jsonb_row_diff: { Args: { p_new: Json; p_old: Json }; Returns: Json }
+      next_series_date: {
+        Args: {
+          p_after: string
+          p_series: Database["public"]["Tables"]["activity_series"]["Row"]
+        }
+        Returns: string
+      }
+      prospect_search_document: {
+        Args: {
+          p_company_name: string
+          p_contact_name: string
+          p_email: string
+          p_licitacion_institucion: string
+          p_licitacion_numero: string
+          p_notes: string
+        }
+        Returns: unknown
+      }
+      purge_deleted: { Args: { p_older_than_days?: number }; Returns: number }
+      reassign_prospect_owner: {
+        Args: {
+          p_from_user: string
+          p_include_activities?: boolean
+          p_to_user: string
+        }
+        Returns: number
+      }
+      restore_deleted: {
+        Args: { p_id: string; p_item_type: string }
+        Returns: undefined
+      }
+      rotate_calendar_feed_token: { Args: never; Returns: string }
+      save_licitacion_bids: {
+        Args: {
+          p_bids: Json
+          p_monto_adjudicado?: number
+          p_prospect_id: string
+        }
+        Returns: undefined
+      }
+      save_phase_playbook: {
+        Args: {
+          p_phase: Database["public"]["Enums"]["phase_type"]
+          p_steps: Json
+        }
+        Returns: undefined
+      }
+      search_activities: {
+        Args: { p_limit?: number; p_offset?: number; p_query: string }
+        Returns: {
+          activity_type: Database["public"]["Enums"]["activity_type"]
+          assigned_to: string
+          block_reason: string
+          cancel_reason: string
+          cancelled_at: string
+          cancelled_by: string
+          company_name: string
+          completed_at: string
+          completion_comment: string
+          contact_id: string
+          contact_name: string
+          created_at: string
+          created_by: Database["public"]["Enums"]["created_by_type"]
+          custom_type: string
+          duration_minutes: number
+          id: string
+          location: string
+          notes: string
+          prospect_id: string
+          rank: number
+          scheduled_date: string
+          scheduled_time: string
+          selection_score: Json
+          series_id: string
+          status: Database["public"]["Enums"]["activity_status"]
+          total_count: number
+          updated_at: string
+        }[]
+      }
+      search_prospects: {
+        Args: { p_limit?: number; p_offset?: number; p_query: string }
+        Returns: {
+          company_name: string
+          contact_name: string
+          current_phase: Database["public"]["Enums"]["phase_type"]
+          id: string
+          licitacion_numero: string
+          owner_id: string
+          prospect_type: string
+          rank: number
+          total_count: number
+        }[]
+      }
+      search_tsquery: { Args: { p_query: string }; Returns: unknown }
+      seed_licitacion_checklist: { Args: { p_prospect_id: string }; Returns: undefined }
+      soft_delete_activity: {
+        Args: { p_activity_id: string }
+        Returns: undefined
+      }
+      soft_delete_prospect: {
+        Args: { p_prospect_id: string }
+        Returns: undefined
+      }
+      unmet_phase_requirements: {
+        Args: {
+          p_phase: Database["public"]["Enums"]["phase_type"]
+          p_prospect: Database["public"]["Tables"]["prospects"]["Row"]
+        }
+        Returns: string[]
+      }
     }
     Enums: {
-      activity_status: "pending" | "completed" | "blocked"
+      activity_status: "pending" | "completed" | "blocked" | "cancelled"
       activity_type:
         | "Llamada"
         | "Correo"
@@ -233,6 +1162,7 @@ export type Database = {
         | "Otro"
         | "General"
       created_by_type: "system" | "salesperson" | "manager"
+      currency_code: "CRC" | "USD"
       phase_type:
         | "Prospección"
         | "Lead"
@@ -377,7 +1307,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      activity_status: ["pending", "completed", "blocked"],
+      activity_status: ["pending", "completed", "blocked", "cancelled"],
       activity_type: [
         "Llamada",
         "Correo",
@@ -390,6 +1320,7 @@ export const Constants = {
         "General",
       ],
       created_by_type: ["system", "salesperson", "manager"],
+      currency_code: ["CRC", "USD"],
       phase_type: [
         "Prospección",
         "Lead",
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { formatTime, formatTimeRange, minutesToTime, timeToMinutes } from '@/lib/activity-time';
+
+describe('activity times', () => {
+  it('converts between times and minutes since midnight', () => {
+    expect(timeToMinutes('14:30')).toBe(870);
+    expect(timeToMinutes('08:05:00')).toBe(485);
+    expect(timeToMinutes('09')).toBe(540);
+    expect(minutesToTime(870)).toBe('14:30');
+    expect(minutesToTime(65)).toBe('01:05');
+  });
+
+  it('drops the seconds and hides missing times', () => {
+    expect(formatTime('14:30:00')).toBe('14:30');
+    expect(formatTime(null)).toBe('');
+  });
+
+  it('shows the end time when there is a duration', () => {
+    expect(formatTimeRange('14:30:00', 90)).toBe('14:30 – 16:00');
+    expect(formatTimeRange('14:30', null)).toBe('14:30');
+    expect(formatTimeRange(undefined, 30)).toBe('');
+  });
+
+  it('keeps the end time within the same day', () => {
+    expect(formatTimeRange('23:00', 120)).toBe('23:00 – 23:59');
+  });
+});
@@ -0,0 +1,40 @@
+// Duration options for timed activities (minutes)
+export const DURATION_OPTIONS = [
+  { value: 15, label: '15 min' },
+  { value: 30, label: '30 min' },
+  { value: 45, label: '45 min' },
+  { value: 60, label: '1 h' },
+  { value: 90, label: '1 h 30 min' },
+  { value: 120, label: '2 h' },
+  { value: 180, label: '3 h' },
+  { value: 240, label: '4 h' },
+] as const;
+
+export const DEFAULT_DURATION_MINUTES = 30;
+
+// Helper: "14:30:00" -> "14:30"
+export function formatTime(time: string | null | undefined): string {
+  if (!time) return '';
+  return time.slice(0, 5);
+}
+
+// Helper: "14:30" / "14:30:00" -> minutes since midnight
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+// Helper: minutes since midnight -> "HH:MM"
+export function minutesToTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+// Helper: "14:30" + 90 -> "14:30 – 16:00"
+export function formatTimeRange(time: string | null | undefined, durationMinutes: number | null | undefined): string {
+  if (!time) return '';
+  if (!durationMinutes) return formatTime(time);
+  const end = timeToMinutes(time) + durationMinutes;
+  return `${formatTime(time)} – ${minutesToTime(Math.min(end, 24 * 60 - 1))}`;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { auditFieldLabel, formatAuditValue, isVisibleAuditField } from '@/lib/audit';
+
+// Intl separates groups with (narrow) no-break spaces
+const plain = (text: string) => text.replace(/[\u00a0\u202f]/g, ' ');
+
+describe('formatAuditValue', () => {
+  it('shows empty values as a dash', () => {
+    expect(formatAuditValue('notes', null)).toBe('—');
+    expect(formatAuditValue('notes', undefined)).toBe('—');
+    expect(formatAuditValue('notes', '')).toBe('—');
+  });
+
+  it('formats booleans, numbers and objects', () => {
+    expect(formatAuditValue('is_own', true)).toBe('Sí');
+    expect(formatAuditValue('is_own', false)).toBe('No');
+    expect(plain(formatAuditValue('estimated_value', 1_250_000.5))).toBe('1 250 000,5');
+    expect(formatAuditValue('tags', ['a', 'b'])).toBe('["a","b"]');
+  });
+
+  it('resolves users and loss reasons through the lookups', () => {
+    const lookups = { users: { u1: 'Ana Mora' }, lossReasons: { r1: 'Precio' } };
+
+    expect(formatAuditValue('owner_id', 'u1', lookups)).toBe('Ana Mora');
+    expect(formatAuditValue('cancelled_by', 'u2', lookups)).toBe('Otro usuario');
+    expect(formatAuditValue('loss_reason_id', 'r1', lookups)).toBe('Precio');
+    expect(formatAuditValue('loss_reason_id', 'r9', lookups)).toBe('Razón eliminada');
+    expect(formatAuditValue('contact_id', '3f2a9c1e-0000-4000-8000-000000000000')).toBe('cambiado');
+  });
+
+  it('labels activity statuses', () => {
+    expect(formatAuditValue('status', 'cancelled')).toBe('Cancelada');
+    expect(formatAuditValue('status', 'archived')).toBe('archived');
+  });
+
+  it('formats dates, timestamps and times', () => {
+    expect(formatAuditValue('scheduled_date', '2026-03-05')).toBe('05 mar 2026');
+    expect(formatAuditValue('deleted_at', '2026-03-05T14:30:00')).toBe('05 mar 2026 14:30');
+    expect(formatAuditValue('scheduled_time', '09:15:00')).toBe('09:15');
+    expect(formatAuditValue('company_name', 'Textiles del Sur')).toBe('Textiles del Sur');
+  });
+});
+
+describe('audit fields', () => {
+  it('hides bookkeeping columns', () => {
+    expect(isVisibleAuditField('updated_at')).toBe(false);
+    expect(isVisibleAuditField('selection_score')).toBe(false);
+    expect(isVisibleAuditField('current_phase')).toBe(true);
+  });
+
+  it('labels columns per table, falling back to the column name', () => {
+    expect(auditFieldLabel('prospects', 'deleted_by')).toBe('Eliminado por');
+    expect(auditFieldLabel('activities', 'deleted_by')).toBe('Eliminada por');
+    expect(auditFieldLabel('activities', 'new_column')).toBe('new_column');
+  });
+});
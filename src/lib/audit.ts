@@ -0,0 +1,107 @@
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { Json } from '@/integrations/supabase/types';
+
+export type AuditTable = 'prospects' | 'activities';
+export type AuditOperation = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// { column: { old, new } } as written by audit_row_change
+export type AuditChanges = Record<string, { old: Json | null; new: Json | null }>;
+
+export const AUDIT_OPERATION_LABELS: Record<AuditOperation, string> = {
+  INSERT: 'Creó el registro',
+  UPDATE: 'Modificó',
+  DELETE: 'Eliminó el registro',
+};
+
+export const AUDIT_FIELD_LABELS: Record<AuditTable, Record<string, string>> = {
+  prospects: {
+    company_name: 'Empresa',
+    contact_name: 'Contacto',
+    phone: 'Teléfono',
+    email: 'Correo',
+    current_phase: 'Fase',
+    estimated_value: 'Valor estimado',
+    estimated_value_currency: 'Moneda del valor',
+    notes: 'Notas',
+    owner_id: 'Responsable',
+    prospect_type: 'Tipo',
+    licitacion_numero: 'Nº de licitación',
+    licitacion_institucion: 'Institución',
+    licitacion_clasificacion: 'Clasificación',
+    licitacion_fecha_publicacion: 'Fecha de publicación',
+    licitacion_fecha_apertura: 'Fecha de apertura',
+    licitacion_fecha_cierre: 'Fecha de cierre',
+    licitacion_monto_estimado: 'Monto estimado',
+    licitacion_monto_currency: 'Moneda del monto',
+    licitacion_monto_adjudicado: 'Monto adjudicado',
+    licitacion_categoria: 'Razón de adjudicación',
+    licitacion_razon_resultado: 'Detalle del resultado',
+    loss_reason_id: 'Razón de pérdida',
+    loss_notes: 'Detalle de la pérdida',
+    win_notes: 'Por qué ganamos',
+    deleted_at: 'En papelera desde',
+    deleted_by: 'Eliminado por',
+  },
+  activities: {
+    activity_type: 'Tipo',
+    custom_type: 'Tipo personalizado',
+    scheduled_date: 'Fecha',
+    scheduled_time: 'Hora',
+    duration_minutes: 'Duración (min)',
+    location: 'Lugar',
+    assigned_to: 'Asignada a',
+    prospect_id: 'Prospecto',
+    contact_id: 'Contacto',
+    notes: 'Descripción',
+    status: 'Estado',
+    completion_comment: 'Comentario',
+    completed_at: 'Completada',
+    block_reason: 'Razón del bloqueo',
+    cancel_reason: 'Razón de cancelación',
+    cancelled_at: 'Cancelada',
+    cancelled_by: 'Cancelada por',
+    series_id: 'Serie',
+    deleted_at: 'En papelera desde',
+    deleted_by: 'Eliminada por',
+  },
+};
+
+// Bookkeeping columns that are never worth showing
+const HIDDEN_FIELDS = ['id', 'created_at', 'updated_at', 'created_by', 'selection_score'];
+
+export const isVisibleAuditField = (field: string) => !HIDDEN_FIELDS.includes(field);
+
+export const auditFieldLabel = (table: AuditTable, field: string) =>
+  AUDIT_FIELD_LABELS[table][field] ?? field;
+
+const USER_FIELDS = ['owner_id', 'assigned_to', 'cancelled_by', 'deleted_by'];
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pendiente',
+  completed: 'Completada',
+  blocked: 'Bloqueada',
+  cancelled: 'Cancelada',
+};
+
+export interface AuditLookups {
+  users?: Record<string, string>;
+  lossReasons?: Record<string, string>;
+}
+
+// Readable value of a column; ids resolve to names when a lookup is given
+export function formatAuditValue(field: string, value: Json | null | undefined, lookups: AuditLookups = {}): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (typeof value === 'number') return value.toLocaleString('es-CR');
+  if (typeof value !== 'string') return JSON.stringify(value);
+
+  if (USER_FIELDS.includes(field)) return lookups.users?.[value] ?? 'Otro usuario';
+  if (field === 'loss_reason_id') return lookups.lossReasons?.[value] ?? 'Razón eliminada';
+  if (field === 'status') return STATUS_LABELS[value] ?? value;
+  if (field.endsWith('_id')) return 'cambiado';
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return format(new Date(value + 'T12:00:00'), 'dd MMM yyyy', { locale: es });
+  if (/^\d{4}-\d{2}-\d{2}T/.test(value)) return format(new Date(value), "dd MMM yyyy HH:mm", { locale: es });
+  if (field === 'scheduled_time') return value.slice(0, 5);
+  return value;
+}
@@ -0,0 +1,15 @@
+// Contact roles (contacts.role)
+export const CONTACT_ROLES = [
+  { value: 'compras', label: 'Compras' },
+  { value: 'tecnico', label: 'Técnico' },
+  { value: 'facturacion', label: 'Facturación' },
+  { value: 'gerencia', label: 'Gerencia' },
+  { value: 'otro', label: 'Otro' },
+] as const;
+
+export type ContactRole = typeof CONTACT_ROLES[number]['value'];
+
+// Helper: display label for a contact role
+export function getContactRoleLabel(role: string | null | undefined): string {
+  return CONTACT_ROLES.find(r => r.value === role)?.label || 'Otro';
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  anyMissingRate,
+  convertAmount,
+  crcRateOn,
+  formatCompactMoney,
+  formatMoney,
+  parseCurrency,
+  toReportingAmount,
+  type ExchangeRate,
+} from '@/lib/currency';
+
+const rate = (rate_date: string, crc_per_unit: number): ExchangeRate => ({
+  id: rate_date,
+  currency: 'USD',
+  rate_date,
+  crc_per_unit,
+  created_at: `${rate_date}T12:00:00Z`,
+  created_by: null,
+});
+
+// Stored newest first, as fetchCurrencyContext returns them
+const RATES = [rate('2026-03-01', 500), rate('2026-02-01', 510), rate('2026-01-01', 520)];
+
+// Intl separates groups and symbols with (narrow) no-break spaces
+const plain = (text: string) => text.replace(/[\u00a0\u202f]/g, ' ');
+
+describe('crcRateOn', () => {
+  it('uses the latest rate on or before the date', () => {
+    expect(crcRateOn(RATES, 'USD', '2026-02-15')).toBe(510);
+    expect(crcRateOn(RATES, 'USD', '2026-03-01')).toBe(500);
+    expect(crcRateOn(RATES, 'USD', '2027-01-01')).toBe(500);
+  });
+
+  it('falls back to the oldest rate for earlier dates', () => {
+    expect(crcRateOn(RATES, 'USD', '2025-06-30')).toBe(520);
+  });
+
+  it('is 1 for colones and null without rates', () => {
+    expect(crcRateOn([], 'CRC')).toBe(1);
+    expect(crcRateOn([], 'USD', '2026-03-01')).toBeNull();
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts between colones and dollars both ways', () => {
+    expect(convertAmount(1_000_000, 'CRC', 'USD', RATES, '2026-03-10')).toBe(2000);
+    expect(convertAmount(2000, 'USD', 'CRC', RATES, '2026-03-10')).toBe(1_000_000);
+    expect(convertAmount(100, 'USD', 'CRC', RATES, '2026-01-20')).toBe(52_000);
+  });
+
+  it('returns the amount unchanged for the same currency, even without rates', () => {
+    expect(convertAmount(123.45, 'USD', 'USD', [])).toBe(123.45);
+  });
+
+  it('returns null when a rate is missing', () => {
+    expect(convertAmount(1000, 'CRC', 'USD', [])).toBeNull();
+    expect(convertAmount(1000, 'USD', 'CRC', [])).toBeNull();
+  });
+});
+
+describe('toReportingAmount', () => {
+  it('converts to the reporting currency', () => {
+    expect(toReportingAmount(1_000_000, 'CRC', 'USD', RATES)).toBe(2000);
+    expect(toReportingAmount(2000, 'USD', 'CRC', RATES)).toBe(1_000_000);
+  });
+
+  it('counts null amounts and missing rates as 0', () => {
+    expect(toReportingAmount(null, 'CRC', 'USD', RATES)).toBe(0);
+    expect(toReportingAmount(undefined, 'USD', 'USD', RATES)).toBe(0);
+    expect(toReportingAmount(1000, 'USD', 'CRC', [])).toBe(0);
+  });
+
+  it('treats amounts without currency as already in the reporting currency', () => {
+    expect(toReportingAmount(750, null, 'CRC', [])).toBe(750);
+  });
+});
+
+describe('anyMissingRate', () => {
+  it('flags totals that leave out amounts in a currency without rates', () => {
+    const amounts = [{ amount: 500, currency: 'USD' as const }, { amount: 1000, currency: 'CRC' as const }];
+    expect(anyMissingRate(amounts, 'USD', [])).toBe(true);
+    expect(anyMissingRate(amounts, 'USD', RATES)).toBe(false);
+  });
+
+  it('ignores empty amounts, amounts without currency and the reporting currency', () => {
+    expect(anyMissingRate([
+      { amount: null, currency: 'CRC' },
+      { amount: 0, currency: 'CRC' },
+      { amount: 750, currency: null },
+      { amount: 750, currency: 'USD' },
+    ], 'USD', [])).toBe(false);
+  });
+});
+
+describe('formatting', () => {
+  it('formats whole amounts with the currency symbol', () => {
+    expect(plain(formatMoney(1_500_000.6, 'CRC'))).toBe('₡1 500 001');
+    expect(plain(formatMoney(12_000, 'USD'))).toBe('$12 000');
+    expect(plain(formatMoney(null, 'USD'))).toBe('$0');
+  });
+
+  it('abbreviates thousands and millions and hides zero', () => {
+    expect(formatCompactMoney(12_000_000, 'CRC')).toBe('₡12M');
+    expect(formatCompactMoney(350_000, 'USD')).toBe('$350K');
+    expect(formatCompactMoney(null, 'USD')).toBe('');
+    expect(formatCompactMoney(0, 'CRC')).toBe('');
+  });
+});
+
+describe('parseCurrency', () => {
+  it('recognizes codes, names and symbols from import files', () => {
+    expect(parseCurrency('Colones')).toBe('CRC');
+    expect(parseCurrency('₡')).toBe('CRC');
+    expect(parseCurrency('Dólares')).toBe('USD');
+    expect(parseCurrency('U.S.$')).toBe('USD');
+    expect(parseCurrency(' usd ')).toBe('USD');
+  });
+
+  it('returns null for empty or unknown currencies', () => {
+    expect(parseCurrency('')).toBeNull();
+    expect(parseCurrency(null)).toBeNull();
+    expect(parseCurrency('EUR')).toBeNull();
+  });
+});
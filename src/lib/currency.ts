@@ -0,0 +1,109 @@
+// Currencies, exchange-rate conversion and money formatting.
+// Rates are stored as colones per unit of the foreign currency (CRC is always 1),
+// mirroring crc_rate_on / convert_amount in the database.
+
+import { format } from 'date-fns';
+import { Constants, Database } from '@/integrations/supabase/types';
+
+export type CurrencyCode = Database['public']['Enums']['currency_code'];
+export type ExchangeRate = Database['public']['Tables']['exchange_rates']['Row'];
+
+export const CURRENCY_CODES = Constants.public.Enums.currency_code;
+
+export const CURRENCY_LABELS: Record<CurrencyCode, string> = {
+  CRC: 'Colones (₡)',
+  USD: 'Dólares ($)',
+};
+
+export const CURRENCY_SYMBOLS: Record<CurrencyCode, string> = {
+  CRC: '₡',
+  USD: '$',
+};
+
+// Column defaults for prospects
+export const DEFAULT_VALUE_CURRENCY: CurrencyCode = 'USD';
+export const DEFAULT_LICITACION_CURRENCY: CurrencyCode = 'CRC';
+
+// "₡1.500.000" / "$12.000", no decimals
+export function formatMoney(value: number | null | undefined, currency: CurrencyCode): string {
+  return new Intl.NumberFormat('es-CR', {
+    style: 'currency',
+    currency,
+    currencyDisplay: 'narrowSymbol',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value || 0);
+}
+
+// "₡12M" / "$350K" for cards; empty for zero
+export function formatCompactMoney(value: number | null | undefined, currency: CurrencyCode): string {
+  if (!value) return '';
+  const symbol = CURRENCY_SYMBOLS[currency];
+  if (value >= 1_000_000) {
+    return `${symbol}${(value / 1_000_000).toFixed(0)}M`;
+  }
+  if (value >= 1_000) {
+    return `${symbol}${(value / 1_000).toFixed(0)}K`;
+  }
+  return `${symbol}${value.toLocaleString()}`;
+}
+
+// "USD", "dólares", "$", "₡", "colones"... as found in import files
+export function parseCurrency(value: string | null | undefined): CurrencyCode | null {
+  const normalized = (value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\./g, '').trim();
+  if (!normalized) return null;
+  if (['crc', 'colones', 'colon', '₡'].includes(normalized)) return 'CRC';
+  if (['usd', 'dolares', 'dolar', '$', 'us$'].includes(normalized)) return 'USD';
+  return null;
+}
+
+// Colones per unit on the date: latest rate on or before it, else the oldest one
+export function crcRateOn(rates: ExchangeRate[], currency: CurrencyCode, date?: string): number | null {
+  if (currency === 'CRC') return 1;
+  const day = date || format(new Date(), 'yyyy-MM-dd');
+  const forCurrency = rates
+    .filter(r => r.currency === currency)
+    .sort((a, b) => a.rate_date.localeCompare(b.rate_date));
+  if (forCurrency.length === 0) return null;
+  const onOrBefore = forCurrency.filter(r => r.rate_date <= day);
+  return (onOrBefore[onOrBefore.length - 1] ?? forCurrency[0]).crc_per_unit;
+}
+
+// null when a rate is missing
+export function convertAmount(
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  rates: ExchangeRate[],
+  date?: string,
+): number | null {
+  if (from === to) return amount;
+  const fromRate = crcRateOn(rates, from, date);
+  const toRate = crcRateOn(rates, to, date);
+  if (fromRate === null || toRate === null) return null;
+  return (amount * fromRate) / toRate;
+}
+
+// Amount for totals in the reporting currency: null amounts count as 0, and so do
+// amounts in a currency without any rate (flag those totals with anyMissingRate)
+export function toReportingAmount(
+  amount: number | null | undefined,
+  currency: CurrencyCode | null | undefined,
+  reportingCurrency: CurrencyCode,
+  rates: ExchangeRate[],
+): number {
+  if (!amount) return 0;
+  return convertAmount(amount, currency ?? reportingCurrency, reportingCurrency, rates) ?? 0;
+}
+
+// Whether a total in the reporting currency leaves out some of these amounts
+// because their currency has no rate
+export function anyMissingRate(
+  amounts: { amount: number | null | undefined; currency: CurrencyCode | null | undefined }[],
+  reportingCurrency: CurrencyCode,
+  rates: ExchangeRate[],
+): boolean {
+  return amounts.some(({ amount, currency }) =>
+    !!amount && !!currency && convertAmount(1, currency, reportingCurrency, rates) === null
+  );
+}
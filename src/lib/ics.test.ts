@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { buildIcsCalendar, getActivityUid, ICS_TIMEZONE, type IcsActivity } from '@/lib/ics';
+
+const activity = (overrides: Partial<IcsActivity> = {}): IcsActivity => ({
+  id: 'a1',
+  activity_type: 'Llamada',
+  scheduled_date: '2026-03-10',
+  updated_at: '2026-03-01T15:00:00Z',
+  prospects: { company_name: 'Textiles del Sur', contact_name: 'Ana Mora' },
+  ...overrides,
+});
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+// Logical (unfolded) lines of the only event in the calendar
+const eventLines = (a: IcsActivity) => {
+  const lines = unfold(buildIcsCalendar([a])).split('\r\n');
+  return lines.slice(lines.indexOf('BEGIN:VEVENT'), lines.indexOf('END:VEVENT') + 1);
+};
+
+describe('buildIcsCalendar', () => {
+  it('wraps events in a calendar with CRLF line endings', () => {
+    const ics = buildIcsCalendar([activity()]);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+    expect(ics).toContain(`TZID:${ICS_TIMEZONE}`);
+  });
+
+  it('exports an activity without time as an all-day event', () => {
+    const lines = eventLines(activity({ scheduled_date: '2026-03-31' }));
+
+    expect(lines).toContain(`UID:${getActivityUid('a1')}`);
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260331');
+    expect(lines).toContain('DTEND;VALUE=DATE:20260401');
+    expect(lines).toContain('SUMMARY:Llamada: Textiles del Sur');
+  });
+
+  it('exports a timed activity with its duration', () => {
+    const lines = eventLines(activity({ scheduled_time: '14:30:00', duration_minutes: 90 }));
+
+    expect(lines).toContain(`DTSTART;TZID=${ICS_TIMEZONE}:20260310T143000`);
+    expect(lines).toContain(`DTEND;TZID=${ICS_TIMEZONE}:20260310T160000`);
+  });
+
+  it('uses the default duration and rolls past midnight into the next day', () => {
+    expect(eventLines(activity({ scheduled_time: '09:00' })))
+      .toContain(`DTEND;TZID=${ICS_TIMEZONE}:20260310T093000`);
+
+    expect(eventLines(activity({ scheduled_time: '23:30', duration_minutes: 60 })))
+      .toContain(`DTEND;TZID=${ICS_TIMEZONE}:20260311T003000`);
+  });
+
+  it('escapes commas, semicolons, backslashes and newlines in text', () => {
+    const lines = eventLines(activity({
+      custom_type: 'Demo; parte 1',
+      prospects: { company_name: 'Uniformes, S.A.', contact_name: '' },
+      notes: 'Llevar muestras\nRuta C:\\pedidos',
+    }));
+
+    expect(lines).toContain('SUMMARY:Demo\\; parte 1: Uniformes\\, S.A.');
+    expect(lines).toContain('DESCRIPTION:Llevar muestras\\nRuta C:\\\\pedidos');
+  });
+
+  it('labels activities without prospect as general tasks and only locates visits', () => {
+    expect(eventLines(activity({ prospects: null }))).toContain('SUMMARY:Llamada: Tarea general');
+    expect(eventLines(activity()).some(l => l.startsWith('LOCATION:'))).toBe(false);
+    expect(eventLines(activity({ activity_type: 'Visita' }))).toContain('LOCATION:Textiles del Sur');
+    expect(eventLines(activity({ activity_type: 'Visita', location: 'Bodega central' })))
+      .toContain('LOCATION:Bodega central');
+  });
+
+  it('folds lines longer than 75 octets without splitting characters', () => {
+    const notes = 'Revisión de tallas y cotización de camisas bordadas — ñandú '.repeat(6);
+    const ics = buildIcsCalendar([activity({ notes })]);
+    const encoder = new TextEncoder();
+
+    for (const line of ics.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(ics).toContain('\r\n ');
+    expect(unfold(ics)).toContain(`DESCRIPTION:Contacto: Ana Mora\\n${notes}`);
+  });
+});
@@ -0,0 +1,157 @@
+// iCalendar (RFC 5545) helpers for exporting activities.
+// supabase/functions/calendar-feed builds the same events for the subscribable
+// feed; keep both in sync so an exported file and the feed share UIDs.
+
+import { DEFAULT_DURATION_MINUTES, formatTime, minutesToTime, timeToMinutes } from '@/lib/activity-time';
+
+// Costa Rica has no daylight saving time, so a fixed VTIMEZONE is enough
+export const ICS_TIMEZONE = 'America/Costa_Rica';
+
+export interface IcsActivity {
+  id: string;
+  activity_type: string;
+  custom_type?: string | null;
+  scheduled_date: string;
+  scheduled_time?: string | null;
+  duration_minutes?: number | null;
+  notes?: string | null;
+  location?: string | null;
+  updated_at?: string | null;
+  prospects: { company_name: string; contact_name: string } | null;
+}
+
+// Stable per activity: calendars update the existing event when it is rescheduled
+export function getActivityUid(activityId: string): string {
+  return `activity-${activityId}@crm`;
+}
+
+// Escape TEXT values (RFC 5545 §3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded with CRLF + space
+const encoder = new TextEncoder();
+
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    if (currentBytes + charBytes > 73) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function toIcsDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function toIcsDateTime(date: string, time: string): string {
+  return `${toIcsDate(date)}T${formatTime(time).replace(':', '')}00`;
+}
+
+function toIcsUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function addDaysToDate(date: string, days: number): string {
+  const d = new Date(date + 'T12:00:00Z');
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function buildEvent(activity: IcsActivity, now: Date): string[] {
+  const type = activity.custom_type || activity.activity_type;
+  const company = activity.prospects?.company_name || 'Tarea general';
+  const lastModified = activity.updated_at ? new Date(activity.updated_at) : now;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getActivityUid(activity.id)}`,
+    `DTSTAMP:${toIcsUtc(now)}`,
+    `LAST-MODIFIED:${toIcsUtc(lastModified)}`,
+    `SEQUENCE:${Math.floor(lastModified.getTime() / 1000)}`,
+    `SUMMARY:${escapeText(`${type}: ${company}`)}`,
+  ];
+
+  if (activity.scheduled_time) {
+    const start = timeToMinutes(activity.scheduled_time);
+    const end = start + (activity.duration_minutes || DEFAULT_DURATION_MINUTES);
+    const endDate = end >= 24 * 60 ? addDaysToDate(activity.scheduled_date, 1) : activity.scheduled_date;
+    lines.push(
+      `DTSTART;TZID=${ICS_TIMEZONE}:${toIcsDateTime(activity.scheduled_date, activity.scheduled_time)}`,
+      `DTEND;TZID=${ICS_TIMEZONE}:${toIcsDateTime(endDate, minutesToTime(end % (24 * 60)))}`,
+    );
+  } else {
+    lines.push(
+      `DTSTART;VALUE=DATE:${toIcsDate(activity.scheduled_date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(addDaysToDate(activity.scheduled_date, 1))}`,
+    );
+  }
+
+  const description = [
+    activity.prospects?.contact_name ? `Contacto: ${activity.prospects.contact_name}` : null,
+    activity.notes,
+  ].filter(Boolean).join('\n');
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+
+  if (activity.activity_type === 'Visita') {
+    const location = activity.location || activity.prospects?.company_name;
+    if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function buildIcsCalendar(activities: IcsActivity[], calendarName = 'CRM - Actividades'): string {
+  const now = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CRM//Actividades//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${ICS_TIMEZONE}`,
+    'BEGIN:VTIMEZONE',
+    `TZID:${ICS_TIMEZONE}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    'TZOFFSETFROM:-0600',
+    'TZOFFSETTO:-0600',
+    'TZNAME:CST',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+    ...activities.flatMap(activity => buildEvent(activity, now)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Triggers a browser download of the .ics file
+export function downloadIcsFile(activities: IcsActivity[], filename: string): void {
+  const blob = new Blob([buildIcsCalendar(activities)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OWN_BID_KEY,
+  bidsToForm,
+  buildCompetitorStats,
+  buildInstitutionLosses,
+  emptyBidsForm,
+  formToBids,
+  type AdjudicatedLicitacion,
+  type BidInput,
+  type BidsForm,
+} from '@/lib/licitacion-bids';
+
+const form = (overrides: Partial<BidsForm>): BidsForm => ({
+  ...emptyBidsForm(false),
+  ...overrides,
+});
+
+const competitor = (key: string, name: string, amount: string) => ({ key, name, amount });
+
+const bid = (competitor_name: string | null, offered_amount: number | null, is_winner = false): BidInput => ({
+  competitor_name,
+  is_own: competitor_name === null,
+  offered_amount,
+  is_winner,
+});
+
+describe('formToBids', () => {
+  it('marks the chosen winner and takes its offer as the awarded amount', () => {
+    const result = formToBids(form({
+      ownAmount: '12.500.000',
+      competitors: [competitor('a', 'Suministros Beta', '11 900 000'), competitor('b', 'Gamma S.A.', '13000000')],
+      winnerKey: 'a',
+    }));
+
+    expect(result).toEqual({
+      bids: [
+        bid(null, 12_500_000),
+        bid('Suministros Beta', 11_900_000, true),
+        bid('Gamma S.A.', 13_000_000),
+      ],
+      montoAdjudicado: 11_900_000,
+    });
+  });
+
+  it('keeps an explicit awarded amount over the winner offer', () => {
+    const result = formToBids(form({
+      ownAmount: '1000',
+      winnerKey: OWN_BID_KEY,
+      montoAdjudicado: '950,50',
+    }));
+
+    expect(result).toEqual({ bids: [bid(null, 1000, true)], montoAdjudicado: 950.5 });
+  });
+
+  it('records our bid as the winner even without an amount', () => {
+    expect(formToBids(emptyBidsForm(true))).toEqual({
+      bids: [bid(null, null, true)],
+      montoAdjudicado: null,
+    });
+  });
+
+  it('leaves the awarded amount empty when the winner is unknown', () => {
+    const result = formToBids(form({
+      competitors: [competitor('a', 'Suministros Beta', '900'), competitor('b', '', '')],
+    }));
+
+    expect(result).toEqual({ bids: [bid('Suministros Beta', 900)], montoAdjudicado: null });
+  });
+
+  it('rejects invalid amounts, unnamed and repeated competitors', () => {
+    expect(formToBids(form({ ownAmount: '-5' }))).toEqual({ error: 'Los montos deben ser números positivos.' });
+    expect(formToBids(form({ montoAdjudicado: 'abc' }))).toEqual({ error: 'Los montos deben ser números positivos.' });
+    expect(formToBids(form({ competitors: [competitor('a', ' ', '100')] })))
+      .toEqual({ error: 'Indica el nombre de cada competidor.' });
+    expect(formToBids(form({
+      competitors: [competitor('a', 'Suministros Beta S.A.', ''), competitor('b', 'suministros beta', '')],
+    }))).toEqual({ error: 'Hay competidores repetidos.' });
+  });
+});
+
+describe('bidsToForm', () => {
+  const stored = [bid(null, 1000), bid('Suministros Beta', 900, true), bid('Gamma', null)];
+
+  it('selects the winning competitor of a lost licitación', () => {
+    const result = bidsToForm(stored, 900, false);
+
+    expect(result.ownAmount).toBe('1000');
+    expect(result.montoAdjudicado).toBe('900');
+    expect(result.competitors.map(c => [c.name, c.amount])).toEqual([['Suministros Beta', '900'], ['Gamma', '']]);
+    expect(result.winnerKey).toBe(result.competitors[0].key);
+  });
+
+  it('lets the phase decide that we won', () => {
+    expect(bidsToForm(stored, null, true)).toMatchObject({ winnerKey: OWN_BID_KEY, montoAdjudicado: '' });
+  });
+
+  it('round-trips through formToBids', () => {
+    expect(formToBids(bidsToForm(stored, 900, false))).toEqual({ bids: stored, montoAdjudicado: 900 });
+  });
+});
+
+describe('competitor report', () => {
+  const licitacion = (
+    current_phase: string,
+    licitacion_bids: BidInput[],
+    overrides: Partial<AdjudicatedLicitacion> = {},
+  ): AdjudicatedLicitacion => ({
+    id: current_phase,
+    company_name: 'CCSS',
+    current_phase,
+    licitacion_institucion: 'CCSS',
+    licitacion_categoria: null,
+    licitacion_bids,
+    ...overrides,
+  });
+
+  it('counts encounters, wins and losses per competitor with the average price gap', () => {
+    const stats = buildCompetitorStats([
+      licitacion('Adjudicada Ganada', [bid(null, 900, true), bid('Suministros Beta', 1000)]),
+      licitacion('Adjudicada Perdida', [bid(null, 1100), bid('Suministros Beta', 1000, true), bid('Gamma', 1050)]),
+      licitacion('Adjudicada Perdida', [bid(null, null), bid('suministros  beta s.a.', 800), bid('Delta', 700, true)]),
+    ]);
+
+    expect(stats[0]).toEqual({
+      name: 'Suministros Beta',
+      encounters: 3,
+      wins: 1,
+      losses: 1,
+      otherLosses: 1,
+      winRate: 1 / 3,
+      avgPriceGap: 0,
+    });
+    expect(stats.slice(1).map(s => s.name)).toEqual(['Delta', 'Gamma']);
+    expect(stats[2].avgPriceGap).toBeCloseTo(50 / 1050);
+  });
+
+  it('splits lost licitaciones per institution by the adjudication reason', () => {
+    const losses = buildInstitutionLosses([
+      licitacion('Adjudicada Ganada', []),
+      licitacion('Adjudicada Perdida', [], { licitacion_categoria: 'precio' }),
+      licitacion('Adjudicada Perdida', [], { licitacion_categoria: 'calificacion_tecnica' }),
+      licitacion('Adjudicada Perdida', [], { licitacion_institucion: ' ', licitacion_categoria: 'otro' }),
+    ]);
+
+    expect(losses).toEqual([
+      { institucion: 'CCSS', total: 3, won: 1, lost: 2, precio: 1, tecnica: 1, otros: 0 },
+      { institucion: 'Sin institución', total: 1, won: 0, lost: 1, precio: 0, tecnica: 0, otros: 1 },
+    ]);
+  });
+});
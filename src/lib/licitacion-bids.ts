@@ -0,0 +1,200 @@
+// Bids recorded at adjudication and the competitor report built from them.
+
+import { normalizeCompany, parseImportNumber } from '@/lib/prospect-import';
+
+export interface BidInput {
+  competitor_name: string | null;
+  is_own: boolean;
+  offered_amount: number | null;
+  is_winner: boolean;
+}
+
+// ── Adjudication form ──
+
+export const OWN_BID_KEY = 'own';
+
+export interface CompetitorBidForm {
+  key: string;
+  name: string;
+  amount: string;
+}
+
+export interface BidsForm {
+  ownAmount: string;
+  competitors: CompetitorBidForm[];
+  // OWN_BID_KEY, a competitor key, or null when the winner is unknown
+  winnerKey: string | null;
+  montoAdjudicado: string;
+}
+
+let nextKey = 0;
+export const newBidKey = () => `bid-${nextKey++}`;
+
+export const emptyBidsForm = (won: boolean): BidsForm => ({
+  ownAmount: '',
+  competitors: [],
+  winnerKey: won ? OWN_BID_KEY : null,
+  montoAdjudicado: '',
+});
+
+export function bidsToForm(bids: BidInput[], montoAdjudicado: number | null, won: boolean): BidsForm {
+  const own = bids.find(b => b.is_own);
+  let winnerKey: string | null = won ? OWN_BID_KEY : null;
+  const competitors = bids
+    .filter(b => !b.is_own)
+    .map(b => {
+      const key = newBidKey();
+      // The phase decides whether we won, whatever was stored before
+      if (!won && b.is_winner) winnerKey = key;
+      return {
+        key,
+        name: b.competitor_name || '',
+        amount: b.offered_amount !== null ? String(b.offered_amount) : '',
+      };
+    });
+
+  return {
+    ownAmount: own?.offered_amount != null ? String(own.offered_amount) : '',
+    competitors,
+    winnerKey,
+    montoAdjudicado: montoAdjudicado !== null ? String(montoAdjudicado) : '',
+  };
+}
+
+function parseAmount(value: string): number | null {
+  if (!value.trim()) return null;
+  return parseFloat(parseImportNumber(value));
+}
+
+// Returns the rows for save_licitacion_bids, or an error message
+export function formToBids(form: BidsForm): { bids: BidInput[]; montoAdjudicado: number | null } | { error: string } {
+  const ownAmount = parseAmount(form.ownAmount);
+  const montoAdjudicado = parseAmount(form.montoAdjudicado);
+  const competitors = form.competitors
+    .filter(c => c.name.trim() || c.amount.trim())
+    .map(c => ({ ...c, offered: parseAmount(c.amount) }));
+
+  if ([ownAmount, montoAdjudicado, ...competitors.map(c => c.offered)].some(a => a !== null && (isNaN(a) || a < 0))) {
+    return { error: 'Los montos deben ser números positivos.' };
+  }
+  if (competitors.some(c => !c.name.trim())) {
+    return { error: 'Indica el nombre de cada competidor.' };
+  }
+  const names = competitors.map(c => normalizeCompany(c.name));
+  if (new Set(names).size !== names.length) {
+    return { error: 'Hay competidores repetidos.' };
+  }
+
+  const bids: BidInput[] = competitors.map(c => ({
+    competitor_name: c.name.trim(),
+    is_own: false,
+    offered_amount: c.offered,
+    is_winner: form.winnerKey === c.key,
+  }));
+  if (ownAmount !== null || form.winnerKey === OWN_BID_KEY) {
+    bids.unshift({ competitor_name: null, is_own: true, offered_amount: ownAmount, is_winner: form.winnerKey === OWN_BID_KEY });
+  }
+
+  // Without an explicit awarded amount, the winner's offer is the best guess
+  const winnerOffer = bids.find(b => b.is_winner)?.offered_amount ?? null;
+  return { bids, montoAdjudicado: montoAdjudicado ?? winnerOffer };
+}
+
+// ── Competitor report ──
+
+export interface AdjudicatedLicitacion {
+  id: string;
+  company_name: string;
+  current_phase: string | null;
+  licitacion_institucion: string | null;
+  licitacion_categoria: string | null;
+  licitacion_bids: BidInput[];
+}
+
+export interface CompetitorStats {
+  name: string;
+  // Licitaciones where both of us bid
+  encounters: number;
+  // We won
+  wins: number;
+  // They won
+  losses: number;
+  // Someone else won
+  otherLosses: number;
+  winRate: number;
+  // Average of (our offer - theirs) / theirs; positive means we were more expensive
+  avgPriceGap: number | null;
+}
+
+export interface InstitutionLosses {
+  institucion: string;
+  total: number;
+  won: number;
+  lost: number;
+  precio: number;
+  tecnica: number;
+  otros: number;
+}
+
+const isWon = (l: AdjudicatedLicitacion) => l.current_phase === 'Adjudicada Ganada';
+
+export function buildCompetitorStats(licitaciones: AdjudicatedLicitacion[]): CompetitorStats[] {
+  const stats = new Map<string, CompetitorStats & { gaps: number[] }>();
+
+  licitaciones.forEach(l => {
+    const won = isWon(l);
+    const ownOffer = l.licitacion_bids.find(b => b.is_own)?.offered_amount ?? null;
+
+    l.licitacion_bids.filter(b => !b.is_own && b.competitor_name).forEach(bid => {
+      const key = normalizeCompany(bid.competitor_name);
+      if (!stats.has(key)) {
+        stats.set(key, {
+          name: bid.competitor_name!.trim(),
+          encounters: 0, wins: 0, losses: 0, otherLosses: 0, winRate: 0, avgPriceGap: null, gaps: [],
+        });
+      }
+      const entry = stats.get(key)!;
+      entry.encounters++;
+      if (won) entry.wins++;
+      else if (bid.is_winner) entry.losses++;
+      else entry.otherLosses++;
+
+      if (ownOffer !== null && bid.offered_amount) {
+        entry.gaps.push((ownOffer - bid.offered_amount) / bid.offered_amount);
+      }
+    });
+  });
+
+  return Array.from(stats.values())
+    .map(({ gaps, ...entry }) => ({
+      ...entry,
+      winRate: entry.encounters > 0 ? entry.wins / entry.encounters : 0,
+      avgPriceGap: gaps.length > 0 ? gaps.reduce((sum, g) => sum + g, 0) / gaps.length : null,
+    }))
+    .sort((a, b) => b.encounters - a.encounters || a.name.localeCompare(b.name));
+}
+
+// Lost licitaciones per institution, split by the adjudication reason
+export function buildInstitutionLosses(licitaciones: AdjudicatedLicitacion[]): InstitutionLosses[] {
+  const byInstitution = new Map<string, InstitutionLosses>();
+
+  licitaciones.forEach(l => {
+    const institucion = l.licitacion_institucion?.trim() || 'Sin institución';
+    if (!byInstitution.has(institucion)) {
+      byInstitution.set(institucion, { institucion, total: 0, won: 0, lost: 0, precio: 0, tecnica: 0, otros: 0 });
+    }
+    const entry = byInstitution.get(institucion)!;
+    entry.total++;
+    if (isWon(l)) {
+      entry.won++;
+      return;
+    }
+    entry.lost++;
+    if (l.licitacion_categoria === 'precio') entry.precio++;
+    else if (l.licitacion_categoria === 'calificacion_tecnica') entry.tecnica++;
+    else entry.otros++;
+  });
+
+  return Array.from(byInstitution.values())
+    .sort((a, b) => b.lost - a.lost || a.institucion.localeCompare(b.institucion));
+}
@@ -45,6 +45,10 @@ export const LICITACION_CATEGORIAS = [
 // Closed licitacion stages (no more activities allowed)
 export const CLOSED_LICITACION_PHASES = ['Adjudicada Ganada', 'Adjudicada Perdida'] as const;
 
+// Moves to these phases go through the phase dialog to capture the outcome
+// (loss reason and win notes, or the adjudication's categoría and bids)
+export const PHASES_REQUIRING_DIALOG: readonly string[] = ['Ganada', 'Perdida', ...CLOSED_LICITACION_PHASES];
+
 // Type helpers
 export type ProspectType = 'regular' | 'licitacion';
 export type LicitacionPhase = typeof LICITACION_PHASES[number];
@@ -71,18 +75,6 @@ export function isLicitacionPhase(phase: string | null | undefined): boolean {
   return LICITACION_PHASES.includes(phase as LicitacionPhase);
 }
 
-// Helper: format currency in colones
-export function formatColones(value: number | null | undefined): string {
-  if (!value) return '';
-  if (value >= 1_000_000) {
-    return `₡${(value / 1_000_000).toFixed(0)}M`;
-  }
-  if (value >= 1_000) {
-    return `₡${(value / 1_000).toFixed(0)}K`;
-  }
-  return `₡${value.toLocaleString()}`;
-}
-
 // Helper: days until a date
 export function daysUntil(dateStr: string | null | undefined): number | null {
   if (!dateStr) return null;
@@ -90,3 +82,26 @@ export function daysUntil(dateStr: string | null | undefined): number | null {
   const now = new Date();
   return Math.ceil((target.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
 }
+
+// Checklist progress for a licitación (documents, aclaraciones...)
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+  overdue: number;
+  nextDue: string | null;
+}
+
+export function summarizeChecklist(
+  items: { completed_at: string | null; due_date: string | null }[] | null | undefined
+): ChecklistProgress {
+  const today = new Date().toISOString().split('T')[0];
+  const pending = (items || []).filter(i => !i.completed_at);
+  const dueDates = pending.map(i => i.due_date).filter((d): d is string => !!d).sort();
+
+  return {
+    done: (items || []).length - pending.length,
+    total: (items || []).length,
+    overdue: dueDates.filter(d => d < today).length,
+    nextDue: dueDates[0] ?? null,
+  };
+}
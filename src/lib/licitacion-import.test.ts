@@ -0,0 +1,229 @@
+import { describe, it, expect } from 'vitest';
+import {
+  noticeToProspectInsert,
+  noticeToProspectUpdate,
+  normalizeNumero,
+  parseNoticeRows,
+  parseNoticeXml,
+  planLicitacionImport,
+  type ExistingLicitacion,
+  type LicitacionNotice,
+} from '@/lib/licitacion-import';
+import { parseCsv } from '@/lib/prospect-import';
+
+// ── Fixtures ──
+
+// SICOP XML export: one <procedimiento> per notice, camelCase tags, some fields
+// as attributes and nested groups that are not notices themselves
+const SICOP_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<consultaProcedimientos fechaConsulta="2026-03-01">
+  <procedimiento fechaPublicacion="2026-03-02T08:00:00">
+    <numeroProcedimiento>2026LN-000012-0009100001</numeroProcedimiento>
+    <nombreInstitucion>Caja Costarricense de Seguro Social</nombreInstitucion>
+    <descripcionProcedimiento>Compra de uniformes para personal de enfermería</descripcionProcedimiento>
+    <fechaApertura>2026-04-10T10:00:00</fechaApertura>
+    <fechaCierreRecepcionOfertas>2026-04-10T09:00:00</fechaCierreRecepcionOfertas>
+    <montoEstimado>125000000.00</montoEstimado>
+    <tipoMoneda>CRC</tipoMoneda>
+    <clasificacion>Textiles</clasificacion>
+    <contacto>
+      <nombre>Proveeduría Institucional</nombre>
+    </contacto>
+  </procedimiento>
+  <procedimiento numeroProcedimiento="2026LE-000045-0001102102">
+    <nombreInstitucion>Municipalidad de San José</nombreInstitucion>
+    <descripcionProcedimiento>Camisas bordadas para policía municipal</descripcionProcedimiento>
+    <fechaCierreRecepcionOfertas>2026-03-20T14:00:00</fechaCierreRecepcionOfertas>
+    <montoEstimado>18500.50</montoEstimado>
+    <tipoMoneda>USD</tipoMoneda>
+  </procedimiento>
+</consultaProcedimientos>`;
+
+// SICOP listing saved from Excel in Spanish: semicolons, day-first dates, local amounts
+const SICOP_CSV = [
+  'N° de procedimiento;Institución;Descripción del procedimiento;Fecha de publicación;Fecha de cierre;Monto estimado;Moneda;Tipo de bien',
+  '2026LN-000012-0009100001;Caja Costarricense de Seguro Social;Compra de uniformes;02/03/2026;10/04/2026;₡125.000.000,00;Colones;Textiles',
+  '2026LE-000045-0001102102;Municipalidad de San José;Camisas bordadas;01/03/2026;20/03/2026;$18,500.50;Dólares;Vestuario',
+].join('\r\n');
+
+// Malformed rows: missing number, impossible date, unparseable amount, unknown currency, repeated number
+const MALFORMED_CSV = [
+  'Número de procedimiento,Institución,Descripción,Fecha de cierre,Monto,Moneda',
+  ',Ministerio de Salud,Batas,15/05/2026,1000,CRC',
+  '2026LA-000001-0001,Ministerio de Salud,Batas,31/02/2026,mil colones,EUR',
+  '2026LA-000002-0001,Ministerio de Salud,Gabachas,15/05/2026,1000,CRC',
+  '2026la-000002-0001 ,Ministerio de Salud,Gabachas,15/05/2026,1000,CRC',
+  '2026LA-000003-0001,,Gorros,,500,CRC',
+].join('\n');
+
+const sheet = (csv: string) => {
+  const [headers, ...rows] = parseCsv(csv);
+  return parseNoticeRows(headers, rows);
+};
+
+const existingLicitacion = (overrides: Partial<ExistingLicitacion> = {}): ExistingLicitacion => ({
+  id: 'l1',
+  company_name: 'Compra de uniformes',
+  licitacion_numero: '2026LN-000012-0009100001',
+  licitacion_institucion: 'Caja Costarricense de Seguro Social',
+  licitacion_fecha_publicacion: '2026-03-02',
+  licitacion_fecha_apertura: null,
+  licitacion_fecha_cierre: '2026-04-10',
+  licitacion_monto_estimado: 125000000,
+  licitacion_monto_currency: 'CRC',
+  licitacion_clasificacion: 'Textiles',
+  ...overrides,
+});
+
+// ── Parsing ──
+
+describe('parseNoticeXml', () => {
+  it('reads the SICOP export from child elements and attributes', () => {
+    const notices = parseNoticeXml(SICOP_XML);
+
+    expect(notices).toHaveLength(2);
+    expect(notices[0]).toEqual({
+      rowNumber: 1,
+      numero: '2026LN-000012-0009100001',
+      institucion: 'Caja Costarricense de Seguro Social',
+      descripcion: 'Compra de uniformes para personal de enfermería',
+      fecha_publicacion: '2026-03-02',
+      fecha_apertura: '2026-04-10',
+      fecha_cierre: '2026-04-10',
+      monto: '125000000.00',
+      moneda: 'CRC',
+      clasificacion: 'Textiles',
+      errors: [],
+    });
+    expect(notices[1]).toMatchObject({
+      rowNumber: 2,
+      numero: '2026LE-000045-0001102102',
+      fecha_publicacion: '',
+      monto: '18500.50',
+      moneda: 'USD',
+      errors: [],
+    });
+  });
+
+  it('rejects files that are not valid XML', () => {
+    expect(() => parseNoticeXml('<procedimiento><numero>1</procedimiento>')).toThrow('XML inválido');
+  });
+
+  it('ignores XML without procedure numbers', () => {
+    expect(parseNoticeXml('<lista><item><nombre>Algo</nombre></item></lista>')).toEqual([]);
+  });
+});
+
+describe('parseNoticeRows', () => {
+  it('reads the SICOP listing with Spanish headers and local formats', () => {
+    const notices = sheet(SICOP_CSV);
+
+    expect(notices.map(n => [n.rowNumber, n.numero, n.fecha_cierre, n.monto, n.moneda, n.clasificacion])).toEqual([
+      [2, '2026LN-000012-0009100001', '2026-04-10', '125000000.00', 'CRC', 'Textiles'],
+      [3, '2026LE-000045-0001102102', '2026-03-20', '18500.50', 'USD', 'Vestuario'],
+    ]);
+    expect(notices.every(n => n.errors.length === 0)).toBe(true);
+  });
+
+  it('returns nothing when no column holds the procedure number', () => {
+    expect(parseNoticeRows(['Institución', 'Monto'], [['CCSS', '100']])).toEqual([]);
+  });
+
+  it('reports malformed values per row', () => {
+    const notices = sheet(MALFORMED_CSV);
+
+    expect(notices[0].errors).toEqual(['Falta el número de procedimiento']);
+    expect(notices[1].errors).toEqual([
+      'Monto "mil colones" no es un número válido',
+      'Moneda "EUR" no reconocida (use CRC o USD)',
+      'Fecha de cierre "31/02/2026" no es una fecha válida',
+    ]);
+    expect(notices[2].errors).toEqual([]);
+  });
+});
+
+// ── Matching ──
+
+describe('planLicitacionImport', () => {
+  it('creates new notices and leaves identical ones unchanged', () => {
+    const plan = planLicitacionImport(sheet(SICOP_CSV), [existingLicitacion()]);
+
+    expect(plan.map(p => p.action)).toEqual(['unchanged', 'create']);
+    expect(plan[0].existing?.id).toBe('l1');
+  });
+
+  it('matches numbers ignoring case and spaces and lists the changed fields', () => {
+    const plan = planLicitacionImport(parseNoticeXml(SICOP_XML), [
+      existingLicitacion({ licitacion_numero: '2026ln-000012-0009100001 ', licitacion_fecha_cierre: '2026-04-03' }),
+    ]);
+
+    expect(plan[0].action).toBe('update');
+    expect(plan[0].changes).toEqual([
+      { label: 'Apertura', kind: 'date', from: null, to: '2026-04-10' },
+      { label: 'Cierre', kind: 'date', from: '2026-04-03', to: '2026-04-10' },
+    ]);
+  });
+
+  it('never clears CRM data with empty values from the file', () => {
+    const [notice] = sheet('Número de procedimiento,Institución\n2026LN-000012-0009100001,');
+    const [planned] = planLicitacionImport([notice], [existingLicitacion()]);
+
+    expect(planned.action).toBe('unchanged');
+    expect(noticeToProspectUpdate(notice)).toEqual({});
+  });
+
+  it('marks malformed, repeated and incomplete rows as invalid', () => {
+    const plan = planLicitacionImport(sheet(MALFORMED_CSV), []);
+
+    expect(plan.map(p => p.action)).toEqual(['invalid', 'invalid', 'create', 'invalid', 'invalid']);
+    expect(plan[3].notice.errors).toEqual(['Número repetido en el archivo (fila 4)']);
+    expect(plan[4].notice.errors).toEqual([
+      'La institución es obligatoria para licitaciones',
+      'La fecha de cierre es obligatoria para licitaciones',
+    ]);
+  });
+});
+
+describe('notice to prospect', () => {
+  const notice: LicitacionNotice = {
+    rowNumber: 2,
+    numero: '2026LA-000002-0001',
+    institucion: 'Ministerio de Salud',
+    descripcion: '',
+    fecha_publicacion: '',
+    fecha_apertura: '',
+    fecha_cierre: '2026-05-15',
+    monto: '',
+    moneda: '',
+    clasificacion: '',
+    errors: [],
+  };
+
+  it('normalizes procedure numbers', () => {
+    expect(normalizeNumero(' 2026la-000002 -0001')).toBe('2026LA-000002-0001');
+    expect(normalizeNumero(null)).toBe('');
+  });
+
+  it('creates licitaciones in the first phase with the default currency', () => {
+    expect(noticeToProspectInsert(notice, 'u1')).toMatchObject({
+      company_name: 'Ministerio de Salud',
+      current_phase: 'Por Publicar',
+      prospect_type: 'licitacion',
+      estimated_value: 0,
+      estimated_value_currency: 'CRC',
+      owner_id: 'u1',
+      licitacion_fecha_publicacion: null,
+      licitacion_fecha_cierre: '2026-05-15',
+      licitacion_monto_estimado: null,
+    });
+  });
+
+  it('updates only the fields present in the file', () => {
+    expect(noticeToProspectUpdate({ ...notice, monto: '1500.50', moneda: 'USD' })).toEqual({
+      licitacion_institucion: 'Ministerio de Salud',
+      licitacion_fecha_cierre: '2026-05-15',
+      licitacion_monto_estimado: 1500.5,
+      licitacion_monto_currency: 'USD',
+    });
+  });
+});
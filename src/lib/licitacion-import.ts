@@ -0,0 +1,320 @@
+// Parsing and matching for the SICOP tender importer. Notices come from the
+// SICOP XML export or a CSV / XLSX listing and are matched to existing
+// licitaciones by procedure number, so re-importing a file picks up changes.
+
+import { normalizeHeader, parseImportDate, parseImportNumber, parseImportFile } from '@/lib/prospect-import';
+import { validateProspectFields } from '@/lib/prospect-validation';
+import { parseCurrency, DEFAULT_LICITACION_CURRENCY, type CurrencyCode } from '@/lib/currency';
+
+export type NoticeField =
+  | 'numero'
+  | 'institucion'
+  | 'descripcion'
+  | 'fecha_publicacion'
+  | 'fecha_apertura'
+  | 'fecha_cierre'
+  | 'monto'
+  | 'moneda'
+  | 'clasificacion';
+
+// Aliases are compared after normalizeKey(): XML tags like "fechaCierre" become "fecha cierre"
+const NOTICE_FIELDS: { value: NoticeField; aliases: string[] }[] = [
+  {
+    value: 'numero',
+    aliases: [
+      'numero', 'numero procedimiento', 'numero de procedimiento', 'nro procedimiento', 'no procedimiento',
+      'n procedimiento', 'n de procedimiento', 'no de procedimiento', 'nro de procedimiento',
+      'numero licitacion', 'numero de licitacion', 'no licitacion', 'n licitacion', 'nro licitacion',
+      'n de licitacion', 'no de licitacion', 'numero cartel', 'no cartel', 'procedimiento',
+    ],
+  },
+  {
+    value: 'institucion',
+    aliases: ['institucion', 'nombre institucion', 'institucion contratante', 'entidad', 'entidad contratante', 'administracion'],
+  },
+  {
+    value: 'descripcion',
+    aliases: [
+      'descripcion', 'descripcion procedimiento', 'descripcion del procedimiento', 'objeto', 'objeto contractual',
+      'objeto del procedimiento', 'nombre procedimiento', 'nombre del procedimiento', 'titulo', 'nombre cartel',
+      'nombre del cartel',
+    ],
+  },
+  {
+    value: 'fecha_publicacion',
+    aliases: ['fecha publicacion', 'fecha de publicacion', 'publicacion', 'fecha invitacion', 'fecha de invitacion'],
+  },
+  {
+    value: 'fecha_apertura',
+    aliases: ['fecha apertura', 'fecha de apertura', 'apertura', 'fecha apertura ofertas', 'fecha de apertura de ofertas'],
+  },
+  {
+    value: 'fecha_cierre',
+    aliases: [
+      'fecha cierre', 'fecha de cierre', 'cierre', 'fecha limite', 'fecha limite ofertas', 'fecha cierre recepcion',
+      'fecha cierre recepcion ofertas', 'fecha de cierre de recepcion de ofertas',
+    ],
+  },
+  {
+    value: 'monto',
+    aliases: ['monto', 'monto estimado', 'monto total estimado', 'presupuesto', 'monto presupuestado', 'estimacion'],
+  },
+  {
+    value: 'moneda',
+    aliases: ['moneda', 'tipo moneda', 'tipo de moneda', 'divisa', 'codigo moneda'],
+  },
+  {
+    value: 'clasificacion',
+    aliases: ['categoria', 'clasificacion', 'tipo objeto', 'tipo de objeto', 'tipo bien', 'tipo de bien', 'rubro'],
+  },
+];
+
+export interface LicitacionNotice {
+  // Data row in a sheet (header = 1) or position of the record in the XML
+  rowNumber: number;
+  numero: string;
+  institucion: string;
+  descripcion: string;
+  fecha_publicacion: string;
+  fecha_apertura: string;
+  fecha_cierre: string;
+  monto: string;
+  // Empty when the file has no currency column
+  moneda: CurrencyCode | '';
+  clasificacion: string;
+  errors: string[];
+}
+
+export interface ExistingLicitacion {
+  id: string;
+  company_name: string | null;
+  licitacion_numero: string | null;
+  licitacion_institucion: string | null;
+  licitacion_fecha_publicacion: string | null;
+  licitacion_fecha_apertura: string | null;
+  licitacion_fecha_cierre: string | null;
+  licitacion_monto_estimado: number | null;
+  licitacion_monto_currency: CurrencyCode;
+  licitacion_clasificacion: string | null;
+}
+
+export type NoticeAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export interface NoticeChange {
+  label: string;
+  kind: 'text' | 'date' | 'money';
+  from: string | null;
+  to: string;
+}
+
+export interface PlannedNotice {
+  notice: LicitacionNotice;
+  action: NoticeAction;
+  existing: ExistingLicitacion | null;
+  changes: NoticeChange[];
+}
+
+function normalizeKey(value: string): string {
+  return normalizeHeader(value.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/-/g, ' '));
+}
+
+function matchField(key: string): NoticeField | null {
+  const normalized = normalizeKey(key);
+  return NOTICE_FIELDS.find(f => f.aliases.includes(normalized))?.value ?? null;
+}
+
+// "2026LN-000012-0009100001 " and "2026ln-000012-0009100001" are the same procedure
+export function normalizeNumero(value: string | null | undefined): string {
+  return (value || '').replace(/\s+/g, '').toUpperCase();
+}
+
+function buildNotice(rowNumber: number, raw: Partial<Record<NoticeField, string>>): LicitacionNotice {
+  const errors: string[] = [];
+
+  const dateField = (field: NoticeField, label: string) => {
+    const value = raw[field] || '';
+    if (!value) return '';
+    const parsed = parseImportDate(value);
+    if (!parsed) errors.push(`${label} "${value}" no es una fecha válida`);
+    return parsed || '';
+  };
+
+  const numero = (raw.numero || '').trim();
+  if (!numero) errors.push('Falta el número de procedimiento');
+
+  const monto = raw.monto ? parseImportNumber(raw.monto) : '';
+  if (raw.monto && isNaN(parseFloat(monto))) errors.push(`Monto "${raw.monto}" no es un número válido`);
+
+  const moneda = raw.moneda ? parseCurrency(raw.moneda) : null;
+  if (raw.moneda && !moneda) errors.push(`Moneda "${raw.moneda}" no reconocida (use CRC o USD)`);
+
+  return {
+    rowNumber,
+    numero,
+    institucion: (raw.institucion || '').trim(),
+    descripcion: (raw.descripcion || '').trim(),
+    fecha_publicacion: dateField('fecha_publicacion', 'Fecha de publicación'),
+    fecha_apertura: dateField('fecha_apertura', 'Fecha de apertura'),
+    fecha_cierre: dateField('fecha_cierre', 'Fecha de cierre'),
+    monto,
+    moneda: moneda || '',
+    clasificacion: (raw.clasificacion || '').trim(),
+    errors,
+  };
+}
+
+// ── Parsing ──
+
+// Sheet exports: one notice per row, columns recognized by header
+export function parseNoticeRows(headers: string[], rows: string[][]): LicitacionNotice[] {
+  const columns = headers.map(matchField);
+  if (!columns.includes('numero')) return [];
+
+  return rows.map((row, index) => {
+    const raw: Partial<Record<NoticeField, string>> = {};
+    columns.forEach((field, col) => {
+      if (field && !raw[field]) raw[field] = (row[col] || '').trim();
+    });
+    return buildNotice(index + 2, raw);
+  });
+}
+
+// XML exports: any element carrying a procedure number (as a child element or
+// attribute) is a notice; its other leaf children and attributes are its fields.
+export function parseNoticeXml(text: string): LicitacionNotice[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('XML inválido');
+  }
+
+  const notices: LicitacionNotice[] = [];
+  Array.from(doc.getElementsByTagName('*')).forEach(element => {
+    const raw: Partial<Record<NoticeField, string>> = {};
+
+    Array.from(element.attributes).forEach(attr => {
+      const field = matchField(attr.localName);
+      if (field && !raw[field]) raw[field] = attr.value.trim();
+    });
+    Array.from(element.children).forEach(child => {
+      if (child.children.length > 0) return;
+      const field = matchField(child.localName);
+      if (field && !raw[field]) raw[field] = (child.textContent || '').trim();
+    });
+
+    if (raw.numero) notices.push(buildNotice(notices.length + 1, raw));
+  });
+
+  return notices;
+}
+
+export async function parseNoticeFile(file: File): Promise<LicitacionNotice[]> {
+  if (/\.xml$/i.test(file.name)) {
+    return parseNoticeXml(await file.text());
+  }
+  const sheet = await parseImportFile(file);
+  return parseNoticeRows(sheet.headers, sheet.rows);
+}
+
+// ── Matching ──
+
+const COMPARED_FIELDS: {
+  label: string;
+  kind: NoticeChange['kind'];
+  notice: (n: LicitacionNotice) => string;
+  existing: (e: ExistingLicitacion) => string | null;
+}[] = [
+  { label: 'Institución', kind: 'text', notice: n => n.institucion, existing: e => e.licitacion_institucion },
+  { label: 'Publicación', kind: 'date', notice: n => n.fecha_publicacion, existing: e => e.licitacion_fecha_publicacion },
+  { label: 'Apertura', kind: 'date', notice: n => n.fecha_apertura, existing: e => e.licitacion_fecha_apertura },
+  { label: 'Cierre', kind: 'date', notice: n => n.fecha_cierre, existing: e => e.licitacion_fecha_cierre },
+  {
+    label: 'Monto',
+    kind: 'money',
+    notice: n => (n.monto ? String(parseFloat(n.monto)) : ''),
+    existing: e => (e.licitacion_monto_estimado !== null ? String(e.licitacion_monto_estimado) : null),
+  },
+  { label: 'Moneda', kind: 'text', notice: n => n.moneda, existing: e => e.licitacion_monto_currency },
+  { label: 'Categoría', kind: 'text', notice: n => n.clasificacion, existing: e => e.licitacion_clasificacion },
+];
+
+// Decides, per notice, whether it creates a licitación, updates the one with the
+// same number or leaves it as is. Empty values in the file never clear CRM data.
+export function planLicitacionImport(notices: LicitacionNotice[], existing: ExistingLicitacion[]): PlannedNotice[] {
+  const byNumero = new Map<string, ExistingLicitacion>();
+  existing.forEach(e => {
+    const key = normalizeNumero(e.licitacion_numero);
+    if (key && !byNumero.has(key)) byNumero.set(key, e);
+  });
+
+  const seen = new Map<string, number>();
+
+  return notices.map(notice => {
+    const key = normalizeNumero(notice.numero);
+    const errors = [...notice.errors];
+
+    if (key && seen.has(key)) {
+      errors.push(`Número repetido en el archivo (fila ${seen.get(key)})`);
+    } else if (key) {
+      seen.set(key, notice.rowNumber);
+    }
+
+    const match = key ? byNumero.get(key) ?? null : null;
+
+    if (!match && errors.length === 0) {
+      errors.push(...Object.values(validateProspectFields({
+        prospect_type: 'licitacion',
+        company_name: notice.descripcion || notice.institucion,
+        email: '',
+        estimated_value: notice.monto || '0',
+        licitacion_institucion: notice.institucion,
+        licitacion_fecha_cierre: notice.fecha_cierre,
+      })));
+    }
+
+    const checked = { ...notice, errors };
+    if (errors.length > 0) return { notice: checked, action: 'invalid', existing: match, changes: [] };
+    if (!match) return { notice: checked, action: 'create', existing: null, changes: [] };
+
+    const changes = COMPARED_FIELDS
+      .map(f => ({ label: f.label, kind: f.kind, from: f.existing(match), to: f.notice(notice) }))
+      .filter(c => c.to !== '' && c.to !== (c.from ?? ''));
+
+    return { notice: checked, action: changes.length > 0 ? 'update' : 'unchanged', existing: match, changes };
+  });
+}
+
+// Shape inserted into prospects, mirroring CreateProspectModal's licitación fields
+export function noticeToProspectInsert(notice: LicitacionNotice, ownerId: string | null) {
+  const monto = notice.monto ? parseFloat(notice.monto) : null;
+  const currency = notice.moneda || DEFAULT_LICITACION_CURRENCY;
+  return {
+    company_name: notice.descripcion || notice.institucion,
+    contact_name: '',
+    current_phase: 'Por Publicar' as const,
+    estimated_value: monto ?? 0,
+    estimated_value_currency: currency,
+    prospect_type: 'licitacion',
+    owner_id: ownerId,
+    licitacion_numero: notice.numero,
+    licitacion_institucion: notice.institucion,
+    licitacion_fecha_publicacion: notice.fecha_publicacion || null,
+    licitacion_fecha_apertura: notice.fecha_apertura || null,
+    licitacion_fecha_cierre: notice.fecha_cierre || null,
+    licitacion_monto_estimado: monto,
+    licitacion_monto_currency: currency,
+    licitacion_clasificacion: notice.clasificacion || null,
+  };
+}
+
+// Only the fields present in the file; phase, owner and name stay as they are
+export function noticeToProspectUpdate(notice: LicitacionNotice) {
+  return {
+    ...(notice.institucion && { licitacion_institucion: notice.institucion }),
+    ...(notice.fecha_publicacion && { licitacion_fecha_publicacion: notice.fecha_publicacion }),
+    ...(notice.fecha_apertura && { licitacion_fecha_apertura: notice.fecha_apertura }),
+    ...(notice.fecha_cierre && { licitacion_fecha_cierre: notice.fecha_cierre }),
+    ...(notice.monto && { licitacion_monto_estimado: parseFloat(notice.monto) }),
+    ...(notice.moneda && { licitacion_monto_currency: notice.moneda }),
+    ...(notice.clasificacion && { licitacion_clasificacion: notice.clasificacion }),
+  };
+}
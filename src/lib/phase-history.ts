@@ -0,0 +1,23 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Map of prospect_id -> entered_at of its current (open) phase stay
+export async function fetchPhaseEntryDates(): Promise<Record<string, string>> {
+  const { data, error } = await supabase
+    .from('prospect_phase_history')
+    .select('prospect_id, entered_at')
+    .is('exited_at', null);
+
+  if (error) throw error;
+
+  const entries: Record<string, string> = {};
+  data?.forEach(h => {
+    entries[h.prospect_id] = h.entered_at;
+  });
+  return entries;
+}
+
+// Whole days elapsed since a timestamp
+export function daysSince(dateStr: string | null | undefined, now = new Date()): number {
+  if (!dateStr) return 0;
+  return Math.max(0, Math.floor((now.getTime() - new Date(dateStr).getTime()) / (1000 * 60 * 60 * 24)));
+}
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import {
+  autoMapColumns,
+  buildImportRecord,
+  findDuplicates,
+  normalizeCompany,
+  normalizePhone,
+  parseCsv,
+  parseImportDate,
+  parseImportNumber,
+  toProspectInsert,
+  type ColumnMapping,
+  type ExistingProspect,
+  type ImportRow,
+} from '@/lib/prospect-import';
+
+describe('parseCsv', () => {
+  it('handles quoted fields with delimiters, escaped quotes and line breaks', () => {
+    const rows = parseCsv('Empresa,Notas\n"Uniformes, S.A.","Dijo ""sí""\nllamar lunes"\n');
+
+    expect(rows).toEqual([
+      ['Empresa', 'Notas'],
+      ['Uniformes, S.A.', 'Dijo "sí"\nllamar lunes'],
+    ]);
+  });
+
+  it('accepts CRLF line endings and a BOM', () => {
+    expect(parseCsv('﻿Empresa,Teléfono\r\nTextiles del Sur,2222-3333\r\n')).toEqual([
+      ['Empresa', 'Teléfono'],
+      ['Textiles del Sur', '2222-3333'],
+    ]);
+  });
+
+  it('detects the semicolon delimiter used by Excel in Spanish', () => {
+    expect(parseCsv('Empresa;Valor\nAcme;1.500,50')).toEqual([
+      ['Empresa', 'Valor'],
+      ['Acme', '1.500,50'],
+    ]);
+  });
+});
+
+describe('autoMapColumns', () => {
+  it('maps headers by label or alias, ignoring accents and case', () => {
+    expect(autoMapColumns(['Compañía', 'TELÉFONO', 'Correo electrónico', 'N° de licitación', 'Columna X'])).toEqual({
+      0: 'company_name',
+      1: 'phone',
+      2: 'email',
+      3: 'licitacion_numero',
+      4: null,
+    });
+  });
+
+  it('maps each field only once', () => {
+    expect(autoMapColumns(['Empresa', 'Cliente'])).toEqual({ 0: 'company_name', 1: null });
+  });
+});
+
+describe('parseImportNumber and parseImportDate', () => {
+  it('reads local and US number formats', () => {
+    expect(parseImportNumber('₡1.500.000,50')).toBe('1500000.50');
+    expect(parseImportNumber('$ 12,000')).toBe('12000');
+    expect(parseImportNumber('12,5')).toBe('12.5');
+    expect(parseImportNumber('abc')).toBe('');
+  });
+
+  it('reads ISO, day-first and Excel serial dates, rejecting impossible ones', () => {
+    expect(parseImportDate('2026-03-15')).toBe('2026-03-15');
+    expect(parseImportDate('15/03/2026 10:00')).toBe('2026-03-15');
+    expect(parseImportDate('15-03-26')).toBe('2026-03-15');
+    expect(parseImportDate('46096')).toBe('2026-03-15');
+    expect(parseImportDate('31/02/2026')).toBeNull();
+    expect(parseImportDate('mañana')).toBeNull();
+  });
+});
+
+const MAPPING: ColumnMapping = {
+  0: 'company_name',
+  1: 'email',
+  2: 'phone',
+  3: 'current_phase',
+  4: 'estimated_value',
+  5: 'currency',
+};
+
+describe('buildImportRecord', () => {
+  it('builds a valid record from a mapped row', () => {
+    const { record, errors } = buildImportRecord(
+      ['Textiles del Sur', 'ana@textiles.cr', '2222-3333', 'cotizacion', '₡1.500.000', 'colones'],
+      MAPPING,
+      'regular',
+    );
+
+    expect(errors).toEqual([]);
+    expect(record).toMatchObject({
+      prospect_type: 'regular',
+      company_name: 'Textiles del Sur',
+      current_phase: 'Cotización',
+      estimated_value: '1500000',
+      currency: 'CRC',
+    });
+  });
+
+  it('reports every problem of a row that fails validation', () => {
+    const { errors } = buildImportRecord(['', 'no-es-email', '', 'Adjudicada', '10', 'EUR'], MAPPING, 'regular');
+
+    expect(errors).toEqual([
+      'Fase "Adjudicada" no existe para este tipo de prospecto',
+      'Moneda "EUR" no reconocida (use CRC o USD)',
+      'El nombre de empresa es obligatorio',
+      'El formato de email no es válido',
+    ]);
+  });
+
+  it('requires institución and a valid closing date for licitaciones', () => {
+    const mapping: ColumnMapping = { 0: 'company_name', 1: 'licitacion_fecha_cierre' };
+    const { errors } = buildImportRecord(['CCSS uniformes', '32/01/2026'], mapping, 'licitacion');
+
+    expect(errors).toEqual([
+      'Fecha de cierre "32/01/2026" no es una fecha válida',
+      'La institución es obligatoria para licitaciones',
+      'La fecha de cierre es obligatoria para licitaciones',
+    ]);
+  });
+});
+
+const importRow = (rowNumber: number, values: string[]): ImportRow => ({
+  rowNumber,
+  ...buildImportRecord(values, MAPPING, 'regular'),
+  duplicateOf: null,
+  duplicateReason: null,
+});
+
+describe('findDuplicates', () => {
+  const existing: ExistingProspect[] = [
+    { id: 'p1', company_name: 'Uniformes Costa Rica S.A.', email: 'compras@ucr.cr', phone: '+506 8888-1111' },
+  ];
+
+  it('normalizes company names and phones', () => {
+    expect(normalizeCompany('Uniformes Costa Rica, S.A.')).toBe('uniformes costa rica');
+    expect(normalizePhone('+506 8888-1111')).toBe('88881111');
+  });
+
+  it('flags rows that match existing prospects by company, email or phone', () => {
+    const rows = findDuplicates([
+      importRow(2, ['UNIFORMES COSTA RICA', '', '', '', '', '']),
+      importRow(3, ['Otra empresa', 'Compras@UCR.cr', '', '', '', '']),
+      importRow(4, ['Tercera', '', '88881111', '', '', '']),
+      importRow(5, ['Nueva', '', '', '', '', '']),
+    ], existing);
+
+    expect(rows.map(r => [r.duplicateOf, r.duplicateReason])).toEqual([
+      ['Uniformes Costa Rica S.A.', 'Mismo nombre de empresa'],
+      ['Uniformes Costa Rica S.A.', 'Mismo email'],
+      ['Uniformes Costa Rica S.A.', 'Mismo teléfono'],
+      [null, null],
+    ]);
+  });
+
+  it('flags repeated rows inside the file, pointing at the first one', () => {
+    const rows = findDuplicates([
+      importRow(2, ['Textiles del Sur', '', '', '', '', '']),
+      importRow(3, ['Textiles del Sur Ltda', '', '', '', '', '']),
+    ], []);
+
+    expect(rows[0].duplicateOf).toBeNull();
+    expect(rows[1].duplicateOf).toBe('Textiles del Sur (fila 2)');
+  });
+
+  it('does not let invalid rows hide later ones', () => {
+    const rows = findDuplicates([
+      importRow(2, ['Textiles del Sur', 'mal-email', '', '', '', '']),
+      importRow(3, ['Textiles del Sur', '', '', '', '', '']),
+    ], []);
+
+    expect(rows[0].errors).not.toEqual([]);
+    expect(rows[1].duplicateOf).toBeNull();
+  });
+});
+
+describe('toProspectInsert', () => {
+  it('fills the default phase and currency and drops licitación fields for regular prospects', () => {
+    const { record } = buildImportRecord(['Acme', '', '', '', '', ''], MAPPING, 'regular');
+
+    expect(toProspectInsert(record, 'u1')).toMatchObject({
+      company_name: 'Acme',
+      current_phase: 'Prospección',
+      estimated_value: 0,
+      owner_id: 'u1',
+      licitacion_numero: null,
+      licitacion_fecha_cierre: null,
+    });
+  });
+});
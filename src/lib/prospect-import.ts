@@ -0,0 +1,388 @@
+// Parsing, column mapping, validation and duplicate detection for the
+// prospect import wizard (CSV / XLSX).
+
+import { B2B_PHASES, LICITACION_PHASES, type ProspectType } from '@/lib/licitacion-constants';
+import { validateProspectFields } from '@/lib/prospect-validation';
+import { parseCurrency, DEFAULT_LICITACION_CURRENCY, DEFAULT_VALUE_CURRENCY, type CurrencyCode } from '@/lib/currency';
+
+export type ImportField =
+  | 'company_name'
+  | 'contact_name'
+  | 'phone'
+  | 'email'
+  | 'prospect_type'
+  | 'current_phase'
+  | 'estimated_value'
+  | 'currency'
+  | 'notes'
+  | 'licitacion_numero'
+  | 'licitacion_institucion'
+  | 'licitacion_fecha_publicacion'
+  | 'licitacion_fecha_apertura'
+  | 'licitacion_fecha_cierre'
+  | 'licitacion_monto_estimado';
+
+// Aliases are compared after normalizeHeader()
+export const IMPORT_FIELDS: { value: ImportField; label: string; aliases: string[] }[] = [
+  { value: 'company_name', label: 'Empresa', aliases: ['empresa', 'compania', 'company', 'cliente', 'razon social', 'nombre empresa'] },
+  { value: 'contact_name', label: 'Contacto', aliases: ['contacto', 'nombre contacto', 'contact', 'nombre'] },
+  { value: 'phone', label: 'Teléfono', aliases: ['telefono', 'tel', 'phone', 'celular', 'movil'] },
+  { value: 'email', label: 'Email', aliases: ['email', 'correo', 'e-mail', 'correo electronico', 'mail'] },
+  { value: 'prospect_type', label: 'Tipo (regular / licitación)', aliases: ['tipo', 'type', 'tipo prospecto'] },
+  { value: 'current_phase', label: 'Fase', aliases: ['fase', 'etapa', 'phase', 'estado'] },
+  { value: 'estimated_value', label: 'Valor estimado', aliases: ['valor', 'valor estimado', 'monto', 'value'] },
+  { value: 'currency', label: 'Moneda (CRC / USD)', aliases: ['moneda', 'divisa', 'currency'] },
+  { value: 'notes', label: 'Notas', aliases: ['notas', 'comentarios', 'observaciones', 'notes'] },
+  { value: 'licitacion_numero', label: 'N° de licitación', aliases: ['numero licitacion', 'licitacion', 'no licitacion', 'n licitacion', 'numero de procedimiento'] },
+  { value: 'licitacion_institucion', label: 'Institución', aliases: ['institucion', 'entidad'] },
+  { value: 'licitacion_fecha_publicacion', label: 'Fecha de publicación', aliases: ['fecha publicacion', 'publicacion'] },
+  { value: 'licitacion_fecha_apertura', label: 'Fecha de apertura', aliases: ['fecha apertura', 'apertura'] },
+  { value: 'licitacion_fecha_cierre', label: 'Fecha de cierre', aliases: ['fecha cierre', 'cierre'] },
+  { value: 'licitacion_monto_estimado', label: 'Monto estimado licitación', aliases: ['monto licitacion', 'monto estimado'] },
+];
+
+export type ColumnMapping = Record<number, ImportField | null>;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRecord {
+  prospect_type: ProspectType;
+  company_name: string;
+  contact_name: string;
+  phone: string;
+  email: string;
+  current_phase: string;
+  estimated_value: string;
+  // Applies to both amounts; empty keeps each column's default
+  currency: CurrencyCode | '';
+  notes: string;
+  licitacion_numero: string;
+  licitacion_institucion: string;
+  licitacion_fecha_publicacion: string;
+  licitacion_fecha_apertura: string;
+  licitacion_fecha_cierre: string;
+  licitacion_monto_estimado: string;
+}
+
+export interface ExistingProspect {
+  id: string;
+  company_name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface ImportRow {
+  // 1-based line in the file (header = 1), for the error report
+  rowNumber: number;
+  record: ImportRecord;
+  errors: string[];
+  duplicateOf: string | null;
+  duplicateReason: string | null;
+}
+
+function stripAccents(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+export function normalizeHeader(value: string): string {
+  return stripAccents(value).toLowerCase().replace(/[°º#._:]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// ── Parsing ──
+
+function detectDelimiter(firstLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  , ',');
+}
+
+// RFC 4180 CSV with quoted fields; Excel in Spanish locales exports with ";"
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function cellToString(cell: unknown): string {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell).trim();
+}
+
+export async function parseImportFile(file: File): Promise<ParsedSheet> {
+  let data: string[][];
+
+  if (/\.xlsx$/i.test(file.name)) {
+    const { readSheet } = await import('read-excel-file/browser');
+    const sheet = await readSheet(file);
+    data = sheet.map(row => row.map(cellToString));
+  } else {
+    data = parseCsv(await file.text()).map(row => row.map(cell => cell.trim()));
+  }
+
+  const nonEmpty = data.filter(row => row.some(cell => cell !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map(h => h || ''), rows };
+}
+
+// ── Mapping ──
+
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<ImportField>();
+
+  headers.forEach((header, index) => {
+    const normalized = normalizeHeader(header);
+    const field = IMPORT_FIELDS.find(f =>
+      !used.has(f.value) &&
+      (normalizeHeader(f.label) === normalized || f.aliases.includes(normalized))
+    );
+    mapping[index] = field ? field.value : null;
+    if (field) used.add(field.value);
+  });
+
+  return mapping;
+}
+
+// Accepts 2026-03-15, 15/03/2026, 15-03-2026 and Excel serial numbers; a trailing time is ignored
+export function parseImportDate(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+
+  match = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})(?:[\sT]|$)/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+    return toIsoDate(year, +match[2], +match[1]);
+  }
+
+  if (/^\d{5}$/.test(trimmed)) {
+    const date = new Date(Date.UTC(1899, 11, 30) + Number(trimmed) * 86400000);
+    return date.toISOString().slice(0, 10);
+  }
+
+  return null;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// "₡1.500.000,50", "$ 12,000" -> "1500000.50" / "12000"
+export function parseImportNumber(value: string): string {
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!cleaned) return '';
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+
+  // Both separators: whichever comes last is the decimal one
+  if (lastComma !== -1 && lastDot !== -1) {
+    return lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  }
+
+  // One separator: repeated or followed by exactly 3 digits means thousands
+  const separator = lastComma !== -1 ? ',' : lastDot !== -1 ? '.' : null;
+  if (!separator) return cleaned;
+  const parts = cleaned.split(separator);
+  const isThousands = parts.length > 2 || parts[1].length === 3;
+  return isThousands ? parts.join('') : parts.join('.');
+}
+
+function parseProspectType(value: string, fallback: ProspectType): ProspectType {
+  const normalized = normalizeHeader(value);
+  if (!normalized) return fallback;
+  return normalized.startsWith('licit') ? 'licitacion' : 'regular';
+}
+
+function matchPhase(value: string, type: ProspectType): string {
+  const phases: readonly string[] = type === 'licitacion' ? LICITACION_PHASES : B2B_PHASES;
+  const normalized = normalizeHeader(value);
+  return phases.find(p => normalizeHeader(p) === normalized) || '';
+}
+
+export function buildImportRecord(row: string[], mapping: ColumnMapping, defaultType: ProspectType): { record: ImportRecord; errors: string[] } {
+  const raw: Partial<Record<ImportField, string>> = {};
+  Object.entries(mapping).forEach(([index, field]) => {
+    if (field) raw[field] = (row[Number(index)] || '').trim();
+  });
+
+  const errors: string[] = [];
+  const prospectType = parseProspectType(raw.prospect_type || '', defaultType);
+
+  const currentPhase = raw.current_phase ? matchPhase(raw.current_phase, prospectType) : '';
+  if (raw.current_phase && !currentPhase) {
+    errors.push(`Fase "${raw.current_phase}" no existe para este tipo de prospecto`);
+  }
+
+  const dateField = (field: ImportField, label: string) => {
+    const value = raw[field] || '';
+    if (!value) return '';
+    const parsed = parseImportDate(value);
+    if (!parsed) errors.push(`${label} "${value}" no es una fecha válida`);
+    return parsed || '';
+  };
+
+  const currency = raw.currency ? parseCurrency(raw.currency) : null;
+  if (raw.currency && !currency) errors.push(`Moneda "${raw.currency}" no reconocida (use CRC o USD)`);
+
+  const record: ImportRecord = {
+    prospect_type: prospectType,
+    company_name: raw.company_name || '',
+    contact_name: raw.contact_name || '',
+    phone: raw.phone || '',
+    email: raw.email || '',
+    current_phase: currentPhase,
+    estimated_value: raw.estimated_value ? parseImportNumber(raw.estimated_value) : '0',
+    currency: currency || '',
+    notes: raw.notes || '',
+    licitacion_numero: raw.licitacion_numero || '',
+    licitacion_institucion: raw.licitacion_institucion || '',
+    licitacion_fecha_publicacion: dateField('licitacion_fecha_publicacion', 'Fecha de publicación'),
+    licitacion_fecha_apertura: dateField('licitacion_fecha_apertura', 'Fecha de apertura'),
+    licitacion_fecha_cierre: dateField('licitacion_fecha_cierre', 'Fecha de cierre'),
+    licitacion_monto_estimado: raw.licitacion_monto_estimado ? parseImportNumber(raw.licitacion_monto_estimado) : '',
+  };
+
+  errors.push(...Object.values(validateProspectFields(record)));
+  return { record, errors };
+}
+
+// ── Duplicates ──
+
+const COMPANY_SUFFIXES = /\b(s a|sa|srl|s r l|ltda|limitada|inc|corp|sociedad anonima)\b/g;
+
+export function normalizeCompany(value: string | null | undefined): string {
+  if (!value) return '';
+  return stripAccents(value)
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Last 8 digits: ignores +506, spaces and dashes
+export function normalizePhone(value: string | null | undefined): string {
+  const digits = (value || '').replace(/\D/g, '');
+  return digits.length >= 8 ? digits.slice(-8) : digits;
+}
+
+export function normalizeEmail(value: string | null | undefined): string {
+  return (value || '').trim().toLowerCase();
+}
+
+// Checks each row against existing prospects and earlier rows of the same file
+export function findDuplicates(rows: ImportRow[], existing: ExistingProspect[]): ImportRow[] {
+  const byCompany = new Map<string, string>();
+  const byEmail = new Map<string, string>();
+  const byPhone = new Map<string, string>();
+
+  const register = (name: string, company: string | null, email: string | null, phone: string | null) => {
+    const c = normalizeCompany(company);
+    const e = normalizeEmail(email);
+    const p = normalizePhone(phone);
+    if (c && !byCompany.has(c)) byCompany.set(c, name);
+    if (e && !byEmail.has(e)) byEmail.set(e, name);
+    if (p.length === 8 && !byPhone.has(p)) byPhone.set(p, name);
+  };
+
+  existing.forEach(p => register(p.company_name || '', p.company_name, p.email, p.phone));
+
+  return rows.map(row => {
+    const { company_name, email, phone } = row.record;
+    const company = normalizeCompany(company_name);
+    const mail = normalizeEmail(email);
+    const tel = normalizePhone(phone);
+
+    let duplicateOf: string | null = null;
+    let duplicateReason: string | null = null;
+    if (company && byCompany.has(company)) {
+      duplicateOf = byCompany.get(company)!;
+      duplicateReason = 'Mismo nombre de empresa';
+    } else if (mail && byEmail.has(mail)) {
+      duplicateOf = byEmail.get(mail)!;
+      duplicateReason = 'Mismo email';
+    } else if (tel.length === 8 && byPhone.has(tel)) {
+      duplicateOf = byPhone.get(tel)!;
+      duplicateReason = 'Mismo teléfono';
+    }
+
+    if (row.errors.length === 0) {
+      register(`${company_name} (fila ${row.rowNumber})`, company_name, email, phone);
+    }
+
+    return { ...row, duplicateOf, duplicateReason };
+  });
+}
+
+// Shape inserted into prospects, mirroring CreateProspectModal
+export function toProspectInsert(record: ImportRecord, ownerId: string | null) {
+  const isLicitacion = record.prospect_type === 'licitacion';
+  return {
+    company_name: record.company_name.trim(),
+    contact_name: record.contact_name.trim() || '',
+    phone: record.phone.trim() || null,
+    email: record.email.trim() || null,
+    current_phase: (record.current_phase || (isLicitacion ? 'Por Publicar' : 'Prospección')) as
+      (typeof B2B_PHASES)[number] | (typeof LICITACION_PHASES)[number],
+    estimated_value: parseFloat(record.estimated_value) || 0,
+    estimated_value_currency: record.currency || DEFAULT_VALUE_CURRENCY,
+    notes: record.notes.trim() || null,
+    prospect_type: record.prospect_type,
+    owner_id: ownerId,
+    licitacion_numero: isLicitacion ? record.licitacion_numero.trim() || null : null,
+    licitacion_institucion: isLicitacion ? record.licitacion_institucion.trim() || null : null,
+    licitacion_fecha_publicacion: isLicitacion ? record.licitacion_fecha_publicacion || null : null,
+    licitacion_fecha_apertura: isLicitacion ? record.licitacion_fecha_apertura || null : null,
+    licitacion_fecha_cierre: isLicitacion ? record.licitacion_fecha_cierre || null : null,
+    licitacion_monto_estimado: isLicitacion ? parseFloat(record.licitacion_monto_estimado) || null : null,
+    licitacion_monto_currency: record.currency || DEFAULT_LICITACION_CURRENCY,
+  };
+}
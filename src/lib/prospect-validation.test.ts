@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { validateProspectFields, type ProspectFieldsToValidate } from '@/lib/prospect-validation';
+
+const fields = (overrides: Partial<ProspectFieldsToValidate>): ProspectFieldsToValidate => ({
+  prospect_type: 'b2b',
+  company_name: 'Textiles del Sur',
+  email: '',
+  estimated_value: '0',
+  licitacion_institucion: '',
+  licitacion_fecha_cierre: '',
+  ...overrides,
+});
+
+describe('validateProspectFields', () => {
+  it('accepts a B2B prospect with only a company name', () => {
+    expect(validateProspectFields(fields({}))).toEqual({});
+  });
+
+  it('requires a company name and a valid email when one is given', () => {
+    expect(validateProspectFields(fields({ company_name: '  ', email: 'ventas@textiles' }))).toEqual({
+      company_name: 'El nombre de empresa es obligatorio',
+      email: 'El formato de email no es válido',
+    });
+    expect(validateProspectFields(fields({ email: ' ventas@textiles.cr ' }))).toEqual({});
+  });
+
+  it('rejects negative or non-numeric values', () => {
+    expect(validateProspectFields(fields({ estimated_value: '-1' }))).toHaveProperty('estimated_value');
+    expect(validateProspectFields(fields({ estimated_value: 'mucho' }))).toHaveProperty('estimated_value');
+    expect(validateProspectFields(fields({ estimated_value: '12500.50' }))).toEqual({});
+  });
+
+  it('requires the institution and closing date for licitaciones', () => {
+    expect(validateProspectFields(fields({ prospect_type: 'licitacion' }))).toEqual({
+      licitacion_institucion: 'La institución es obligatoria para licitaciones',
+      licitacion_fecha_cierre: 'La fecha de cierre es obligatoria para licitaciones',
+    });
+    expect(validateProspectFields(fields({
+      prospect_type: 'licitacion',
+      licitacion_institucion: 'CCSS',
+      licitacion_fecha_cierre: '2026-11-30',
+    }))).toEqual({});
+  });
+});
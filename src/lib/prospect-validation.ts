@@ -0,0 +1,42 @@
+// Validation rules for new prospects, shared by CreateProspectModal and the import wizard
+
+export interface ProspectFieldsToValidate {
+  prospect_type: string;
+  company_name: string;
+  email: string;
+  estimated_value: string;
+  licitacion_institucion: string;
+  licitacion_fecha_cierre: string;
+}
+
+export const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Returns field -> message; empty object when valid
+export function validateProspectFields(data: ProspectFieldsToValidate): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (!data.company_name.trim()) {
+    errors.company_name = 'El nombre de empresa es obligatorio';
+  }
+
+  if (data.email.trim() && !EMAIL_REGEX.test(data.email.trim())) {
+    errors.email = 'El formato de email no es válido';
+  }
+
+  const value = parseFloat(data.estimated_value);
+  if (isNaN(value) || value < 0) {
+    errors.estimated_value = 'El valor debe ser un número positivo';
+  }
+
+  // Licitacion validation
+  if (data.prospect_type === 'licitacion') {
+    if (!data.licitacion_institucion.trim()) {
+      errors.licitacion_institucion = 'La institución es obligatoria para licitaciones';
+    }
+    if (!data.licitacion_fecha_cierre) {
+      errors.licitacion_fecha_cierre = 'La fecha de cierre es obligatoria para licitaciones';
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import {
+  defaultRecurrenceRule,
+  describeRecurrence,
+  getFirstOccurrenceDate,
+  getNextOccurrenceDate,
+  getUpcomingOccurrences,
+  ruleToSeriesFields,
+  seriesToRule,
+  validateRecurrenceRule,
+  type RecurrenceRule,
+} from '@/lib/recurrence';
+import { Database } from '@/integrations/supabase/types';
+
+type ActivitySeries = Database['public']['Tables']['activity_series']['Row'];
+
+// Local noon, as the date pickers produce
+const day = (iso: string) => new Date(`${iso}T12:00:00`);
+const ymd = (d: Date | null) => (d ? format(d, 'yyyy-MM-dd') : null);
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  ...defaultRecurrenceRule(day('2026-03-02')),
+  ...overrides,
+});
+
+describe('getNextOccurrenceDate', () => {
+  it('clamps monthly rules to the last day of short months', () => {
+    const monthly = rule({ frequency: 'monthly', dayOfMonth: 31 });
+
+    expect(ymd(getNextOccurrenceDate(monthly, day('2026-01-31')))).toBe('2026-02-28');
+    expect(ymd(getNextOccurrenceDate(monthly, day('2026-02-28')))).toBe('2026-03-31');
+    expect(ymd(getNextOccurrenceDate(monthly, day('2028-01-31')))).toBe('2028-02-29');
+    expect(ymd(getNextOccurrenceDate(monthly, day('2026-12-31')))).toBe('2027-01-31');
+  });
+
+  it('returns the same month when the day is still ahead', () => {
+    expect(ymd(getNextOccurrenceDate(rule({ frequency: 'monthly', dayOfMonth: 15 }), day('2026-03-10'))))
+      .toBe('2026-03-15');
+  });
+
+  it('finds the next selected weekday, wrapping to the following week', () => {
+    // Monday and Thursday
+    const weekly = rule({ frequency: 'weekly', weekdays: [1, 4] });
+
+    expect(ymd(getNextOccurrenceDate(weekly, day('2026-03-02')))).toBe('2026-03-05');
+    expect(ymd(getNextOccurrenceDate(weekly, day('2026-03-05')))).toBe('2026-03-09');
+    expect(ymd(getNextOccurrenceDate(rule({ frequency: 'weekly', weekdays: [0] }), day('2026-03-08'))))
+      .toBe('2026-03-15');
+    expect(getNextOccurrenceDate(rule({ frequency: 'weekly', weekdays: [] }), day('2026-03-02'))).toBeNull();
+  });
+
+  it('adds days for daily and interval rules', () => {
+    expect(ymd(getNextOccurrenceDate(rule({ frequency: 'daily' }), day('2026-02-28')))).toBe('2026-03-01');
+    expect(ymd(getNextOccurrenceDate(rule({ frequency: 'interval', intervalDays: 90 }), day('2026-01-15'))))
+      .toBe('2026-04-15');
+    expect(getNextOccurrenceDate(rule({ frequency: 'none' }), day('2026-03-02'))).toBeNull();
+  });
+});
+
+describe('getFirstOccurrenceDate', () => {
+  it('keeps the chosen date when it fits and moves forward otherwise', () => {
+    const weekly = rule({ frequency: 'weekly', weekdays: [3] });
+
+    expect(ymd(getFirstOccurrenceDate(weekly, day('2026-03-04')))).toBe('2026-03-04');
+    expect(ymd(getFirstOccurrenceDate(weekly, day('2026-03-05')))).toBe('2026-03-11');
+    expect(ymd(getFirstOccurrenceDate(rule({ frequency: 'monthly', dayOfMonth: 31 }), day('2026-02-28'))))
+      .toBe('2026-02-28');
+  });
+});
+
+describe('getUpcomingOccurrences', () => {
+  it('stops at the occurrence count', () => {
+    const dates = getUpcomingOccurrences(rule({ frequency: 'monthly', dayOfMonth: 31, end: 'count', count: 3 }), day('2026-01-31'), 10);
+
+    expect(dates.map(ymd)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+  });
+
+  it('stops after the end date, including it', () => {
+    const weekly = rule({ frequency: 'weekly', weekdays: [1, 5], end: 'date', endDate: '2026-03-13' });
+
+    expect(getUpcomingOccurrences(weekly, day('2026-03-02'), 10).map(ymd))
+      .toEqual(['2026-03-02', '2026-03-06', '2026-03-09', '2026-03-13']);
+  });
+
+  it('is empty for activities that do not repeat', () => {
+    expect(getUpcomingOccurrences(rule({ frequency: 'none' }), day('2026-03-02'), 5)).toEqual([]);
+  });
+});
+
+describe('validateRecurrenceRule', () => {
+  const start = day('2026-03-02');
+
+  it('accepts valid rules and rejects incomplete ones', () => {
+    expect(validateRecurrenceRule(rule({ frequency: 'weekly', weekdays: [1] }), start)).toBeNull();
+    expect(validateRecurrenceRule(rule({ frequency: 'weekly', weekdays: [] }), start))
+      .toBe('Selecciona al menos un día de la semana.');
+    expect(validateRecurrenceRule(rule({ frequency: 'interval', intervalDays: 0 }), start))
+      .toBe('El intervalo debe estar entre 1 y 365 días.');
+    expect(validateRecurrenceRule(rule({ frequency: 'monthly', dayOfMonth: 32 }), start))
+      .toBe('El día del mes debe estar entre 1 y 31.');
+    expect(validateRecurrenceRule(rule({ frequency: 'daily', end: 'date', endDate: '2026-03-01' }), start))
+      .toBe('La fecha de fin debe ser posterior a la fecha de inicio.');
+    expect(validateRecurrenceRule(rule({ frequency: 'daily', end: 'count', count: 0 }), start))
+      .toBe('Indica cuántas veces se repite.');
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('lists weekdays Monday first and adds the end', () => {
+    expect(describeRecurrence(rule({ frequency: 'weekly', weekdays: [0, 1, 3] })))
+      .toBe('Cada semana: lunes, miércoles y domingo');
+    expect(describeRecurrence(rule({ frequency: 'weekly', weekdays: [5], end: 'count', count: 1 })))
+      .toBe('Cada viernes, 1 vez');
+    expect(describeRecurrence(rule({ frequency: 'monthly', dayOfMonth: 31, end: 'date', endDate: '2026-12-31' })))
+      .toBe('El día 31 de cada mes, hasta el 31 de diciembre 2026');
+  });
+});
+
+describe('esta y siguientes', () => {
+  const series = (overrides: Partial<ActivitySeries>): ActivitySeries => ({
+    frequency: 'weekly',
+    interval_days: null,
+    weekdays: [4, 1],
+    day_of_month: null,
+    end_date: null,
+    max_occurrences: null,
+    is_active: true,
+    ...overrides,
+  } as ActivitySeries);
+
+  it('loads the series rule and saves only the columns of its frequency', () => {
+    const loaded = seriesToRule(series({}));
+
+    expect(loaded).toMatchObject({ frequency: 'weekly', weekdays: [4, 1], end: 'never' });
+    expect(ruleToSeriesFields({ ...loaded, frequency: 'monthly', dayOfMonth: 31, end: 'count', count: 6 }))
+      .toEqual({
+        frequency: 'monthly',
+        interval_days: null,
+        weekdays: null,
+        day_of_month: 31,
+        end_date: null,
+        max_occurrences: 6,
+      });
+    expect(ruleToSeriesFields(loaded).weekdays).toEqual([1, 4]);
+  });
+
+  it('treats an ended series as not repeating', () => {
+    expect(seriesToRule(series({ is_active: false })).frequency).toBe('none');
+    expect(seriesToRule(series({ end_date: '2026-06-30' })).end).toBe('date');
+    expect(seriesToRule(series({ max_occurrences: 4 })).end).toBe('count');
+  });
+
+  it('schedules the following occurrences from the edited one with the new rule', () => {
+    const edited = { ...seriesToRule(series({})), weekdays: [2] };
+
+    expect(getUpcomingOccurrences(edited, day('2026-03-05'), 3).map(ymd))
+      .toEqual(['2026-03-10', '2026-03-17', '2026-03-24']);
+  });
+});
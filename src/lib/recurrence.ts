@@ -0,0 +1,185 @@
+import { addDays, format, getDaysInMonth, startOfMonth, addMonths } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Database } from '@/integrations/supabase/types';
+
+type ActivitySeries = Database['public']['Tables']['activity_series']['Row'];
+
+export type RecurrenceFrequency = 'none' | 'daily' | 'weekly' | 'monthly' | 'interval';
+export type RecurrenceEnd = 'never' | 'date' | 'count';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  intervalDays: number;
+  // 0 = Sunday, same as Date.getDay() and EXTRACT(DOW) in the database
+  weekdays: number[];
+  dayOfMonth: number;
+  end: RecurrenceEnd;
+  endDate: string | null;
+  count: number | null;
+}
+
+export const FREQUENCY_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'none', label: 'No se repite' },
+  { value: 'daily', label: 'Todos los días' },
+  { value: 'weekly', label: 'Semanalmente' },
+  { value: 'monthly', label: 'Mensualmente' },
+  { value: 'interval', label: 'Cada N días' },
+];
+
+// Monday first, as in the calendar
+export const WEEKDAY_OPTIONS = [
+  { value: 1, short: 'L', label: 'lunes' },
+  { value: 2, short: 'M', label: 'martes' },
+  { value: 3, short: 'X', label: 'miércoles' },
+  { value: 4, short: 'J', label: 'jueves' },
+  { value: 5, short: 'V', label: 'viernes' },
+  { value: 6, short: 'S', label: 'sábado' },
+  { value: 0, short: 'D', label: 'domingo' },
+];
+
+export function defaultRecurrenceRule(startDate: Date = new Date()): RecurrenceRule {
+  return {
+    frequency: 'none',
+    intervalDays: 14,
+    weekdays: [startDate.getDay()],
+    dayOfMonth: startDate.getDate(),
+    end: 'never',
+    endDate: null,
+    count: null,
+  };
+}
+
+// First date strictly after `after` that matches the rule.
+// Mirrors public.next_series_date(), which materializes occurrences on completion.
+export function getNextOccurrenceDate(rule: RecurrenceRule, after: Date): Date | null {
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(after, 1);
+    case 'interval':
+      return addDays(after, Math.max(1, rule.intervalDays));
+    case 'weekly':
+      for (let i = 1; i <= 7; i++) {
+        const candidate = addDays(after, i);
+        if (rule.weekdays.includes(candidate.getDay())) return candidate;
+      }
+      return null;
+    case 'monthly': {
+      let month = startOfMonth(after);
+      for (let i = 0; i < 2; i++) {
+        const day = Math.min(rule.dayOfMonth, getDaysInMonth(month));
+        const candidate = new Date(month.getFullYear(), month.getMonth(), day, 12);
+        if (format(candidate, 'yyyy-MM-dd') > format(after, 'yyyy-MM-dd')) return candidate;
+        month = addMonths(month, 1);
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+// The first occurrence is the chosen date if it fits the rule, otherwise the next one that does
+export function getFirstOccurrenceDate(rule: RecurrenceRule, startDate: Date): Date {
+  const fits =
+    (rule.frequency === 'weekly' && rule.weekdays.includes(startDate.getDay())) ||
+    (rule.frequency === 'monthly' &&
+      startDate.getDate() === Math.min(rule.dayOfMonth, getDaysInMonth(startDate))) ||
+    rule.frequency === 'daily' ||
+    rule.frequency === 'interval' ||
+    rule.frequency === 'none';
+
+  return fits ? startDate : getNextOccurrenceDate(rule, startDate) ?? startDate;
+}
+
+// Preview of the next occurrences, honoring the end date / count
+export function getUpcomingOccurrences(rule: RecurrenceRule, startDate: Date, limit: number): Date[] {
+  if (rule.frequency === 'none') return [];
+
+  const max = rule.end === 'count' && rule.count ? Math.min(rule.count, limit) : limit;
+  const dates: Date[] = [];
+  let current: Date | null = getFirstOccurrenceDate(rule, startDate);
+
+  while (current && dates.length < max) {
+    if (rule.end === 'date' && rule.endDate && format(current, 'yyyy-MM-dd') > rule.endDate) break;
+    dates.push(current);
+    current = getNextOccurrenceDate(rule, current);
+  }
+
+  return dates;
+}
+
+// Returns an error message, or null when the rule can be saved
+export function validateRecurrenceRule(rule: RecurrenceRule, startDate: Date): string | null {
+  if (rule.frequency === 'none') return null;
+  if (rule.frequency === 'weekly' && rule.weekdays.length === 0) {
+    return 'Selecciona al menos un día de la semana.';
+  }
+  if (rule.frequency === 'interval' && (!rule.intervalDays || rule.intervalDays < 1 || rule.intervalDays > 365)) {
+    return 'El intervalo debe estar entre 1 y 365 días.';
+  }
+  if (rule.frequency === 'monthly' && (!rule.dayOfMonth || rule.dayOfMonth < 1 || rule.dayOfMonth > 31)) {
+    return 'El día del mes debe estar entre 1 y 31.';
+  }
+  if (rule.end === 'date' && (!rule.endDate || rule.endDate < format(startDate, 'yyyy-MM-dd'))) {
+    return 'La fecha de fin debe ser posterior a la fecha de inicio.';
+  }
+  if (rule.end === 'count' && (!rule.count || rule.count < 1)) {
+    return 'Indica cuántas veces se repite.';
+  }
+  return null;
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let text: string;
+  switch (rule.frequency) {
+    case 'daily':
+      text = 'Todos los días';
+      break;
+    case 'interval':
+      text = `Cada ${rule.intervalDays} días`;
+      break;
+    case 'weekly': {
+      const days = WEEKDAY_OPTIONS.filter(d => rule.weekdays.includes(d.value)).map(d => d.label);
+      text = days.length > 1
+        ? `Cada semana: ${days.slice(0, -1).join(', ')} y ${days[days.length - 1]}`
+        : `Cada ${days[0] ?? 'semana'}`;
+      break;
+    }
+    case 'monthly':
+      text = `El día ${rule.dayOfMonth} de cada mes`;
+      break;
+    default:
+      return 'No se repite';
+  }
+
+  if (rule.end === 'date' && rule.endDate) {
+    text += `, hasta el ${format(new Date(rule.endDate + 'T12:00:00'), "d 'de' MMMM yyyy", { locale: es })}`;
+  } else if (rule.end === 'count' && rule.count) {
+    text += `, ${rule.count} ${rule.count === 1 ? 'vez' : 'veces'}`;
+  }
+  return text;
+}
+
+// Rule columns of activity_series
+export function ruleToSeriesFields(rule: RecurrenceRule) {
+  return {
+    frequency: rule.frequency,
+    interval_days: rule.frequency === 'interval' ? rule.intervalDays : null,
+    weekdays: rule.frequency === 'weekly' ? [...rule.weekdays].sort((a, b) => a - b) : null,
+    day_of_month: rule.frequency === 'monthly' ? rule.dayOfMonth : null,
+    end_date: rule.end === 'date' ? rule.endDate : null,
+    max_occurrences: rule.end === 'count' ? rule.count : null,
+  };
+}
+
+export function seriesToRule(series: ActivitySeries): RecurrenceRule {
+  return {
+    frequency: series.is_active ? series.frequency as RecurrenceFrequency : 'none',
+    intervalDays: series.interval_days ?? 14,
+    weekdays: series.weekdays ?? [],
+    dayOfMonth: series.day_of_month ?? 1,
+    end: series.end_date ? 'date' : series.max_occurrences ? 'count' : 'never',
+    endDate: series.end_date,
+    count: series.max_occurrences,
+  };
+}
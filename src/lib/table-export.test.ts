@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { exportRows, type ExportColumn } from '@/lib/table-export';
+
+const { writeXlsxFile, toFile } = vi.hoisted(() => {
+  const toFile = vi.fn();
+  return { toFile, writeXlsxFile: vi.fn(() => ({ toFile })) };
+});
+
+vi.mock('write-excel-file/browser', () => ({ default: writeXlsxFile }));
+
+interface Row {
+  company: string;
+  value: number | null;
+  date: Date | null;
+  notes?: string;
+}
+
+const COLUMNS: ExportColumn<Row>[] = [
+  { header: 'Empresa', value: r => r.company, width: 30 },
+  { header: 'Valor', value: r => r.value },
+  { header: 'Fecha', value: r => r.date },
+  { header: 'Notas', value: r => r.notes },
+];
+
+const ROWS: Row[] = [
+  { company: 'Textiles del Sur, S.A.', value: 1500.5, date: new Date('2026-03-05T12:00:00'), notes: 'Dijo "llamar luego"\nel lunes' },
+  { company: 'Ñandú', value: null, date: null, notes: '' },
+];
+
+// jsdom's Blob has no arrayBuffer(), but FileReader reads it
+const readBytes = (blob: Blob) => new Promise<Uint8Array>(resolve => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+  reader.readAsArrayBuffer(blob);
+});
+
+describe('exportRows', () => {
+  let blob: Blob | undefined;
+  let downloadName: string | undefined;
+
+  beforeEach(() => {
+    blob = undefined;
+    writeXlsxFile.mockClear();
+    toFile.mockClear();
+    URL.createObjectURL = vi.fn((b: Blob) => {
+      blob = b;
+      return 'blob:export';
+    });
+    URL.revokeObjectURL = vi.fn();
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      downloadName = this.download;
+    });
+  });
+
+  it('writes CSV with a BOM, quoting cells that need it and leaving empty values blank', async () => {
+    await exportRows(ROWS, COLUMNS, 'prospectos', 'csv');
+
+    expect(downloadName).toBe('prospectos.csv');
+    const bytes = await readBytes(blob!);
+    expect([...bytes.slice(0, 3)]).toEqual([0xef, 0xbb, 0xbf]);
+    expect(new TextDecoder().decode(bytes.slice(3))).toBe([
+      'Empresa,Valor,Fecha,Notas',
+      '"Textiles del Sur, S.A.",1500.5,2026-03-05,"Dijo ""llamar luego""\nel lunes"',
+      'Ñandú,,,',
+    ].join('\r\n'));
+  });
+
+  it('writes XLSX cells with a bold header, typed values and the column widths', async () => {
+    await exportRows(ROWS, COLUMNS, 'prospectos', 'xlsx', 'Prospectos');
+
+    expect(writeXlsxFile).toHaveBeenCalledWith(
+      [
+        COLUMNS.map(c => ({ value: c.header, fontWeight: 'bold' })),
+        ['Textiles del Sur, S.A.', 1500.5, ROWS[0].date, 'Dijo "llamar luego"\nel lunes'],
+        ['Ñandú', null, null, null],
+      ],
+      expect.objectContaining({
+        sheet: 'Prospectos',
+        columns: [{ width: 30 }, { width: 18 }, { width: 18 }, { width: 18 }],
+      }),
+    );
+    expect(toFile).toHaveBeenCalledWith('prospectos.xlsx');
+  });
+});
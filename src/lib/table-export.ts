@@ -0,0 +1,64 @@
+// Spreadsheet export (CSV / XLSX) for tables and reports
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportValue = string | number | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportValue;
+  // XLSX column width in characters
+  width?: number;
+}
+
+function toCsvCell(value: ExportValue): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// fileName without extension; the format decides it
+export async function exportRows<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  fileName: string,
+  format: ExportFormat,
+  sheetName = 'Datos',
+): Promise<void> {
+  if (format === 'csv') {
+    const lines = [
+      columns.map(c => toCsvCell(c.header)).join(','),
+      ...rows.map(row => columns.map(c => toCsvCell(c.value(row))).join(',')),
+    ];
+    // BOM so Excel opens accents correctly
+    downloadBlob(new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+    return;
+  }
+
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const data = [
+    columns.map(c => ({ value: c.header, fontWeight: 'bold' as const })),
+    ...rows.map(row => columns.map(c => {
+      const value = c.value(row);
+      return value === null || value === undefined || value === '' ? null : value;
+    })),
+  ];
+
+  await writeXlsxFile(data, {
+    sheet: sheetName,
+    columns: columns.map(c => ({ width: c.width ?? 18 })),
+    dateFormat: 'dd/mm/yyyy',
+    stickyRowsCount: 1,
+  }).toFile(`${fileName}.xlsx`);
+}
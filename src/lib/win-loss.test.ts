@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildLossReasonStats,
+  buildSalespersonStats,
+  buildValueBandStats,
+  isWonDeal,
+  type ClosedDeal,
+} from '@/lib/win-loss';
+import type { CurrencyCode } from '@/lib/currency';
+
+let nextId = 0;
+const deal = (overrides: Partial<ClosedDeal>): ClosedDeal => ({
+  id: `deal-${nextId++}`,
+  company_name: 'Textiles del Sur',
+  current_phase: 'Ganada',
+  estimated_value: 10_000,
+  estimated_value_currency: 'USD',
+  owner_id: null,
+  loss_reason_id: null,
+  loss_notes: null,
+  win_notes: null,
+  loss_reasons: null,
+  ...overrides,
+});
+
+// 500 colones per dollar, reporting in dollars
+const toUsd = (amount: number, currency: CurrencyCode) => (currency === 'CRC' ? amount / 500 : amount);
+const toReporting = (amount: number | null | undefined, currency: CurrencyCode | null | undefined) =>
+  amount ? toUsd(amount, currency ?? 'USD') : 0;
+
+describe('isWonDeal', () => {
+  it('counts the phases after Ganada as won', () => {
+    expect(isWonDeal(deal({ current_phase: 'Ganada' }))).toBe(true);
+    expect(isWonDeal(deal({ current_phase: 'Facturada' }))).toBe(true);
+    expect(isWonDeal(deal({ current_phase: 'Perdida' }))).toBe(false);
+    expect(isWonDeal(deal({ current_phase: null }))).toBe(false);
+  });
+});
+
+describe('buildLossReasonStats', () => {
+  it('groups lost deals by reason, most frequent first, with their share and value', () => {
+    const precio = { loss_reason_id: 'r1', loss_reasons: { label: 'Precio' } };
+    const stats = buildLossReasonStats([
+      deal({ current_phase: 'Ganada' }),
+      deal({ current_phase: 'Perdida', estimated_value: 2_000 }),
+      deal({ current_phase: 'Perdida', ...precio, estimated_value: 1_000_000, estimated_value_currency: 'CRC' }),
+      deal({ current_phase: 'Perdida', ...precio, estimated_value: 3_000 }),
+    ], toReporting);
+
+    expect(stats).toEqual([
+      { key: 'r1', label: 'Precio', count: 2, share: 2 / 3, lostValue: 5_000 },
+      { key: 'none', label: 'Sin razón registrada', count: 1, share: 1 / 3, lostValue: 2_000 },
+    ]);
+  });
+
+  it('is empty without lost deals', () => {
+    expect(buildLossReasonStats([deal({})], toReporting)).toEqual([]);
+  });
+});
+
+describe('buildValueBandStats', () => {
+  it('buckets deals by their value in dollars, in size order', () => {
+    const rows = buildValueBandStats([
+      deal({ estimated_value: 150_000 }),
+      deal({ estimated_value: 4_999 }),
+      deal({ estimated_value: 5_000, current_phase: 'Perdida' }),
+      // ₡10M is $20K
+      deal({ estimated_value: 10_000_000, estimated_value_currency: 'CRC' }),
+    ], toReporting, toUsd);
+
+    expect(rows.map(r => [r.key, r.won, r.lost])).toEqual([
+      ['small', 1, 0],
+      ['medium', 1, 1],
+      ['xlarge', 1, 0],
+    ]);
+    expect(rows[1]).toMatchObject({ label: '$5K – $25K', winRate: 0.5, wonValue: 20_000, lostValue: 5_000 });
+  });
+
+  it('puts deals without a value or a rate last', () => {
+    const rows = buildValueBandStats([
+      deal({ estimated_value: null }),
+      deal({ estimated_value: 50_000, estimated_value_currency: 'CRC' }),
+      deal({ estimated_value: 30_000 }),
+    ], toReporting, (amount, currency) => (currency === 'CRC' ? null : amount));
+
+    expect(rows.map(r => r.key)).toEqual(['large', 'none']);
+    expect(rows[1]).toMatchObject({ label: 'Sin valor', won: 2 });
+  });
+});
+
+describe('buildSalespersonStats', () => {
+  it('ranks salespeople by win rate, then by number of deals', () => {
+    const rows = buildSalespersonStats([
+      deal({ owner_id: 'eva' }),
+      deal({ owner_id: 'eva', current_phase: 'Perdida' }),
+      deal({ owner_id: 'ana' }),
+      deal({ owner_id: 'ana', current_phase: 'Perdida' }),
+      deal({ owner_id: 'luis' }),
+      deal({ owner_id: 'luis', current_phase: 'Perdida' }),
+      deal({ owner_id: 'luis' }),
+      deal({ owner_id: 'ana' }),
+      deal({ owner_id: 'ana', current_phase: 'Perdida' }),
+      deal({ owner_id: null }),
+      deal({ owner_id: 'ex', current_phase: 'Perdida' }),
+    ], { ana: 'Ana Mora', eva: 'Eva Solís', luis: 'Luis Vega' }, toReporting);
+
+    expect(rows.map(r => [r.label, r.won, r.lost])).toEqual([
+      ['Sin asignar', 1, 0],
+      ['Luis Vega', 2, 1],
+      ['Ana Mora', 2, 2],
+      ['Eva Solís', 1, 1],
+      ['Usuario desconocido', 0, 1],
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import type { CurrencyCode } from '@/lib/currency';
+
+// B2B phases that count as a won deal: everything after Ganada is still a win
+export const WON_PHASES = ['Ganada', 'En Producción', 'Facturada', 'Post Venta'] as const;
+
+export const LOST_PHASE = 'Perdida';
+
+// Deal size bands, in dollars so they don't move with the reporting currency
+export const VALUE_BANDS = [
+  { key: 'small', label: 'Menos de $5K', max: 5_000 },
+  { key: 'medium', label: '$5K – $25K', max: 25_000 },
+  { key: 'large', label: '$25K – $100K', max: 100_000 },
+  { key: 'xlarge', label: 'Más de $100K', max: Infinity },
+] as const;
+
+export interface ClosedDeal {
+  id: string;
+  company_name: string | null;
+  current_phase: string | null;
+  estimated_value: number | null;
+  estimated_value_currency: CurrencyCode;
+  owner_id: string | null;
+  loss_reason_id: string | null;
+  loss_notes: string | null;
+  win_notes: string | null;
+  loss_reasons: { label: string } | null;
+}
+
+export interface WinLossRow {
+  key: string;
+  label: string;
+  won: number;
+  lost: number;
+  winRate: number;
+  // In the reporting currency
+  wonValue: number;
+  lostValue: number;
+}
+
+export interface LossReasonStats {
+  key: string;
+  label: string;
+  count: number;
+  share: number;
+  lostValue: number;
+}
+
+type ToReporting = (amount: number | null | undefined, currency: CurrencyCode | null | undefined) => number;
+
+export const isWonDeal = (deal: ClosedDeal) =>
+  (WON_PHASES as readonly string[]).includes(deal.current_phase || '');
+
+function groupWinLoss(
+  deals: ClosedDeal[],
+  keyOf: (deal: ClosedDeal) => { key: string; label: string },
+  toReporting: ToReporting,
+): Map<string, WinLossRow> {
+  const rows = new Map<string, WinLossRow>();
+  deals.forEach(deal => {
+    const { key, label } = keyOf(deal);
+    const row = rows.get(key) ?? { key, label, won: 0, lost: 0, winRate: 0, wonValue: 0, lostValue: 0 };
+    const value = toReporting(deal.estimated_value, deal.estimated_value_currency);
+    if (isWonDeal(deal)) {
+      row.won++;
+      row.wonValue += value;
+    } else {
+      row.lost++;
+      row.lostValue += value;
+    }
+    rows.set(key, row);
+  });
+
+  rows.forEach(row => {
+    row.winRate = row.won / (row.won + row.lost);
+  });
+  return rows;
+}
+
+// Lost deals per reason, most frequent first
+export function buildLossReasonStats(deals: ClosedDeal[], toReporting: ToReporting): LossReasonStats[] {
+  const lost = deals.filter(d => !isWonDeal(d));
+  const byReason = new Map<string, LossReasonStats>();
+
+  lost.forEach(deal => {
+    const key = deal.loss_reason_id ?? 'none';
+    const stats = byReason.get(key) ?? {
+      key,
+      label: deal.loss_reasons?.label ?? 'Sin razón registrada',
+      count: 0,
+      share: 0,
+      lostValue: 0,
+    };
+    stats.count++;
+    stats.lostValue += toReporting(deal.estimated_value, deal.estimated_value_currency);
+    byReason.set(key, stats);
+  });
+
+  return [...byReason.values()]
+    .map(s => ({ ...s, share: s.count / lost.length }))
+    .sort((a, b) => b.count - a.count);
+}
+
+// Win rate per deal size; toUsd returns null when the value can't be converted
+export function buildValueBandStats(
+  deals: ClosedDeal[],
+  toReporting: ToReporting,
+  toUsd: (amount: number, currency: CurrencyCode) => number | null,
+): WinLossRow[] {
+  const rows = groupWinLoss(deals, deal => {
+    const usd = deal.estimated_value ? toUsd(deal.estimated_value, deal.estimated_value_currency) : null;
+    if (usd === null) return { key: 'none', label: 'Sin valor' };
+    const band = VALUE_BANDS.find(b => usd < b.max) ?? VALUE_BANDS[VALUE_BANDS.length - 1];
+    return { key: band.key, label: band.label };
+  }, toReporting);
+
+  // Bands in size order, deals without a value last
+  return [...VALUE_BANDS.map(b => b.key), 'none']
+    .map(key => rows.get(key))
+    .filter((row): row is WinLossRow => !!row);
+}
+
+// Win rate per salesperson, best first
+export function buildSalespersonStats(
+  deals: ClosedDeal[],
+  userNames: Record<string, string>,
+  toReporting: ToReporting,
+): WinLossRow[] {
+  const rows = groupWinLoss(deals, deal => ({
+    key: deal.owner_id ?? 'none',
+    label: deal.owner_id ? userNames[deal.owner_id] || 'Usuario desconocido' : 'Sin asignar',
+  }), toReporting);
+
+  return [...rows.values()].sort((a, b) => b.winRate - a.winRate || (b.won + b.lost) - (a.won + a.lost));
+}
@@ -0,0 +1,41 @@
+import { Navigate } from 'react-router-dom';
+import { Settings } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { DailyCallSettingsCard } from '@/components/configuracion/DailyCallSettingsCard';
+import { PhasePlaybooksCard } from '@/components/configuracion/PhasePlaybooksCard';
+import { CurrencySettingsCard } from '@/components/configuracion/CurrencySettingsCard';
+import { LossReasonsCard } from '@/components/configuracion/LossReasonsCard';
+import { PhaseRequirementsCard } from '@/components/configuracion/PhaseRequirementsCard';
+
+export default function Configuracion() {
+  const { isManager } = useAuth();
+
+  // Redirect non-managers
+  if (!isManager) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+          <Settings className="h-5 w-5 text-primary" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold">Configuración</h1>
+          <p className="text-sm text-muted-foreground">Reglas y parámetros del CRM</p>
+        </div>
+      </div>
+
+      <DailyCallSettingsCard />
+
+      <PhaseRequirementsCard />
+
+      <PhasePlaybooksCard />
+
+      <LossReasonsCard />
+
+      <CurrencySettingsCard />
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { AlertCircle, CalendarCheck, Phone, Ban, ClipboardList } from 'lucide-react';
 import { MetricsBar } from '@/components/dashboard/MetricsBar';
 import { DashboardSection } from '@/components/dashboard/DashboardSection';
@@ -7,6 +7,7 @@ import { ActivityItem } from '@/components/dashboard/ActivityItem';
 import { LicitacionesWidget } from '@/components/dashboard/LicitacionesWidget';
 import { GeneralActivityItem } from '@/components/dashboard/GeneralActivityItem';
 import { ActivitySearch } from '@/components/dashboard/ActivitySearch';
+import { ActivityScopeSelect } from '@/components/dashboard/ActivityScopeSelect';
 import { ActivityModal } from '@/components/activities/ActivityModal';
 import { 
   useUrgentActivities, 
@@ -15,7 +16,6 @@ import {
   useNewCallsActivities,
   useBlockedActivities,
   useGeneralActivities,
-  useGenerateDailyCalls,
   useUnblockActivity,
 } from '@/hooks/useActivities';
 import { useAuth } from '@/contexts/AuthContext';
@@ -55,14 +55,8 @@ export default function Dashboard() {
 
   const groupedWeekActivities = groupByDate(weekActivities);
   
-  const generateDailyCalls = useGenerateDailyCalls();
   const unblockActivity = useUnblockActivity();
 
-  // Generate daily calls on mount
-  useEffect(() => {
-    generateDailyCalls.mutate();
-  }, []);
-
   const handleUnblock = async (activityId: string) => {
     // Find the activity to get prospect info before unblocking
     const blockedActivity = blockedActivities?.find(a => a.id === activityId);
@@ -96,8 +90,13 @@ export default function Dashboard() {
       {/* Metrics Bar */}
       <MetricsBar />
 
-      {/* Search Bar */}
-      <ActivitySearch onActivityClick={(activity) => setSelectedActivity(activity)} />
+      {/* Search Bar + manager scope switch */}
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start">
+        <div className="flex-1">
+          <ActivitySearch onActivityClick={(activity) => setSelectedActivity(activity)} />
+        </div>
+        <ActivityScopeSelect />
+      </div>
 
       {/* Dashboard Sections */}
       <div className="grid gap-6 lg:grid-cols-2">
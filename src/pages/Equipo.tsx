@@ -5,9 +5,11 @@ import { useActivityLogs, useActivitySummary, DateFilter, ActionFilter } from '@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Users, Activity, BarChart3, Clock, CheckCircle, Plus, Ban, Loader2 } from 'lucide-react';
+import { Users, Activity, BarChart3, Clock, CheckCircle, Plus, Ban, Loader2, Swords, Scale } from 'lucide-react';
 import { Navigate } from 'react-router-dom';
 import { ActivityLogCard } from '@/components/equipo/ActivityLogCard';
+import { CompetitorReport } from '@/components/equipo/CompetitorReport';
+import { WinLossReport } from '@/components/equipo/WinLossReport';
 
 export default function Equipo() {
   const { isManager } = useAuth();
@@ -80,6 +82,14 @@ export default function Equipo() {
               <Activity className="h-4 w-4" />
               Historial de Actividad
             </TabsTrigger>
+            <TabsTrigger value="competencia" className="gap-2">
+              <Swords className="h-4 w-4" />
+              Competencia
+            </TabsTrigger>
+            <TabsTrigger value="ganadas-perdidas" className="gap-2">
+              <Scale className="h-4 w-4" />
+              Ganadas/Perdidas
+            </TabsTrigger>
           </TabsList>
 
           {/* Resumen Tab */}
@@ -234,6 +244,16 @@ export default function Equipo() {
               </Card>
             )}
           </TabsContent>
+
+          {/* Competencia Tab (whole team, not the selected vendor) */}
+          <TabsContent value="competencia" className="space-y-4">
+            <CompetitorReport />
+          </TabsContent>
+
+          {/* Ganadas/Perdidas Tab (whole team, B2B prospects) */}
+          <TabsContent value="ganadas-perdidas" className="space-y-4">
+            <WinLossReport />
+          </TabsContent>
         </Tabs>
       )}
     </div>
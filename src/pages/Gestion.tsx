@@ -1,8 +1,14 @@
 import { useState, useMemo } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Constants, Database } from '@/integrations/supabase/types';
-import { B2B_PHASES, LICITACION_PHASES, isLicitacionPhase } from '@/lib/licitacion-constants';
+import { B2B_PHASES, LICITACION_PHASES, PHASES_REQUIRING_DIALOG, isLicitacionPhase } from '@/lib/licitacion-constants';
+import { fetchPhaseEntryDates, daysSince } from '@/lib/phase-history';
+import { useUpdateProspectPhase, useDeleteProspect } from '@/hooks/useProspects';
+import { formatPlaybookCount } from '@/hooks/usePhasePlaybooks';
+import { phaseChangeErrorMessage } from '@/hooks/usePhaseRequirements';
+import { useReportingCurrency } from '@/hooks/useCurrency';
+import { formatMoney, type CurrencyCode } from '@/lib/currency';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -21,14 +27,41 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
-import { Search, ArrowUpDown, AlertTriangle, Plus, User, Pencil, Trash2, Eye } from 'lucide-react';
+import { Search, ArrowUpDown, AlertTriangle, Plus, User, Pencil, Trash2, Eye, ArrowRightLeft, Upload, Download, FileSpreadsheet, FileText, CalendarRange, Landmark } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
 import CreateProspectModal from '@/components/prospects/CreateProspectModal';
 import EditProspectModal from '@/components/prospects/EditProspectModal';
 import ProspectActivitiesModal from '@/components/prospects/ProspectActivitiesModal';
+import ReassignPortfolioModal from '@/components/prospects/ReassignPortfolioModal';
+import ImportProspectsModal from '@/components/prospects/ImportProspectsModal';
+import ImportLicitacionesModal from '@/components/prospects/ImportLicitacionesModal';
+import { OwnerFilterSelect, type OwnerFilter } from '@/components/prospects/OwnerFilterSelect';
+import { MissingRateWarning } from '@/components/prospects/MissingRateWarning';
 import { CreateActivityModal } from '@/components/activities/CreateActivityModal';
+import { ExportActivitiesModal } from '@/components/activities/ExportActivitiesModal';
+import { ProspectPhaseModal } from '@/components/pipeline/ProspectPhaseModal';
+import { exportRows, type ExportColumn, type ExportFormat } from '@/lib/table-export';
 import { useAuth } from '@/contexts/AuthContext';
 
 type PhaseType = Database['public']['Enums']['phase_type'];
@@ -43,26 +76,57 @@ interface ProspectRow {
   email: string | null;
   current_phase: PhaseType | null;
   estimated_value: number | null;
+  estimated_value_currency: CurrencyCode;
   pending_activities: number;
   next_activity_date: string | null;
   days_in_phase: number;
+  owner_id: string | null;
   assigned_user_name: string | null;
+  prospect_type: string | null;
+  licitacion_numero: string | null;
+  licitacion_institucion: string | null;
+  licitacion_fecha_cierre: string | null;
+  licitacion_monto_estimado: number | null;
+  licitacion_monto_currency: CurrencyCode;
 }
 
+// Same columns as the table, plus the computed stats
+const PROSPECT_EXPORT_COLUMNS: ExportColumn<ProspectRow>[] = [
+  { header: 'Empresa', value: p => p.company_name, width: 30 },
+  { header: 'Contacto', value: p => p.contact_name, width: 22 },
+  { header: 'Teléfono', value: p => p.phone, width: 14 },
+  { header: 'Email', value: p => p.email, width: 26 },
+  { header: 'Fase', value: p => p.current_phase, width: 16 },
+  { header: 'Valor estimado', value: p => p.estimated_value ?? 0, width: 14 },
+  { header: 'Moneda', value: p => p.estimated_value_currency, width: 8 },
+  { header: 'Actividades pendientes', value: p => p.pending_activities, width: 12 },
+  { header: 'Próxima actividad', value: p => p.next_activity_date ? new Date(p.next_activity_date + 'T12:00:00') : null, width: 14 },
+  { header: 'Días en fase', value: p => p.days_in_phase, width: 10 },
+  { header: 'Vendedor', value: p => p.assigned_user_name, width: 20 },
+];
+
 type SortKey = 'company_name' | 'current_phase' | 'estimated_value' | 'pending_activities' | 'next_activity_date';
 type SortOrder = 'asc' | 'desc';
 
 export default function Gestion() {
   const { isManager } = useAuth();
+  const { toReporting, hasMissingRate } = useReportingCurrency();
   const [search, setSearch] = useState('');
   const [phaseFilter, setPhaseFilter] = useState<string>('all');
+  const [ownerFilter, setOwnerFilter] = useState<OwnerFilter>('all');
+  const [showReassignModal, setShowReassignModal] = useState(false);
   const [sortKey, setSortKey] = useState<SortKey>('company_name');
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showImportLicitacionesModal, setShowImportLicitacionesModal] = useState(false);
+  const [showExportActivitiesModal, setShowExportActivitiesModal] = useState(false);
   const [editingProspect, setEditingProspect] = useState<ProspectRow | null>(null);
   const [viewingProspect, setViewingProspect] = useState<ProspectRow | null>(null);
   const [activityProspect, setActivityProspect] = useState<{ id: string; company_name: string; contact_name: string } | null>(null);
-  const queryClient = useQueryClient();
+  // Closing phases are picked inline but confirmed in the phase dialog
+  const [phaseDialog, setPhaseDialog] = useState<{ prospect: ProspectRow; phase: PhaseType } | null>(null);
+  const [deletingProspect, setDeletingProspect] = useState<ProspectRow | null>(null);
   const { toast } = useToast();
 
   const { data: prospects, isLoading } = useQuery({
@@ -76,50 +140,50 @@ export default function Gestion() {
 
       if (prospectsError) throw prospectsError;
 
-      // Get pending activities per prospect with next date and assigned user
+      // Get pending activities per prospect with next date
       const { data: activities, error: activitiesError } = await supabase
         .from('activities')
         .select(`
           prospect_id, 
-          scheduled_date,
-          assigned_to
+          scheduled_date
         `)
         .eq('status', 'pending')
         .not('prospect_id', 'is', null);
 
       if (activitiesError) throw activitiesError;
 
-      // Get all user profiles to map assigned_to -> full_name
+      // Get all user profiles to map owner_id -> full_name
       const { data: userProfiles, error: usersError } = await supabase
         .from('user_profiles')
         .select('id, full_name');
 
       if (usersError) throw usersError;
 
+      // When each prospect entered its current phase
+      const phaseEntries = await fetchPhaseEntryDates();
+
       const userMap: Record<string, string> = {};
       userProfiles?.forEach(u => {
         userMap[u.id] = u.full_name;
       });
 
       // Calculate stats
-      const activityStats: Record<string, { count: number; nextDate: string | null; assignedTo: string | null }> = {};
+      const activityStats: Record<string, { count: number; nextDate: string | null }> = {};
       activities?.forEach(a => {
         if (!a.prospect_id) return;
         if (!activityStats[a.prospect_id]) {
-          activityStats[a.prospect_id] = { count: 0, nextDate: null, assignedTo: null };
+          activityStats[a.prospect_id] = { count: 0, nextDate: null };
         }
         activityStats[a.prospect_id].count++;
         if (!activityStats[a.prospect_id].nextDate || a.scheduled_date < activityStats[a.prospect_id].nextDate!) {
           activityStats[a.prospect_id].nextDate = a.scheduled_date;
-          activityStats[a.prospect_id].assignedTo = a.assigned_to;
         }
       });
 
       const now = new Date();
       const prospectsWithStats: ProspectRow[] = prospectsData?.map(p => {
-        const updatedAt = new Date(p.updated_at || p.created_at || now);
-        const daysInPhase = Math.floor((now.getTime() - updatedAt.getTime()) / (1000 * 60 * 60 * 24));
-        const stats = activityStats[p.id] || { count: 0, nextDate: null, assignedTo: null };
+        const daysInPhase = daysSince(phaseEntries[p.id] || p.created_at, now);
+        const stats = activityStats[p.id] || { count: 0, nextDate: null };
 
         return {
           id: p.id,
@@ -129,10 +193,18 @@ export default function Gestion() {
           email: p.email,
           current_phase: p.current_phase,
           estimated_value: p.estimated_value,
+          estimated_value_currency: p.estimated_value_currency,
           pending_activities: stats.count,
           next_activity_date: stats.nextDate,
           days_in_phase: daysInPhase,
-          assigned_user_name: stats.assignedTo ? userMap[stats.assignedTo] || null : null,
+          owner_id: p.owner_id,
+          assigned_user_name: p.owner_id ? userMap[p.owner_id] || null : null,
+          prospect_type: p.prospect_type,
+          licitacion_numero: p.licitacion_numero,
+          licitacion_institucion: p.licitacion_institucion,
+          licitacion_fecha_cierre: p.licitacion_fecha_cierre,
+          licitacion_monto_estimado: p.licitacion_monto_estimado,
+          licitacion_monto_currency: p.licitacion_monto_currency,
         };
       }) || [];
 
@@ -140,34 +212,53 @@ export default function Gestion() {
     },
   });
 
-  const updatePhase = useMutation({
-    mutationFn: async ({ id, newPhase }: { id: string; newPhase: PhaseType }) => {
-      const { error } = await supabase
-        .from('prospects')
-        .update({
-          current_phase: newPhase,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', id);
+  const updateProspectPhase = useUpdateProspectPhase();
+  const deleteProspect = useDeleteProspect();
+
+  const handleDelete = (prospect: ProspectRow) => {
+    deleteProspect.mutate(prospect.id, {
+      onSuccess: () => {
+        toast({
+          title: 'Prospecto eliminado',
+          description: `${prospect.company_name} y sus actividades se enviaron a la papelera.`,
+        });
+        setDeletingProspect(null);
+      },
+      onError: () => {
+        toast({
+          title: 'Error',
+          description: 'No se pudo eliminar el prospecto.',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
 
-      if (error) throw error;
-    },
-    onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: ['prospects'] });
-      const prospect = prospects?.find(p => p.id === variables.id);
-      toast({
-        title: 'Fase actualizada',
-        description: `${prospect?.company_name} movido a ${variables.newPhase}`,
-      });
-    },
-    onError: () => {
-      toast({
-        title: 'Error',
-        description: 'No se pudo actualizar la fase.',
-        variant: 'destructive',
-      });
-    },
-  });
+  const handlePhaseChange = (prospect: ProspectRow, newPhase: PhaseType) => {
+    if (PHASES_REQUIRING_DIALOG.includes(newPhase)) {
+      setPhaseDialog({ prospect, phase: newPhase });
+      return;
+    }
+
+    updateProspectPhase.mutate(
+      { prospectId: prospect.id, phase: newPhase },
+      {
+        onSuccess: (playbookCount) => {
+          toast({
+            title: 'Fase actualizada',
+            description: `${prospect.company_name} movido a ${newPhase}${formatPlaybookCount(playbookCount)}`,
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: 'Error',
+            description: phaseChangeErrorMessage(error),
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  };
 
   // Filter and sort
   const filteredProspects = useMemo(() => {
@@ -190,6 +281,13 @@ export default function Gestion() {
       result = result.filter(p => p.current_phase === phaseFilter);
     }
 
+    // Owner filter
+    if (ownerFilter === 'none') {
+      result = result.filter(p => !p.owner_id);
+    } else if (ownerFilter !== 'all') {
+      result = result.filter(p => p.owner_id === ownerFilter);
+    }
+
     // Sort
     result.sort((a, b) => {
       let comparison = 0;
@@ -201,7 +299,7 @@ export default function Gestion() {
           comparison = (a.current_phase || '').localeCompare(b.current_phase || '');
           break;
         case 'estimated_value':
-          comparison = (a.estimated_value || 0) - (b.estimated_value || 0);
+          comparison = toReporting(a.estimated_value, a.estimated_value_currency) - toReporting(b.estimated_value, b.estimated_value_currency);
           break;
         case 'pending_activities':
           comparison = a.pending_activities - b.pending_activities;
@@ -217,7 +315,20 @@ export default function Gestion() {
     });
 
     return result;
-  }, [prospects, search, phaseFilter, sortKey, sortOrder]);
+  }, [prospects, search, phaseFilter, ownerFilter, sortKey, sortOrder, toReporting]);
+
+  const valueMissingRate = useMemo(
+    () => hasMissingRate(filteredProspects.map(p => ({ amount: p.estimated_value, currency: p.estimated_value_currency }))),
+    [filteredProspects, hasMissingRate]
+  );
+
+  const ownerCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    prospects?.forEach(p => {
+      if (p.owner_id) counts[p.owner_id] = (counts[p.owner_id] || 0) + 1;
+    });
+    return counts;
+  }, [prospects]);
 
   const handleSort = (key: SortKey) => {
     if (sortKey === key) {
@@ -228,13 +339,24 @@ export default function Gestion() {
     }
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('es-CR', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
+  // Exports exactly what the table shows: current search, filters and sort
+  const handleExportProspects = async (exportFormat: ExportFormat) => {
+    try {
+      await exportRows(
+        filteredProspects,
+        PROSPECT_EXPORT_COLUMNS,
+        `prospectos-${format(new Date(), 'yyyy-MM-dd')}`,
+        exportFormat,
+        'Prospectos'
+      );
+    } catch (error) {
+      console.error('Error exporting prospects:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo exportar la tabla.',
+        variant: 'destructive',
+      });
+    }
   };
 
   const formatDate = (dateStr: string | null) => {
@@ -277,10 +399,62 @@ export default function Gestion() {
     <div className="space-y-4">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
         <h1 className="text-2xl font-bold">Gestión de Prospectos</h1>
-        <Button onClick={() => setShowCreateModal(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Nuevo Prospecto
-        </Button>
+        <div className="flex gap-2">
+          {isManager && (
+            <Button variant="outline" onClick={() => setShowReassignModal(true)}>
+              <ArrowRightLeft className="h-4 w-4 mr-2" />
+              Reasignar cartera
+            </Button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Download className="h-4 w-4 mr-2" />
+                Exportar
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                Prospectos ({filteredProspects.length}, con filtros actuales)
+              </DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => handleExportProspects('xlsx')}>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Excel (.xlsx)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportProspects('csv')}>
+                <FileText className="h-4 w-4 mr-2" />
+                CSV
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setShowExportActivitiesModal(true)}>
+                <CalendarRange className="h-4 w-4 mr-2" />
+                Actividades por fechas...
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Upload className="h-4 w-4 mr-2" />
+                Importar
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setShowImportModal(true)}>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Prospectos (CSV / Excel)...
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setShowImportLicitacionesModal(true)}>
+                <Landmark className="h-4 w-4 mr-2" />
+                Licitaciones de SICOP...
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button onClick={() => setShowCreateModal(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nuevo Prospecto
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -307,6 +481,7 @@ export default function Gestion() {
             ))}
           </SelectContent>
         </Select>
+        <OwnerFilterSelect value={ownerFilter} onChange={setOwnerFilter} />
       </div>
 
       {/* Create Prospect Modal */}
@@ -329,8 +504,9 @@ export default function Gestion() {
               </TableHead>
               <TableHead className="text-right">
                 <SortButton label="Valor" sortKeyValue="estimated_value" />
+                {valueMissingRate && <MissingRateWarning className="ml-1" />}
               </TableHead>
-              <TableHead className="hidden lg:table-cell">Asignado a</TableHead>
+              <TableHead className="hidden lg:table-cell">Responsable</TableHead>
               <TableHead className="text-center hidden sm:table-cell">
                 <SortButton label="Act." sortKeyValue="pending_activities" />
               </TableHead>
@@ -360,12 +536,7 @@ export default function Gestion() {
                       return (
                         <Select
                           value={prospect.current_phase || ''}
-                          onValueChange={(value) =>
-                            updatePhase.mutate({
-                              id: prospect.id,
-                              newPhase: value as PhaseType,
-                            })
-                          }
+                          onValueChange={(value) => handlePhaseChange(prospect, value as PhaseType)}
                         >
                           <SelectTrigger className="w-[140px]">
                             <SelectValue />
@@ -382,7 +553,7 @@ export default function Gestion() {
                     })()}
                   </TableCell>
                   <TableCell className="text-right">
-                    {prospect.estimated_value ? formatCurrency(prospect.estimated_value) : '-'}
+                    {prospect.estimated_value ? formatMoney(prospect.estimated_value, prospect.estimated_value_currency) : '-'}
                   </TableCell>
                   <TableCell className="hidden lg:table-cell">
                     {prospect.assigned_user_name ? (
@@ -436,6 +607,7 @@ export default function Gestion() {
                         variant="ghost"
                         size="icon"
                         className="text-destructive hover:text-destructive"
+                        onClick={() => setDeletingProspect(prospect)}
                         title="Eliminar prospecto"
                       >
                         <Trash2 className="h-4 w-4" />
@@ -453,6 +625,22 @@ export default function Gestion() {
         Mostrando {filteredProspects.length} de {prospects?.length || 0} prospectos
       </p>
 
+      {/* Import Prospects Wizard */}
+      <ImportProspectsModal
+        open={showImportModal}
+        onOpenChange={setShowImportModal}
+      />
+
+      <ImportLicitacionesModal
+        open={showImportLicitacionesModal}
+        onOpenChange={setShowImportLicitacionesModal}
+      />
+
+      <ExportActivitiesModal
+        open={showExportActivitiesModal}
+        onOpenChange={setShowExportActivitiesModal}
+      />
+
       {/* Edit Prospect Modal */}
       <EditProspectModal
         prospect={editingProspect}
@@ -468,6 +656,42 @@ export default function Gestion() {
         onOpenChange={(open) => !open && setViewingProspect(null)}
       />
 
+      <ProspectPhaseModal
+        prospect={phaseDialog?.prospect ?? null}
+        open={!!phaseDialog}
+        onOpenChange={(open) => !open && setPhaseDialog(null)}
+        initialPhase={phaseDialog?.phase}
+      />
+
+      <AlertDialog open={!!deletingProspect} onOpenChange={(open) => !open && setDeletingProspect(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar prospecto?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingProspect?.company_name} y sus actividades irán a la papelera, desde donde un gerente puede restaurarlos.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deletingProspect && handleDelete(deletingProspect)}
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Bulk owner reassignment (managers) */}
+      {isManager && (
+        <ReassignPortfolioModal
+          open={showReassignModal}
+          onOpenChange={setShowReassignModal}
+          ownerCounts={ownerCounts}
+        />
+      )}
+
       {/* Create Activity Modal with pre-selected prospect */}
       <CreateActivityModal
         open={!!activityProspect}
@@ -6,6 +6,8 @@ import { useProspects } from '@/hooks/useProspects';
 import { useNextActivity } from '@/contexts/NextActivityContext';
 import { useDeduplicatedActivities } from '@/hooks/useDeduplicatedActivities';
 import { ActivityModal } from '@/components/activities/ActivityModal';
+import { ActivityScopeSelect } from '@/components/dashboard/ActivityScopeSelect';
+import { CallScoreExplanation } from '@/components/dashboard/CallScoreExplanation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
@@ -427,6 +429,11 @@ export default function MiDia() {
               </div>
             )}
 
+            {/* Why this company was picked today */}
+            {category === 'calls' && (
+              <CallScoreExplanation score={currentActivity.selection_score} />
+            )}
+
             {/* Action buttons */}
             <div className="border-t pt-5">
               <p className="text-center text-sm font-medium text-muted-foreground mb-4">
@@ -505,6 +512,8 @@ export default function MiDia() {
         <p className="text-muted-foreground capitalize">{todayFormatted}</p>
       </div>
 
+      <ActivityScopeSelect />
+
       {isLoading ? (
         <div className="flex items-center justify-center py-16">
           <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { format, formatDistanceToNow, differenceInDays } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Building2, CalendarDays, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTrash, useRestoreTrashItem, usePurgeTrash, type TrashItem, type TrashItemType } from '@/hooks/useTrash';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+
+const DEFAULT_PURGE_DAYS = 30;
+
+export default function Papelera() {
+  const { isManager } = useAuth();
+  const { data: items, isLoading } = useTrash();
+  const restoreItem = useRestoreTrashItem();
+  const purgeTrash = usePurgeTrash();
+  const { toast } = useToast();
+  const [purgeDays, setPurgeDays] = useState(DEFAULT_PURGE_DAYS);
+  const [showPurgeConfirm, setShowPurgeConfirm] = useState(false);
+
+  // Redirect non-managers
+  if (!isManager) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const now = new Date();
+  const purgeableCount = (items || []).filter(
+    item => differenceInDays(now, new Date(item.deleted_at)) >= purgeDays
+  ).length;
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      await restoreItem.mutateAsync({ itemType: item.item_type as TrashItemType, id: item.id });
+      toast({
+        title: 'Restaurado',
+        description: item.item_type === 'prospect' && item.activity_count > 0
+          ? `${item.title} volvió junto con ${item.activity_count} actividad(es).`
+          : `${item.title} volvió a su lugar.`,
+      });
+    } catch (error) {
+      const { code, message } = (error || {}) as { code?: string; message?: string };
+      toast({
+        title: 'Error',
+        description: code === 'P0001' && message ? message : 'No se pudo restaurar.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handlePurge = async () => {
+    try {
+      const purged = await purgeTrash.mutateAsync(purgeDays);
+      toast({
+        title: 'Papelera vaciada',
+        description: purged > 0
+          ? `Se eliminaron definitivamente ${purged} elemento(s).`
+          : 'No había elementos tan antiguos.',
+      });
+    } catch (error) {
+      console.error('Error purging trash:', error);
+      toast({
+        title: 'Error',
+        description: 'No se pudo vaciar la papelera.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+          <Trash2 className="h-5 w-5 text-primary" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold">Papelera</h1>
+          <p className="text-sm text-muted-foreground">Prospectos y actividades eliminados</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Vaciar papelera</CardTitle>
+          <CardDescription>
+            Elimina definitivamente lo que lleva en la papelera más de los días indicados. Esta acción no se puede deshacer.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3 sm:flex-row sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="purge-days">Días en la papelera</Label>
+            <Input
+              id="purge-days"
+              type="number"
+              min={0}
+              className="w-32"
+              value={purgeDays}
+              onChange={(e) => setPurgeDays(Math.max(0, parseInt(e.target.value) || 0))}
+            />
+          </div>
+          <Button
+            variant="destructive"
+            onClick={() => setShowPurgeConfirm(true)}
+            disabled={purgeableCount === 0 || purgeTrash.isPending}
+          >
+            {purgeTrash.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Trash2 className="mr-2 h-4 w-4" />
+            )}
+            Eliminar definitivamente ({purgeableCount})
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="rounded-lg border bg-card">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Elemento</TableHead>
+              <TableHead>Eliminado</TableHead>
+              <TableHead>Por</TableHead>
+              <TableHead className="w-[120px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="py-8 text-center">
+                  <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />
+                </TableCell>
+              </TableRow>
+            ) : !items || items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="py-8 text-center text-muted-foreground">
+                  La papelera está vacía
+                </TableCell>
+              </TableRow>
+            ) : (
+              items.map((item) => {
+                const deletedAt = new Date(item.deleted_at);
+                const purgeable = differenceInDays(now, deletedAt) >= purgeDays;
+
+                return (
+                  <TableRow key={`${item.item_type}-${item.id}`}>
+                    <TableCell>
+                      <div className="flex items-start gap-2">
+                        {item.item_type === 'prospect' ? (
+                          <Building2 className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                        ) : (
+                          <CalendarDays className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                        )}
+                        <div className="space-y-0.5">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-medium">{item.title || 'Sin nombre'}</span>
+                            <Badge variant="outline">
+                              {item.item_type === 'prospect' ? 'Prospecto' : 'Actividad'}
+                            </Badge>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {item.detail || '—'}
+                            {item.activity_count > 0 && ` · ${item.activity_count} actividad(es)`}
+                          </p>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <span
+                        className={cn('text-sm', purgeable && 'text-destructive')}
+                        title={format(deletedAt, "dd MMM yyyy HH:mm", { locale: es })}
+                      >
+                        {formatDistanceToNow(deletedAt, { addSuffix: true, locale: es })}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-sm">{item.deleted_by_name || '—'}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(item)}
+                        disabled={restoreItem.isPending}
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Restaurar
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AlertDialog open={showPurgeConfirm} onOpenChange={setShowPurgeConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Vaciar la papelera?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Se eliminarán definitivamente {purgeableCount} elemento(s) con más de {purgeDays} días en la papelera,
+              junto con las actividades de los prospectos eliminados. Esta acción no se puede deshacer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handlePurge}
+            >
+              Eliminar definitivamente
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
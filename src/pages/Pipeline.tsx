@@ -1,13 +1,34 @@
-import { useState } from 'react';
+import { useState, ReactNode } from 'react';
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from '@dnd-kit/core';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { useProspectsWithStats } from '@/hooks/useProspects';
+import { useProspectsWithStats, usePhaseCycleTimes, useUpdateProspectPhase } from '@/hooks/useProspects';
+import { formatPlaybookCount } from '@/hooks/usePhasePlaybooks';
+import { phaseChangeErrorMessage } from '@/hooks/usePhaseRequirements';
+import { useReportingCurrency } from '@/hooks/useCurrency';
 import { ProspectCard } from '@/components/pipeline/ProspectCard';
 import { ProspectPhaseModal } from '@/components/pipeline/ProspectPhaseModal';
+import { OwnerFilterSelect, type OwnerFilter } from '@/components/prospects/OwnerFilterSelect';
+import { MissingRateWarning } from '@/components/prospects/MissingRateWarning';
+import { useToast } from '@/hooks/use-toast';
 import { Database } from '@/integrations/supabase/types';
-import { B2B_PHASES, LICITACION_PHASES, LICITACION_PHASE_COLORS } from '@/lib/licitacion-constants';
+import { B2B_PHASES, LICITACION_PHASES, LICITACION_PHASE_COLORS, PHASES_REQUIRING_DIALOG, getPhasesForType } from '@/lib/licitacion-constants';
+import { cn } from '@/lib/utils';
+import type { CurrencyCode } from '@/lib/currency';
 
 type PhaseType = Database['public']['Enums']['phase_type'];
 
@@ -36,24 +57,82 @@ interface ProspectWithStats {
   contact_name: string;
   current_phase: PhaseType | null;
   estimated_value: number | null;
+  estimated_value_currency?: CurrencyCode;
   pending_activities: number;
   days_in_phase: number;
   prospect_type?: string | null;
+  owner_id?: string | null;
   licitacion_numero?: string | null;
   licitacion_institucion?: string | null;
   licitacion_fecha_cierre?: string | null;
   licitacion_monto_estimado?: number | null;
+  licitacion_monto_currency?: CurrencyCode;
+}
+
+function DraggableProspect({ id, children }: { id: string; children: ReactNode }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id });
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      className={cn('touch-manipulation', isDragging && 'opacity-40')}
+    >
+      {children}
+    </div>
+  );
+}
+
+function PhaseDropZone({
+  phase,
+  disabled,
+  children,
+}: {
+  phase: string;
+  disabled: boolean;
+  children: ReactNode;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: phase, disabled });
+
+  return (
+    <CardContent
+      ref={setNodeRef}
+      className={cn(
+        'space-y-3 min-h-[200px] rounded-b-lg transition-colors',
+        isOver && 'bg-primary/10 ring-2 ring-inset ring-primary/40'
+      )}
+    >
+      {children}
+    </CardContent>
+  );
 }
 
 export default function Pipeline() {
   const { data: prospects, isLoading } = useProspectsWithStats();
+  const { data: cycleTimes } = usePhaseCycleTimes();
+  const { toReporting, formatReporting, hasMissingRate } = useReportingCurrency();
+  const updateProspectPhase = useUpdateProspectPhase();
+  const { toast } = useToast();
   const [selectedProspect, setSelectedProspect] = useState<ProspectWithStats | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [modalInitialPhase, setModalInitialPhase] = useState<string | null>(null);
   const [filter, setFilter] = useState<FilterType>('todos');
+  const [ownerFilter, setOwnerFilter] = useState<OwnerFilter>('all');
+  const [draggingProspect, setDraggingProspect] = useState<ProspectWithStats | null>(null);
+
+  // Small movement threshold so a plain click still opens the modal
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 250, tolerance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
 
   const getProspectsByPhase = (phase: string) => {
     return prospects?.filter(p => {
       if (p.current_phase !== phase) return false;
+      if (ownerFilter === 'none' && p.owner_id) return false;
+      if (ownerFilter !== 'all' && ownerFilter !== 'none' && p.owner_id !== ownerFilter) return false;
       if (filter === 'regular') return p.prospect_type !== 'licitacion';
       if (filter === 'licitacion') return p.prospect_type === 'licitacion';
       return true;
@@ -62,9 +141,59 @@ export default function Pipeline() {
 
   const handleProspectClick = (prospect: ProspectWithStats) => {
     setSelectedProspect(prospect);
+    setModalInitialPhase(null);
     setIsModalOpen(true);
   };
 
+  const handleModalOpenChange = (open: boolean) => {
+    setIsModalOpen(open);
+    if (!open) setModalInitialPhase(null);
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const prospect = prospects?.find(p => p.id === event.active.id);
+    setDraggingProspect((prospect as ProspectWithStats) || null);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const prospect = draggingProspect;
+    setDraggingProspect(null);
+
+    const targetPhase = event.over?.id as string | undefined;
+    if (!prospect || !targetPhase || targetPhase === prospect.current_phase) return;
+    // B2B cards can't land in licitación columns and vice versa
+    if (!getPhasesForType(prospect.prospect_type).includes(targetPhase)) return;
+
+    if (PHASES_REQUIRING_DIALOG.includes(targetPhase)) {
+      setSelectedProspect(prospect);
+      setModalInitialPhase(targetPhase);
+      setIsModalOpen(true);
+      return;
+    }
+
+    updateProspectPhase.mutate(
+      { prospectId: prospect.id, phase: targetPhase as PhaseType },
+      {
+        onSuccess: (playbookCount) => {
+          toast({
+            title: 'Fase actualizada',
+            description: `${prospect.company_name} movido a ${targetPhase}${formatPlaybookCount(playbookCount)}`,
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: 'Error',
+            description: phaseChangeErrorMessage(error),
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  };
+
+  // Columns the card being dragged is allowed to land in
+  const allowedDropPhases = draggingProspect ? getPhasesForType(draggingProspect.prospect_type) : null;
+
   const getVisiblePhases = (): { phases: readonly string[]; label?: string }[] => {
     if (filter === 'regular') return [{ phases: B2B_PHASES }];
     if (filter === 'licitacion') return [{ phases: LICITACION_PHASES }];
@@ -94,7 +223,7 @@ export default function Pipeline() {
     <div className="space-y-4">
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
         <h1 className="text-2xl font-bold">Pipeline de Ventas</h1>
-        <div className="flex items-center gap-3">
+        <div className="flex flex-wrap items-center gap-3">
           <Tabs value={filter} onValueChange={(v) => setFilter(v as FilterType)}>
             <TabsList>
               <TabsTrigger value="todos">Todos</TabsTrigger>
@@ -102,67 +231,100 @@ export default function Pipeline() {
               <TabsTrigger value="licitacion">🏛️ Licitaciones</TabsTrigger>
             </TabsList>
           </Tabs>
+          <OwnerFilterSelect value={ownerFilter} onChange={setOwnerFilter} />
           <p className="text-sm text-muted-foreground hidden sm:block">
-            Haz clic en un prospecto para cambiar de fase
+            Arrastra un prospecto a otra fase o haz clic para ver detalles
           </p>
         </div>
       </div>
 
-      {phaseSections.map((section, sectionIdx) => (
-        <div key={sectionIdx} className="space-y-2">
-          {section.label && (
-            <h2 className="text-lg font-semibold text-muted-foreground">{section.label}</h2>
-          )}
-          <div className="flex gap-4 overflow-x-auto pb-4 kanban-scroll">
-            {section.phases.map((phase) => {
-              const phaseProspects = getProspectsByPhase(phase);
-              const totalValue = phaseProspects.reduce(
-                (sum, p) => sum + (p.estimated_value || 0),
-                0
-              );
-
-              return (
-                <div key={phase} className="flex-shrink-0 w-72">
-                  <Card className={ALL_PHASE_COLORS[phase] || 'bg-muted'}>
-                    <CardHeader className="pb-3">
-                      <div className="flex items-center justify-between">
-                        <CardTitle className="text-sm font-medium">{phase}</CardTitle>
-                        <Badge variant="secondary">{phaseProspects.length}</Badge>
-                      </div>
-                      {totalValue > 0 && (
-                        <p className="text-xs text-muted-foreground">
-                          💰 ${totalValue.toLocaleString()}
-                        </p>
-                      )}
-                    </CardHeader>
-                    <CardContent className="space-y-3 min-h-[200px]">
-                      {phaseProspects.map((prospect) => (
-                        <ProspectCard
-                          key={prospect.id}
-                          prospect={prospect}
-                          onClick={() => handleProspectClick(prospect as ProspectWithStats)}
-                        />
-                      ))}
-                      {phaseProspects.length === 0 && (
-                        <div className="flex h-24 items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/25">
-                          <p className="text-xs text-muted-foreground">
-                            Sin prospectos
-                          </p>
+      <DndContext
+        sensors={sensors}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => setDraggingProspect(null)}
+      >
+        {phaseSections.map((section, sectionIdx) => (
+          <div key={sectionIdx} className="space-y-2">
+            {section.label && (
+              <h2 className="text-lg font-semibold text-muted-foreground">{section.label}</h2>
+            )}
+            <div className="flex gap-4 overflow-x-auto pb-4 kanban-scroll">
+              {section.phases.map((phase) => {
+                const phaseProspects = getProspectsByPhase(phase);
+                const totalValue = phaseProspects.reduce(
+                  (sum, p) => sum + toReporting(p.estimated_value, p.estimated_value_currency),
+                  0
+                );
+                const missingRate = hasMissingRate(
+                  phaseProspects.map(p => ({ amount: p.estimated_value, currency: p.estimated_value_currency }))
+                );
+                const cycleTime = cycleTimes?.[phase];
+                const isDropDisabled = !!allowedDropPhases && !allowedDropPhases.includes(phase);
+
+                return (
+                  <div key={phase} className="flex-shrink-0 w-72">
+                    <Card className={cn(
+                      ALL_PHASE_COLORS[phase] || 'bg-muted',
+                      'transition-opacity',
+                      isDropDisabled && 'opacity-40'
+                    )}>
+                      <CardHeader className="pb-3">
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="text-sm font-medium">{phase}</CardTitle>
+                          <Badge variant="secondary">{phaseProspects.length}</Badge>
                         </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                </div>
-              );
-            })}
+                        {(totalValue > 0 || missingRate) && (
+                          <p className="flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground">
+                            💰 {formatReporting(totalValue)}
+                            {missingRate && <MissingRateWarning />}
+                          </p>
+                        )}
+                        {cycleTime && (
+                          <p className="text-xs text-muted-foreground" title={`${cycleTime.transitions} salidas de esta fase`}>
+                            ⏱️ Prom. {cycleTime.avgDays} días en fase
+                          </p>
+                        )}
+                      </CardHeader>
+                      <PhaseDropZone phase={phase} disabled={isDropDisabled}>
+                        {phaseProspects.map((prospect) => (
+                          <DraggableProspect key={prospect.id} id={prospect.id}>
+                            <ProspectCard
+                              prospect={prospect}
+                              onClick={() => handleProspectClick(prospect as ProspectWithStats)}
+                            />
+                          </DraggableProspect>
+                        ))}
+                        {phaseProspects.length === 0 && (
+                          <div className="flex h-24 items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/25">
+                            <p className="text-xs text-muted-foreground">
+                              Sin prospectos
+                            </p>
+                          </div>
+                        )}
+                      </PhaseDropZone>
+                    </Card>
+                  </div>
+                );
+              })}
+            </div>
           </div>
-        </div>
-      ))}
+        ))}
+
+        <DragOverlay>
+          {draggingProspect && (
+            <div className="w-72 rotate-2 shadow-xl">
+              <ProspectCard prospect={draggingProspect} />
+            </div>
+          )}
+        </DragOverlay>
+      </DndContext>
 
       <ProspectPhaseModal
         prospect={selectedProspect}
         open={isModalOpen}
-        onOpenChange={setIsModalOpen}
+        onOpenChange={handleModalOpenChange}
+        initialPhase={modalInitialPhase}
       />
     </div>
   );
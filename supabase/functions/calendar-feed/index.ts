@@ -0,0 +1,228 @@
+// Subscribable iCalendar feed of a salesperson's pending activities.
+// GET /functions/v1/calendar-feed?token=<calendar_feed_tokens.token>
+//
+// Calendar apps can't send a Supabase session, so the function is public
+// (verify_jwt = false) and authenticates with the per-user token instead.
+// Event building mirrors src/lib/ics.ts; keep UIDs identical so a file
+// exported from the CRM and the feed refer to the same events.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const TIMEZONE = "America/Costa_Rica";
+const DEFAULT_DURATION_MINUTES = 30;
+// Overdue activities stay visible for a while so they can still be rescheduled
+const PAST_DAYS = 30;
+
+interface FeedActivity {
+  id: string;
+  activity_type: string;
+  custom_type: string | null;
+  scheduled_date: string;
+  scheduled_time: string | null;
+  duration_minutes: number | null;
+  notes: string | null;
+  location: string | null;
+  updated_at: string | null;
+  prospects: { company_name: string | null; contact_name: string | null } | null;
+}
+
+const encoder = new TextEncoder();
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    if (currentBytes + charBytes > 73) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+function toIcsUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(date + "T12:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function toIcsDateTime(date: string, totalMinutes: number): string {
+  const hours = String(Math.floor(totalMinutes / 60)).padStart(2, "0");
+  const minutes = String(totalMinutes % 60).padStart(2, "0");
+  return `${date.replace(/-/g, "")}T${hours}${minutes}00`;
+}
+
+function buildEvent(activity: FeedActivity, now: Date): string[] {
+  const type = activity.custom_type || activity.activity_type;
+  const company = activity.prospects?.company_name || "Tarea general";
+  const lastModified = activity.updated_at ? new Date(activity.updated_at) : now;
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:activity-${activity.id}@crm`,
+    `DTSTAMP:${toIcsUtc(now)}`,
+    `LAST-MODIFIED:${toIcsUtc(lastModified)}`,
+    `SEQUENCE:${Math.floor(lastModified.getTime() / 1000)}`,
+    `SUMMARY:${escapeText(`${type}: ${company}`)}`,
+  ];
+
+  if (activity.scheduled_time) {
+    const start = toMinutes(activity.scheduled_time);
+    const end = start + (activity.duration_minutes || DEFAULT_DURATION_MINUTES);
+    const endDate = end >= 24 * 60 ? addDays(activity.scheduled_date, 1) : activity.scheduled_date;
+    lines.push(
+      `DTSTART;TZID=${TIMEZONE}:${toIcsDateTime(activity.scheduled_date, start)}`,
+      `DTEND;TZID=${TIMEZONE}:${toIcsDateTime(endDate, end % (24 * 60))}`,
+    );
+  } else {
+    lines.push(
+      `DTSTART;VALUE=DATE:${activity.scheduled_date.replace(/-/g, "")}`,
+      `DTEND;VALUE=DATE:${addDays(activity.scheduled_date, 1).replace(/-/g, "")}`,
+    );
+  }
+
+  const description = [
+    activity.prospects?.contact_name ? `Contacto: ${activity.prospects.contact_name}` : null,
+    activity.notes,
+  ].filter(Boolean).join("\n");
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+
+  if (activity.activity_type === "Visita") {
+    const location = activity.location || activity.prospects?.company_name;
+    if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+function buildCalendar(activities: FeedActivity[], calendarName: string): string {
+  const now = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//CRM//Actividades//ES",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    // Suggested refresh interval for subscribing apps
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    "BEGIN:VTIMEZONE",
+    `TZID:${TIMEZONE}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    "TZOFFSETFROM:-0600",
+    "TZOFFSETTO:-0600",
+    "TZNAME:CST",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+    ...activities.flatMap((activity) => buildEvent(activity, now)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const token = new URL(req.url).searchParams.get("token");
+  if (!token) {
+    return new Response("Missing token", { status: 401 });
+  }
+
+  // Service role: the token is the only credential, RLS can't identify the caller
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+
+  const { data: feedToken, error: tokenError } = await supabase
+    .from("calendar_feed_tokens")
+    .select("user_id")
+    .eq("token", token)
+    .maybeSingle();
+
+  if (tokenError) {
+    console.error("Error looking up feed token:", tokenError);
+    return new Response("Internal error", { status: 500 });
+  }
+  if (!feedToken) {
+    return new Response("Invalid token", { status: 404 });
+  }
+
+  const { data: profile } = await supabase
+    .from("user_profiles")
+    .select("full_name")
+    .eq("id", feedToken.user_id)
+    .maybeSingle();
+
+  const since = new Date();
+  since.setDate(since.getDate() - PAST_DAYS);
+
+  const { data: activities, error } = await supabase
+    .from("activities")
+    .select(`
+      id,
+      activity_type,
+      custom_type,
+      scheduled_date,
+      scheduled_time,
+      duration_minutes,
+      notes,
+      location,
+      updated_at,
+      prospects (
+        company_name,
+        contact_name
+      )
+    `)
+    .eq("assigned_to", feedToken.user_id)
+    .eq("status", "pending")
+    // The service role bypasses RLS, so the papelera is filtered here
+    .is("deleted_at", null)
+    .gte("scheduled_date", since.toISOString().slice(0, 10))
+    .order("scheduled_date", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching feed activities:", error);
+    return new Response("Internal error", { status: 500 });
+  }
+
+  const calendarName = profile?.full_name ? `CRM - ${profile.full_name}` : "CRM - Actividades";
+
+  return new Response(buildCalendar((activities || []) as unknown as FeedActivity[], calendarName), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="actividades.ics"',
+      "Cache-Control": "no-cache",
+    },
+  });
+});
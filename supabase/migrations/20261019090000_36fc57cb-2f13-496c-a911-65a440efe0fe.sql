@@ -0,0 +1,66 @@
+-- Per-user scoping of activities
+-- Salespeople only see and modify activities assigned to them (or unassigned).
+-- Managers keep full access to the whole team's activities.
+
+ALTER TABLE public.activities ENABLE ROW LEVEL SECURITY;
+
+-- Drop previous permissive policies so they don't OR-in team-wide access
+DO $$
+DECLARE
+  pol RECORD;
+BEGIN
+  FOR pol IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'activities'
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.activities', pol.policyname);
+  END LOOP;
+END;
+$$;
+
+CREATE POLICY "Users can view own activities"
+ON public.activities
+FOR SELECT
+TO authenticated
+USING (
+  public.is_manager()
+  OR assigned_to = auth.uid()
+  OR assigned_to IS NULL
+);
+
+CREATE POLICY "Users can create own activities"
+ON public.activities
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.is_manager()
+  OR assigned_to = auth.uid()
+  OR assigned_to IS NULL
+);
+
+CREATE POLICY "Users can update own activities"
+ON public.activities
+FOR UPDATE
+TO authenticated
+USING (
+  public.is_manager()
+  OR assigned_to = auth.uid()
+  OR assigned_to IS NULL
+)
+WITH CHECK (
+  public.is_manager()
+  OR assigned_to = auth.uid()
+  OR assigned_to IS NULL
+);
+
+CREATE POLICY "Users can delete own activities"
+ON public.activities
+FOR DELETE
+TO authenticated
+USING (
+  public.is_manager()
+  OR assigned_to = auth.uid()
+);
+
+CREATE INDEX IF NOT EXISTS idx_activities_assigned_status
+ON public.activities (assigned_to, status, scheduled_date);
@@ -0,0 +1,66 @@
+-- Prospect ownership (account owner)
+-- Until now the only link between a prospect and a salesperson was the
+-- assigned_to of its next pending activity.
+
+ALTER TABLE public.prospects
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_prospects_owner_id ON public.prospects (owner_id);
+
+-- Backfill: owner = assignee of the next pending activity, else of the latest activity
+UPDATE public.prospects p
+SET owner_id = sub.assigned_to
+FROM (
+  SELECT DISTINCT ON (a.prospect_id) a.prospect_id, a.assigned_to
+  FROM public.activities a
+  WHERE a.prospect_id IS NOT NULL
+    AND a.assigned_to IS NOT NULL
+  ORDER BY a.prospect_id,
+    (a.status = 'pending') DESC,
+    CASE WHEN a.status = 'pending' THEN a.scheduled_date END ASC,
+    a.created_at DESC
+) sub
+WHERE p.id = sub.prospect_id
+  AND p.owner_id IS NULL;
+
+-- Bulk "reasignar cartera": move every prospect owned by one user to another.
+-- Optionally moves their pending/blocked activities on those prospects too.
+CREATE OR REPLACE FUNCTION public.reassign_prospect_owner(
+  p_from_user UUID,
+  p_to_user UUID,
+  p_include_activities BOOLEAN DEFAULT true
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT is_manager() THEN
+    RAISE EXCEPTION 'Solo los gerentes pueden reasignar carteras';
+  END IF;
+
+  IF p_from_user = p_to_user THEN
+    RETURN 0;
+  END IF;
+
+  IF p_include_activities THEN
+    UPDATE activities a
+    SET assigned_to = p_to_user
+    FROM prospects p
+    WHERE a.prospect_id = p.id
+      AND p.owner_id = p_from_user
+      AND a.assigned_to = p_from_user
+      AND a.status IN ('pending', 'blocked');
+  END IF;
+
+  UPDATE prospects
+  SET owner_id = p_to_user
+  WHERE owner_id = p_from_user;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,160 @@
+-- Phase transition history
+-- days_in_phase used to be derived from prospects.updated_at, so any edit reset it.
+-- Each row is one stay of a prospect in a phase; the open row has exited_at = NULL.
+
+CREATE TABLE IF NOT EXISTS public.prospect_phase_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prospect_id UUID NOT NULL REFERENCES public.prospects(id) ON DELETE CASCADE,
+  phase public.phase_type NOT NULL,
+  previous_phase public.phase_type,
+  entered_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  exited_at TIMESTAMPTZ,
+  changed_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_phase_history_prospect
+ON public.prospect_phase_history (prospect_id, entered_at DESC);
+
+-- Only one open stay per prospect
+CREATE UNIQUE INDEX IF NOT EXISTS idx_phase_history_open
+ON public.prospect_phase_history (prospect_id)
+WHERE exited_at IS NULL;
+
+ALTER TABLE public.prospect_phase_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view phase history"
+ON public.prospect_phase_history
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Rows are written by the trigger below; no direct client writes.
+
+-- Close the open stay and open a new one whenever current_phase changes.
+-- The reason is passed through the transaction-local setting app.phase_change_reason
+-- (see change_prospect_phase below).
+CREATE OR REPLACE FUNCTION public.track_prospect_phase_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reason TEXT := NULLIF(current_setting('app.phase_change_reason', true), '');
+BEGIN
+  IF NEW.current_phase IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT') THEN
+    INSERT INTO prospect_phase_history (prospect_id, phase, entered_at, changed_by, reason)
+    VALUES (NEW.id, NEW.current_phase, COALESCE(NEW.created_at, now()), auth.uid(), v_reason);
+
+  ELSIF (TG_OP = 'UPDATE') AND NEW.current_phase IS DISTINCT FROM OLD.current_phase THEN
+    UPDATE prospect_phase_history
+    SET exited_at = now()
+    WHERE prospect_id = NEW.id
+      AND exited_at IS NULL;
+
+    INSERT INTO prospect_phase_history (prospect_id, phase, previous_phase, entered_at, changed_by, reason)
+    VALUES (NEW.id, NEW.current_phase, OLD.current_phase, now(), auth.uid(), v_reason);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_prospect_phase_history ON public.prospects;
+CREATE TRIGGER track_prospect_phase_history
+AFTER INSERT OR UPDATE OF current_phase ON public.prospects
+FOR EACH ROW
+EXECUTE FUNCTION public.track_prospect_phase_history();
+
+-- Change the phase of a prospect recording who and why
+CREATE OR REPLACE FUNCTION public.change_prospect_phase(
+  p_prospect_id UUID,
+  p_phase public.phase_type,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.phase_change_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE prospects
+  SET current_phase = p_phase,
+      updated_at = now()
+  WHERE id = p_prospect_id;
+
+  PERFORM set_config('app.phase_change_reason', '', true);
+END;
+$$;
+
+-- Average days spent in each phase (closed stays only)
+CREATE OR REPLACE FUNCTION public.get_phase_cycle_times()
+RETURNS TABLE (
+  phase public.phase_type,
+  avg_days NUMERIC,
+  transitions BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    h.phase,
+    ROUND(AVG(EXTRACT(EPOCH FROM (h.exited_at - h.entered_at)) / 86400)::NUMERIC, 1) AS avg_days,
+    COUNT(*) AS transitions
+  FROM prospect_phase_history h
+  WHERE h.exited_at IS NOT NULL
+  GROUP BY h.phase;
+END;
+$$;
+
+-- Backfill from the phase changes already recorded in activity_logs
+WITH changes AS (
+  SELECT
+    l.entity_id AS prospect_id,
+    (l.details->'changes'->>'phase_from')::public.phase_type AS phase_from,
+    (l.details->'changes'->>'phase_to')::public.phase_type AS phase_to,
+    l.created_at,
+    l.user_id
+  FROM public.activity_logs l
+  JOIN public.prospects p ON p.id = l.entity_id
+  WHERE l.entity_type = 'prospect'
+    AND l.action_type = 'update'
+    AND l.details->'changes'->>'phase_to' IS NOT NULL
+    AND (l.details->'changes'->>'phase_from') IS DISTINCT FROM (l.details->'changes'->>'phase_to')
+),
+ordered AS (
+  SELECT
+    c.*,
+    LEAD(c.created_at) OVER (PARTITION BY c.prospect_id ORDER BY c.created_at) AS next_change_at,
+    ROW_NUMBER() OVER (PARTITION BY c.prospect_id ORDER BY c.created_at) AS rn
+  FROM changes c
+)
+INSERT INTO public.prospect_phase_history (prospect_id, phase, previous_phase, entered_at, exited_at, changed_by)
+-- Initial stay, before the first recorded change
+SELECT o.prospect_id, o.phase_from, NULL, COALESCE(p.created_at, o.created_at), o.created_at, NULL
+FROM ordered o
+JOIN public.prospects p ON p.id = o.prospect_id
+WHERE o.rn = 1
+  AND o.phase_from IS NOT NULL
+UNION ALL
+-- One stay per recorded change
+SELECT o.prospect_id, o.phase_to, o.phase_from, o.created_at, o.next_change_at, u.id
+FROM ordered o
+LEFT JOIN public.user_profiles u ON u.id = o.user_id
+UNION ALL
+-- Prospects without any recorded change: open stay since creation
+SELECT p.id, p.current_phase, NULL, COALESCE(p.created_at, now()), NULL, NULL
+FROM public.prospects p
+WHERE p.current_phase IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM ordered o WHERE o.prospect_id = p.id);
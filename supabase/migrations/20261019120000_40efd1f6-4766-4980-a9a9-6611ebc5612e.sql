@@ -0,0 +1,241 @@
+-- Server-side daily call generation
+-- Replaces the browser-side generator that ran from the Dashboard. A pg_cron job
+-- calls generate_daily_calls() every Monday-Thursday morning; each salesperson
+-- gets their own quota of calls. daily_call_runs.run_date is the unique daily key
+-- that makes the job idempotent (concurrent or repeated runs are no-ops).
+
+CREATE TABLE IF NOT EXISTS public.daily_call_runs (
+  run_date DATE PRIMARY KEY,
+  generated_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.daily_call_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view daily call runs"
+ON public.daily_call_runs
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Eligible prospects now take a limit and expose the owner so calls can go to them
+DROP FUNCTION IF EXISTS public.get_prospects_for_daily_calls();
+
+CREATE OR REPLACE FUNCTION public.get_prospects_for_daily_calls(p_limit INTEGER DEFAULT 3)
+RETURNS TABLE (
+  id UUID,
+  company_name TEXT,
+  owner_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT p.id, p.company_name, p.owner_id
+  FROM prospects p
+  WHERE p.current_phase = 'Prospección'
+    -- No pending activities in next 7 days
+    AND NOT EXISTS (
+      SELECT 1 FROM activities a
+      WHERE a.prospect_id = p.id
+        AND a.status = 'pending'
+        AND a.scheduled_date <= (CURRENT_DATE + INTERVAL '7 days')
+    )
+    -- No completed activities in last 3 days
+    AND NOT EXISTS (
+      SELECT 1 FROM activities a
+      WHERE a.prospect_id = p.id
+        AND a.status = 'completed'
+        AND a.completed_at >= (CURRENT_DATE - INTERVAL '3 days')
+    )
+    -- No system-generated calls in last 2 days
+    AND NOT EXISTS (
+      SELECT 1 FROM activities a
+      WHERE a.prospect_id = p.id
+        AND a.activity_type = 'Llamada'
+        AND a.created_by = 'system'
+        AND a.created_at >= (CURRENT_DATE - INTERVAL '2 days')
+    )
+  ORDER BY RANDOM()
+  LIMIT p_limit;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_daily_calls(p_date DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_calls_per_person CONSTANT INTEGER := 3;
+  v_salespersons UUID[];
+  v_quota JSONB := '{}'::jsonb;
+  v_candidate RECORD;
+  v_assignee UUID;
+  v_next INTEGER := 1;
+  v_count INTEGER := 0;
+  v_i INTEGER;
+BEGIN
+  -- Monday (1) to Thursday (4) only
+  IF EXTRACT(ISODOW FROM p_date) NOT BETWEEN 1 AND 4 THEN
+    RETURN 0;
+  END IF;
+
+  -- Claim the day; a second run (or a concurrent one) stops here
+  INSERT INTO daily_call_runs (run_date) VALUES (p_date)
+  ON CONFLICT (run_date) DO NOTHING;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Salespersons with the lightest pending queue first
+  SELECT array_agg(u.id ORDER BY
+    (SELECT COUNT(*) FROM activities a WHERE a.assigned_to = u.id AND a.status = 'pending'),
+    u.full_name)
+  INTO v_salespersons
+  FROM user_profiles u
+  WHERE u.role = 'salesperson';
+
+  IF v_salespersons IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_candidate IN
+    SELECT * FROM get_prospects_for_daily_calls(v_calls_per_person * array_length(v_salespersons, 1))
+  LOOP
+    v_assignee := NULL;
+
+    -- The prospect's owner takes it if they still have quota
+    IF v_candidate.owner_id = ANY (v_salespersons)
+       AND COALESCE((v_quota->>v_candidate.owner_id::text)::INTEGER, 0) < v_calls_per_person THEN
+      v_assignee := v_candidate.owner_id;
+    ELSE
+      -- Otherwise round-robin over salespersons with quota left
+      FOR v_i IN 1..array_length(v_salespersons, 1) LOOP
+        IF COALESCE((v_quota->>v_salespersons[v_next]::text)::INTEGER, 0) < v_calls_per_person THEN
+          v_assignee := v_salespersons[v_next];
+        END IF;
+        v_next := (v_next % array_length(v_salespersons, 1)) + 1;
+        EXIT WHEN v_assignee IS NOT NULL;
+      END LOOP;
+    END IF;
+
+    CONTINUE WHEN v_assignee IS NULL;
+
+    INSERT INTO activities (prospect_id, activity_type, scheduled_date, status, created_by, notes, assigned_to)
+    VALUES (
+      v_candidate.id,
+      'Llamada',
+      p_date,
+      'pending',
+      'system',
+      'Primera llamada de calificación - ' || v_candidate.company_name,
+      v_assignee
+    );
+
+    v_quota := jsonb_set(
+      v_quota,
+      ARRAY[v_assignee::text],
+      to_jsonb(COALESCE((v_quota->>v_assignee::text)::INTEGER, 0) + 1)
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE daily_call_runs SET generated_count = v_count WHERE run_date = p_date;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Only the scheduler may generate calls (pg_cron runs the job as postgres);
+-- any other caller could claim a day's run early or generate future days
+REVOKE ALL ON FUNCTION public.generate_daily_calls(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_daily_calls(DATE) TO postgres;
+
+-- Inserts made by the scheduler have no auth.uid(); attribute them to the assignee
+CREATE OR REPLACE FUNCTION public.log_activity_change()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  IF (TG_OP = 'INSERT') THEN
+    IF COALESCE(auth.uid(), NEW.assigned_to) IS NULL THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO activity_logs (user_id, action_type, entity_type, entity_id, details)
+    VALUES (
+      COALESCE(auth.uid(), NEW.assigned_to),
+      'create',
+      'activity',
+      NEW.id,
+      jsonb_build_object(
+        'prospect_name', (SELECT company_name FROM prospects WHERE id = NEW.prospect_id),
+        'activity_type', NEW.activity_type,
+        'scheduled_date', NEW.scheduled_date,
+        'notes', NEW.notes,
+        'assigned_to_name', (SELECT full_name FROM user_profiles WHERE id = NEW.assigned_to),
+        'created_by', NEW.created_by
+      )
+    );
+    RETURN NEW;
+  
+  ELSIF (TG_OP = 'UPDATE') THEN
+    IF NEW.status = 'completed' AND OLD.status != 'completed' THEN
+      INSERT INTO activity_logs (user_id, action_type, entity_type, entity_id, details)
+      VALUES (
+        auth.uid(),
+        'complete',
+        'activity',
+        NEW.id,
+        jsonb_build_object(
+          'prospect_name', (SELECT company_name FROM prospects WHERE id = NEW.prospect_id),
+          'activity_type', NEW.activity_type,
+          'scheduled_date', NEW.scheduled_date,
+          'completion_comment', NEW.completion_comment,
+          'completed_at', NEW.completed_at,
+          'notes', NEW.notes
+        )
+      );
+    
+    ELSIF NEW.status = 'blocked' AND OLD.status != 'blocked' THEN
+      INSERT INTO activity_logs (user_id, action_type, entity_type, entity_id, details)
+      VALUES (
+        auth.uid(),
+        'block',
+        'activity',
+        NEW.id,
+        jsonb_build_object(
+          'prospect_name', (SELECT company_name FROM prospects WHERE id = NEW.prospect_id),
+          'activity_type', NEW.activity_type,
+          'scheduled_date', NEW.scheduled_date,
+          'block_reason', NEW.block_reason
+        )
+      );
+    END IF;
+    
+    RETURN NEW;
+  END IF;
+END;
+$function$;
+
+-- Schedule: 12:00 UTC = 06:00 Costa Rica, Monday to Thursday
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('generate-daily-calls')
+  WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'generate-daily-calls');
+END;
+$$;
+
+SELECT cron.schedule(
+  'generate-daily-calls',
+  '0 12 * * 1-4',
+  $$SELECT public.generate_daily_calls()$$
+);
@@ -0,0 +1,205 @@
+-- Configurable daily call rules
+-- One team-wide row (user_id IS NULL) plus optional per-salesperson overrides.
+-- Both get_prospects_for_daily_calls and generate_daily_calls read them; the
+-- previous hard-coded values are the defaults.
+
+CREATE TABLE IF NOT EXISTS public.daily_call_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  -- ISO weekdays: 1 = Monday ... 7 = Sunday
+  active_days INTEGER[] NOT NULL DEFAULT ARRAY[1, 2, 3, 4],
+  calls_per_day INTEGER NOT NULL DEFAULT 3 CHECK (calls_per_day >= 0 AND calls_per_day <= 50),
+  -- Phases eligible besides 'Prospección'
+  extra_phases public.phase_type[] NOT NULL DEFAULT ARRAY[]::public.phase_type[],
+  pending_window_days INTEGER NOT NULL DEFAULT 7 CHECK (pending_window_days >= 0),
+  completed_cooldown_days INTEGER NOT NULL DEFAULT 3 CHECK (completed_cooldown_days >= 0),
+  system_call_cooldown_days INTEGER NOT NULL DEFAULT 2 CHECK (system_call_cooldown_days >= 0),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  updated_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_call_settings_user
+ON public.daily_call_settings (user_id)
+WHERE user_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_call_settings_team
+ON public.daily_call_settings ((user_id IS NULL))
+WHERE user_id IS NULL;
+
+INSERT INTO public.daily_call_settings (user_id)
+SELECT NULL
+WHERE NOT EXISTS (SELECT 1 FROM public.daily_call_settings WHERE user_id IS NULL);
+
+ALTER TABLE public.daily_call_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view daily call settings"
+ON public.daily_call_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Managers can manage daily call settings"
+ON public.daily_call_settings
+FOR ALL
+TO authenticated
+USING (public.is_manager())
+WITH CHECK (public.is_manager());
+
+-- Effective settings for a salesperson: own override, else team row
+CREATE OR REPLACE FUNCTION public.get_daily_call_settings(p_user_id UUID DEFAULT NULL)
+RETURNS public.daily_call_settings
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings daily_call_settings;
+BEGIN
+  IF p_user_id IS NOT NULL THEN
+    SELECT * INTO v_settings FROM daily_call_settings WHERE user_id = p_user_id;
+  END IF;
+
+  IF v_settings.id IS NULL THEN
+    SELECT * INTO v_settings FROM daily_call_settings WHERE user_id IS NULL;
+  END IF;
+
+  -- No rows at all: fall back to column defaults
+  IF v_settings.id IS NULL THEN
+    v_settings.active_days := ARRAY[1, 2, 3, 4];
+    v_settings.calls_per_day := 3;
+    v_settings.extra_phases := ARRAY[]::phase_type[];
+    v_settings.pending_window_days := 7;
+    v_settings.completed_cooldown_days := 3;
+    v_settings.system_call_cooldown_days := 2;
+  END IF;
+
+  RETURN v_settings;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.get_prospects_for_daily_calls(INTEGER);
+
+-- Eligible prospects according to the salesperson's (or team's) rules.
+-- With p_user_id, prospects owned by someone else are skipped and own ones come first.
+CREATE OR REPLACE FUNCTION public.get_prospects_for_daily_calls(
+  p_limit INTEGER DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  company_name TEXT,
+  owner_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s daily_call_settings := get_daily_call_settings(p_user_id);
+BEGIN
+  RETURN QUERY
+  SELECT p.id, p.company_name, p.owner_id
+  FROM prospects p
+  WHERE (p.current_phase = 'Prospección' OR p.current_phase = ANY (s.extra_phases))
+    AND (p_user_id IS NULL OR p.owner_id IS NULL OR p.owner_id = p_user_id)
+    -- No pending activities in the pending window
+    AND NOT EXISTS (
+      SELECT 1 FROM activities a
+      WHERE a.prospect_id = p.id
+        AND a.status = 'pending'
+        AND a.scheduled_date <= (CURRENT_DATE + make_interval(days => s.pending_window_days))
+    )
+    -- No completed activities during the completed cooldown
+    AND NOT EXISTS (
+      SELECT 1 FROM activities a
+      WHERE a.prospect_id = p.id
+        AND a.status = 'completed'
+        AND a.completed_at >= (CURRENT_DATE - make_interval(days => s.completed_cooldown_days))
+    )
+    -- No system-generated calls during the system call cooldown
+    AND NOT EXISTS (
+      SELECT 1 FROM activities a
+      WHERE a.prospect_id = p.id
+        AND a.activity_type = 'Llamada'
+        AND a.created_by = 'system'
+        AND a.created_at >= (CURRENT_DATE - make_interval(days => s.system_call_cooldown_days))
+    )
+  ORDER BY (p.owner_id IS NOT DISTINCT FROM p_user_id) DESC, RANDOM()
+  LIMIT COALESCE(p_limit, s.calls_per_day);
+END;
+$$;
+
+-- Generator: each salesperson gets calls_per_day calls on their active days
+CREATE OR REPLACE FUNCTION public.generate_daily_calls(p_date DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_salesperson RECORD;
+  v_settings daily_call_settings;
+  v_candidate RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  -- Claim the day; a second run (or a concurrent one) stops here
+  INSERT INTO daily_call_runs (run_date) VALUES (p_date)
+  ON CONFLICT (run_date) DO NOTHING;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Salespersons with the lightest pending queue pick first
+  FOR v_salesperson IN
+    SELECT u.id
+    FROM user_profiles u
+    WHERE u.role = 'salesperson'
+    ORDER BY
+      (SELECT COUNT(*) FROM activities a WHERE a.assigned_to = u.id AND a.status = 'pending'),
+      u.full_name
+  LOOP
+    v_settings := get_daily_call_settings(v_salesperson.id);
+
+    CONTINUE WHEN NOT (EXTRACT(ISODOW FROM p_date)::INTEGER = ANY (v_settings.active_days));
+    CONTINUE WHEN v_settings.calls_per_day <= 0;
+
+    -- Calls inserted in previous iterations are pending today, so the
+    -- pending-window rule keeps them from being picked twice
+    FOR v_candidate IN
+      SELECT * FROM get_prospects_for_daily_calls(v_settings.calls_per_day, v_salesperson.id)
+    LOOP
+      INSERT INTO activities (prospect_id, activity_type, scheduled_date, status, created_by, notes, assigned_to)
+      VALUES (
+        v_candidate.id,
+        'Llamada',
+        p_date,
+        'pending',
+        'system',
+        'Primera llamada de calificación - ' || v_candidate.company_name,
+        v_salesperson.id
+      );
+      v_count := v_count + 1;
+    END LOOP;
+  END LOOP;
+
+  UPDATE daily_call_runs SET generated_count = v_count WHERE run_date = p_date;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Active days are now configurable, so the job runs every day and the
+-- function decides per salesperson
+DO $$
+BEGIN
+  PERFORM cron.unschedule('generate-daily-calls')
+  WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'generate-daily-calls');
+END;
+$$;
+
+SELECT cron.schedule(
+  'generate-daily-calls',
+  '0 12 * * *',
+  $$SELECT public.generate_daily_calls()$$
+);
@@ -0,0 +1,210 @@
+-- Prioritized daily call selection
+-- Candidates are ranked by a score instead of ORDER BY RANDOM():
+--   recency         up to 40 pts  days since the last completed activity (60+ days = max, never touched = max)
+--   value           up to 30 pts  estimated_value relative to the largest eligible one (log scale)
+--   age             up to 15 pts  fresh prospects first, fading to 0 at 180 days old
+--   failed attempts -10 pts each  (max -30) calls that ended without reaching the client
+-- The breakdown is returned per row and stored on the generated activity so
+-- Mi Día can explain why the company was picked.
+
+ALTER TABLE public.activities
+ADD COLUMN IF NOT EXISTS selection_score JSONB;
+
+DROP FUNCTION IF EXISTS public.get_prospects_for_daily_calls(INTEGER, UUID);
+
+-- A call that ended without reaching the client: blocked, completed with a
+-- no-answer comment, or marked as not completed and pushed to a later date.
+-- Overdue pending calls can't count: they already make the prospect ineligible.
+CREATE OR REPLACE FUNCTION public.is_failed_call_attempt(p_activity public.activities)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    p_activity.activity_type = 'Llamada'
+    AND CASE p_activity.status::TEXT
+      WHEN 'blocked' THEN true
+      WHEN 'completed' THEN p_activity.completion_comment ~* '(no contest|no respond|no atend|sin respuesta|buz[oó]n)'
+      WHEN 'pending' THEN p_activity.completion_comment IS NOT NULL
+      ELSE false
+    END,
+    false
+  );
+$$;
+
+-- Each failed attempt costs 10 points, so these must hold for unanswered calls to lower the score
+DO $$
+BEGIN
+  ASSERT is_failed_call_attempt(jsonb_populate_record(NULL::activities,
+    '{"activity_type": "Llamada", "status": "completed", "completion_comment": "Cliente no contestó el teléfono"}')),
+    'a completed call with a no-answer comment must count as a failed attempt';
+  ASSERT is_failed_call_attempt(jsonb_populate_record(NULL::activities,
+    '{"activity_type": "Llamada", "status": "blocked", "block_reason": "Número equivocado"}')),
+    'a blocked call must count as a failed attempt';
+  ASSERT is_failed_call_attempt(jsonb_populate_record(NULL::activities,
+    '{"activity_type": "Llamada", "status": "pending", "completion_comment": "No tuve tiempo"}')),
+    'a call marked as not completed must count as a failed attempt';
+  ASSERT NOT is_failed_call_attempt(jsonb_populate_record(NULL::activities,
+    '{"activity_type": "Llamada", "status": "completed", "completion_comment": "Cliente pidió cotización"}')),
+    'a successful call must not count as a failed attempt';
+  ASSERT NOT is_failed_call_attempt(jsonb_populate_record(NULL::activities,
+    '{"activity_type": "Visita", "status": "blocked"}')),
+    'only calls count as attempts';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_prospects_for_daily_calls(
+  p_limit INTEGER DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  company_name TEXT,
+  owner_id UUID,
+  score NUMERIC,
+  score_breakdown JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s daily_call_settings := get_daily_call_settings(p_user_id);
+BEGIN
+  RETURN QUERY
+  WITH eligible AS (
+    SELECT p.id, p.company_name, p.owner_id, p.created_at, COALESCE(p.estimated_value, 0) AS estimated_value
+    FROM prospects p
+    WHERE (p.current_phase = 'Prospección' OR p.current_phase = ANY (s.extra_phases))
+      AND (p_user_id IS NULL OR p.owner_id IS NULL OR p.owner_id = p_user_id)
+      -- No pending activities in the pending window
+      AND NOT EXISTS (
+        SELECT 1 FROM activities a
+        WHERE a.prospect_id = p.id
+          AND a.status = 'pending'
+          AND a.scheduled_date <= (CURRENT_DATE + make_interval(days => s.pending_window_days))
+      )
+      -- No completed activities during the completed cooldown
+      AND NOT EXISTS (
+        SELECT 1 FROM activities a
+        WHERE a.prospect_id = p.id
+          AND a.status = 'completed'
+          AND a.completed_at >= (CURRENT_DATE - make_interval(days => s.completed_cooldown_days))
+      )
+      -- No system-generated calls during the system call cooldown
+      AND NOT EXISTS (
+        SELECT 1 FROM activities a
+        WHERE a.prospect_id = p.id
+          AND a.activity_type = 'Llamada'
+          AND a.created_by = 'system'
+          AND a.created_at >= (CURRENT_DATE - make_interval(days => s.system_call_cooldown_days))
+      )
+  ),
+  metrics AS (
+    SELECT
+      e.*,
+      (
+        SELECT (CURRENT_DATE - MAX(a.completed_at)::DATE)
+        FROM activities a
+        WHERE a.prospect_id = e.id AND a.status = 'completed'
+      ) AS days_since_touch,
+      (CURRENT_DATE - COALESCE(e.created_at, now())::DATE) AS age_days,
+      (
+        SELECT COUNT(*)::INTEGER
+        FROM activities a
+        WHERE a.prospect_id = e.id
+          AND is_failed_call_attempt(a)
+      ) AS failed_attempts,
+      MAX(e.estimated_value) OVER () AS max_value
+    FROM eligible e
+  ),
+  scored AS (
+    SELECT
+      m.*,
+      ROUND(40 * LEAST(COALESCE(m.days_since_touch, 60), 60) / 60.0, 1) AS recency_pts,
+      ROUND(CASE WHEN m.max_value > 0
+        THEN 30 * LN(1 + m.estimated_value) / LN(1 + m.max_value)
+        ELSE 0 END, 1) AS value_pts,
+      ROUND(15 * GREATEST(0, 1 - m.age_days / 180.0), 1) AS age_pts,
+      -10 * LEAST(m.failed_attempts, 3) AS failed_pts
+    FROM metrics m
+  )
+  SELECT
+    sc.id,
+    sc.company_name,
+    sc.owner_id,
+    (sc.recency_pts + sc.value_pts + sc.age_pts + sc.failed_pts)::NUMERIC AS score,
+    jsonb_build_object(
+      'recency', jsonb_build_object('days', sc.days_since_touch, 'points', sc.recency_pts),
+      'value', jsonb_build_object('amount', sc.estimated_value, 'points', sc.value_pts),
+      'age', jsonb_build_object('days', sc.age_days, 'points', sc.age_pts),
+      'failed_attempts', jsonb_build_object('count', sc.failed_attempts, 'points', sc.failed_pts),
+      'total', sc.recency_pts + sc.value_pts + sc.age_pts + sc.failed_pts
+    ) AS score_breakdown
+  FROM scored sc
+  ORDER BY
+    (sc.owner_id IS NOT DISTINCT FROM p_user_id) DESC,
+    (sc.recency_pts + sc.value_pts + sc.age_pts + sc.failed_pts) DESC,
+    sc.company_name
+  LIMIT COALESCE(p_limit, s.calls_per_day);
+END;
+$$;
+
+-- Same generator as before, now storing the score breakdown on each call
+CREATE OR REPLACE FUNCTION public.generate_daily_calls(p_date DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_salesperson RECORD;
+  v_settings daily_call_settings;
+  v_candidate RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  -- Claim the day; a second run (or a concurrent one) stops here
+  INSERT INTO daily_call_runs (run_date) VALUES (p_date)
+  ON CONFLICT (run_date) DO NOTHING;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Salespersons with the lightest pending queue pick first
+  FOR v_salesperson IN
+    SELECT u.id
+    FROM user_profiles u
+    WHERE u.role = 'salesperson'
+    ORDER BY
+      (SELECT COUNT(*) FROM activities a WHERE a.assigned_to = u.id AND a.status = 'pending'),
+      u.full_name
+  LOOP
+    v_settings := get_daily_call_settings(v_salesperson.id);
+
+    CONTINUE WHEN NOT (EXTRACT(ISODOW FROM p_date)::INTEGER = ANY (v_settings.active_days));
+    CONTINUE WHEN v_settings.calls_per_day <= 0;
+
+    FOR v_candidate IN
+      SELECT * FROM get_prospects_for_daily_calls(v_settings.calls_per_day, v_salesperson.id)
+    LOOP
+      INSERT INTO activities (prospect_id, activity_type, scheduled_date, status, created_by, notes, assigned_to, selection_score)
+      VALUES (
+        v_candidate.id,
+        'Llamada',
+        p_date,
+        'pending',
+        'system',
+        'Primera llamada de calificación - ' || v_candidate.company_name,
+        v_salesperson.id,
+        v_candidate.score_breakdown
+      );
+      v_count := v_count + 1;
+    END LOOP;
+  END LOOP;
+
+  UPDATE daily_call_runs SET generated_count = v_count WHERE run_date = p_date;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,208 @@
+-- Server-side search over activities and prospects
+-- Full-text (prefix) matching on notes, completion comments, company, contact,
+-- licitación number/institution, plus trigram matching on names so partial or
+-- slightly misspelled company names still hit. Results are ranked and paginated;
+-- total_count carries the number of matches before LIMIT/OFFSET.
+-- Both RPCs run as the caller, so activity RLS still applies.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Search documents. IMMUTABLE so they can back expression indexes.
+CREATE OR REPLACE FUNCTION public.activity_search_document(p_notes TEXT, p_completion_comment TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('simple'::regconfig, COALESCE(p_notes, '')), 'A')
+      || setweight(to_tsvector('simple'::regconfig, COALESCE(p_completion_comment, '')), 'B');
+$$;
+
+CREATE OR REPLACE FUNCTION public.prospect_search_document(
+  p_company_name TEXT,
+  p_contact_name TEXT,
+  p_licitacion_numero TEXT,
+  p_licitacion_institucion TEXT,
+  p_email TEXT,
+  p_notes TEXT
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('simple'::regconfig, COALESCE(p_company_name, '')), 'A')
+      || setweight(to_tsvector('simple'::regconfig, COALESCE(p_licitacion_numero, '')), 'A')
+      || setweight(to_tsvector('simple'::regconfig, COALESCE(p_contact_name, '')), 'B')
+      || setweight(to_tsvector('simple'::regconfig, COALESCE(p_licitacion_institucion, '')), 'B')
+      || setweight(to_tsvector('simple'::regconfig, COALESCE(p_email, '')), 'C')
+      || setweight(to_tsvector('simple'::regconfig, COALESCE(p_notes, '')), 'D');
+$$;
+
+-- "coca col" -> 'coca':* & 'col':*  (NULL when there is nothing to search)
+CREATE OR REPLACE FUNCTION public.search_tsquery(p_query TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('simple'::regconfig, string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_activities_search
+ON public.activities USING GIN (public.activity_search_document(notes, completion_comment));
+
+CREATE INDEX IF NOT EXISTS idx_prospects_search
+ON public.prospects USING GIN (
+  public.prospect_search_document(company_name, contact_name, licitacion_numero, licitacion_institucion, email, notes)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prospects_company_name_trgm
+ON public.prospects USING GIN (company_name extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_prospects_contact_name_trgm
+ON public.prospects USING GIN (contact_name extensions.gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION public.search_prospects(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  company_name TEXT,
+  contact_name TEXT,
+  current_phase phase_type,
+  prospect_type TEXT,
+  licitacion_numero TEXT,
+  owner_id UUID,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT
+      search_tsquery(p_query) AS tsq,
+      trim(p_query) AS term,
+      -- Literal substring match: the user's %, _ and \ are not wildcards
+      '%' || replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      GREATEST(
+        ts_rank(prospect_search_document(p.company_name, p.contact_name, p.licitacion_numero, p.licitacion_institucion, p.email, p.notes), q.tsq),
+        word_similarity(q.term, COALESCE(p.company_name, '')),
+        word_similarity(q.term, COALESCE(p.contact_name, ''))
+      ) AS match_rank
+    FROM prospects p, q
+    WHERE length(q.term) >= 2
+      AND (
+        prospect_search_document(p.company_name, p.contact_name, p.licitacion_numero, p.licitacion_institucion, p.email, p.notes) @@ q.tsq
+        OR p.company_name ILIKE q.pattern ESCAPE '\'
+        OR p.contact_name ILIKE q.pattern ESCAPE '\'
+        OR q.term <% p.company_name
+      )
+  )
+  SELECT
+    m.id,
+    m.company_name,
+    m.contact_name,
+    m.current_phase,
+    m.prospect_type,
+    m.licitacion_numero,
+    m.owner_id,
+    m.match_rank::REAL AS rank,
+    COUNT(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY m.match_rank DESC, m.company_name
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_activities(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  prospect_id UUID,
+  activity_type activity_type,
+  custom_type TEXT,
+  scheduled_date DATE,
+  status activity_status,
+  notes TEXT,
+  completion_comment TEXT,
+  block_reason TEXT,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  created_by created_by_type,
+  assigned_to UUID,
+  selection_score JSONB,
+  company_name TEXT,
+  contact_name TEXT,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT
+      search_tsquery(p_query) AS tsq,
+      trim(p_query) AS term,
+      -- Literal substring match: the user's %, _ and \ are not wildcards
+      '%' || replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  ),
+  matches AS (
+    SELECT
+      a.*,
+      p.company_name,
+      p.contact_name,
+      GREATEST(
+        ts_rank(activity_search_document(a.notes, a.completion_comment), q.tsq),
+        ts_rank(prospect_search_document(p.company_name, p.contact_name, p.licitacion_numero, p.licitacion_institucion, p.email, p.notes), q.tsq),
+        word_similarity(q.term, COALESCE(p.company_name, ''))
+      ) AS match_rank
+    FROM activities a
+    LEFT JOIN prospects p ON p.id = a.prospect_id
+    CROSS JOIN q
+    WHERE length(q.term) >= 2
+      AND (
+        activity_search_document(a.notes, a.completion_comment) @@ q.tsq
+        OR prospect_search_document(p.company_name, p.contact_name, p.licitacion_numero, p.licitacion_institucion, p.email, p.notes) @@ q.tsq
+        OR p.company_name ILIKE q.pattern ESCAPE '\'
+        OR p.contact_name ILIKE q.pattern ESCAPE '\'
+        OR q.term <% p.company_name
+      )
+  )
+  SELECT
+    m.id,
+    m.prospect_id,
+    m.activity_type,
+    m.custom_type,
+    m.scheduled_date,
+    m.status,
+    m.notes,
+    m.completion_comment,
+    m.block_reason,
+    m.completed_at,
+    m.created_at,
+    m.created_by,
+    m.assigned_to,
+    m.selection_score,
+    m.company_name,
+    m.contact_name,
+    m.match_rank::REAL AS rank,
+    COUNT(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY m.match_rank DESC, m.scheduled_date DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
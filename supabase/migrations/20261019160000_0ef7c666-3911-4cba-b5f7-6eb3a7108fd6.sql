@@ -0,0 +1,151 @@
+-- Contacts: several people per prospect (buyer, technical, billing...)
+-- prospects.contact_name/phone/email stay as a denormalized copy of the primary
+-- contact so existing lists and search keep working; the triggers below keep
+-- them in sync. Activities can reference the contact they were made with.
+
+CREATE TABLE public.contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prospect_id UUID NOT NULL REFERENCES public.prospects(id) ON DELETE CASCADE,
+  full_name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'otro'
+    CHECK (role IN ('compras', 'tecnico', 'facturacion', 'gerencia', 'otro')),
+  phone TEXT,
+  email TEXT,
+  is_primary BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_contacts_prospect ON public.contacts(prospect_id);
+
+-- At most one primary contact per prospect
+CREATE UNIQUE INDEX idx_contacts_one_primary
+ON public.contacts(prospect_id)
+WHERE is_primary;
+
+ALTER TABLE public.contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view contacts"
+ON public.contacts FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can create contacts"
+ON public.contacts FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update contacts"
+ON public.contacts FOR UPDATE
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can delete contacts"
+ON public.contacts FOR DELETE
+TO authenticated
+USING (true);
+
+ALTER TABLE public.activities
+ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_activities_contact ON public.activities(contact_id);
+
+-- Primary contact changes: demote the previous primary and mirror onto the prospect
+CREATE OR REPLACE FUNCTION public.sync_primary_contact()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  -- The first contact of a prospect is always primary
+  IF TG_OP = 'INSERT' AND NOT NEW.is_primary
+     AND NOT EXISTS (SELECT 1 FROM contacts c WHERE c.prospect_id = NEW.prospect_id AND c.is_primary) THEN
+    NEW.is_primary := true;
+  END IF;
+
+  IF NEW.is_primary THEN
+    UPDATE contacts
+    SET is_primary = false
+    WHERE prospect_id = NEW.prospect_id
+      AND id <> NEW.id
+      AND is_primary;
+
+    UPDATE prospects
+    SET contact_name = NEW.full_name,
+        phone = NEW.phone,
+        email = NEW.email
+    WHERE id = NEW.prospect_id
+      AND (contact_name IS DISTINCT FROM NEW.full_name
+        OR phone IS DISTINCT FROM NEW.phone
+        OR email IS DISTINCT FROM NEW.email);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_primary_contact
+BEFORE INSERT OR UPDATE ON public.contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_primary_contact();
+
+-- Deleting the primary promotes the oldest remaining contact
+CREATE OR REPLACE FUNCTION public.promote_next_primary_contact()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_primary THEN
+    UPDATE contacts
+    SET is_primary = true
+    WHERE id = (
+      SELECT c.id FROM contacts c
+      WHERE c.prospect_id = OLD.prospect_id
+      ORDER BY c.created_at
+      LIMIT 1
+    );
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER promote_next_primary_contact
+AFTER DELETE ON public.contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.promote_next_primary_contact();
+
+-- New prospects get their primary contact from the creation form fields
+CREATE OR REPLACE FUNCTION public.create_primary_contact_for_prospect()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NULLIF(trim(NEW.contact_name), '') IS NOT NULL THEN
+    INSERT INTO contacts (prospect_id, full_name, phone, email, is_primary, created_by)
+    VALUES (NEW.id, trim(NEW.contact_name), NEW.phone, NEW.email, true, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_primary_contact_for_prospect
+AFTER INSERT ON public.prospects
+FOR EACH ROW
+EXECUTE FUNCTION public.create_primary_contact_for_prospect();
+
+-- Backfill: one primary contact per existing prospect
+INSERT INTO public.contacts (prospect_id, full_name, phone, email, is_primary, created_at)
+SELECT p.id, trim(p.contact_name), p.phone, p.email, true, COALESCE(p.created_at, now())
+FROM public.prospects p
+WHERE NULLIF(trim(p.contact_name), '') IS NOT NULL;
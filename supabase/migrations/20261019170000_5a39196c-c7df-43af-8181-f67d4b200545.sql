@@ -0,0 +1,11 @@
+-- Optional time of day and duration for activities
+-- scheduled_date stays the day the activity belongs to; scheduled_time is NULL
+-- for "any time that day" activities (all existing rows and system calls).
+
+ALTER TABLE public.activities
+ADD COLUMN IF NOT EXISTS scheduled_time TIME,
+ADD COLUMN IF NOT EXISTS duration_minutes INTEGER
+  CHECK (duration_minutes IS NULL OR (duration_minutes > 0 AND duration_minutes <= 1440));
+
+CREATE INDEX IF NOT EXISTS idx_activities_schedule
+ON public.activities(scheduled_date, scheduled_time);
@@ -0,0 +1,71 @@
+-- Calendar feed (.ics) for salespeople's phone calendars
+-- Each user gets a secret token; the calendar-feed edge function serves their
+-- pending activities at /functions/v1/calendar-feed?token=<token>.
+
+-- Where a Visita takes place (published as the event LOCATION)
+ALTER TABLE public.activities
+ADD COLUMN IF NOT EXISTS location TEXT,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- Keeps updated_at current so the feed can bump SEQUENCE / LAST-MODIFIED
+CREATE OR REPLACE FUNCTION public.touch_activity_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_touch_activity_updated_at ON public.activities;
+CREATE TRIGGER trg_touch_activity_updated_at
+BEFORE UPDATE ON public.activities
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_activity_updated_at();
+
+CREATE TABLE public.calendar_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Users only see their own token; it is created/rotated through the function below
+CREATE POLICY "Users can view their own calendar feed token"
+ON public.calendar_feed_tokens FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own calendar feed token"
+ON public.calendar_feed_tokens FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Creates the caller's feed token, or replaces it (old subscriptions stop working)
+CREATE OR REPLACE FUNCTION public.rotate_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  INSERT INTO public.calendar_feed_tokens (user_id, token)
+  VALUES (auth.uid(), v_token)
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = EXCLUDED.token,
+      created_at = now();
+
+  RETURN v_token;
+END;
+$$;
@@ -0,0 +1,201 @@
+-- Recurring activities
+-- A series holds the recurrence rule and the template for its occurrences.
+-- Only the next pending occurrence exists as an activity; completing it
+-- materializes the following one (trigger below), so every completion path
+-- (Mi Día, pipeline, edit modal) keeps the series going.
+
+CREATE TABLE public.activity_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  frequency TEXT NOT NULL
+    CHECK (frequency IN ('daily', 'weekly', 'monthly', 'interval')),
+  -- 'interval': every N days
+  interval_days INTEGER CHECK (interval_days IS NULL OR interval_days BETWEEN 1 AND 365),
+  -- 'weekly': days of the week, 0 = Sunday (same as JS getDay / EXTRACT(DOW))
+  weekdays SMALLINT[],
+  -- 'monthly': day of the month, clamped to the last day on short months
+  day_of_month SMALLINT CHECK (day_of_month IS NULL OR day_of_month BETWEEN 1 AND 31),
+  end_date DATE,
+  max_occurrences INTEGER CHECK (max_occurrences IS NULL OR max_occurrences >= 1),
+  occurrence_count INTEGER NOT NULL DEFAULT 1,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  -- Template copied onto each new occurrence
+  prospect_id UUID REFERENCES public.prospects(id) ON DELETE CASCADE,
+  activity_type activity_type NOT NULL,
+  custom_type TEXT,
+  notes TEXT,
+  assigned_to UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  scheduled_time TIME,
+  duration_minutes INTEGER,
+  location TEXT,
+  created_by created_by_type,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CHECK (frequency <> 'interval' OR interval_days IS NOT NULL),
+  CHECK (frequency <> 'weekly' OR cardinality(weekdays) > 0),
+  CHECK (frequency <> 'monthly' OR day_of_month IS NOT NULL)
+);
+
+ALTER TABLE public.activities
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.activity_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_activities_series ON public.activities(series_id, scheduled_date);
+
+-- Same visibility as the activities it generates
+ALTER TABLE public.activity_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own activity series"
+ON public.activity_series FOR SELECT
+TO authenticated
+USING (
+  public.is_manager()
+  OR assigned_to = auth.uid()
+  OR assigned_to IS NULL
+);
+
+CREATE POLICY "Users can create own activity series"
+ON public.activity_series FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.is_manager()
+  OR assigned_to = auth.uid()
+  OR assigned_to IS NULL
+);
+
+CREATE POLICY "Users can update own activity series"
+ON public.activity_series FOR UPDATE
+TO authenticated
+USING (
+  public.is_manager()
+  OR assigned_to = auth.uid()
+  OR assigned_to IS NULL
+)
+WITH CHECK (
+  public.is_manager()
+  OR assigned_to = auth.uid()
+  OR assigned_to IS NULL
+);
+
+CREATE POLICY "Users can delete own activity series"
+ON public.activity_series FOR DELETE
+TO authenticated
+USING (
+  public.is_manager()
+  OR assigned_to = auth.uid()
+);
+
+-- First date strictly after p_after that matches the rule
+-- (mirrors getNextOccurrenceDate in src/lib/recurrence.ts)
+CREATE OR REPLACE FUNCTION public.next_series_date(p_series public.activity_series, p_after DATE)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_month DATE;
+  v_candidate DATE;
+  i INTEGER;
+BEGIN
+  IF p_series.frequency = 'daily' THEN
+    RETURN p_after + 1;
+  ELSIF p_series.frequency = 'interval' THEN
+    RETURN p_after + p_series.interval_days;
+  ELSIF p_series.frequency = 'weekly' THEN
+    FOR i IN 1..7 LOOP
+      IF EXTRACT(DOW FROM p_after + i)::SMALLINT = ANY(p_series.weekdays) THEN
+        RETURN p_after + i;
+      END IF;
+    END LOOP;
+    RETURN NULL;
+  ELSIF p_series.frequency = 'monthly' THEN
+    v_month := date_trunc('month', p_after)::date;
+    FOR i IN 0..1 LOOP
+      v_candidate := v_month + (LEAST(
+        p_series.day_of_month,
+        EXTRACT(DAY FROM (v_month + INTERVAL '1 month - 1 day'))::INTEGER
+      ) - 1);
+      IF v_candidate > p_after THEN
+        RETURN v_candidate;
+      END IF;
+      v_month := (v_month + INTERVAL '1 month')::date;
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Completing an occurrence creates the next one, unless the series ended
+CREATE OR REPLACE FUNCTION public.materialize_next_series_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series activity_series;
+  v_next DATE;
+BEGIN
+  SELECT * INTO v_series
+  FROM activity_series
+  WHERE id = NEW.series_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_series.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  -- Another occurrence is already waiting (e.g. completed, reopened, completed again)
+  IF EXISTS (
+    SELECT 1 FROM activities
+    WHERE series_id = NEW.series_id
+      AND id <> NEW.id
+      AND status = 'pending'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_series.max_occurrences IS NOT NULL
+     AND v_series.occurrence_count >= v_series.max_occurrences THEN
+    UPDATE activity_series SET is_active = false, updated_at = now() WHERE id = v_series.id;
+    RETURN NEW;
+  END IF;
+
+  -- Late completions don't spawn occurrences in the past
+  v_next := next_series_date(v_series, GREATEST(NEW.scheduled_date, CURRENT_DATE - 1));
+
+  IF v_next IS NULL OR (v_series.end_date IS NOT NULL AND v_next > v_series.end_date) THEN
+    UPDATE activity_series SET is_active = false, updated_at = now() WHERE id = v_series.id;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO activities (
+    prospect_id, activity_type, custom_type, notes, assigned_to, contact_id,
+    scheduled_date, scheduled_time, duration_minutes, location,
+    status, created_by, series_id
+  ) VALUES (
+    v_series.prospect_id, v_series.activity_type, v_series.custom_type, v_series.notes,
+    v_series.assigned_to, v_series.contact_id,
+    v_next, v_series.scheduled_time, v_series.duration_minutes, v_series.location,
+    'pending', COALESCE(v_series.created_by, 'system'), v_series.id
+  );
+
+  UPDATE activity_series
+  SET occurrence_count = occurrence_count + 1,
+      updated_at = now()
+  WHERE id = v_series.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_materialize_next_series_activity ON public.activities;
+CREATE TRIGGER trg_materialize_next_series_activity
+AFTER UPDATE OF status ON public.activities
+FOR EACH ROW
+WHEN (NEW.series_id IS NOT NULL AND NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+EXECUTE FUNCTION public.materialize_next_series_activity();
@@ -0,0 +1,132 @@
+-- Phase playbooks
+-- Ordered activity templates per phase (e.g. Cotización: send quote today,
+-- follow-up call in 3 days, visit in a week). Applied when a prospect moves
+-- into the phase, or on demand from the prospect's activities.
+
+CREATE TABLE public.phase_playbook_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phase public.phase_type NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  activity_type public.activity_type NOT NULL,
+  custom_type TEXT,
+  -- Days after the prospect enters the phase
+  day_offset INTEGER NOT NULL DEFAULT 0 CHECK (day_offset BETWEEN 0 AND 365),
+  notes TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_phase_playbook_steps_phase
+ON public.phase_playbook_steps (phase, position);
+
+ALTER TABLE public.phase_playbook_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view phase playbooks"
+ON public.phase_playbook_steps
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Managers can manage phase playbooks"
+ON public.phase_playbook_steps
+FOR ALL
+TO authenticated
+USING (public.is_manager())
+WITH CHECK (public.is_manager());
+
+-- Replaces the steps of a phase in one go (the editor saves the whole list)
+-- p_steps: [{ "activity_type", "custom_type", "day_offset", "notes" }, ...] in order
+CREATE OR REPLACE FUNCTION public.save_phase_playbook(
+  p_phase public.phase_type,
+  p_steps JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_manager() THEN
+    RAISE EXCEPTION 'Only managers can edit playbooks';
+  END IF;
+
+  DELETE FROM phase_playbook_steps WHERE phase = p_phase;
+
+  INSERT INTO phase_playbook_steps (phase, position, activity_type, custom_type, day_offset, notes, updated_by)
+  SELECT
+    p_phase,
+    s.ordinality - 1,
+    (s.value->>'activity_type')::activity_type,
+    NULLIF(s.value->>'custom_type', ''),
+    COALESCE((s.value->>'day_offset')::INTEGER, 0),
+    s.value->>'notes',
+    auth.uid()
+  FROM jsonb_array_elements(COALESCE(p_steps, '[]'::jsonb)) WITH ORDINALITY AS s(value, ordinality);
+END;
+$$;
+
+-- Creates the playbook activities for a prospect (defaults to its current phase).
+-- Assigned to the prospect's owner, or to the caller for unowned prospects.
+-- Steps that already have an identical pending activity are skipped, so
+-- applying twice doesn't duplicate. Returns how many activities were created.
+CREATE OR REPLACE FUNCTION public.apply_phase_playbook(
+  p_prospect_id UUID,
+  p_phase public.phase_type DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_prospect prospects;
+  v_phase phase_type;
+  v_created INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_prospect FROM prospects WHERE id = p_prospect_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prospect not found';
+  END IF;
+
+  -- The activities go to the owner (or the caller), which the activity RLS
+  -- only allows for managers, the owner, or unowned prospects
+  IF NOT (is_manager() OR v_prospect.owner_id IS NULL OR v_prospect.owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Solo el responsable o un gerente puede aplicar el playbook de este prospecto';
+  END IF;
+
+  v_phase := COALESCE(p_phase, v_prospect.current_phase);
+
+  INSERT INTO activities (
+    prospect_id, activity_type, custom_type, notes, scheduled_date,
+    status, created_by, assigned_to
+  )
+  SELECT
+    v_prospect.id,
+    s.activity_type,
+    s.custom_type,
+    s.notes,
+    CURRENT_DATE + s.day_offset,
+    'pending',
+    -- Marked like activities the caller schedules by hand: 'system' is only for
+    -- the daily calls, which the generator's cooldown and dedupe look for
+    CASE WHEN is_manager() THEN 'manager' ELSE 'salesperson' END::created_by_type,
+    COALESCE(v_prospect.owner_id, auth.uid())
+  FROM phase_playbook_steps s
+  WHERE s.phase = v_phase
+    AND NOT EXISTS (
+      SELECT 1 FROM activities a
+      WHERE a.prospect_id = v_prospect.id
+        AND a.status = 'pending'
+        AND a.activity_type = s.activity_type
+        AND a.notes IS NOT DISTINCT FROM s.notes
+    )
+  ORDER BY s.position;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$$;
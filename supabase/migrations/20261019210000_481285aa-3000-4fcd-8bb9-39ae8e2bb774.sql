@@ -0,0 +1,133 @@
+-- Licitación document checklist
+-- Each licitación gets the standard documents to prepare. Items with
+-- days_before_cierre have their due date derived from licitacion_fecha_cierre
+-- and follow it when the closing date moves; items without it keep a manual date.
+
+CREATE TABLE public.licitacion_checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prospect_id UUID NOT NULL REFERENCES public.prospects(id) ON DELETE CASCADE,
+  -- Standard item this row came from (NULL for items added by hand)
+  item_key TEXT,
+  label TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  owner_id UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  days_before_cierre INTEGER CHECK (days_before_cierre IS NULL OR days_before_cierre BETWEEN 0 AND 90),
+  due_date DATE,
+  completed_at TIMESTAMPTZ,
+  completed_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_licitacion_checklist_prospect
+ON public.licitacion_checklist_items (prospect_id, position);
+
+ALTER TABLE public.licitacion_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view licitacion checklists"
+ON public.licitacion_checklist_items FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can create licitacion checklist items"
+ON public.licitacion_checklist_items FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update licitacion checklist items"
+ON public.licitacion_checklist_items FOR UPDATE
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can delete licitacion checklist items"
+ON public.licitacion_checklist_items FOR DELETE
+TO authenticated
+USING (true);
+
+-- Derive the due date from the closing date on insert / rule change
+CREATE OR REPLACE FUNCTION public.set_checklist_due_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cierre DATE;
+BEGIN
+  IF NEW.days_before_cierre IS NOT NULL THEN
+    SELECT licitacion_fecha_cierre INTO v_cierre FROM prospects WHERE id = NEW.prospect_id;
+    NEW.due_date := v_cierre - NEW.days_before_cierre;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_set_checklist_due_date ON public.licitacion_checklist_items;
+CREATE TRIGGER trg_set_checklist_due_date
+BEFORE INSERT OR UPDATE OF days_before_cierre ON public.licitacion_checklist_items
+FOR EACH ROW
+EXECUTE FUNCTION public.set_checklist_due_date();
+
+-- Standard items for a licitación, owned by the prospect's owner
+CREATE OR REPLACE FUNCTION public.seed_licitacion_checklist(p_prospect_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM licitacion_checklist_items WHERE prospect_id = p_prospect_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO licitacion_checklist_items (prospect_id, item_key, label, position, owner_id, days_before_cierre)
+  SELECT p_prospect_id, d.item_key, d.label, d.position, p.owner_id, d.days_before_cierre
+  FROM prospects p
+  CROSS JOIN (VALUES
+    ('aclaraciones', 'Consultas y aclaraciones al cartel', 0, 10),
+    ('certificaciones', 'Certificaciones (CCSS, FODESAF, personería)', 1, 5),
+    ('garantia_participacion', 'Garantía de participación', 2, 3),
+    ('oferta_tecnica', 'Oferta técnica', 3, 2),
+    ('oferta_economica', 'Oferta económica', 4, 1)
+  ) AS d(item_key, label, position, days_before_cierre)
+  WHERE p.id = p_prospect_id;
+END;
+$$;
+
+-- New licitaciones get the checklist; moving the closing date moves derived due dates
+CREATE OR REPLACE FUNCTION public.sync_licitacion_checklist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.prospect_type IS DISTINCT FROM 'licitacion' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR OLD.prospect_type IS DISTINCT FROM NEW.prospect_type THEN
+    PERFORM seed_licitacion_checklist(NEW.id);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.licitacion_fecha_cierre IS DISTINCT FROM OLD.licitacion_fecha_cierre THEN
+    UPDATE licitacion_checklist_items
+    SET due_date = NEW.licitacion_fecha_cierre - days_before_cierre
+    WHERE prospect_id = NEW.id
+      AND days_before_cierre IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_licitacion_checklist ON public.prospects;
+CREATE TRIGGER trg_sync_licitacion_checklist
+AFTER INSERT OR UPDATE OF prospect_type, licitacion_fecha_cierre ON public.prospects
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_licitacion_checklist();
+
+-- Existing licitaciones that are still open
+SELECT public.seed_licitacion_checklist(p.id)
+FROM public.prospects p
+WHERE p.prospect_type = 'licitacion'
+  AND p.current_phase NOT IN ('Adjudicada Ganada', 'Adjudicada Perdida');
@@ -0,0 +1,9 @@
+-- Tender category as published by SICOP (e.g. "Bienes", "Servicios").
+-- licitacion_categoria is already used for the adjudication result category.
+ALTER TABLE public.prospects
+ADD COLUMN IF NOT EXISTS licitacion_clasificacion TEXT;
+
+-- The SICOP importer matches existing licitaciones by procedure number
+CREATE INDEX IF NOT EXISTS idx_prospects_licitacion_numero
+ON public.prospects (licitacion_numero)
+WHERE licitacion_numero IS NOT NULL;
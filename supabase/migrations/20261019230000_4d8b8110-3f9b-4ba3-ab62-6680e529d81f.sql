@@ -0,0 +1,85 @@
+-- Bids recorded when a licitación is adjudicated: every bidder with its offered
+-- amount, which one won, and the amount actually awarded. Our own offer is the
+-- row with is_own = true (no competitor name).
+
+ALTER TABLE public.prospects
+ADD COLUMN IF NOT EXISTS licitacion_monto_adjudicado NUMERIC;
+
+CREATE TABLE public.licitacion_bids (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prospect_id UUID NOT NULL REFERENCES public.prospects(id) ON DELETE CASCADE,
+  competitor_name TEXT,
+  is_own BOOLEAN NOT NULL DEFAULT false,
+  offered_amount NUMERIC CHECK (offered_amount IS NULL OR offered_amount >= 0),
+  is_winner BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  CHECK (is_own OR NULLIF(btrim(competitor_name), '') IS NOT NULL)
+);
+
+CREATE INDEX idx_licitacion_bids_prospect ON public.licitacion_bids (prospect_id);
+
+-- One own offer and one winner per licitación; competitors are not repeated
+CREATE UNIQUE INDEX uq_licitacion_bids_own ON public.licitacion_bids (prospect_id) WHERE is_own;
+CREATE UNIQUE INDEX uq_licitacion_bids_winner ON public.licitacion_bids (prospect_id) WHERE is_winner;
+CREATE UNIQUE INDEX uq_licitacion_bids_competitor
+ON public.licitacion_bids (prospect_id, lower(btrim(competitor_name)))
+WHERE NOT is_own;
+
+-- Competitor report groups by name across licitaciones
+CREATE INDEX idx_licitacion_bids_competitor
+ON public.licitacion_bids (lower(btrim(competitor_name)))
+WHERE NOT is_own;
+
+ALTER TABLE public.licitacion_bids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view licitacion bids"
+ON public.licitacion_bids FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can create licitacion bids"
+ON public.licitacion_bids FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update licitacion bids"
+ON public.licitacion_bids FOR UPDATE
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can delete licitacion bids"
+ON public.licitacion_bids FOR DELETE
+TO authenticated
+USING (true);
+
+-- Replaces the bids of a licitación and stores the awarded amount in one call,
+-- so the adjudication dialog never leaves a half-saved set.
+CREATE OR REPLACE FUNCTION public.save_licitacion_bids(
+  p_prospect_id UUID,
+  p_bids JSONB,
+  p_monto_adjudicado NUMERIC DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM licitacion_bids WHERE prospect_id = p_prospect_id;
+
+  INSERT INTO licitacion_bids (prospect_id, competitor_name, is_own, offered_amount, is_winner, created_by)
+  SELECT
+    p_prospect_id,
+    CASE WHEN COALESCE((b->>'is_own')::BOOLEAN, false) THEN NULL ELSE btrim(b->>'competitor_name') END,
+    COALESCE((b->>'is_own')::BOOLEAN, false),
+    (b->>'offered_amount')::NUMERIC,
+    COALESCE((b->>'is_winner')::BOOLEAN, false),
+    auth.uid()
+  FROM jsonb_array_elements(COALESCE(p_bids, '[]'::jsonb)) AS b;
+
+  UPDATE prospects
+  SET licitacion_monto_adjudicado = p_monto_adjudicado
+  WHERE id = p_prospect_id;
+END;
+$$;
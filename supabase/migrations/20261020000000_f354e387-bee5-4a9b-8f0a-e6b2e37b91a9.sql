@@ -0,0 +1,211 @@
+-- Multi-currency amounts
+-- Every amount now carries its currency. Exchange rates are maintained by hand
+-- as colones per unit of the foreign currency, and totals are converted to the
+-- team's reporting currency with the latest rate on or before the given date.
+
+CREATE TYPE public.currency_code AS ENUM ('CRC', 'USD');
+
+-- Existing values keep their meaning: estimated_value was entered in dollars,
+-- licitación amounts in colones. Bids and the awarded amount use the
+-- licitación's currency.
+ALTER TABLE public.prospects
+ADD COLUMN IF NOT EXISTS estimated_value_currency public.currency_code NOT NULL DEFAULT 'USD',
+ADD COLUMN IF NOT EXISTS licitacion_monto_currency public.currency_code NOT NULL DEFAULT 'CRC';
+
+CREATE TABLE public.exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency public.currency_code NOT NULL CHECK (currency <> 'CRC'),
+  rate_date DATE NOT NULL,
+  crc_per_unit NUMERIC NOT NULL CHECK (crc_per_unit > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  UNIQUE (currency, rate_date)
+);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view exchange rates"
+ON public.exchange_rates
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Managers can manage exchange rates"
+ON public.exchange_rates
+FOR ALL
+TO authenticated
+USING (public.is_manager())
+WITH CHECK (public.is_manager());
+
+-- Single team-wide row
+CREATE TABLE public.currency_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporting_currency public.currency_code NOT NULL DEFAULT 'USD',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX idx_currency_settings_singleton ON public.currency_settings ((true));
+
+INSERT INTO public.currency_settings (reporting_currency) VALUES ('USD');
+
+ALTER TABLE public.currency_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view currency settings"
+ON public.currency_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Managers can manage currency settings"
+ON public.currency_settings
+FOR ALL
+TO authenticated
+USING (public.is_manager())
+WITH CHECK (public.is_manager());
+
+-- Colones per unit of p_currency on p_date: latest rate on or before the date,
+-- else the oldest one recorded. NULL when the currency has no rates at all.
+CREATE OR REPLACE FUNCTION public.crc_rate_on(p_currency public.currency_code, p_date DATE DEFAULT CURRENT_DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN p_currency = 'CRC' THEN 1 ELSE COALESCE(
+    (SELECT r.crc_per_unit FROM exchange_rates r
+     WHERE r.currency = p_currency AND r.rate_date <= p_date
+     ORDER BY r.rate_date DESC LIMIT 1),
+    (SELECT r.crc_per_unit FROM exchange_rates r
+     WHERE r.currency = p_currency
+     ORDER BY r.rate_date ASC LIMIT 1)
+  ) END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.convert_amount(
+  p_amount NUMERIC,
+  p_from public.currency_code,
+  p_to public.currency_code DEFAULT NULL,
+  p_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH target AS (
+    SELECT COALESCE(p_to, (SELECT reporting_currency FROM currency_settings LIMIT 1), 'USD') AS code
+  )
+  SELECT CASE
+    WHEN p_amount IS NULL THEN NULL
+    WHEN p_from = t.code THEN p_amount
+    ELSE p_amount * crc_rate_on(p_from, p_date) / crc_rate_on(t.code, p_date)
+  END
+  FROM target t;
+$$;
+
+-- Daily call scoring compares estimated values, so they must share a currency.
+-- Same function as before with the value converted to the reporting currency
+-- (unconverted when there is no rate yet).
+CREATE OR REPLACE FUNCTION public.get_prospects_for_daily_calls(
+  p_limit INTEGER DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  company_name TEXT,
+  owner_id UUID,
+  score NUMERIC,
+  score_breakdown JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s daily_call_settings := get_daily_call_settings(p_user_id);
+  v_currency currency_code := COALESCE((SELECT reporting_currency FROM currency_settings LIMIT 1), 'USD');
+BEGIN
+  RETURN QUERY
+  WITH eligible AS (
+    SELECT p.id, p.company_name, p.owner_id, p.created_at,
+      COALESCE(
+        convert_amount(p.estimated_value, p.estimated_value_currency, v_currency),
+        p.estimated_value,
+        0
+      ) AS estimated_value
+    FROM prospects p
+    WHERE (p.current_phase = 'Prospección' OR p.current_phase = ANY (s.extra_phases))
+      AND (p_user_id IS NULL OR p.owner_id IS NULL OR p.owner_id = p_user_id)
+      -- No pending activities in the pending window
+      AND NOT EXISTS (
+        SELECT 1 FROM activities a
+        WHERE a.prospect_id = p.id
+          AND a.status = 'pending'
+          AND a.scheduled_date <= (CURRENT_DATE + make_interval(days => s.pending_window_days))
+      )
+      -- No completed activities during the completed cooldown
+      AND NOT EXISTS (
+        SELECT 1 FROM activities a
+        WHERE a.prospect_id = p.id
+          AND a.status = 'completed'
+          AND a.completed_at >= (CURRENT_DATE - make_interval(days => s.completed_cooldown_days))
+      )
+      -- No system-generated calls during the system call cooldown
+      AND NOT EXISTS (
+        SELECT 1 FROM activities a
+        WHERE a.prospect_id = p.id
+          AND a.activity_type = 'Llamada'
+          AND a.created_by = 'system'
+          AND a.created_at >= (CURRENT_DATE - make_interval(days => s.system_call_cooldown_days))
+      )
+  ),
+  metrics AS (
+    SELECT
+      e.*,
+      (
+        SELECT (CURRENT_DATE - MAX(a.completed_at)::DATE)
+        FROM activities a
+        WHERE a.prospect_id = e.id AND a.status = 'completed'
+      ) AS days_since_touch,
+      (CURRENT_DATE - COALESCE(e.created_at, now())::DATE) AS age_days,
+      (
+        SELECT COUNT(*)::INTEGER
+        FROM activities a
+        WHERE a.prospect_id = e.id
+          AND is_failed_call_attempt(a)
+      ) AS failed_attempts,
+      MAX(e.estimated_value) OVER () AS max_value
+    FROM eligible e
+  ),
+  scored AS (
+    SELECT
+      m.*,
+      ROUND(40 * LEAST(COALESCE(m.days_since_touch, 60), 60) / 60.0, 1) AS recency_pts,
+      ROUND(CASE WHEN m.max_value > 0
+        THEN 30 * LN(1 + m.estimated_value) / LN(1 + m.max_value)
+        ELSE 0 END, 1) AS value_pts,
+      ROUND(15 * GREATEST(0, 1 - m.age_days / 180.0), 1) AS age_pts,
+      -10 * LEAST(m.failed_attempts, 3) AS failed_pts
+    FROM metrics m
+  )
+  SELECT
+    sc.id,
+    sc.company_name,
+    sc.owner_id,
+    (sc.recency_pts + sc.value_pts + sc.age_pts + sc.failed_pts)::NUMERIC AS score,
+    jsonb_build_object(
+      'recency', jsonb_build_object('days', sc.days_since_touch, 'points', sc.recency_pts),
+      'value', jsonb_build_object('amount', ROUND(sc.estimated_value, 2), 'currency', v_currency, 'points', sc.value_pts),
+      'age', jsonb_build_object('days', sc.age_days, 'points', sc.age_pts),
+      'failed_attempts', jsonb_build_object('count', sc.failed_attempts, 'points', sc.failed_pts),
+      'total', sc.recency_pts + sc.value_pts + sc.age_pts + sc.failed_pts
+    ) AS score_breakdown
+  FROM scored sc
+  ORDER BY
+    (sc.owner_id IS NOT DISTINCT FROM p_user_id) DESC,
+    (sc.recency_pts + sc.value_pts + sc.age_pts + sc.failed_pts) DESC,
+    sc.company_name
+  LIMIT COALESCE(p_limit, s.calls_per_day);
+END;
+$$;
@@ -0,0 +1,5 @@
+-- 'cancelled' activity status
+-- Kept in its own migration: a new enum value can't be used in the same
+-- transaction that adds it.
+
+ALTER TYPE public.activity_status ADD VALUE IF NOT EXISTS 'cancelled';
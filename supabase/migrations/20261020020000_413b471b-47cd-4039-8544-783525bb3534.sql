@@ -0,0 +1,395 @@
+-- Cancelled activities
+-- Activities that no longer apply (e.g. a licitación was adjudicated) used to be
+-- marked as completed with a canned comment, which inflated completion stats.
+-- They now get their own status with a reason, and every stat and list leaves
+-- them out.
+
+ALTER TABLE public.activities
+ADD COLUMN IF NOT EXISTS cancel_reason TEXT,
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL;
+
+-- Backfill before the triggers below exist, so old cancellations keep their
+-- original date and don't log a second time. Their "complete" log entries
+-- become "cancel" ones.
+WITH fixed AS (
+  UPDATE public.activities
+  SET status = 'cancelled',
+      cancel_reason = completion_comment,
+      cancelled_at = completed_at,
+      completion_comment = NULL,
+      completed_at = NULL
+  WHERE status = 'completed'
+    AND completion_comment = 'Cancelada automáticamente - Licitación adjudicada'
+  RETURNING id
+)
+UPDATE public.activity_logs l
+SET action_type = 'cancel'
+FROM fixed
+WHERE l.entity_type = 'activity'
+  AND l.entity_id = fixed.id
+  AND l.action_type = 'complete';
+
+ALTER TABLE public.activities
+ADD CONSTRAINT activities_cancel_reason_required
+CHECK (status <> 'cancelled' OR cancel_reason IS NOT NULL);
+
+-- Who and when, stamped on the way in; reopening clears them
+CREATE OR REPLACE FUNCTION public.stamp_activity_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    IF OLD.status = 'completed' THEN
+      RAISE EXCEPTION 'No se puede cancelar una actividad completada';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+  ELSIF NEW.status IS DISTINCT FROM 'cancelled' AND OLD.status = 'cancelled' THEN
+    NEW.cancel_reason := NULL;
+    NEW.cancelled_at := NULL;
+    NEW.cancelled_by := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stamp_activity_cancellation ON public.activities;
+CREATE TRIGGER trg_stamp_activity_cancellation
+BEFORE UPDATE OF status ON public.activities
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_activity_cancellation();
+
+-- A series keeps a single pending occurrence, so cancelling it has to bring
+-- the next one like completing does; otherwise the series silently ends
+DROP TRIGGER IF EXISTS trg_materialize_next_series_activity ON public.activities;
+CREATE TRIGGER trg_materialize_next_series_activity
+AFTER UPDATE OF status ON public.activities
+FOR EACH ROW
+WHEN (NEW.series_id IS NOT NULL AND NEW.status IN ('completed', 'cancelled') AND OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.materialize_next_series_activity();
+
+CREATE OR REPLACE FUNCTION public.log_activity_change()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+BEGIN
+  IF (TG_OP = 'INSERT') THEN
+    IF COALESCE(auth.uid(), NEW.assigned_to) IS NULL THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO activity_logs (user_id, action_type, entity_type, entity_id, details)
+    VALUES (
+      COALESCE(auth.uid(), NEW.assigned_to),
+      'create',
+      'activity',
+      NEW.id,
+      jsonb_build_object(
+        'prospect_name', (SELECT company_name FROM prospects WHERE id = NEW.prospect_id),
+        'activity_type', NEW.activity_type,
+        'scheduled_date', NEW.scheduled_date,
+        'notes', NEW.notes,
+        'assigned_to_name', (SELECT full_name FROM user_profiles WHERE id = NEW.assigned_to),
+        'created_by', NEW.created_by
+      )
+    );
+    RETURN NEW;
+  
+  ELSIF (TG_OP = 'UPDATE') THEN
+    IF NEW.status = 'completed' AND OLD.status != 'completed' THEN
+      INSERT INTO activity_logs (user_id, action_type, entity_type, entity_id, details)
+      VALUES (
+        auth.uid(),
+        'complete',
+        'activity',
+        NEW.id,
+        jsonb_build_object(
+          'prospect_name', (SELECT company_name FROM prospects WHERE id = NEW.prospect_id),
+          'activity_type', NEW.activity_type,
+          'scheduled_date', NEW.scheduled_date,
+          'completion_comment', NEW.completion_comment,
+          'completed_at', NEW.completed_at,
+          'notes', NEW.notes
+        )
+      );
+    
+    ELSIF NEW.status = 'blocked' AND OLD.status != 'blocked' THEN
+      INSERT INTO activity_logs (user_id, action_type, entity_type, entity_id, details)
+      VALUES (
+        auth.uid(),
+        'block',
+        'activity',
+        NEW.id,
+        jsonb_build_object(
+          'prospect_name', (SELECT company_name FROM prospects WHERE id = NEW.prospect_id),
+          'activity_type', NEW.activity_type,
+          'scheduled_date', NEW.scheduled_date,
+          'block_reason', NEW.block_reason
+        )
+      );
+
+    ELSIF NEW.status = 'cancelled' AND OLD.status != 'cancelled' THEN
+      INSERT INTO activity_logs (user_id, action_type, entity_type, entity_id, details)
+      VALUES (
+        auth.uid(),
+        'cancel',
+        'activity',
+        NEW.id,
+        jsonb_build_object(
+          'prospect_name', (SELECT company_name FROM prospects WHERE id = NEW.prospect_id),
+          'activity_type', NEW.activity_type,
+          'scheduled_date', NEW.scheduled_date,
+          'cancel_reason', NEW.cancel_reason
+        )
+      );
+    END IF;
+    
+    RETURN NEW;
+  END IF;
+END;
+$function$;
+
+-- Cancelled activities are not work: they don't count in the total either
+CREATE OR REPLACE FUNCTION public.get_user_activity_stats(p_user_id UUID)
+RETURNS TABLE (
+  total_activities BIGINT,
+  completed_this_week BIGINT,
+  pending_activities BIGINT,
+  overdue_activities BIGINT,
+  blocked_activities BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) FILTER (WHERE status <> 'cancelled') AS total_activities,
+    COUNT(*) FILTER (WHERE status = 'completed' AND completed_at >= CURRENT_DATE - 7) AS completed_this_week,
+    COUNT(*) FILTER (WHERE status = 'pending') AS pending_activities,
+    COUNT(*) FILTER (WHERE status = 'pending' AND scheduled_date < CURRENT_DATE) AS overdue_activities,
+    COUNT(*) FILTER (WHERE status = 'blocked') AS blocked_activities
+  FROM activities
+  WHERE assigned_to = p_user_id;
+END;
+$$;
+
+-- A cancelled call is not a failed attempt
+CREATE OR REPLACE FUNCTION public.get_prospects_for_daily_calls(
+  p_limit INTEGER DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  company_name TEXT,
+  owner_id UUID,
+  score NUMERIC,
+  score_breakdown JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s daily_call_settings := get_daily_call_settings(p_user_id);
+  v_currency currency_code := COALESCE((SELECT reporting_currency FROM currency_settings LIMIT 1), 'USD');
+BEGIN
+  RETURN QUERY
+  WITH eligible AS (
+    SELECT p.id, p.company_name, p.owner_id, p.created_at,
+      COALESCE(
+        convert_amount(p.estimated_value, p.estimated_value_currency, v_currency),
+        p.estimated_value,
+        0
+      ) AS estimated_value
+    FROM prospects p
+    WHERE (p.current_phase = 'Prospección' OR p.current_phase = ANY (s.extra_phases))
+      AND (p_user_id IS NULL OR p.owner_id IS NULL OR p.owner_id = p_user_id)
+      -- No pending activities in the pending window
+      AND NOT EXISTS (
+        SELECT 1 FROM activities a
+        WHERE a.prospect_id = p.id
+          AND a.status = 'pending'
+          AND a.scheduled_date <= (CURRENT_DATE + make_interval(days => s.pending_window_days))
+      )
+      -- No completed activities during the completed cooldown
+      AND NOT EXISTS (
+        SELECT 1 FROM activities a
+        WHERE a.prospect_id = p.id
+          AND a.status = 'completed'
+          AND a.completed_at >= (CURRENT_DATE - make_interval(days => s.completed_cooldown_days))
+      )
+      -- No system-generated calls during the system call cooldown
+      AND NOT EXISTS (
+        SELECT 1 FROM activities a
+        WHERE a.prospect_id = p.id
+          AND a.activity_type = 'Llamada'
+          AND a.created_by = 'system'
+          AND a.created_at >= (CURRENT_DATE - make_interval(days => s.system_call_cooldown_days))
+      )
+  ),
+  metrics AS (
+    SELECT
+      e.*,
+      (
+        SELECT (CURRENT_DATE - MAX(a.completed_at)::DATE)
+        FROM activities a
+        WHERE a.prospect_id = e.id AND a.status = 'completed'
+      ) AS days_since_touch,
+      (CURRENT_DATE - COALESCE(e.created_at, now())::DATE) AS age_days,
+      (
+        SELECT COUNT(*)::INTEGER
+        FROM activities a
+        WHERE a.prospect_id = e.id
+          AND is_failed_call_attempt(a)
+      ) AS failed_attempts,
+      MAX(e.estimated_value) OVER () AS max_value
+    FROM eligible e
+  ),
+  scored AS (
+    SELECT
+      m.*,
+      ROUND(40 * LEAST(COALESCE(m.days_since_touch, 60), 60) / 60.0, 1) AS recency_pts,
+      ROUND(CASE WHEN m.max_value > 0
+        THEN 30 * LN(1 + m.estimated_value) / LN(1 + m.max_value)
+        ELSE 0 END, 1) AS value_pts,
+      ROUND(15 * GREATEST(0, 1 - m.age_days / 180.0), 1) AS age_pts,
+      -10 * LEAST(m.failed_attempts, 3) AS failed_pts
+    FROM metrics m
+  )
+  SELECT
+    sc.id,
+    sc.company_name,
+    sc.owner_id,
+    (sc.recency_pts + sc.value_pts + sc.age_pts + sc.failed_pts)::NUMERIC AS score,
+    jsonb_build_object(
+      'recency', jsonb_build_object('days', sc.days_since_touch, 'points', sc.recency_pts),
+      'value', jsonb_build_object('amount', ROUND(sc.estimated_value, 2), 'currency', v_currency, 'points', sc.value_pts),
+      'age', jsonb_build_object('days', sc.age_days, 'points', sc.age_pts),
+      'failed_attempts', jsonb_build_object('count', sc.failed_attempts, 'points', sc.failed_pts),
+      'total', sc.recency_pts + sc.value_pts + sc.age_pts + sc.failed_pts
+    ) AS score_breakdown
+  FROM scored sc
+  ORDER BY
+    (sc.owner_id IS NOT DISTINCT FROM p_user_id) DESC,
+    (sc.recency_pts + sc.value_pts + sc.age_pts + sc.failed_pts) DESC,
+    sc.company_name
+  LIMIT COALESCE(p_limit, s.calls_per_day);
+END;
+$$;
+
+-- Search results leave cancelled activities out, like every other list, and
+-- also return the time, duration, location, contact, series and cancellation
+-- columns so a result opens like any other activity. The result columns
+-- change, so the function is dropped first.
+DROP FUNCTION IF EXISTS public.search_activities(TEXT, INTEGER, INTEGER);
+
+CREATE FUNCTION public.search_activities(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  prospect_id UUID,
+  activity_type activity_type,
+  custom_type TEXT,
+  scheduled_date DATE,
+  status activity_status,
+  notes TEXT,
+  completion_comment TEXT,
+  block_reason TEXT,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  created_by created_by_type,
+  assigned_to UUID,
+  selection_score JSONB,
+  scheduled_time TIME,
+  duration_minutes INTEGER,
+  location TEXT,
+  contact_id UUID,
+  series_id UUID,
+  cancel_reason TEXT,
+  cancelled_at TIMESTAMPTZ,
+  cancelled_by UUID,
+  updated_at TIMESTAMPTZ,
+  company_name TEXT,
+  contact_name TEXT,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT
+      search_tsquery(p_query) AS tsq,
+      trim(p_query) AS term,
+      -- Literal substring match: the user's %, _ and \ are not wildcards
+      '%' || replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  ),
+  matches AS (
+    SELECT
+      a.*,
+      p.company_name,
+      p.contact_name,
+      GREATEST(
+        ts_rank(activity_search_document(a.notes, a.completion_comment), q.tsq),
+        ts_rank(prospect_search_document(p.company_name, p.contact_name, p.licitacion_numero, p.licitacion_institucion, p.email, p.notes), q.tsq),
+        word_similarity(q.term, COALESCE(p.company_name, ''))
+      ) AS match_rank
+    FROM activities a
+    LEFT JOIN prospects p ON p.id = a.prospect_id
+    CROSS JOIN q
+    WHERE length(q.term) >= 2
+      AND a.status <> 'cancelled'
+      AND (
+        activity_search_document(a.notes, a.completion_comment) @@ q.tsq
+        OR prospect_search_document(p.company_name, p.contact_name, p.licitacion_numero, p.licitacion_institucion, p.email, p.notes) @@ q.tsq
+        OR p.company_name ILIKE q.pattern ESCAPE '\'
+        OR p.contact_name ILIKE q.pattern ESCAPE '\'
+        OR q.term <% p.company_name
+      )
+  )
+  SELECT
+    m.id,
+    m.prospect_id,
+    m.activity_type,
+    m.custom_type,
+    m.scheduled_date,
+    m.status,
+    m.notes,
+    m.completion_comment,
+    m.block_reason,
+    m.completed_at,
+    m.created_at,
+    m.created_by,
+    m.assigned_to,
+    m.selection_score,
+    m.scheduled_time,
+    m.duration_minutes,
+    m.location,
+    m.contact_id,
+    m.series_id,
+    m.cancel_reason,
+    m.cancelled_at,
+    m.cancelled_by,
+    m.updated_at,
+    m.company_name,
+    m.contact_name,
+    m.match_rank::REAL AS rank,
+    COUNT(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY m.match_rank DESC, m.scheduled_date DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
@@ -0,0 +1,105 @@
+-- Win/loss reasons for B2B prospects
+-- Moving a B2B prospect to 'Perdida' now requires one of the configurable loss
+-- reasons (plus optional details); 'Ganada' takes optional win notes. Both are
+-- kept on the prospect for the win/loss report.
+
+CREATE TABLE public.loss_reasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  label TEXT NOT NULL UNIQUE CHECK (length(trim(label)) > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.loss_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view loss reasons"
+ON public.loss_reasons
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Managers can manage loss reasons"
+ON public.loss_reasons
+FOR ALL
+TO authenticated
+USING (public.is_manager())
+WITH CHECK (public.is_manager());
+
+INSERT INTO public.loss_reasons (label, position) VALUES
+  ('Precio', 1),
+  ('Competencia', 2),
+  ('Sin presupuesto', 3),
+  ('Timing', 4),
+  ('Sin respuesta del cliente', 5),
+  ('Otro', 6);
+
+-- Reasons in use can only be deactivated, so past losses keep their label
+ALTER TABLE public.prospects
+ADD COLUMN IF NOT EXISTS loss_reason_id UUID REFERENCES public.loss_reasons(id) ON DELETE RESTRICT,
+ADD COLUMN IF NOT EXISTS loss_notes TEXT,
+ADD COLUMN IF NOT EXISTS win_notes TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_prospects_loss_reason_id ON public.prospects (loss_reason_id);
+
+-- A deal lost again needs a fresh reason; one that leaves 'Perdida' drops it
+CREATE OR REPLACE FUNCTION public.enforce_prospect_outcome()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.current_phase IS NOT DISTINCT FROM OLD.current_phase THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.current_phase = 'Perdida' THEN
+    IF NEW.loss_reason_id IS NULL THEN
+      RAISE EXCEPTION 'Se requiere una razón de pérdida para mover el prospecto a Perdida';
+    END IF;
+    NEW.win_notes := NULL;
+  ELSIF OLD.current_phase = 'Perdida' THEN
+    NEW.loss_reason_id := NULL;
+    NEW.loss_notes := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_prospect_outcome ON public.prospects;
+CREATE TRIGGER enforce_prospect_outcome
+BEFORE UPDATE OF current_phase ON public.prospects
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_prospect_outcome();
+
+-- Phase changes now carry the outcome: loss reason and notes for 'Perdida',
+-- win notes for 'Ganada'
+DROP FUNCTION IF EXISTS public.change_prospect_phase(UUID, public.phase_type, TEXT);
+
+CREATE OR REPLACE FUNCTION public.change_prospect_phase(
+  p_prospect_id UUID,
+  p_phase public.phase_type,
+  p_reason TEXT DEFAULT NULL,
+  p_loss_reason_id UUID DEFAULT NULL,
+  p_outcome_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.phase_change_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE prospects
+  SET current_phase = p_phase,
+      loss_reason_id = CASE WHEN p_phase = 'Perdida' THEN p_loss_reason_id ELSE loss_reason_id END,
+      loss_notes = CASE WHEN p_phase = 'Perdida' THEN NULLIF(trim(p_outcome_notes), '') ELSE loss_notes END,
+      win_notes = CASE WHEN p_phase = 'Ganada' THEN NULLIF(trim(p_outcome_notes), '') ELSE win_notes END,
+      updated_at = now()
+  WHERE id = p_prospect_id;
+
+  PERFORM set_config('app.phase_change_reason', '', true);
+END;
+$$;
@@ -0,0 +1,123 @@
+-- Stage gates: entry requirements per phase
+-- A prospect can only move into a phase once that phase's requirements are
+-- met. The trigger raises a readable message listing what is missing, and the
+-- same check is exposed to the app to warn before trying.
+-- New prospects (manual or imported) can start in any phase.
+
+CREATE TABLE public.phase_requirements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phase public.phase_type NOT NULL,
+  requirement_type TEXT NOT NULL CHECK (requirement_type IN ('estimated_value', 'completed_activity', 'prior_phase')),
+  -- completed_activity: any completed activity of one of these types
+  activity_types public.activity_type[],
+  -- prior_phase: the prospect must have been in this phase before
+  prior_phase public.phase_type,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT phase_requirements_activity_types_check
+    CHECK ((requirement_type = 'completed_activity') = (COALESCE(cardinality(activity_types), 0) > 0)),
+  CONSTRAINT phase_requirements_prior_phase_check
+    CHECK ((requirement_type = 'prior_phase') = (prior_phase IS NOT NULL))
+);
+
+CREATE INDEX idx_phase_requirements_phase ON public.phase_requirements (phase);
+
+ALTER TABLE public.phase_requirements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view phase requirements"
+ON public.phase_requirements
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Managers can manage phase requirements"
+ON public.phase_requirements
+FOR ALL
+TO authenticated
+USING (public.is_manager())
+WITH CHECK (public.is_manager());
+
+INSERT INTO public.phase_requirements (phase, requirement_type, activity_types, prior_phase) VALUES
+  ('Cotización', 'estimated_value', NULL, NULL),
+  ('Negociación', 'completed_activity', ARRAY['Propuesta', 'Cotización']::public.activity_type[], NULL),
+  ('Facturada', 'prior_phase', NULL, 'Ganada');
+
+-- What p_prospect still lacks to enter p_phase, as readable sentences.
+-- Takes the row so the trigger checks the values being saved.
+CREATE OR REPLACE FUNCTION public.unmet_phase_requirements(p_prospect public.prospects, p_phase public.phase_type)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r RECORD;
+  v_unmet TEXT[] := '{}';
+BEGIN
+  FOR r IN
+    SELECT * FROM phase_requirements WHERE phase = p_phase ORDER BY created_at
+  LOOP
+    IF r.requirement_type = 'estimated_value' AND COALESCE(
+      CASE WHEN p_prospect.prospect_type = 'licitacion' THEN p_prospect.licitacion_monto_estimado ELSE p_prospect.estimated_value END,
+      0
+    ) <= 0 THEN
+      v_unmet := v_unmet || 'registrar el valor estimado'::TEXT;
+    ELSIF r.requirement_type = 'completed_activity' AND NOT EXISTS (
+      SELECT 1 FROM activities a
+      WHERE a.prospect_id = p_prospect.id
+        AND a.status = 'completed'
+        AND a.activity_type = ANY (r.activity_types)
+    ) THEN
+      v_unmet := v_unmet || ('completar una actividad de tipo ' || array_to_string(r.activity_types::TEXT[], ' o '));
+    ELSIF r.requirement_type = 'prior_phase' AND NOT EXISTS (
+      SELECT 1 FROM prospect_phase_history h
+      WHERE h.prospect_id = p_prospect.id
+        AND h.phase = r.prior_phase
+    ) THEN
+      v_unmet := v_unmet || ('pasar antes por ' || r.prior_phase::TEXT);
+    END IF;
+  END LOOP;
+
+  RETURN v_unmet;
+END;
+$$;
+
+-- Requirements still missing for a prospect to enter a phase (empty when it can)
+CREATE OR REPLACE FUNCTION public.get_unmet_phase_requirements(p_prospect_id UUID, p_phase public.phase_type)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT unmet_phase_requirements(p, p_phase)
+  FROM prospects p
+  WHERE p.id = p_prospect_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_phase_requirements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_unmet TEXT[];
+BEGIN
+  IF NEW.current_phase IS NULL OR NEW.current_phase IS NOT DISTINCT FROM OLD.current_phase THEN
+    RETURN NEW;
+  END IF;
+
+  v_unmet := unmet_phase_requirements(NEW, NEW.current_phase);
+  IF cardinality(v_unmet) > 0 THEN
+    RAISE EXCEPTION 'Para mover a % falta: %', NEW.current_phase, array_to_string(v_unmet, '; ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_phase_requirements ON public.prospects;
+CREATE TRIGGER enforce_phase_requirements
+BEFORE UPDATE OF current_phase ON public.prospects
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_phase_requirements();
@@ -0,0 +1,201 @@
+-- Field-level audit trail for prospects and activities
+-- Every insert, update and delete stores the old and new value of each
+-- changed column, written by a single generic trigger. activity_logs stays
+-- the team feed; activity edits now reach it from log_activity_change instead
+-- of ad-hoc inserts from the app.
+
+CREATE TABLE public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  -- { column: { "old": ..., "new": ... } } for the columns that changed
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  changed_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_record ON public.audit_log (table_name, record_id, changed_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view the audit log"
+ON public.audit_log
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Rows are written by audit_row_change only; no direct client writes.
+
+-- { column: { old, new } } for every key whose value differs. A NULL side
+-- (insert or delete) yields every key of the other one.
+CREATE OR REPLACE FUNCTION public.jsonb_row_diff(p_old JSONB, p_new JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(k, jsonb_build_object('old', p_old -> k, 'new', p_new -> k)),
+    '{}'::jsonb
+  )
+  FROM jsonb_object_keys(COALESCE(p_old, '{}'::jsonb) || COALESCE(p_new, '{}'::jsonb)) AS k
+  WHERE k <> 'updated_at'
+    AND (p_old -> k) IS DISTINCT FROM (p_new -> k);
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changes JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_changes := jsonb_row_diff(NULL, jsonb_strip_nulls(to_jsonb(NEW)));
+  ELSIF TG_OP = 'UPDATE' THEN
+    v_changes := jsonb_row_diff(to_jsonb(OLD), to_jsonb(NEW));
+    IF v_changes = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+  ELSE
+    v_changes := jsonb_row_diff(jsonb_strip_nulls(to_jsonb(OLD)), NULL);
+  END IF;
+
+  INSERT INTO audit_log (table_name, record_id, operation, changes, changed_by)
+  VALUES (
+    TG_TABLE_NAME,
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+    TG_OP,
+    v_changes,
+    auth.uid()
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_prospects ON public.prospects;
+CREATE TRIGGER audit_prospects
+AFTER INSERT OR UPDATE OR DELETE ON public.prospects
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_activities ON public.activities;
+CREATE TRIGGER audit_activities
+AFTER INSERT OR UPDATE OR DELETE ON public.activities
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_row_change();
+
+-- Activity edits in the team feed, with the same { old, new } shape
+CREATE OR REPLACE FUNCTION public.log_activity_change()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+  v_changes JSONB;
+  -- Fields users edit by hand; the full record of changes is in audit_log
+  v_tracked TEXT[] := ARRAY['activity_type', 'custom_type', 'scheduled_date', 'scheduled_time', 'duration_minutes', 'assigned_to', 'notes', 'location', 'contact_id', 'prospect_id'];
+BEGIN
+  IF (TG_OP = 'INSERT') THEN
+    IF COALESCE(auth.uid(), NEW.assigned_to) IS NULL THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO activity_logs (user_id, action_type, entity_type, entity_id, details)
+    VALUES (
+      COALESCE(auth.uid(), NEW.assigned_to),
+      'create',
+      'activity',
+      NEW.id,
+      jsonb_build_object(
+        'prospect_name', (SELECT company_name FROM prospects WHERE id = NEW.prospect_id),
+        'activity_type', NEW.activity_type,
+        'scheduled_date', NEW.scheduled_date,
+        'notes', NEW.notes,
+        'assigned_to_name', (SELECT full_name FROM user_profiles WHERE id = NEW.assigned_to),
+        'created_by', NEW.created_by
+      )
+    );
+    RETURN NEW;
+  
+  ELSIF (TG_OP = 'UPDATE') THEN
+    IF NEW.status = 'completed' AND OLD.status != 'completed' THEN
+      INSERT INTO activity_logs (user_id, action_type, entity_type, entity_id, details)
+      VALUES (
+        auth.uid(),
+        'complete',
+        'activity',
+        NEW.id,
+        jsonb_build_object(
+          'prospect_name', (SELECT company_name FROM prospects WHERE id = NEW.prospect_id),
+          'activity_type', NEW.activity_type,
+          'scheduled_date', NEW.scheduled_date,
+          'completion_comment', NEW.completion_comment,
+          'completed_at', NEW.completed_at,
+          'notes', NEW.notes
+        )
+      );
+    
+    ELSIF NEW.status = 'blocked' AND OLD.status != 'blocked' THEN
+      INSERT INTO activity_logs (user_id, action_type, entity_type, entity_id, details)
+      VALUES (
+        auth.uid(),
+        'block',
+        'activity',
+        NEW.id,
+        jsonb_build_object(
+          'prospect_name', (SELECT company_name FROM prospects WHERE id = NEW.prospect_id),
+          'activity_type', NEW.activity_type,
+          'scheduled_date', NEW.scheduled_date,
+          'block_reason', NEW.block_reason
+        )
+      );
+
+    ELSIF NEW.status = 'cancelled' AND OLD.status != 'cancelled' THEN
+      INSERT INTO activity_logs (user_id, action_type, entity_type, entity_id, details)
+      VALUES (
+        auth.uid(),
+        'cancel',
+        'activity',
+        NEW.id,
+        jsonb_build_object(
+          'prospect_name', (SELECT company_name FROM prospects WHERE id = NEW.prospect_id),
+          'activity_type', NEW.activity_type,
+          'scheduled_date', NEW.scheduled_date,
+          'cancel_reason', NEW.cancel_reason
+        )
+      );
+
+    -- Plain edits (same status): reschedules, reassignments, type or notes
+    ELSIF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+      v_changes := jsonb_row_diff(to_jsonb(OLD), to_jsonb(NEW));
+      v_changes := v_changes - ARRAY(
+        SELECT k FROM jsonb_object_keys(v_changes) AS k WHERE NOT k = ANY (v_tracked)
+      );
+
+      IF v_changes <> '{}'::jsonb AND COALESCE(auth.uid(), NEW.assigned_to) IS NOT NULL THEN
+        INSERT INTO activity_logs (user_id, action_type, entity_type, entity_id, details)
+        VALUES (
+          COALESCE(auth.uid(), NEW.assigned_to),
+          'update',
+          'activity',
+          NEW.id,
+          jsonb_build_object(
+            'prospect_name', (SELECT company_name FROM prospects WHERE id = NEW.prospect_id),
+            'activity_type', NEW.activity_type,
+            'scheduled_date', NEW.scheduled_date,
+            'changes', v_changes
+          )
+        );
+      END IF;
+    END IF;
+    
+    RETURN NEW;
+  END IF;
+END;
+$function$;
@@ -0,0 +1,694 @@
+-- Soft delete and papelera for prospects and activities
+-- Deleting only stamps deleted_at/deleted_by; managers restore from the
+-- papelera or purge what has been there long enough.
+
+ALTER TABLE public.prospects
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.activities
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_prospects_deleted_at ON public.prospects (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_activities_deleted_at ON public.activities (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Deleted rows disappear from every client query. Restrictive policies are
+-- ANDed with the existing ones; deleting, restoring and purging go through
+-- the functions below.
+CREATE POLICY "Hide deleted prospects"
+ON public.prospects
+AS RESTRICTIVE
+FOR SELECT
+TO authenticated
+USING (deleted_at IS NULL);
+
+CREATE POLICY "Deleted prospects are read-only"
+ON public.prospects
+AS RESTRICTIVE
+FOR UPDATE
+TO authenticated
+USING (deleted_at IS NULL);
+
+CREATE POLICY "Prospects are only soft deleted"
+ON public.prospects
+AS RESTRICTIVE
+FOR DELETE
+TO authenticated
+USING (false);
+
+CREATE POLICY "Hide deleted activities"
+ON public.activities
+AS RESTRICTIVE
+FOR SELECT
+TO authenticated
+USING (deleted_at IS NULL);
+
+CREATE POLICY "Deleted activities are read-only"
+ON public.activities
+AS RESTRICTIVE
+FOR UPDATE
+TO authenticated
+USING (deleted_at IS NULL);
+
+CREATE POLICY "Activities are only soft deleted"
+ON public.activities
+AS RESTRICTIVE
+FOR DELETE
+TO authenticated
+USING (false);
+
+-- Sends a prospect and its activities to the papelera. They share the
+-- deleted_at stamp so restoring the prospect brings back exactly those.
+CREATE OR REPLACE FUNCTION public.soft_delete_prospect(p_prospect_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_prospect prospects;
+  v_now TIMESTAMPTZ := now();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_prospect FROM prospects WHERE id = p_prospect_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prospect not found';
+  END IF;
+
+  IF NOT (is_manager() OR v_prospect.owner_id IS NULL OR v_prospect.owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Solo el responsable o un gerente puede eliminar este prospecto';
+  END IF;
+
+  -- Prospect first, so its series don't spawn new occurrences below
+  UPDATE prospects
+  SET deleted_at = v_now, deleted_by = auth.uid()
+  WHERE id = p_prospect_id;
+
+  UPDATE activities
+  SET deleted_at = v_now, deleted_by = auth.uid()
+  WHERE prospect_id = p_prospect_id
+    AND deleted_at IS NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.soft_delete_activity(p_activity_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_activity activities;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_activity FROM activities WHERE id = p_activity_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Activity not found';
+  END IF;
+
+  -- Same rule as the former delete policy
+  IF NOT (is_manager() OR v_activity.assigned_to IS NULL OR v_activity.assigned_to = auth.uid()) THEN
+    RAISE EXCEPTION 'Solo el responsable o un gerente puede eliminar esta actividad';
+  END IF;
+
+  UPDATE activities
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE id = p_activity_id;
+END;
+$$;
+
+-- Papelera contents. Activities deleted together with their prospect are
+-- listed under it (activity_count) rather than one by one.
+CREATE OR REPLACE FUNCTION public.get_trash()
+RETURNS TABLE (
+  item_type TEXT,
+  id UUID,
+  title TEXT,
+  detail TEXT,
+  deleted_at TIMESTAMPTZ,
+  deleted_by_name TEXT,
+  activity_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_manager() THEN
+    RAISE EXCEPTION 'Solo los gerentes pueden ver la papelera';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    'prospect'::TEXT,
+    p.id,
+    p.company_name,
+    p.current_phase::TEXT,
+    p.deleted_at,
+    u.full_name,
+    (
+      SELECT COUNT(*)::INTEGER FROM activities a
+      WHERE a.prospect_id = p.id AND a.deleted_at = p.deleted_at
+    )
+  FROM prospects p
+  LEFT JOIN user_profiles u ON u.id = p.deleted_by
+  WHERE p.deleted_at IS NOT NULL
+  UNION ALL
+  SELECT
+    'activity'::TEXT,
+    a.id,
+    COALESCE(a.custom_type, a.activity_type::TEXT) || ' · ' || to_char(a.scheduled_date, 'DD/MM/YYYY'),
+    pr.company_name,
+    a.deleted_at,
+    u.full_name,
+    0
+  FROM activities a
+  LEFT JOIN prospects pr ON pr.id = a.prospect_id
+  LEFT JOIN user_profiles u ON u.id = a.deleted_by
+  WHERE a.deleted_at IS NOT NULL
+    AND a.deleted_at IS DISTINCT FROM pr.deleted_at
+  ORDER BY 5 DESC;
+END;
+$$;
+
+-- Brings an item back. A prospect returns with the activities deleted
+-- along with it; an activity needs its prospect to be restored first.
+CREATE OR REPLACE FUNCTION public.restore_deleted(p_item_type TEXT, p_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted_at TIMESTAMPTZ;
+  v_prospect_id UUID;
+BEGIN
+  IF NOT is_manager() THEN
+    RAISE EXCEPTION 'Solo los gerentes pueden restaurar desde la papelera';
+  END IF;
+
+  IF p_item_type = 'prospect' THEN
+    SELECT deleted_at INTO v_deleted_at FROM prospects WHERE id = p_id;
+    IF v_deleted_at IS NULL THEN
+      RAISE EXCEPTION 'El prospecto no está en la papelera';
+    END IF;
+
+    UPDATE prospects SET deleted_at = NULL, deleted_by = NULL WHERE id = p_id;
+    UPDATE activities SET deleted_at = NULL, deleted_by = NULL
+    WHERE prospect_id = p_id AND deleted_at = v_deleted_at;
+
+  ELSIF p_item_type = 'activity' THEN
+    SELECT deleted_at, prospect_id INTO v_deleted_at, v_prospect_id FROM activities WHERE id = p_id;
+    IF v_deleted_at IS NULL THEN
+      RAISE EXCEPTION 'La actividad no está en la papelera';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM prospects WHERE id = v_prospect_id AND deleted_at IS NOT NULL) THEN
+      RAISE EXCEPTION 'Restaura primero el prospecto de esta actividad';
+    END IF;
+
+    UPDATE activities SET deleted_at = NULL, deleted_by = NULL WHERE id = p_id;
+
+  ELSE
+    RAISE EXCEPTION 'Tipo de elemento no válido: %', p_item_type;
+  END IF;
+END;
+$$;
+
+-- Permanently removes what has been in the papelera for more than
+-- p_older_than_days days. Returns how many prospects and activities went.
+CREATE OR REPLACE FUNCTION public.purge_deleted(p_older_than_days INTEGER DEFAULT 30)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cutoff TIMESTAMPTZ := now() - make_interval(days => GREATEST(p_older_than_days, 0));
+  v_activities INTEGER;
+  v_prospects INTEGER;
+BEGIN
+  IF NOT is_manager() THEN
+    RAISE EXCEPTION 'Solo los gerentes pueden vaciar la papelera';
+  END IF;
+
+  DELETE FROM activities a
+  WHERE a.deleted_at < v_cutoff
+     OR a.prospect_id IN (SELECT p.id FROM prospects p WHERE p.deleted_at < v_cutoff);
+  GET DIAGNOSTICS v_activities = ROW_COUNT;
+
+  DELETE FROM prospects WHERE deleted_at < v_cutoff;
+  GET DIAGNOSTICS v_prospects = ROW_COUNT;
+
+  RETURN v_activities + v_prospects;
+END;
+$$;
+
+-- Functions that bypass RLS must skip deleted rows themselves
+
+CREATE OR REPLACE FUNCTION public.get_user_activity_stats(p_user_id UUID)
+RETURNS TABLE (
+  total_activities BIGINT,
+  completed_this_week BIGINT,
+  pending_activities BIGINT,
+  overdue_activities BIGINT,
+  blocked_activities BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) FILTER (WHERE status <> 'cancelled') AS total_activities,
+    COUNT(*) FILTER (WHERE status = 'completed' AND completed_at >= CURRENT_DATE - 7) AS completed_this_week,
+    COUNT(*) FILTER (WHERE status = 'pending') AS pending_activities,
+    COUNT(*) FILTER (WHERE status = 'pending' AND scheduled_date < CURRENT_DATE) AS overdue_activities,
+    COUNT(*) FILTER (WHERE status = 'blocked') AS blocked_activities
+  FROM activities
+  WHERE assigned_to = p_user_id
+    AND deleted_at IS NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_prospects_for_daily_calls(
+  p_limit INTEGER DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  company_name TEXT,
+  owner_id UUID,
+  score NUMERIC,
+  score_breakdown JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s daily_call_settings := get_daily_call_settings(p_user_id);
+  v_currency currency_code := COALESCE((SELECT reporting_currency FROM currency_settings LIMIT 1), 'USD');
+BEGIN
+  RETURN QUERY
+  WITH eligible AS (
+    SELECT p.id, p.company_name, p.owner_id, p.created_at,
+      COALESCE(
+        convert_amount(p.estimated_value, p.estimated_value_currency, v_currency),
+        p.estimated_value,
+        0
+      ) AS estimated_value
+    FROM prospects p
+    WHERE (p.current_phase = 'Prospección' OR p.current_phase = ANY (s.extra_phases))
+      AND (p_user_id IS NULL OR p.owner_id IS NULL OR p.owner_id = p_user_id)
+      AND p.deleted_at IS NULL
+      -- No pending activities in the pending window
+      AND NOT EXISTS (
+        SELECT 1 FROM activities a
+        WHERE a.prospect_id = p.id
+          AND a.deleted_at IS NULL
+          AND a.status = 'pending'
+          AND a.scheduled_date <= (CURRENT_DATE + make_interval(days => s.pending_window_days))
+      )
+      -- No completed activities during the completed cooldown
+      AND NOT EXISTS (
+        SELECT 1 FROM activities a
+        WHERE a.prospect_id = p.id
+          AND a.deleted_at IS NULL
+          AND a.status = 'completed'
+          AND a.completed_at >= (CURRENT_DATE - make_interval(days => s.completed_cooldown_days))
+      )
+      -- No system-generated calls during the system call cooldown
+      AND NOT EXISTS (
+        SELECT 1 FROM activities a
+        WHERE a.prospect_id = p.id
+          AND a.deleted_at IS NULL
+          AND a.activity_type = 'Llamada'
+          AND a.created_by = 'system'
+          AND a.created_at >= (CURRENT_DATE - make_interval(days => s.system_call_cooldown_days))
+      )
+  ),
+  metrics AS (
+    SELECT
+      e.*,
+      (
+        SELECT (CURRENT_DATE - MAX(a.completed_at)::DATE)
+        FROM activities a
+        WHERE a.prospect_id = e.id AND a.status = 'completed' AND a.deleted_at IS NULL
+      ) AS days_since_touch,
+      (CURRENT_DATE - COALESCE(e.created_at, now())::DATE) AS age_days,
+      (
+        SELECT COUNT(*)::INTEGER
+        FROM activities a
+        WHERE a.prospect_id = e.id
+          AND a.deleted_at IS NULL
+          AND is_failed_call_attempt(a)
+      ) AS failed_attempts,
+      MAX(e.estimated_value) OVER () AS max_value
+    FROM eligible e
+  ),
+  scored AS (
+    SELECT
+      m.*,
+      ROUND(40 * LEAST(COALESCE(m.days_since_touch, 60), 60) / 60.0, 1) AS recency_pts,
+      ROUND(CASE WHEN m.max_value > 0
+        THEN 30 * LN(1 + m.estimated_value) / LN(1 + m.max_value)
+        ELSE 0 END, 1) AS value_pts,
+      ROUND(15 * GREATEST(0, 1 - m.age_days / 180.0), 1) AS age_pts,
+      -10 * LEAST(m.failed_attempts, 3) AS failed_pts
+    FROM metrics m
+  )
+  SELECT
+    sc.id,
+    sc.company_name,
+    sc.owner_id,
+    (sc.recency_pts + sc.value_pts + sc.age_pts + sc.failed_pts)::NUMERIC AS score,
+    jsonb_build_object(
+      'recency', jsonb_build_object('days', sc.days_since_touch, 'points', sc.recency_pts),
+      'value', jsonb_build_object('amount', ROUND(sc.estimated_value, 2), 'currency', v_currency, 'points', sc.value_pts),
+      'age', jsonb_build_object('days', sc.age_days, 'points', sc.age_pts),
+      'failed_attempts', jsonb_build_object('count', sc.failed_attempts, 'points', sc.failed_pts),
+      'total', sc.recency_pts + sc.value_pts + sc.age_pts + sc.failed_pts
+    ) AS score_breakdown
+  FROM scored sc
+  ORDER BY
+    (sc.owner_id IS NOT DISTINCT FROM p_user_id) DESC,
+    (sc.recency_pts + sc.value_pts + sc.age_pts + sc.failed_pts) DESC,
+    sc.company_name
+  LIMIT COALESCE(p_limit, s.calls_per_day);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_daily_calls(p_date DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_salesperson RECORD;
+  v_settings daily_call_settings;
+  v_candidate RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  -- Claim the day; a second run (or a concurrent one) stops here
+  INSERT INTO daily_call_runs (run_date) VALUES (p_date)
+  ON CONFLICT (run_date) DO NOTHING;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Salespersons with the lightest pending queue pick first
+  FOR v_salesperson IN
+    SELECT u.id
+    FROM user_profiles u
+    WHERE u.role = 'salesperson'
+    ORDER BY
+      (SELECT COUNT(*) FROM activities a WHERE a.assigned_to = u.id AND a.status = 'pending' AND a.deleted_at IS NULL),
+      u.full_name
+  LOOP
+    v_settings := get_daily_call_settings(v_salesperson.id);
+
+    CONTINUE WHEN NOT (EXTRACT(ISODOW FROM p_date)::INTEGER = ANY (v_settings.active_days));
+    CONTINUE WHEN v_settings.calls_per_day <= 0;
+
+    FOR v_candidate IN
+      SELECT * FROM get_prospects_for_daily_calls(v_settings.calls_per_day, v_salesperson.id)
+    LOOP
+      INSERT INTO activities (prospect_id, activity_type, scheduled_date, status, created_by, notes, assigned_to, selection_score)
+      VALUES (
+        v_candidate.id,
+        'Llamada',
+        p_date,
+        'pending',
+        'system',
+        'Primera llamada de calificación - ' || v_candidate.company_name,
+        v_salesperson.id,
+        v_candidate.score_breakdown
+      );
+      v_count := v_count + 1;
+    END LOOP;
+  END LOOP;
+
+  UPDATE daily_call_runs SET generated_count = v_count WHERE run_date = p_date;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unmet_phase_requirements(p_prospect public.prospects, p_phase public.phase_type)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r RECORD;
+  v_unmet TEXT[] := '{}';
+BEGIN
+  FOR r IN
+    SELECT * FROM phase_requirements WHERE phase = p_phase ORDER BY created_at
+  LOOP
+    IF r.requirement_type = 'estimated_value' AND COALESCE(
+      CASE WHEN p_prospect.prospect_type = 'licitacion' THEN p_prospect.licitacion_monto_estimado ELSE p_prospect.estimated_value END,
+      0
+    ) <= 0 THEN
+      v_unmet := v_unmet || 'registrar el valor estimado'::TEXT;
+    ELSIF r.requirement_type = 'completed_activity' AND NOT EXISTS (
+      SELECT 1 FROM activities a
+      WHERE a.prospect_id = p_prospect.id
+        AND a.status = 'completed'
+        AND a.deleted_at IS NULL
+        AND a.activity_type = ANY (r.activity_types)
+    ) THEN
+      v_unmet := v_unmet || ('completar una actividad de tipo ' || array_to_string(r.activity_types::TEXT[], ' o '));
+    ELSIF r.requirement_type = 'prior_phase' AND NOT EXISTS (
+      SELECT 1 FROM prospect_phase_history h
+      WHERE h.prospect_id = p_prospect.id
+        AND h.phase = r.prior_phase
+    ) THEN
+      v_unmet := v_unmet || ('pasar antes por ' || r.prior_phase::TEXT);
+    END IF;
+  END LOOP;
+
+  RETURN v_unmet;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_phase_playbook(
+  p_prospect_id UUID,
+  p_phase public.phase_type DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_prospect prospects;
+  v_phase phase_type;
+  v_created INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_prospect FROM prospects WHERE id = p_prospect_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prospect not found';
+  END IF;
+
+  -- The activities go to the owner (or the caller), which the activity RLS
+  -- only allows for managers, the owner, or unowned prospects
+  IF NOT (is_manager() OR v_prospect.owner_id IS NULL OR v_prospect.owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Solo el responsable o un gerente puede aplicar el playbook de este prospecto';
+  END IF;
+
+  v_phase := COALESCE(p_phase, v_prospect.current_phase);
+
+  INSERT INTO activities (
+    prospect_id, activity_type, custom_type, notes, scheduled_date,
+    status, created_by, assigned_to
+  )
+  SELECT
+    v_prospect.id,
+    s.activity_type,
+    s.custom_type,
+    s.notes,
+    CURRENT_DATE + s.day_offset,
+    'pending',
+    -- Marked like activities the caller schedules by hand: 'system' is only for
+    -- the daily calls, which the generator's cooldown and dedupe look for
+    CASE WHEN is_manager() THEN 'manager' ELSE 'salesperson' END::created_by_type,
+    COALESCE(v_prospect.owner_id, auth.uid())
+  FROM phase_playbook_steps s
+  WHERE s.phase = v_phase
+    AND NOT EXISTS (
+      SELECT 1 FROM activities a
+      WHERE a.prospect_id = v_prospect.id
+        AND a.status = 'pending'
+        AND a.deleted_at IS NULL
+        AND a.activity_type = s.activity_type
+        AND a.notes IS NOT DISTINCT FROM s.notes
+    )
+  ORDER BY s.position;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reassign_prospect_owner(
+  p_from_user UUID,
+  p_to_user UUID,
+  p_include_activities BOOLEAN DEFAULT true
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT is_manager() THEN
+    RAISE EXCEPTION 'Solo los gerentes pueden reasignar carteras';
+  END IF;
+
+  IF p_from_user = p_to_user THEN
+    RETURN 0;
+  END IF;
+
+  IF p_include_activities THEN
+    UPDATE activities a
+    SET assigned_to = p_to_user
+    FROM prospects p
+    WHERE a.prospect_id = p.id
+      AND p.owner_id = p_from_user
+      AND a.assigned_to = p_from_user
+      AND a.status IN ('pending', 'blocked')
+      AND a.deleted_at IS NULL
+      AND p.deleted_at IS NULL;
+  END IF;
+
+  UPDATE prospects
+  SET owner_id = p_to_user
+  WHERE owner_id = p_from_user
+    AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_phase_cycle_times()
+RETURNS TABLE (
+  phase public.phase_type,
+  avg_days NUMERIC,
+  transitions BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    h.phase,
+    ROUND(AVG(EXTRACT(EPOCH FROM (h.exited_at - h.entered_at)) / 86400)::NUMERIC, 1) AS avg_days,
+    COUNT(*) AS transitions
+  FROM prospect_phase_history h
+  JOIN prospects p ON p.id = h.prospect_id
+  WHERE h.exited_at IS NOT NULL
+    AND p.deleted_at IS NULL
+  GROUP BY h.phase;
+END;
+$$;
+
+-- A series keeps a single pending occurrence: trashing it brings the next one,
+-- like completing or cancelling does, and a trashed one no longer blocks it
+CREATE OR REPLACE FUNCTION public.materialize_next_series_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series activity_series;
+  v_next DATE;
+BEGIN
+  SELECT * INTO v_series
+  FROM activity_series
+  WHERE id = NEW.series_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_series.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  -- The whole prospect went to the papelera; restoring it brings the occurrence back
+  IF EXISTS (SELECT 1 FROM prospects WHERE id = v_series.prospect_id AND deleted_at IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Another occurrence is already waiting (e.g. completed, reopened, completed again)
+  IF EXISTS (
+    SELECT 1 FROM activities
+    WHERE series_id = NEW.series_id
+      AND id <> NEW.id
+      AND status = 'pending'
+      AND deleted_at IS NULL
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_series.max_occurrences IS NOT NULL
+     AND v_series.occurrence_count >= v_series.max_occurrences THEN
+    UPDATE activity_series SET is_active = false, updated_at = now() WHERE id = v_series.id;
+    RETURN NEW;
+  END IF;
+
+  -- Late completions don't spawn occurrences in the past
+  v_next := next_series_date(v_series, GREATEST(NEW.scheduled_date, CURRENT_DATE - 1));
+
+  IF v_next IS NULL OR (v_series.end_date IS NOT NULL AND v_next > v_series.end_date) THEN
+    UPDATE activity_series SET is_active = false, updated_at = now() WHERE id = v_series.id;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO activities (
+    prospect_id, activity_type, custom_type, notes, assigned_to, contact_id,
+    scheduled_date, scheduled_time, duration_minutes, location,
+    status, created_by, series_id
+  ) VALUES (
+    v_series.prospect_id, v_series.activity_type, v_series.custom_type, v_series.notes,
+    v_series.assigned_to, v_series.contact_id,
+    v_next, v_series.scheduled_time, v_series.duration_minutes, v_series.location,
+    'pending', COALESCE(v_series.created_by, 'system'), v_series.id
+  );
+
+  UPDATE activity_series
+  SET occurrence_count = occurrence_count + 1,
+      updated_at = now()
+  WHERE id = v_series.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_materialize_series_on_soft_delete ON public.activities;
+CREATE TRIGGER trg_materialize_series_on_soft_delete
+AFTER UPDATE OF deleted_at ON public.activities
+FOR EACH ROW
+WHEN (NEW.series_id IS NOT NULL AND NEW.status = 'pending' AND OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+EXECUTE FUNCTION public.materialize_next_series_activity();
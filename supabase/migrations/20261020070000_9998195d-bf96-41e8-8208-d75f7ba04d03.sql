@@ -0,0 +1,39 @@
+-- Phase changes apply the new phase's playbook in the same transaction: a
+-- playbook that fails (e.g. the caller may not create activities for the
+-- prospect) rolls the move back instead of leaving the prospect in the new
+-- phase without its activities. Returns how many playbook activities were created.
+DROP FUNCTION IF EXISTS public.change_prospect_phase(UUID, public.phase_type, TEXT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.change_prospect_phase(
+  p_prospect_id UUID,
+  p_phase public.phase_type,
+  p_reason TEXT DEFAULT NULL,
+  p_loss_reason_id UUID DEFAULT NULL,
+  p_outcome_notes TEXT DEFAULT NULL,
+  p_apply_playbook BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.phase_change_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE prospects
+  SET current_phase = p_phase,
+      loss_reason_id = CASE WHEN p_phase = 'Perdida' THEN p_loss_reason_id ELSE loss_reason_id END,
+      loss_notes = CASE WHEN p_phase = 'Perdida' THEN NULLIF(trim(p_outcome_notes), '') ELSE loss_notes END,
+      win_notes = CASE WHEN p_phase = 'Ganada' THEN NULLIF(trim(p_outcome_notes), '') ELSE win_notes END,
+      updated_at = now()
+  WHERE id = p_prospect_id;
+
+  PERFORM set_config('app.phase_change_reason', '', true);
+
+  IF NOT p_apply_playbook THEN
+    RETURN 0;
+  END IF;
+
+  RETURN apply_phase_playbook(p_prospect_id, p_phase);
+END;
+$$;
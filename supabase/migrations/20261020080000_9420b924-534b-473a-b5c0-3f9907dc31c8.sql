@@ -0,0 +1,55 @@
+-- Closing a prospect can cancel its open activities in the same transaction as
+-- the phase change, so a failure doesn't leave it closed with activities still
+-- pending. Recurring series stop first; otherwise each cancelled occurrence
+-- would bring the next one. The cancellation runs before the playbook, so the
+-- new phase's activities survive.
+DROP FUNCTION IF EXISTS public.change_prospect_phase(UUID, public.phase_type, TEXT, UUID, TEXT, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.change_prospect_phase(
+  p_prospect_id UUID,
+  p_phase public.phase_type,
+  p_reason TEXT DEFAULT NULL,
+  p_loss_reason_id UUID DEFAULT NULL,
+  p_outcome_notes TEXT DEFAULT NULL,
+  p_apply_playbook BOOLEAN DEFAULT false,
+  p_cancel_pending BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.phase_change_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE prospects
+  SET current_phase = p_phase,
+      loss_reason_id = CASE WHEN p_phase = 'Perdida' THEN p_loss_reason_id ELSE loss_reason_id END,
+      loss_notes = CASE WHEN p_phase = 'Perdida' THEN NULLIF(trim(p_outcome_notes), '') ELSE loss_notes END,
+      win_notes = CASE WHEN p_phase = 'Ganada' THEN NULLIF(trim(p_outcome_notes), '') ELSE win_notes END,
+      updated_at = now()
+  WHERE id = p_prospect_id;
+
+  PERFORM set_config('app.phase_change_reason', '', true);
+
+  IF p_cancel_pending THEN
+    UPDATE activity_series
+    SET is_active = false,
+        updated_at = now()
+    WHERE prospect_id = p_prospect_id
+      AND is_active;
+
+    UPDATE activities
+    SET status = 'cancelled',
+        cancel_reason = 'Prospecto movido a ' || p_phase::TEXT
+    WHERE prospect_id = p_prospect_id
+      AND status IN ('pending', 'blocked');
+  END IF;
+
+  IF NOT p_apply_playbook THEN
+    RETURN 0;
+  END IF;
+
+  RETURN apply_phase_playbook(p_prospect_id, p_phase);
+END;
+$$;
@@ -0,0 +1,64 @@
+-- Adjudicating a licitación records its result (categoría and details) and the
+-- bids in the same transaction as the phase change, so a rejected or failed
+-- step never leaves the prospect adjudicated with half of its data, and the
+-- dialog can simply be submitted again.
+DROP FUNCTION IF EXISTS public.change_prospect_phase(UUID, public.phase_type, TEXT, UUID, TEXT, BOOLEAN, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.change_prospect_phase(
+  p_prospect_id UUID,
+  p_phase public.phase_type,
+  p_reason TEXT DEFAULT NULL,
+  p_loss_reason_id UUID DEFAULT NULL,
+  p_outcome_notes TEXT DEFAULT NULL,
+  p_apply_playbook BOOLEAN DEFAULT false,
+  p_cancel_pending BOOLEAN DEFAULT false,
+  p_licitacion_categoria TEXT DEFAULT NULL,
+  p_licitacion_razon_resultado TEXT DEFAULT NULL,
+  p_bids JSONB DEFAULT NULL,
+  p_monto_adjudicado NUMERIC DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.phase_change_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE prospects
+  SET current_phase = p_phase,
+      loss_reason_id = CASE WHEN p_phase = 'Perdida' THEN p_loss_reason_id ELSE loss_reason_id END,
+      loss_notes = CASE WHEN p_phase = 'Perdida' THEN NULLIF(trim(p_outcome_notes), '') ELSE loss_notes END,
+      win_notes = CASE WHEN p_phase = 'Ganada' THEN NULLIF(trim(p_outcome_notes), '') ELSE win_notes END,
+      licitacion_categoria = COALESCE(NULLIF(p_licitacion_categoria, ''), licitacion_categoria),
+      licitacion_razon_resultado = COALESCE(NULLIF(p_licitacion_razon_resultado, ''), licitacion_razon_resultado),
+      updated_at = now()
+  WHERE id = p_prospect_id;
+
+  PERFORM set_config('app.phase_change_reason', '', true);
+
+  IF p_bids IS NOT NULL THEN
+    PERFORM save_licitacion_bids(p_prospect_id, p_bids, p_monto_adjudicado);
+  END IF;
+
+  IF p_cancel_pending THEN
+    UPDATE activity_series
+    SET is_active = false,
+        updated_at = now()
+    WHERE prospect_id = p_prospect_id
+      AND is_active;
+
+    UPDATE activities
+    SET status = 'cancelled',
+        cancel_reason = 'Prospecto movido a ' || p_phase::TEXT
+    WHERE prospect_id = p_prospect_id
+      AND status IN ('pending', 'blocked');
+  END IF;
+
+  IF NOT p_apply_playbook THEN
+    RETURN 0;
+  END IF;
+
+  RETURN apply_phase_playbook(p_prospect_id, p_phase);
+END;
+$$;